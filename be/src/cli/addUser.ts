@@ -0,0 +1,25 @@
+// Creates or updates a user that can sign in through POST /api/auth/login:
+//   npm run add-user -- <username> <password> [workspace] [role]
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_WORKSPACE, ROLES, createUserStore, hashPassword, isRole } from '../lib/auth';
+import { loadConfigOrExit } from '../lib/config';
+
+const [username, password, workspace = DEFAULT_WORKSPACE, role = 'editor'] = process.argv.slice(2);
+
+if (!username || !password || !isRole(role)) {
+    console.error(`Usage: add-user <username> <password> [workspace] [${ROLES.join('|')}]`);
+    process.exit(1);
+}
+
+const users = createUserStore(loadConfigOrExit().auth.usersFile || path.join(__dirname, '..', 'data', 'users.json'));
+const existing = users.findByUsername(username);
+users.put({
+    id: existing?.id || uuidv4(),
+    username,
+    passwordHash: hashPassword(password),
+    workspace,
+    role,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+});
+console.log(`${existing ? 'Updated' : 'Created'} ${role} ${username} in workspace ${workspace}`);
@@ -2,227 +2,800 @@
 import express from 'express';
 import multer from 'multer';
 import cors from 'cors';
+import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs';
+import http from 'http';
 import { v4 as uuidv4 } from 'uuid';
+import {
+    ImageInUseResponse,
+    ImageListResponse,
+    ImageMetadata,
+    ImageUsagesResponse,
+    UPLOAD_CONTRACT_VERSION,
+    UPLOAD_ERROR_STATUS,
+    RejectedFile,
+    UploadErrorCode,
+    UploadResponse,
+    UploadedFile,
+    UsageResponse,
+    describeRejections,
+    imageListQuerySchema,
+    publicBackendUrl,
+    uploadFailure,
+} from '@next-page-builder/contracts';
+import {
+    DenyHandler,
+    canManage,
+    canView,
+    createAuthenticator,
+    createUserStore,
+    indexApiKeys,
+    principalOf,
+} from './lib/auth';
+import { loadConfigOrExit } from './lib/config';
+import { isPreserveMetadataFlag } from './lib/embeddedMetadata';
+import { HashedFile, createHashingDiskStorage } from './lib/hashingDiskStorage';
+import { runHealthChecks, storageCheck } from './lib/health';
+import { ImageMetadataError, applyMetadata, parseImageMetadata, parseUploadMetadataField } from './lib/imageMetadata';
+import { ImageQueryError, queryImages } from './lib/imageQuery';
+import { findImageTypeByMimetype } from './lib/imageSignature';
+import { findImageUsages, isImageInUse } from './lib/imageUsage';
+import { createIngester } from './lib/ingest';
+import { createKeyedLock } from './lib/keyedLock';
+import {
+    createMetadataStore,
+    holdsReference,
+    referenceCount,
+    releaseReference,
+} from './lib/metadataStore';
+import { toRevision } from './lib/pageDocument';
+import { createPagePublisher } from './lib/pagePublishing';
+import { PageRecord, createPageStore } from './lib/pageStore';
+import { QuotaExceededError, createQuotaTracker } from './lib/quota';
+import { createRateLimiter, rateLimit, toRateLimitStatus } from './lib/rateLimiter';
+import { logger, setLogLevel } from './lib/logger';
+import { LATENCY_BUCKETS, createMetricsRegistry } from './lib/metrics';
+import { reconcileUploads } from './lib/reconcile';
+import { createReferenceSweeper } from './lib/referenceSweep';
+import { REQUEST_ID_HEADER, requestContext } from './lib/requestContext';
+import { createResumableStore } from './lib/resumableStore';
+import { createRevisionStore } from './lib/revisionStore';
+import { createGracefulShutdown } from './lib/shutdown';
+import { createSiteRevalidator } from './lib/siteRevalidation';
+import { createStorage } from './lib/storage';
+import { createTransformCache } from './lib/transformCache';
+import { mapMulterError, sendQuotaExceeded } from './lib/uploadErrors';
+import { createUploadMetrics } from './lib/uploadMetrics';
+import { toImageSummary, toImageUrl, toUploadedFile } from './lib/uploadResponse';
+import { removeVariants } from './lib/variants';
+import { createAssetRouter } from './routes/assets';
+import { createAuthRouter } from './routes/auth';
+import { createPageRouter } from './routes/pages';
+import { createPublishedPageRouter } from './routes/publishedPages';
+import { createResumableUploadRouter } from './routes/resumableUploads';
+import { createTransformRouter } from './routes/transforms';
+
+// Defaults, config file and environment, validated before anything else starts
+const config = loadConfigOrExit();
+const { uploads: uploadLimits } = config;
+// Asset and variant URLs in responses start with it, browsers load them from there
+const assetBaseUrl = publicBackendUrl(config);
+setLogLevel(config.logging.level);
 
 const app = express();
-const PORT = process.env.PORT || 8080;
+const server = http.createServer(app);
+
+// Served on /metrics in the Prometheus text format
+const metrics = createMetricsRegistry();
+const requestDuration = metrics.histogram(
+    'http_request_duration_seconds',
+    'Time to answer HTTP requests by method, route and status',
+    LATENCY_BUCKETS
+);
+
+// Requests proxied by the Next app carry the browser's address in X-Forwarded-For,
+// it is only believed from these proxies
+app.set('trust proxy', config.server.trustProxy);
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+// First, so every log line and response carries the request id (X-Request-Id from the Next proxy)
+app.use(requestContext({ requestDuration, quietPaths: ['/healthz', '/readyz'] }));
+app.use(cors({
+    // Browsers normally go through the Next app, only these origins may call the API directly
+    origin: config.server.corsOrigins,
+    // Let browsers read the resumable upload protocol headers
+    exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length', 'Upload-Expires', 'Tus-Resumable', REQUEST_ID_HEADER],
+}));
+// Page documents are the largest JSON bodies, a long page runs to a few hundred KB
+app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: true }));
 
-// Create uploads directory if it doesn't exist
-const uploadsDir = path.join(__dirname, 'uploads');
-if (!fs.existsSync(uploadsDir)) {
-    fs.mkdirSync(uploadsDir, { recursive: true });
+// People sign in for a JWT (users are added with `npm run add-user`), services send one
+// of the configured API keys. Without auth.jwtSecret tokens stop working after a restart.
+if (!config.auth.jwtSecret) {
+    logger.warn('auth.jwtSecret (AUTH_JWT_SECRET) is not set, using a random secret for this process');
 }
+const jwtSecret = config.auth.jwtSecret || crypto.randomBytes(32).toString('hex');
+const users = createUserStore(config.auth.usersFile || path.join(__dirname, 'data', 'users.json'));
+const authenticator = createAuthenticator({ jwtSecret, apiKeys: indexApiKeys(config.auth.apiKeys) });
+const { requireRole } = authenticator;
+app.use(authenticator.authenticate);
+
+// Upload endpoints answer auth failures in the upload contract's shape too
+const denyUpload: DenyHandler = (res, status, message) => {
+    const code: UploadErrorCode = status === 401 ? 'UNAUTHORIZED' : 'FORBIDDEN';
+    res.status(status).json(uploadFailure(code, message));
+};
+
+// Upload requests per window, per principal and per client address. 0 turns a limit off.
+const uploadRateWindowMs = uploadLimits.rateLimit.windowSeconds * 1000;
+const uploadsPerPrincipal = createRateLimiter({ limit: uploadLimits.rateLimit.perPrincipal, windowMs: uploadRateWindowMs });
+const uploadsPerAddress = createRateLimiter({ limit: uploadLimits.rateLimit.perAddress, windowMs: uploadRateWindowMs });
+const limitUploads = rateLimit([
+    { limiter: uploadsPerPrincipal, key: req => principalOf(req).id },
+    { limiter: uploadsPerAddress, key: req => req.ip || 'unknown' },
+], (res, message) => {
+    res.status(429).json(uploadFailure('RATE_LIMITED', message));
+});
 
-// Serve static files
-app.use('/uploads', express.static(uploadsDir));
+// Password guesses per window, per client address and per username, whether the
+// username exists or not. 0 turns a limit off.
+const loginRateLimit = config.auth.loginRateLimit;
+const loginsPerAddress = createRateLimiter({ limit: loginRateLimit.perAddress, windowMs: loginRateLimit.windowSeconds * 1000 });
+const loginsPerUsername = createRateLimiter({ limit: loginRateLimit.perUsername, windowMs: loginRateLimit.windowSeconds * 1000 });
+const limitLogins = rateLimit([
+    { limiter: loginsPerAddress, key: req => req.ip || 'unknown' },
+    { limiter: loginsPerUsername, key: req => String(req.body?.username ?? '') },
+], (res, message) => {
+    res.status(429).json({ success: false, message });
+});
+
+// Originals and variants go to the adapter picked by storage.driver, local disk by default
+const { driver: storageDriver, storage } = createStorage(config.storage, path.join(__dirname, 'uploads'));
+logger.info('Storage ready', { driver: storageDriver });
+
+// Files being received land here first and are only copied into storage once validated.
+// Anything still in there at startup belongs to a request that never finished.
+const incomingDir = path.join(__dirname, 'data', 'incoming');
+fs.rmSync(incomingDir, { recursive: true, force: true });
+fs.mkdirSync(incomingDir, { recursive: true });
+
+// Image metadata lives in an append-only journal next to the uploads
+const metadataStore = createMetadataStore(path.join(__dirname, 'data', 'images.jsonl'));
+// Page documents of the page builder, journaled the same way
+const pageStore = createPageStore(path.join(__dirname, 'data', 'pages.jsonl'));
+// Every save of a page leaves an immutable revision. Pages saved before revisions
+// existed start their history with the content they have.
+const revisionStore = createRevisionStore(path.join(__dirname, 'data', 'page-revisions.jsonl'));
+pageStore.list()
+    .filter(page => !revisionStore.get(page.id, page.version))
+    .forEach(page => revisionStore.add(toRevision(page)));
+// Rendered transforms are cached on disk, least recently used entries are evicted past the size bound
+const transformCache = createTransformCache(
+    path.join(__dirname, 'cache', 'transforms'),
+    config.transforms.cacheMaxBytes
+);
+
+// Transforms need no credentials, so rendering new ones is limited per client address
+const transformRendersPerAddress = createRateLimiter({
+    limit: config.transforms.rateLimit.perAddress,
+    windowMs: config.transforms.rateLimit.windowSeconds * 1000,
+});
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-    destination: (req, file, cb) => {
-        cb(null, uploadsDir);
+// Uploads and deletes of the same bytes take turns, see DELETE /api/images/:id
+const checksumLock = createKeyedLock();
+const ingest = createIngester({ storage, metadataStore, checksumLock });
+const { countUploadResults } = createUploadMetrics({ registry: metrics, metadataStore });
+
+// Partial files of resumable uploads, abandoned ones expire after a day
+const resumableStore = createResumableStore(
+    path.join(__dirname, 'data', 'resumable'),
+    24 * 60 * 60 * 1000
+);
+resumableStore.purgeExpired();
+setInterval(() => resumableStore.purgeExpired(), 60 * 60 * 1000).unref();
+
+// On SIGTERM the server drains in-flight requests, then removes files of uploads that were cut off
+const gracefulShutdown = createGracefulShutdown({
+    server,
+    timeoutMs: config.server.shutdownTimeoutSeconds * 1000,
+    cleanup: () => {
+        fs.rmSync(incomingDir, { recursive: true, force: true });
+    },
+});
+
+// Bytes of stored originals per owner, quota.defaultBytes for everyone (0 for no
+// quota) unless quota.overrides has an entry for the principal id
+const quota = createQuotaTracker({
+    metadataStore,
+    quotaFor: ownerId => {
+        const bytes = uploadLimits.quota.overrides[ownerId] ?? uploadLimits.quota.defaultBytes;
+        return bytes > 0 ? bytes : undefined;
     },
-    filename: (req, file, cb) => {
+    pendingBytes: ownerId => resumableStore.list()
+        .filter(upload => upload.ownerId === ownerId)
+        .reduce((total, upload) => total + upload.length, 0),
+});
+
+// Stored originals and variants, addressed by image id
+app.use('/assets', createAssetRouter({ metadataStore, storage }));
+
+// Configure multer for file uploads, files are hashed while they are written
+const incomingStorage = createHashingDiskStorage({
+    destination: incomingDir,
+    // Quota is held for the file bytes as they arrive, see reserveUploadQuota
+    reserveBytes: (req, bytes) => (req as IncomingRequest).reserveQuota?.(bytes),
+    filename: (req, file) => {
         const uniqueName = `${uuidv4()}-${Date.now()}${path.extname(file.originalname)}`;
-        cb(null, uniqueName);
+        // Remember every file multer starts writing so an aborted request can be cleaned up
+        const incoming = req as IncomingRequest;
+        incoming.incomingFiles = [...(incoming.incomingFiles || []), path.join(incomingDir, uniqueName)];
+        incoming.currentFileName = file.originalname;
+        return uniqueName;
     }
 });
 
-const fileFilter = (req: any, file: Express.Multer.File, cb: any) => {
-    // Check if file is an image
-    if (file.mimetype.startsWith('image/')) {
-        cb(null, true);
-    } else {
-        cb(new Error('Only image files are allowed!'), false);
+interface IncomingRequest extends express.Request {
+    incomingFiles?: string[];
+    // Original name of the file multer is writing, so limit errors can name it
+    currentFileName?: string;
+    // Files skipped by fileFilter before any bytes were written
+    rejectedFiles?: RejectedFile[];
+    // Holds that many more bytes of the owner's quota for this request, throws
+    // QuotaExceededError when they do not fit
+    reserveQuota?: (bytes: number) => void;
+}
+
+// Holds quota for the file bytes of the request as multer writes them, until the response
+// is done. The body's Content-Length would also count form fields and part headers.
+const reserveUploadQuota = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const ownerId = principalOf(req).id;
+    // Refused up front when nothing is left, before any bytes are read
+    const usage = quota.usage(ownerId);
+    if (usage.remainingBytes === 0) {
+        return sendQuotaExceeded(res, new QuotaExceededError(usage, Number(req.get('content-length')) || 1));
     }
+    let held = 0;
+    let release: () => void = () => undefined;
+    res.on('close', () => release());
+    (req as IncomingRequest).reserveQuota = bytes => {
+        // One reservation for all bytes so far, so a refusal says what the request needs
+        release();
+        held += bytes;
+        release = quota.reserve(ownerId, held);
+    };
+    next();
 };
 
-const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
-const isPngByBytes = (buffer: Buffer): boolean => {
-    if (buffer.length < PNG_SIGNATURE.length) {
-        return false;
+// Validated files have been moved out of incoming by the time the response is done, so
+// anything left there belongs to a rejected, failed or aborted (e.g. by the proxy) upload
+const cleanupIncomingFiles = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    res.on('close', () => {
+        ((req as IncomingRequest).incomingFiles || []).forEach(filePath => {
+            fs.rmSync(filePath, { force: true });
+        });
+    });
+    next();
+};
+
+const fileFilter = (req: express.Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    // Check if file claims to be a supported image type, the bytes are checked after upload
+    if (findImageTypeByMimetype(file.mimetype)) {
+        cb(null, true);
+    } else {
+        // Skip the file but keep going, it is reported alongside the others
+        const incoming = req as IncomingRequest;
+        incoming.rejectedFiles = [...(incoming.rejectedFiles || []), {
+            originalName: file.originalname,
+            code: 'UNSUPPORTED_TYPE',
+            reason: `Only image files are allowed, got ${file.mimetype}`,
+        }];
+        cb(null, false);
     }
-    return buffer.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE);
 };
 
 const upload = multer({
-    storage: storage,
+    storage: incomingStorage,
     fileFilter: fileFilter,
     limits: {
-        fileSize: 5 * 1024 * 1024, // 5MB limit
-    }
-});
-
-// Types
-interface UploadResponse {
-    success: boolean;
-    message: string;
-    files?: Array<{
-        id: string;
-        originalName: string;
-        filename: string;
-        path: string;
-        size: number;
-        mimetype: string;
-        url: string;
-    }>;
-    error?: string;
-}
+        fileSize: uploadLimits.maxFileSize,
+    }
+});
 
 // Routes
 app.get('/', (req, res) => {
     res.json({ message: 'Image Upload API Server is running!' });
 });
 
+// Liveness: the process is up and answering
+app.get('/healthz', (req, res) => {
+    res.json({ success: true, status: 'ok' });
+});
+
+// Readiness: storage and the image and page journals can be written and the server is not shutting
+// down. 503 tells the load balancer (or compose) to send traffic elsewhere.
+app.get('/readyz', async (req, res) => {
+    res.setHeader('Cache-Control', 'no-store');
+    if (gracefulShutdown.isDraining()) {
+        return res.status(503).json({ success: false, status: 'draining', checks: {} });
+    }
+    const report = await runHealthChecks({
+        storage: storageCheck(storage),
+        metadataStore: () => metadataStore.check(),
+        pageStore: () => pageStore.check(),
+        revisionStore: () => revisionStore.check(),
+        incoming: () => fs.accessSync(incomingDir, fs.constants.W_OK),
+    }, 5000);
+    res.status(report.ready ? 200 : 503).json({
+        success: report.ready,
+        status: report.ready ? 'ready' : 'not_ready',
+        checks: report.checks,
+    });
+});
+
+// Prometheus scrape endpoint, behind `Authorization: Bearer <metrics.token>` when one is set
+app.get('/metrics', (req, res) => {
+    const { token } = config.metrics;
+    if (token) {
+        const given = Buffer.from(req.get('authorization') || '');
+        const expected = Buffer.from(`Bearer ${token}`);
+        if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+            return res.status(401).json({ success: false, message: 'Invalid metrics token' });
+        }
+    }
+    res.type('text/plain; version=0.0.4').send(metrics.render());
+});
+
+app.use('/api/auth', createAuthRouter({
+    users,
+    authenticator,
+    jwtSecret,
+    tokenTtlSeconds: config.auth.tokenTtlSeconds,
+    limitLogins,
+}));
+
 // Multiple file upload endpoint
-app.post('/api/upload', upload.array('images', 10), async (req, res) => {
+app.post('/api/upload', countUploadResults, requireRole('editor', denyUpload), limitUploads, reserveUploadQuota, cleanupIncomingFiles, upload.array('images', uploadLimits.maxFiles), async (req, res) => {
     try {
-        const files = req.files as Express.Multer.File[];
-        console.log('req :>> ', req);
+        const files = req.files as HashedFile[];
 
-        if (!files || files.length === 0) {
-            return res.status(400).json({
-                success: false,
-                message: 'No files uploaded',
-            } as UploadResponse);
-        }
-
-        const validFiles: Express.Multer.File[] = [];
-        const invalidFiles: string[] = [];
-
-        // Validate each file by checking bytes
-        for (const file of files) {
-            try {
-                // Read the first 8 bytes of the file to check signature
-                const buffer = fs.readFileSync(file.path);
-
-                // Check if it's a PNG file by examining bytes
-                if (file.mimetype === 'image/png') {
-                    if (isPngByBytes(buffer)) {
-                        validFiles.push(file);
-                        console.log(`✅ Valid PNG file: ${file.originalname}`);
-                    } else {
-                        // File claims to be PNG but doesn't have PNG signature
-                        invalidFiles.push(`${file.originalname} - Invalid PNG signature`);
-                        // Delete the invalid file
-                        fs.unlinkSync(file.path);
-                        console.log(`❌ Invalid PNG signature: ${file.originalname}`);
-                    }
-                } else {
-                    // For other image types, accept them (you can add more byte validations here)
-                    validFiles.push(file);
-                    console.log(`✅ Valid image file: ${file.originalname} (${file.mimetype})`);
-                }
-            } catch (fileError) {
-                console.error(`Error validating file ${file.originalname}:`, fileError);
-                invalidFiles.push(`${file.originalname} - Validation error`);
-                // Clean up file on error
-                try {
-                    fs.unlinkSync(file.path);
-                } catch (cleanupError) {
-                    console.warn('Failed to cleanup invalid file:', file.path);
-                }
+        const rejected: RejectedFile[] = [...((req as IncomingRequest).rejectedFiles || [])];
+
+        if ((!files || files.length === 0) && rejected.length === 0) {
+            return res.status(400).json(uploadFailure('NO_FILES', 'No files uploaded'));
+        }
+
+        let metadata: Record<string, ImageMetadata>;
+        try {
+            metadata = parseUploadMetadataField(req.body?.metadata);
+        } catch (error) {
+            if (error instanceof ImageMetadataError) {
+                return res.status(400).json(uploadFailure('MALFORMED_REQUEST', error.message));
             }
+            throw error;
         }
 
-        // If no valid files, return error
-        if (validFiles.length === 0) {
-            return res.status(400).json({
-                success: false,
-                message: 'No valid files uploaded. All files failed validation.',
-                error: invalidFiles.join(', ')
-            } as UploadResponse);
+        const fileData: UploadedFile[] = [];
+
+        // Validate each file by checking bytes, valid ones are moved into storage
+        for (const file of files || []) {
+            const result = await ingest({
+                path: file.path,
+                originalName: file.originalname,
+                mimetype: file.mimetype,
+                checksum: file.checksum,
+                owner: principalOf(req),
+                metadata: metadata[file.originalname],
+                preserveMetadata: isPreserveMetadataFlag(req.body?.preserveMetadata),
+            });
+
+            if (result.accepted) {
+                fileData.push(toUploadedFile(assetBaseUrl, result.record, file.mimetype, result.duplicate));
+            } else {
+                rejected.push({ originalName: file.originalname, code: result.code, reason: result.reason });
+            }
         }
 
-        const fileData = validFiles.map(file => ({
-            id: uuidv4(),
-            originalName: file.originalname,
-            filename: file.filename,
-            path: file.path,
-            size: file.size,
-            mimetype: file.mimetype,
-            url: `${req.protocol}://${req.get('host')}/uploads/${file.filename}`
-        }));
+        // If no valid files, return error
+        if (fileData.length === 0) {
+            return res.status(400).json(uploadFailure(
+                'NO_VALID_FILES',
+                'No valid files uploaded. All files failed validation.',
+                rejected
+            ));
+        }
 
         const response: UploadResponse = {
+            version: UPLOAD_CONTRACT_VERSION,
             success: true,
-            message: `Successfully uploaded ${validFiles.length} valid file(s)${invalidFiles.length > 0 ? `. ${invalidFiles.length} file(s) were rejected: ${invalidFiles.join(', ')}` : ''}`,
-            files: fileData
+            message: `Successfully uploaded ${fileData.length} valid file(s)${rejected.length > 0 ? `. ${rejected.length} file(s) were rejected: ${describeRejections(rejected)}` : ''}`,
+            files: fileData,
+            rejected
         };
 
         res.status(200).json(response);
     } catch (error) {
-        console.error('Upload error:', error);
+        logger.error('Upload failed', { error });
+        res.status(500).json(uploadFailure(
+            'INTERNAL_ERROR',
+            error instanceof Error ? error.message : 'Internal server error'
+        ));
+    }
+});
+
+// Page documents built in the editor. Published ones are served to the Next app, which is
+// asked to rebuild a page whenever it changes (see the site section of the config).
+if (config.site.revalidateUrl && !config.site.revalidateSecret) {
+    logger.warn('site.revalidateUrl is set without site.revalidateSecret (REVALIDATE_SECRET), the site will refuse the calls');
+}
+const revalidator = createSiteRevalidator({
+    url: config.site.revalidateUrl,
+    secret: config.site.revalidateSecret,
+    workspace: config.site.workspace,
+});
+const publisher = createPagePublisher({ pageStore, revisionStore, revalidator });
+// Scheduled publishing is checked every half minute, so it may run that much late
+setInterval(() => publisher.runSchedule(), 30 * 1000).unref();
+app.use('/api/pages', createPageRouter({
+    pageStore,
+    revisionStore,
+    metadataStore,
+    authenticator,
+    publisher,
+    revalidator,
+    siteWorkspace: config.site.workspace,
+}));
+app.use('/api/published', createPublishedPageRouter({
+    pageStore,
+    revisionStore,
+    metadataStore,
+    workspace: config.site.workspace,
+    previewSecret: config.site.revalidateSecret,
+    assetBaseUrl,
+}));
+
+// Pages point at images by id. Deletes refuse images a page still shows, and the sweep
+// reports references that broke anyway and images nothing has used for a while.
+const referenceSweeper = createReferenceSweeper({
+    metadataStore,
+    pageStore,
+    revisionStore,
+    registry: metrics,
+    retentionMs: config.images.unreferencedRetentionDays * 24 * 60 * 60 * 1000,
+});
+setInterval(() => referenceSweeper.sweep(), config.images.sweepIntervalMinutes * 60 * 1000).unref();
+
+// Resumable uploads for files above the single-request limit
+app.use('/api/uploads', countUploadResults, requireRole('editor', denyUpload), createResumableUploadRouter({
+    store: resumableStore,
+    maxSize: uploadLimits.resumableMaxSize,
+    ingest,
+    quota,
+    limitCreate: limitUploads,
+    assetBaseUrl,
+}));
+
+// Storage used by the caller against their quota, and upload requests left in this window
+app.get('/api/usage', requireRole('viewer'), (req, res) => {
+    const principal = principalOf(req);
+    const body: UsageResponse = {
+        success: true,
+        usage: quota.usage(principal.id),
+        rateLimit: toRateLimitStatus(uploadsPerPrincipal.peek(principal.id)),
+    };
+    res.json(body);
+});
+
+// Images of the caller's workspace, one page at a time. See imageListQuerySchema
+// for the filters, sorting and the cursor handed back as `nextCursor`.
+app.get('/api/images', requireRole('viewer'), (req, res) => {
+    const query = imageListQuerySchema.safeParse(req.query);
+    if (!query.success) {
+        return res.status(400).json({
+            success: false,
+            message: query.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join('; ')
+        });
+    }
+
+    try {
+        const principal = principalOf(req);
+        const visible = metadataStore.list().filter(record => canView(principal, record));
+        const page = queryImages(visible, query.data, principal);
+
+        const body: ImageListResponse = {
+            success: true,
+            images: page.images.map(record => toImageSummary(assetBaseUrl, record)),
+            total: page.total,
+            nextCursor: page.nextCursor
+        };
+        res.json(body);
+    } catch (error) {
+        if (error instanceof ImageQueryError) {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            });
+        }
+        logger.error('Listing images failed', { error });
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching images',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+// Resized / cropped / re-encoded renditions, cached on disk
+app.use('/api/images', createTransformRouter({
+    metadataStore,
+    storage,
+    cache: transformCache,
+    rendersPerAddress: transformRendersPerAddress,
+}));
+
+// Time limited link to the original, handy when the bucket itself is private.
+// ?expiresIn= is in seconds, up to the 7 days S3 allows for presigned URLs. Local and
+// memory storage cannot sign, their originals are public under /assets anyway, so the
+// answer is that link without `expiresAt`.
+app.get('/api/images/:id/url', requireRole('viewer'), async (req, res) => {
+    try {
+        const record = metadataStore.get(req.params.id);
+        if (!record || !canView(principalOf(req), record)) {
+            return res.status(404).json({
+                success: false,
+                message: 'File not found'
+            });
+        }
+
+        const expiresIn = req.query.expiresIn === undefined ? 3600 : Number(req.query.expiresIn);
+        if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > 7 * 24 * 60 * 60) {
+            return res.status(400).json({
+                success: false,
+                message: 'expiresIn must be an integer between 1 and 604800'
+            });
+        }
+
+        const signedUrl = await storage.signedUrl(record.filename, expiresIn);
+        if (!signedUrl) {
+            return res.json({
+                success: true,
+                url: toImageUrl(assetBaseUrl, record)
+            });
+        }
+        res.json({
+            success: true,
+            url: signedUrl,
+            expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString()
+        });
+    } catch (error) {
+        logger.error('Signing URL failed', { imageId: req.params.id, error });
         res.status(500).json({
             success: false,
-            message: 'Internal server error',
+            message: 'Error signing URL',
             error: error instanceof Error ? error.message : 'Unknown error'
-        } as UploadResponse);
+        });
     }
 });
 
-// Get all uploaded images
-app.get('/api/images', (req, res) => {
+// What was read from the EXIF/XMP/IPTC at upload. Location is only kept when the
+// uploader preserved the metadata, otherwise it left with the stripped bytes.
+app.get('/api/images/:id/metadata', requireRole('viewer'), (req, res) => {
+    const record = metadataStore.get(req.params.id);
+    if (!record || !canView(principalOf(req), record)) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found'
+        });
+    }
+
+    res.json({
+        success: true,
+        metadata: {
+            width: record.width,
+            height: record.height,
+            mimetype: record.mimetype,
+            size: record.size,
+            // Records from before extraction and SVGs have nothing embedded
+            ...(record.embedded || { personalData: [], stripped: false }),
+        }
+    });
+});
+
+// Pages that point at an image, and whether deleting it takes `force=true`
+app.get('/api/images/:id/usages', requireRole('viewer'), (req, res) => {
+    const record = metadataStore.get(req.params.id);
+    if (!record || !canView(principalOf(req), record)) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found'
+        });
+    }
+
+    const usages = findImageUsages(record, { pageStore, revisionStore });
+    const body: ImageUsagesResponse = {
+        success: true,
+        imageId: record.id,
+        inUse: isImageInUse(usages),
+        usages,
+    };
+    res.json(body);
+});
+
+// One image as listed by GET /api/images, e.g. for the page editor to show the assets a page points at
+app.get('/api/images/:id', requireRole('viewer'), (req, res) => {
+    const record = metadataStore.get(req.params.id);
+    if (!record || !canView(principalOf(req), record)) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found'
+        });
+    }
+
+    res.json({
+        success: true,
+        image: toImageSummary(assetBaseUrl, record)
+    });
+});
+
+// Updates alt text, caption, tags and properties. Only the fields sent change, see imageMetadataSchema.
+app.patch('/api/images/:id', requireRole('editor'), async (req, res) => {
     try {
-        const files = fs.readdirSync(uploadsDir);
-        const imageFiles = files
-            .filter(file => {
-                const ext = path.extname(file).toLowerCase();
-                return ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'].includes(ext);
-            })
-            .map(file => {
-                const filePath = path.join(uploadsDir, file);
-                const stats = fs.statSync(filePath);
-                return {
-                    id: file,
-                    filename: file,
-                    url: `${req.protocol}://${req.get('host')}/uploads/${file}`,
-                    size: stats.size,
-                    uploadDate: stats.birthtime
-                };
+        const principal = principalOf(req);
+        const record = metadataStore.get(req.params.id);
+        if (!record || !canView(principal, record)) {
+            return res.status(404).json({
+                success: false,
+                message: 'File not found'
+            });
+        }
+        if (!canManage(principal, record)) {
+            return res.status(403).json({
+                success: false,
+                message: 'Only the owner or a workspace admin can edit this image'
             });
+        }
+
+        const metadata = parseImageMetadata(req.body);
+        // Against the latest record, an upload of the same bytes may have just added a reference
+        const updated = await checksumLock(record.checksum, async () => {
+            const current = metadataStore.get(record.id);
+            if (!current) {
+                return undefined;
+            }
+            const next = applyMetadata(current, metadata);
+            metadataStore.put(next);
+            return next;
+        });
 
+        if (!updated) {
+            return res.status(404).json({
+                success: false,
+                message: 'File not found'
+            });
+        }
         res.json({
             success: true,
-            images: imageFiles
+            image: toImageSummary(assetBaseUrl, updated)
         });
     } catch (error) {
-        console.error('Error fetching images:', error);
+        if (error instanceof ImageMetadataError) {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            });
+        }
+        logger.error('Updating image failed', { imageId: req.params.id, error });
         res.status(500).json({
             success: false,
-            message: 'Error fetching images',
+            message: 'Error updating file',
             error: error instanceof Error ? error.message : 'Unknown error'
         });
     }
 });
 
-// Delete image endpoint
-app.delete('/api/images/:filename', (req, res) => {
+// Delete image endpoint. Everyone who uploaded the bytes holds a reference and deleting releases
+// one of the caller's own, the bytes only go away with the last one. An admin holding none
+// removes the image for everyone. Removing it is refused with 409 while a draft or published
+// page shows the image, unless `force=true` is given.
+app.delete('/api/images/:id', requireRole('editor'), async (req, res) => {
     try {
-        const { filename } = req.params;
-        const filePath = path.join(uploadsDir, filename);
+        const { id } = req.params;
+        const force = req.query.force === 'true';
+        const principal = principalOf(req);
+        const record = metadataStore.get(id);
 
-        if (!fs.existsSync(filePath)) {
+        if (!record || !canView(principal, record)) {
             return res.status(404).json({
                 success: false,
                 message: 'File not found'
             });
         }
+        const forbidden = () => res.status(403).json({
+            success: false,
+            message: 'Only an uploader of this image or a workspace admin can delete it'
+        });
+        if (!holdsReference(record, principal.id) && !canManage(principal, record)) {
+            return forbidden();
+        }
+
+        // Under the checksum lock, so an upload of the same bytes cannot add a reference
+        // to the record (or re-store the file) while the last one is being removed
+        const outcome = await checksumLock(record.checksum, async () => {
+            const current = metadataStore.get(record.id);
+            if (!current) {
+                return undefined;
+            }
+            if (holdsReference(current, principal.id)) {
+                const released = releaseReference(current, principal.id);
+                if (released) {
+                    metadataStore.put(released);
+                    return { remaining: referenceCount(released) };
+                }
+            } else if (!canManage(principal, current)) {
+                // Their last reference went with a delete that ran meanwhile
+                return { forbidden: true, remaining: 0 };
+            }
+
+            const usages = findImageUsages(current, { pageStore, revisionStore });
+            if (isImageInUse(usages)) {
+                if (!force) {
+                    return { remaining: 1, usages };
+                }
+                logger.warn('Deleting an image pages still show', {
+                    imageId: current.id,
+                    pageIds: usages.filter(usage => usage.draft || usage.published).map(usage => usage.pageId),
+                });
+            }
+
+            // Other workspaces may hold their own record for the same bytes
+            metadataStore.remove(current.id);
+            if (metadataStore.listByChecksum(current.checksum).every(other => other.filename !== current.filename)) {
+                await storage.delete(current.filename);
+            }
+            await removeVariants(current.variants, storage);
+            // Statically rendered pages would keep showing it until their interval runs out
+            revalidator.pagesAffected(usages
+                .filter(usage => usage.published)
+                .map(usage => pageStore.get(usage.pageId))
+                .filter((page): page is PageRecord => page !== undefined));
+            return { remaining: 0 };
+        });
 
-        fs.unlinkSync(filePath);
+        if (outcome === undefined) {
+            return res.status(404).json({
+                success: false,
+                message: 'File not found'
+            });
+        }
+        if (outcome.forbidden) {
+            return forbidden();
+        }
+        if (outcome.usages) {
+            const pages = outcome.usages.filter(usage => usage.draft || usage.published).length;
+            const body: ImageInUseResponse = {
+                success: false,
+                message: `Image is used on ${pages} page${pages === 1 ? '' : 's'}, delete with force=true to remove it anyway`,
+                usages: outcome.usages,
+            };
+            return res.status(409).json(body);
+        }
+        const remainingReferences = outcome.remaining;
+        if (remainingReferences > 0) {
+            return res.json({
+                success: true,
+                message: `Reference released, ${remainingReferences} remaining`,
+                remainingReferences
+            });
+        }
 
         res.json({
             success: true,
-            message: 'File deleted successfully'
+            message: 'File deleted successfully',
+            remainingReferences: 0
         });
     } catch (error) {
-        console.error('Delete error:', error);
+        logger.error('Deleting image failed', { imageId: req.params.id, error });
         res.status(500).json({
             success: false,
             message: 'Error deleting file',
@@ -234,20 +807,54 @@ app.delete('/api/images/:filename', (req, res) => {
 // Error handling middleware
 app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
     if (error instanceof multer.MulterError) {
-        if (error.code === 'LIMIT_FILE_SIZE') {
-            return res.status(400).json({
-                success: false,
-                message: 'File too large. Maximum size is 5MB.'
-            });
+        const { code, message } = mapMulterError(error, uploadLimits);
+        const incoming = req as IncomingRequest;
+        const rejected = [...(incoming.rejectedFiles || [])];
+        if (code === 'TOO_LARGE' && incoming.currentFileName) {
+            rejected.push({ originalName: incoming.currentFileName, code, reason: message });
         }
+        return res.status(UPLOAD_ERROR_STATUS[code]).json(uploadFailure(code, message, rejected));
+    }
+    if (error instanceof QuotaExceededError) {
+        // A file ran past what is left of the quota while it was written, see reserveUploadQuota
+        return sendQuotaExceeded(res, error, (req as IncomingRequest).currentFileName);
+    }
+
+    // Malformed or oversized JSON bodies (body-parser sets the status) are the client's fault
+    if (typeof error.status === 'number' && error.status >= 400 && error.status < 500) {
+        return res.status(error.status).json({
+            success: false,
+            message: error.message
+        });
     }
 
+    logger.error('Unhandled request error', { error });
     res.status(500).json({
         success: false,
         message: error.message || 'Internal server error'
     });
 });
 
-app.listen(PORT, () => {
-    console.log(`Server is running on port ${PORT}`);
+const start = async () => {
+    // Runs before accepting requests, a fresh upload must not be mistaken for a row without a file
+    const reconciled = await reconcileUploads(metadataStore, storage);
+    if (reconciled.adopted.length > 0 || reconciled.removedRows.length > 0 || reconciled.ignored.length > 0) {
+        logger.info('Reconciled uploads', {
+            adopted: reconciled.adopted.length,
+            removedRows: reconciled.removedRows.length,
+            ignored: reconciled.ignored.length,
+        });
+    }
+
+    // After the reconcile, which may have dropped images pages point at
+    referenceSweeper.sweep();
+
+    server.listen(config.server.port, () => {
+        logger.info('Server is running', { port: config.server.port });
+    });
+};
+
+start().catch(error => {
+    logger.error('Failed to start server', { error });
+    process.exit(1);
 });
\ No newline at end of file
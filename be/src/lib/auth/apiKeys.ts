@@ -0,0 +1,26 @@
+import crypto from 'crypto';
+import { AppConfig } from '@next-page-builder/contracts';
+import { Principal, isRole } from './types';
+
+const digest = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+// Indexes the configured API keys (auth.apiKeys, or API_KEYS as JSON). Keys are
+// only kept as digests so lookups do not compare secrets byte by byte.
+export const indexApiKeys = (entries: AppConfig['auth']['apiKeys']): Map<string, Principal> => {
+    const keys = new Map<string, Principal>();
+    entries.forEach(entry => {
+        if (!isRole(entry.role)) {
+            throw new Error(`API key ${entry.id} has unknown role ${entry.role}`);
+        }
+        keys.set(digest(entry.key), {
+            id: `service:${entry.id}`,
+            kind: 'service',
+            name: entry.id,
+            workspace: entry.workspace,
+            role: entry.role,
+        });
+    });
+    return keys;
+};
+
+export const findApiKey = (keys: Map<string, Principal>, key: string) => keys.get(digest(key));
@@ -0,0 +1,144 @@
+import express from 'express';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TEST_JWT_SECRET, TestServer, bearer, listen, testAuthenticator, testPrincipal } from '../../test/http';
+import { findApiKey, indexApiKeys } from './apiKeys';
+import { canManage, canView } from './ownership';
+import { DUMMY_PASSWORD_HASH, hashPassword, verifyPassword } from './passwords';
+import { signJwt, verifyJwt } from './jwt';
+import { AuthError, principalOf } from './types';
+
+const base64url = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('jwt', () => {
+    it('verifies its own tokens and returns the claims', () => {
+        const claims = verifyJwt(signJwt({ sub: 'user:alice', role: 'editor' }, TEST_JWT_SECRET, 60), TEST_JWT_SECRET);
+        expect(claims).toMatchObject({ sub: 'user:alice', role: 'editor' });
+        expect(claims.exp - claims.iat).toBe(60);
+    });
+
+    it('rejects tokens signed with another secret', () => {
+        expect(() => verifyJwt(signJwt({ sub: 'a' }, 'other', 60), TEST_JWT_SECRET)).toThrow('Invalid token signature');
+    });
+
+    it('rejects tampered claims', () => {
+        const [header, , signature] = signJwt({ sub: 'a', role: 'viewer' }, TEST_JWT_SECRET, 60).split('.');
+        const payload = base64url({ sub: 'a', role: 'admin', iat: 0, exp: 9999999999 });
+        expect(() => verifyJwt(`${header}.${payload}.${signature}`, TEST_JWT_SECRET)).toThrow('Invalid token signature');
+    });
+
+    it('rejects other algorithms, alg=none included', () => {
+        const [, payload] = signJwt({ sub: 'a' }, TEST_JWT_SECRET, 60).split('.');
+        expect(() => verifyJwt(`${base64url({ alg: 'none', typ: 'JWT' })}.${payload}.x`, TEST_JWT_SECRET)).toThrow('Unsupported token algorithm');
+    });
+
+    it('rejects expired and malformed tokens', () => {
+        expect(() => verifyJwt(signJwt({ sub: 'a' }, TEST_JWT_SECRET, -1), TEST_JWT_SECRET)).toThrow('Token expired');
+        expect(() => verifyJwt('not-a-token', TEST_JWT_SECRET)).toThrow(AuthError);
+        expect(() => verifyJwt('a.b.c.d', TEST_JWT_SECRET)).toThrow('Malformed token');
+    });
+});
+
+describe('passwords', () => {
+    it('verifies the password a hash was made from and nothing else', () => {
+        const hash = hashPassword('correct horse');
+        expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+        expect(verifyPassword('correct horse', hash)).toBe(true);
+        expect(verifyPassword('wrong', hash)).toBe(false);
+        expect(verifyPassword('correct horse', 'plain$text')).toBe(false);
+    });
+
+    it('salts every hash', () => {
+        expect(hashPassword('same')).not.toBe(hashPassword('same'));
+    });
+
+    it('has a dummy hash no password matches', () => {
+        expect(verifyPassword('', DUMMY_PASSWORD_HASH)).toBe(false);
+        expect(verifyPassword('password', DUMMY_PASSWORD_HASH)).toBe(false);
+    });
+});
+
+describe('api keys', () => {
+    const keys = indexApiKeys([{ id: 'ci', key: 'k-123', workspace: 'team', role: 'editor' }]);
+
+    it('finds the service principal by key', () => {
+        expect(findApiKey(keys, 'k-123')).toEqual({ id: 'service:ci', kind: 'service', name: 'ci', workspace: 'team', role: 'editor' });
+        expect(findApiKey(keys, 'k-124')).toBeUndefined();
+    });
+
+    it('refuses unknown roles', () => {
+        expect(() => indexApiKeys([{ id: 'x', key: 'k', workspace: 'w', role: 'owner' }])).toThrow('API key x has unknown role owner');
+    });
+});
+
+describe('ownership', () => {
+    const record = { workspace: 'default', ownerId: 'user:alice' };
+
+    it('lets every member of the workspace view, and nobody else', () => {
+        expect(canView(testPrincipal({ role: 'viewer' }), record)).toBe(true);
+        expect(canView(testPrincipal({ workspace: 'other', role: 'admin' }), record)).toBe(false);
+        expect(canView(testPrincipal(), { ownerId: 'user:alice' })).toBe(true);
+    });
+
+    it('lets the owning editor and admins of the workspace manage', () => {
+        expect(canManage(testPrincipal(), record)).toBe(true);
+        expect(canManage(testPrincipal({ id: 'user:bob' }), record)).toBe(false);
+        expect(canManage(testPrincipal({ id: 'user:bob', role: 'admin' }), record)).toBe(true);
+        expect(canManage(testPrincipal({ role: 'viewer' }), record)).toBe(false);
+        expect(canManage(testPrincipal({ role: 'admin', workspace: 'other' }), record)).toBe(false);
+    });
+});
+
+describe('authenticator', () => {
+    let server: TestServer;
+    const apiKeys = indexApiKeys([{ id: 'ci', key: 'k-123', workspace: 'default', role: 'viewer' }]);
+
+    beforeAll(async () => {
+        const { authenticate, requireRole } = testAuthenticator(apiKeys);
+        const app = express();
+        app.use(authenticate);
+        app.get('/public', (req, res) => res.json({ error: (req as { authError?: string }).authError }));
+        app.get('/editor', requireRole('editor'), (req, res) => res.json(principalOf(req)));
+        server = await listen(app);
+    });
+
+    afterAll(() => server.close());
+
+    const get = (path: string, headers: Record<string, string> = {}) => fetch(`${server.url}${path}`, { headers });
+
+    it('resolves the user behind a session token', async () => {
+        const response = await get('/editor', bearer(testPrincipal()));
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual(testPrincipal());
+    });
+
+    it('resolves API keys to their service principal', async () => {
+        const response = await get('/editor', { 'x-api-key': 'k-123' });
+        expect(response.status).toBe(403);
+        expect(await response.json()).toEqual({ success: false, message: 'Requires the editor role' });
+    });
+
+    it('answers 401 without credentials and names what was wrong with bad ones', async () => {
+        expect((await get('/editor')).status).toBe(401);
+        const unknownKey = await get('/editor', { 'x-api-key': 'nope' });
+        expect(unknownKey.status).toBe(401);
+        expect(await unknownKey.json()).toMatchObject({ message: 'Unknown API key' });
+        const expired = await get('/editor', { authorization: `Bearer ${signJwt({ sub: 'a' }, TEST_JWT_SECRET, -1)}` });
+        expect(await expired.json()).toMatchObject({ message: 'Token expired' });
+    });
+
+    it('answers 403 below the required role', async () => {
+        expect((await get('/editor', bearer(testPrincipal({ role: 'viewer' })))).status).toBe(403);
+        expect((await get('/editor', bearer(testPrincipal({ role: 'admin' })))).status).toBe(200);
+    });
+
+    it('rejects tokens without workspace or role', async () => {
+        const response = await get('/editor', { authorization: `Bearer ${signJwt({ sub: 'a', role: 'root' }, TEST_JWT_SECRET, 60)}` });
+        expect(await response.json()).toMatchObject({ message: 'Token is missing workspace or role' });
+    });
+
+    it('leaves public routes open to bad credentials', async () => {
+        const response = await get('/public', { authorization: 'Bearer garbage' });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ error: 'Malformed token' });
+    });
+});
@@ -0,0 +1,77 @@
+import express from 'express';
+import { findApiKey } from './apiKeys';
+import { verifyJwt } from './jwt';
+import { AuthError, AuthenticatedRequest, Principal, Role, hasRole, isRole } from './types';
+
+export interface AuthenticatorOptions {
+    jwtSecret: string;
+    apiKeys: Map<string, Principal>;
+}
+
+export type DenyHandler = (res: express.Response, status: 401 | 403, message: string) => void;
+
+const denyJson: DenyHandler = (res, status, message) => {
+    res.status(status).json({
+        success: false,
+        message
+    });
+};
+
+export interface Authenticator {
+    // Resolves the caller from `Authorization: Bearer <jwt>` or `X-API-Key`, never rejects by itself
+    authenticate: express.RequestHandler;
+    // Rejects requests without a principal holding at least `role`
+    requireRole: (role: Role, deny?: DenyHandler) => express.RequestHandler;
+}
+
+export const createAuthenticator = ({ jwtSecret, apiKeys }: AuthenticatorOptions): Authenticator => {
+    const resolve = (req: express.Request): Principal | undefined => {
+        const apiKey = req.get('x-api-key');
+        if (apiKey) {
+            const principal = findApiKey(apiKeys, apiKey);
+            if (!principal) {
+                throw new AuthError('Unknown API key');
+            }
+            return principal;
+        }
+
+        const [scheme, token] = (req.get('authorization') || '').split(' ');
+        if (scheme?.toLowerCase() !== 'bearer' || !token) {
+            return undefined;
+        }
+        const claims = verifyJwt(token, jwtSecret);
+        if (typeof claims.workspace !== 'string' || !isRole(claims.role)) {
+            throw new AuthError('Token is missing workspace or role');
+        }
+        return {
+            id: claims.sub,
+            kind: 'user',
+            name: typeof claims.name === 'string' ? claims.name : claims.sub,
+            workspace: claims.workspace,
+            role: claims.role,
+        };
+    };
+
+    return {
+        authenticate: (req, res, next) => {
+            const authenticated = req as AuthenticatedRequest;
+            try {
+                authenticated.principal = resolve(req);
+            } catch (error) {
+                // Public routes still work with bad credentials, protected ones report why
+                authenticated.authError = error instanceof Error ? error.message : 'Invalid credentials';
+            }
+            next();
+        },
+        requireRole: (role, deny = denyJson) => (req, res, next) => {
+            const { principal, authError } = req as AuthenticatedRequest;
+            if (!principal) {
+                return deny(res, 401, authError || 'Authentication required');
+            }
+            if (!hasRole(principal, role)) {
+                return deny(res, 403, `Requires the ${role} role`);
+            }
+            next();
+        },
+    };
+};
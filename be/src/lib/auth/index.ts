@@ -0,0 +1,7 @@
+export * from './apiKeys';
+export * from './authenticator';
+export * from './jwt';
+export * from './passwords';
+export * from './types';
+export * from './userStore';
+export * from './ownership';
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { AuthError } from './types';
+
+export interface JwtClaims {
+    sub: string;
+    iat: number;
+    exp: number;
+    [claim: string]: unknown;
+}
+
+const HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+const sign = (input: string, secret: string) => crypto.createHmac('sha256', secret).update(input).digest('base64url');
+
+// Compact HS256 JWTs, the only kind this API issues or accepts
+export const signJwt = (claims: Record<string, unknown> & { sub: string }, secret: string, expiresInSeconds: number): string => {
+    const now = Math.floor(Date.now() / 1000);
+    const payload = Buffer.from(JSON.stringify({ ...claims, iat: now, exp: now + expiresInSeconds })).toString('base64url');
+    return `${HEADER}.${payload}.${sign(`${HEADER}.${payload}`, secret)}`;
+};
+
+export const verifyJwt = (token: string, secret: string): JwtClaims => {
+    const [header, payload, signature, ...rest] = token.split('.');
+    if (!header || !payload || !signature || rest.length > 0) {
+        throw new AuthError('Malformed token');
+    }
+    // Pinning the header rules out alg=none and algorithm confusion
+    if (header !== HEADER) {
+        throw new AuthError('Unsupported token algorithm');
+    }
+
+    const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        throw new AuthError('Invalid token signature');
+    }
+
+    let claims: JwtClaims;
+    try {
+        claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    } catch {
+        throw new AuthError('Malformed token');
+    }
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') {
+        throw new AuthError('Malformed token');
+    }
+    if (claims.exp <= Date.now() / 1000) {
+        throw new AuthError('Token expired');
+    }
+    return claims;
+};
@@ -0,0 +1,17 @@
+import { DEFAULT_WORKSPACE, Principal, hasRole } from './types';
+
+// Anything that belongs to a workspace and, usually, to whoever created it: images, pages
+export interface OwnedRecord {
+    workspace?: string;
+    ownerId?: string;
+}
+
+export const recordWorkspace = (record: OwnedRecord) => record.workspace ?? DEFAULT_WORKSPACE;
+
+export const canView = (principal: Principal, record: OwnedRecord) =>
+    recordWorkspace(record) === principal.workspace;
+
+// Admins manage everything in their workspace, editors only what they created
+export const canManage = (principal: Principal, record: OwnedRecord) =>
+    canView(principal, record) &&
+    (hasRole(principal, 'admin') || (hasRole(principal, 'editor') && record.ownerId === principal.id));
@@ -0,0 +1,24 @@
+import crypto from 'crypto';
+
+const KEY_LENGTH = 64;
+
+// Stored as `scrypt$<salt>$<hash>`, both hex encoded
+export const hashPassword = (password: string): string => {
+    const salt = crypto.randomBytes(16);
+    const hash = crypto.scryptSync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+};
+
+// Checked instead when the username is unknown, so both answers take as long as an scrypt
+// and response times do not tell which usernames exist
+export const DUMMY_PASSWORD_HASH = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+export const verifyPassword = (password: string, stored: string): boolean => {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+        return false;
+    }
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
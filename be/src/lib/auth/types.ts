@@ -0,0 +1,39 @@
+import express from 'express';
+
+// Ordered from least to most privileged
+export const ROLES = ['viewer', 'editor', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+// Records created before ownership existed belong here
+export const DEFAULT_WORKSPACE = 'default';
+
+// Whoever a request acts on behalf of
+export interface Principal {
+    id: string;
+    kind: 'user' | 'service';
+    name: string;
+    workspace: string;
+    role: Role;
+}
+
+export interface AuthenticatedRequest extends express.Request {
+    principal?: Principal;
+    // Why the presented credentials were not accepted, if any were presented
+    authError?: string;
+}
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const hasRole = (principal: Principal, minimum: Role) =>
+    ROLES.indexOf(principal.role) >= ROLES.indexOf(minimum);
+
+// Only valid after requireRole() has run for the route
+export const principalOf = (req: express.Request): Principal => {
+    const { principal } = req as AuthenticatedRequest;
+    if (!principal) {
+        throw new Error('Route is missing requireRole()');
+    }
+    return principal;
+};
+
+export class AuthError extends Error {}
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import path from 'path';
+import { Role } from './types';
+
+export interface UserRecord {
+    id: string;
+    username: string;
+    passwordHash: string;
+    workspace: string;
+    role: Role;
+    createdAt: string;
+}
+
+export interface UserStore {
+    findByUsername: (username: string) => UserRecord | undefined;
+    list: () => UserRecord[];
+    // Creates the user or replaces the one with the same username
+    put: (user: UserRecord) => void;
+}
+
+// Users live in a single JSON file. It is small and written rarely (see
+// src/cli/addUser.ts), so it is re-read on every lookup to pick up changes
+// without a restart.
+export const createUserStore = (filePath: string): UserStore => {
+    const read = (): UserRecord[] => {
+        if (!fs.existsSync(filePath)) {
+            return [];
+        }
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as UserRecord[];
+    };
+
+    return {
+        findByUsername: (username) => read().find(user => user.username === username),
+        list: read,
+        put: (user) => {
+            const users = read().filter(existing => existing.username !== user.username);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            const tempPath = `${filePath}.tmp`;
+            fs.writeFileSync(tempPath, JSON.stringify([...users, user], null, 2), { mode: 0o600 });
+            fs.renameSync(tempPath, filePath);
+        },
+    };
+};
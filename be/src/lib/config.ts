@@ -0,0 +1,16 @@
+import { AppConfig, ConfigError } from '@next-page-builder/contracts';
+import { loadConfig } from '@next-page-builder/contracts/dist/configFile';
+import { logger } from './logger';
+
+// For entry points: a bad config ends the process with the reasons instead of a stack trace
+export const loadConfigOrExit = (): AppConfig => {
+    try {
+        return loadConfig();
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            logger.error(error.message);
+            process.exit(1);
+        }
+        throw error;
+    }
+};
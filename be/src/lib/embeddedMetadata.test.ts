@@ -0,0 +1,183 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { MetadataStripError, isPreserveMetadataFlag, stripEmbeddedMetadata } from './embeddedMetadata';
+
+const jpegSegment = (marker: number, data: string | Buffer) => {
+    const body = Buffer.isBuffer(data) ? data : Buffer.from(data, 'latin1');
+    const header = Buffer.alloc(4);
+    header.writeUInt16BE(0xff00 | marker, 0);
+    header.writeUInt16BE(body.length + 2, 2);
+    return Buffer.concat([header, body]);
+};
+
+const SOI = Buffer.from([0xff, 0xd8]);
+const EOI = Buffer.from([0xff, 0xd9]);
+const APP0 = jpegSegment(0xe0, 'JFIF\0\x01\x02');
+const EXIF = jpegSegment(0xe1, 'Exif\0\0MM\0*secret');
+const XMP = jpegSegment(0xe1, 'http://ns.adobe.com/xap/1.0/\0<x:xmpmeta/>');
+const ICC = jpegSegment(0xe2, 'ICC_PROFILE\0\x01\x01profile');
+const COMMENT = jpegSegment(0xfe, 'taken at home');
+const DQT = jpegSegment(0xdb, '\0quant');
+const SOS = jpegSegment(0xda, '\x01\x01\0\0\x3f\0');
+// Entropy coded data with a stuffed FF00 and a restart marker, neither ends the scan
+const SCAN = Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56]);
+
+const jpeg = (...parts: Buffer[]) => Buffer.concat([SOI, ...parts]);
+
+const pngChunk = (type: string, data: string) => {
+    const body = Buffer.from(data, 'latin1');
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(body.length, 0);
+    header.write(type, 4, 'latin1');
+    // The stripper copies chunks as they are, so the CRC is not looked at
+    return Buffer.concat([header, body, Buffer.alloc(4)]);
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const IHDR = pngChunk('IHDR', '\0\0\0\x01\0\0\0\x01\x08\x06\0\0\0');
+const IDAT = pngChunk('IDAT', 'pixels');
+const IEND = pngChunk('IEND', '');
+
+const webpChunk = (type: string, data: Buffer | string) => {
+    const body = Buffer.isBuffer(data) ? data : Buffer.from(data, 'latin1');
+    const header = Buffer.alloc(8);
+    header.write(type, 0, 'latin1');
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+};
+
+const webp = (...chunks: Buffer[]) => {
+    const header = Buffer.alloc(12);
+    header.write('RIFF', 0, 'latin1');
+    header.writeUInt32LE(4 + chunks.reduce((total, chunk) => total + chunk.length, 0), 4);
+    header.write('WEBP', 8, 'latin1');
+    return Buffer.concat([header, ...chunks]);
+};
+
+const VP8X = webpChunk('VP8X', Buffer.from([0x08 | 0x04 | 0x10, 0, 0, 0, 0, 0, 0, 0, 0, 0]));
+// Odd length, so it carries a padding byte
+const VP8 = webpChunk('VP8 ', 'frame');
+
+describe('stripEmbeddedMetadata for JPEG', () => {
+    it('drops EXIF, XMP and comments and keeps what displaying the image needs', async () => {
+        const stripped = await stripEmbeddedMetadata(jpeg(APP0, EXIF, XMP, ICC, COMMENT, DQT, SOS, SCAN, EOI), 'image/jpeg');
+        expect(stripped).toEqual(jpeg(APP0, ICC, DQT, SOS, SCAN, EOI));
+    });
+
+    it('cuts off whatever follows the end of the image', async () => {
+        const trailer = jpeg(EXIF, EOI);
+        const stripped = await stripEmbeddedMetadata(Buffer.concat([jpeg(DQT, SOS, SCAN, EOI), trailer]), 'image/jpeg');
+        expect(stripped).toEqual(jpeg(DQT, SOS, SCAN, EOI));
+    });
+
+    it('keeps the orientation in a minimal EXIF block', async () => {
+        const stripped = await stripEmbeddedMetadata(jpeg(APP0, EXIF, DQT, SOS, SCAN, EOI), 'image/jpeg', 6);
+        expect(stripped.subarray(2, 4)).toEqual(Buffer.from([0xff, 0xe1]));
+        expect(stripped.includes(Buffer.from('secret'))).toBe(false);
+        // Big-endian TIFF, one entry: tag 0x0112 (Orientation), type SHORT, count 1, value 6
+        const exif = stripped.subarray(4 + 2 + 6);
+        expect(exif.readUInt16BE(8)).toBe(1);
+        expect(exif.readUInt16BE(10)).toBe(0x0112);
+        expect(exif.readUInt16BE(18)).toBe(6);
+    });
+
+    it('skips fill bytes between segments', async () => {
+        const stripped = await stripEmbeddedMetadata(jpeg(Buffer.from([0xff]), DQT, EOI), 'image/jpeg');
+        expect(stripped).toEqual(jpeg(DQT, EOI));
+    });
+
+    it.each([
+        ['not a JPEG', Buffer.from([0x89, 0x50])],
+        ['a single byte', Buffer.from([0xff])],
+        ['a segment header cut off', jpeg(Buffer.from([0xff, 0xe1, 0x00]))],
+        ['a segment running past the end', jpeg(EXIF.subarray(0, EXIF.length - 1))],
+        ['a length shorter than itself', jpeg(Buffer.from([0xff, 0xe1, 0x00, 0x01]), EOI)],
+        ['a missing marker', jpeg(Buffer.from([0x00, 0x01]))],
+        ['no end of image', jpeg(DQT)],
+    ])('rejects %s', async (_, buffer) => {
+        await expect(stripEmbeddedMetadata(buffer, 'image/jpeg')).rejects.toBeInstanceOf(MetadataStripError);
+    });
+});
+
+describe('stripEmbeddedMetadata for PNG', () => {
+    it('drops text, time and EXIF chunks', async () => {
+        const png = Buffer.concat([
+            PNG_SIGNATURE, IHDR, pngChunk('tEXt', 'Author\0alice'), pngChunk('eXIf', 'MM\0*'),
+            pngChunk('tIME', '\x07\xea\x01\x01\0\0\0'), IDAT, pngChunk('iTXt', 'x'), IEND,
+        ]);
+        expect(await stripEmbeddedMetadata(png, 'image/png')).toEqual(Buffer.concat([PNG_SIGNATURE, IHDR, IDAT, IEND]));
+    });
+
+    it('stops at IEND', async () => {
+        const png = Buffer.concat([PNG_SIGNATURE, IHDR, IDAT, IEND, pngChunk('tEXt', 'after')]);
+        expect(await stripEmbeddedMetadata(png, 'image/png')).toEqual(Buffer.concat([PNG_SIGNATURE, IHDR, IDAT, IEND]));
+    });
+
+    it('rejects a chunk running past the end', async () => {
+        const png = Buffer.concat([PNG_SIGNATURE, IHDR, IDAT.subarray(0, IDAT.length - 2)]);
+        await expect(stripEmbeddedMetadata(png, 'image/png')).rejects.toThrow('Malformed PNG chunk');
+    });
+});
+
+describe('stripEmbeddedMetadata for WebP', () => {
+    it('drops EXIF and XMP chunks, clears their flags and fixes the RIFF size', async () => {
+        const original = webp(VP8X, VP8, webpChunk('EXIF', 'MM\0*secret'), webpChunk('XMP ', '<x:xmpmeta/>'));
+        const stripped = await stripEmbeddedMetadata(original, 'image/webp');
+
+        const vp8x = Buffer.from(VP8X);
+        vp8x[8] = 0x10;
+        expect(stripped).toEqual(webp(vp8x, VP8));
+        expect(stripped.readUInt32LE(4)).toBe(stripped.length - 8);
+    });
+
+    it('accepts a last chunk without its padding byte', async () => {
+        const original = webp(VP8X, VP8);
+        const stripped = await stripEmbeddedMetadata(original.subarray(0, original.length - 1), 'image/webp');
+        expect(stripped.subarray(12 + VP8X.length, 12 + VP8X.length + 13)).toEqual(VP8.subarray(0, 13));
+    });
+
+    it('rejects a chunk running past the end', async () => {
+        const original = webp(VP8X, VP8);
+        await expect(stripEmbeddedMetadata(original.subarray(0, original.length - 3), 'image/webp')).rejects.toThrow('Malformed WebP chunk');
+    });
+});
+
+describe('stripEmbeddedMetadata for rotated WebP', () => {
+    // 4x2 pixels that viewers turn a quarter to the right
+    const rotatedWebp = (options: sharp.WebpOptions) => sharp({ create: { width: 4, height: 2, channels: 3, background: '#c00' } })
+        .webp(options)
+        .withMetadata({ orientation: 6 })
+        .toBuffer();
+
+    const pixelChunk = (buffer: Buffer) => (buffer.includes('VP8L', 12, 'latin1') ? 'VP8L' : 'VP8 ');
+
+    it('keeps lossless images lossless', async () => {
+        const original = await rotatedWebp({ lossless: true });
+        const stripped = await stripEmbeddedMetadata(original, 'image/webp', 6);
+        expect(pixelChunk(stripped)).toBe('VP8L');
+        expect(await sharp(stripped).metadata()).toMatchObject({ width: 2, height: 4 });
+    });
+
+    it('re-encodes lossy images lossy', async () => {
+        const stripped = await stripEmbeddedMetadata(await rotatedWebp({ quality: 80 }), 'image/webp', 6);
+        expect(pixelChunk(stripped)).toBe('VP8 ');
+        expect(await sharp(stripped).metadata()).toMatchObject({ width: 2, height: 4 });
+    });
+});
+
+describe('stripEmbeddedMetadata for other formats', () => {
+    it('passes GIF and BMP through, neither carries EXIF', async () => {
+        const gif = Buffer.from('GIF89a', 'latin1');
+        expect(await stripEmbeddedMetadata(gif, 'image/gif')).toBe(gif);
+    });
+
+    it('refuses formats it cannot write', async () => {
+        await expect(stripEmbeddedMetadata(Buffer.from('<svg/>'), 'image/svg+xml')).rejects.toBeInstanceOf(MetadataStripError);
+    });
+});
+
+describe('isPreserveMetadataFlag', () => {
+    it.each([[true, true], ['true', true], ['1', true], ['false', false], [undefined, false], [1, false]])('%s -> %s', (value, expected) => {
+        expect(isPreserveMetadataFlag(value)).toBe(expected);
+    });
+});
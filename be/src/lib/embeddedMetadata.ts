@@ -0,0 +1,286 @@
+import { parse as parseExif, sidecar as parseSidecar } from 'exifr';
+import sharp from 'sharp';
+import { EmbeddedMetadata, PersonalDataKind } from '@next-page-builder/contracts';
+
+// Raised when personal data cannot be removed from a format without losing the image
+export class MetadataStripError extends Error {}
+
+const SERIAL_NUMBER_TAGS = ['SerialNumber', 'BodySerialNumber', 'LensSerialNumber', 'InternalSerialNumber'];
+const PEOPLE_TAGS = ['Artist', 'OwnerName', 'CameraOwnerName', 'Copyright'];
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+
+// `preserveMetadata` arrives as a form field, a tus metadata value or JSON
+export const isPreserveMetadataFlag = (value: unknown) => value === true || value === 'true' || value === '1';
+
+const asString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const asDate = (value: unknown) => {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : undefined;
+    return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+};
+
+const asNumber = (value: unknown) => (typeof value === 'number' ? value : undefined);
+
+// `key` of a nested XMP namespace such as `dc` or `photoshop`, which may be missing
+const fieldOf = (value: unknown, key: string): unknown =>
+    value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+
+interface RawMetadata {
+    orientation?: number;
+    exif: Record<string, unknown>;
+    xmp: Record<string, unknown>;
+    xmpText: string;
+    iptc: boolean;
+}
+
+const readRawMetadata = async (buffer: Buffer): Promise<RawMetadata> => {
+    let info: sharp.Metadata;
+    try {
+        info = await sharp(buffer).metadata();
+    } catch {
+        // sharp cannot decode every HEIC, exifr reads their metadata boxes directly
+        const exif: Record<string, unknown> = await parseExif(buffer, { gps: true, translateValues: false }) || {};
+        return { orientation: asNumber(exif.Orientation), exif, xmp: {}, xmpText: '', iptc: false };
+    }
+    // sharp hands out the TIFF structure, with the JPEG APP1 header on some formats
+    const tiff = info.exif && info.exif.subarray(0, 6).equals(EXIF_HEADER) ? info.exif.subarray(6) : info.exif;
+    return {
+        orientation: info.orientation,
+        exif: tiff ? await parseExif(tiff, { gps: true, translateValues: false }) || {} : {},
+        // Namespaces to their properties, see fieldOf
+        xmp: info.xmp ? (await parseSidecar(info.xmp) || {}) as Record<string, unknown> : {},
+        xmpText: info.xmp ? info.xmp.toString('utf8') : '',
+        iptc: Boolean(info.iptc),
+    };
+};
+
+// Reads the EXIF, XMP and IPTC of an image. `stripped` is left for the caller to decide.
+export const readEmbeddedMetadata = async (buffer: Buffer): Promise<Omit<EmbeddedMetadata, 'stripped'>> => {
+    const { orientation, exif, xmp, xmpText, iptc } = await readRawMetadata(buffer);
+
+    const personalData: PersonalDataKind[] = [];
+    const latitude = asNumber(exif.latitude);
+    const longitude = asNumber(exif.longitude);
+    if (latitude !== undefined || /GPS(Latitude|Longitude)/.test(xmpText)) {
+        personalData.push('location');
+    }
+    if (SERIAL_NUMBER_TAGS.some(tag => exif[tag] !== undefined) || /SerialNumber/.test(xmpText)) {
+        personalData.push('serial-numbers');
+    }
+    // IPTC is mostly bylines, contacts and places
+    if (PEOPLE_TAGS.some(tag => exif[tag] !== undefined) || fieldOf(xmp.dc, 'creator') !== undefined || iptc) {
+        personalData.push('people');
+    }
+
+    const camera = {
+        make: asString(exif.Make),
+        model: asString(exif.Model),
+        lens: asString(exif.LensModel),
+    };
+    return {
+        orientation,
+        capturedAt: asDate(exif.DateTimeOriginal) || asDate(exif.CreateDate) || asDate(fieldOf(xmp.photoshop, 'DateCreated')),
+        camera: camera.make || camera.model || camera.lens ? camera : undefined,
+        software: asString(exif.Software),
+        location: latitude !== undefined && longitude !== undefined
+            ? { latitude, longitude, altitude: asNumber(exif.GPSAltitude) }
+            : undefined,
+        personalData,
+    };
+};
+
+// Smallest EXIF block that still tells viewers how to rotate the image: a
+// big-endian TIFF header with a single Orientation entry
+const orientationExif = (orientation: number) => {
+    const tiff = Buffer.alloc(26);
+    tiff.write('MM\0*', 0, 'latin1');
+    tiff.writeUInt32BE(8, 4);
+    tiff.writeUInt16BE(1, 8);
+    tiff.writeUInt16BE(0x0112, 10);
+    tiff.writeUInt16BE(3, 12);
+    tiff.writeUInt32BE(1, 14);
+    tiff.writeUInt16BE(orientation, 18);
+    return Buffer.concat([EXIF_HEADER, tiff]);
+};
+
+const jpegSegment = (marker: number, data: Buffer) => {
+    const header = Buffer.alloc(4);
+    header.writeUInt16BE(0xff00 | marker, 0);
+    header.writeUInt16BE(data.length + 2, 2);
+    return Buffer.concat([header, data]);
+};
+
+// APP0 (JFIF), ICC profiles in APP2 and APP14 (Adobe colour transform) are needed
+// to display the image right, every other application segment and comments go
+const keepJpegSegment = (marker: number, data: Buffer) => {
+    if (marker === 0xe0 || marker === 0xee) {
+        return true;
+    }
+    if (marker === 0xe2) {
+        return data.subarray(0, 12).toString('latin1') === 'ICC_PROFILE\0';
+    }
+    return !(marker >= 0xe1 && marker <= 0xef) && marker !== 0xfe;
+};
+
+// Drops metadata segments without re-encoding. Whatever follows the image's EOI
+// (e.g. MPF previews, which carry their own EXIF) is cut off as well.
+const stripJpeg = (buffer: Buffer, orientation: number | undefined): Buffer => {
+    if (buffer.length < 2 || buffer.readUInt16BE(0) !== 0xffd8) {
+        throw new MetadataStripError('Not a JPEG file');
+    }
+    const parts: Buffer[] = [buffer.subarray(0, 2)];
+    if (orientation && orientation > 1) {
+        parts.push(jpegSegment(0xe1, orientationExif(orientation)));
+    }
+
+    let offset = 2;
+    let inScan = false;
+    while (offset < buffer.length) {
+        if (inScan) {
+            // Entropy coded data: FF00 is a stuffed byte and FFD0-FFD7 restart markers, any other marker ends the scan
+            const isMarker = (at: number) => buffer[at + 1] !== 0 && (buffer[at + 1] < 0xd0 || buffer[at + 1] > 0xd7);
+            let end = buffer.indexOf(0xff, offset);
+            while (end !== -1 && !isMarker(end)) {
+                end = buffer.indexOf(0xff, end + 1);
+            }
+            if (end === -1) {
+                break;
+            }
+            parts.push(buffer.subarray(offset, end));
+            offset = end;
+            inScan = false;
+            continue;
+        }
+
+        if (buffer[offset] !== 0xff || offset + 1 >= buffer.length) {
+            throw new MetadataStripError('Malformed JPEG segment');
+        }
+        const marker = buffer[offset + 1];
+        if (marker === 0xff) {
+            // Fill byte
+            offset++;
+            continue;
+        }
+        if (marker === 0xd9) {
+            parts.push(buffer.subarray(offset, offset + 2));
+            return Buffer.concat(parts);
+        }
+        // The length counts itself, a segment running past the end means the file was cut off
+        if (offset + 4 > buffer.length) {
+            throw new MetadataStripError('Malformed JPEG segment');
+        }
+        const length = buffer.readUInt16BE(offset + 2);
+        if (length < 2 || offset + 2 + length > buffer.length) {
+            throw new MetadataStripError('Malformed JPEG segment');
+        }
+        const segment = buffer.subarray(offset, offset + 2 + length);
+        if (keepJpegSegment(marker, segment.subarray(4))) {
+            parts.push(segment);
+        }
+        offset += 2 + length;
+        inScan = marker === 0xda;
+    }
+    throw new MetadataStripError('JPEG ends without an EOI marker');
+};
+
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+
+// Drops text and EXIF chunks, pixels and colour chunks are copied as they are
+const stripPng = (buffer: Buffer): Buffer => {
+    const parts: Buffer[] = [buffer.subarray(0, 8)];
+    let offset = 8;
+    while (offset + 8 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset);
+        const type = buffer.subarray(offset + 4, offset + 8).toString('latin1');
+        const end = offset + 12 + length;
+        if (end > buffer.length) {
+            throw new MetadataStripError('Malformed PNG chunk');
+        }
+        if (!PNG_METADATA_CHUNKS.includes(type)) {
+            parts.push(buffer.subarray(offset, end));
+        }
+        offset = end;
+        if (type === 'IEND') {
+            break;
+        }
+    }
+    return Buffer.concat(parts);
+};
+
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+// Drops the EXIF and XMP chunks of a RIFF container and clears their VP8X flags
+const stripWebp = (buffer: Buffer): Buffer => {
+    const parts: Buffer[] = [];
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+        const type = buffer.subarray(offset, offset + 4).toString('latin1');
+        const length = buffer.readUInt32LE(offset + 4);
+        // Chunks are padded to an even size
+        const end = offset + 8 + length + (length % 2);
+        // The padding byte of the last chunk is sometimes left out
+        if (offset + 8 + length > buffer.length) {
+            throw new MetadataStripError('Malformed WebP chunk');
+        }
+        const chunk = Buffer.from(buffer.subarray(offset, end));
+        if (type === 'VP8X') {
+            chunk[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+        }
+        if (type !== 'EXIF' && type !== 'XMP ') {
+            parts.push(chunk);
+        }
+        offset = end;
+    }
+    const body = Buffer.concat(parts);
+    const header = Buffer.from(buffer.subarray(0, 12));
+    header.writeUInt32LE(body.length + 4, 4);
+    return Buffer.concat([header, body]);
+};
+
+// Lossless WebP keeps its pixels in a VP8L chunk, lossy ones in VP8
+const isLosslessWebp = (buffer: Buffer) => {
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+        const type = buffer.subarray(offset, offset + 4).toString('latin1');
+        if (type === 'VP8L') {
+            return true;
+        }
+        if (type === 'VP8 ') {
+            return false;
+        }
+        const length = buffer.readUInt32LE(offset + 4);
+        offset += 8 + length + (length % 2);
+    }
+    return false;
+};
+
+// Copy of the image without EXIF, XMP and IPTC. JPEG, PNG and WebP are rewritten
+// losslessly, other formats sharp can write are re-encoded upright.
+export const stripEmbeddedMetadata = async (buffer: Buffer, mimetype: string, orientation?: number): Promise<Buffer> => {
+    const upright = !orientation || orientation === 1;
+    switch (mimetype) {
+        case 'image/jpeg':
+            return stripJpeg(buffer, orientation);
+        case 'image/png':
+            // PNG re-encodes losslessly, so rotating the pixels costs nothing
+            return upright ? stripPng(buffer) : sharp(buffer).rotate().keepIccProfile().png().toBuffer();
+        case 'image/webp':
+            if (upright) {
+                return stripWebp(buffer);
+            }
+            // Rotating means re-encoding, lossless images stay lossless
+            return sharp(buffer).rotate().keepIccProfile()
+                .webp(isLosslessWebp(buffer) ? { lossless: true } : { quality: 90 })
+                .toBuffer();
+        case 'image/avif':
+            return sharp(buffer).rotate().keepIccProfile().avif({ quality: 80 }).toBuffer();
+        case 'image/gif':
+        case 'image/bmp':
+            // Neither carries EXIF
+            return buffer;
+        default:
+            throw new MetadataStripError(`Cannot remove embedded metadata from ${mimetype} files`);
+    }
+};
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import multer from 'multer';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { TestServer, listen } from '../test/http';
+import { HashedFile, createHashingDiskStorage } from './hashingDiskStorage';
+
+class TooManyBytesError extends Error {}
+
+describe('createHashingDiskStorage', () => {
+    let server: TestServer;
+    let dir: string;
+    let reserved: number[];
+    // Bytes reserveBytes accepts per request before it throws
+    let allowance: number;
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hashing-storage-'));
+        const upload = multer({
+            storage: createHashingDiskStorage({
+                destination: dir,
+                filename: (req, file) => `${crypto.randomUUID()}-${file.originalname}`,
+                reserveBytes: (req, bytes) => {
+                    const total = reserved.reduce((sum, chunk) => sum + chunk, 0) + bytes;
+                    if (total > allowance) {
+                        throw new TooManyBytesError();
+                    }
+                    reserved.push(bytes);
+                },
+            }),
+        });
+        const app = express();
+        app.post('/', upload.array('images'), (req, res) => {
+            res.json((req.files as HashedFile[]).map(({ originalname, size, checksum, path: filePath }) => ({
+                originalname,
+                size,
+                checksum,
+                stored: fs.readFileSync(filePath).length,
+            })));
+        });
+        app.use((error: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+            res.status(error instanceof TooManyBytesError ? 413 : 500).json({ error: error.constructor.name });
+        });
+        server = await listen(app);
+    });
+
+    afterAll(async () => {
+        await server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        reserved = [];
+        allowance = Infinity;
+    });
+
+    const post = (files: Record<string, Buffer>) => {
+        const form = new FormData();
+        form.append('caption', 'x'.repeat(1000));
+        Object.entries(files).forEach(([name, bytes]) => form.append('images', new Blob([new Uint8Array(bytes)]), name));
+        return fetch(server.url, { method: 'POST', body: form });
+    };
+
+    it('hashes every file on its way to disk', async () => {
+        const bytes = crypto.randomBytes(200_000);
+        const response = await post({ 'a.png': bytes });
+        expect(await response.json()).toEqual([{
+            originalname: 'a.png',
+            size: bytes.length,
+            checksum: crypto.createHash('sha256').update(bytes).digest('hex'),
+            stored: bytes.length,
+        }]);
+    });
+
+    it('reserves the file bytes, not the form fields and part headers around them', async () => {
+        const response = await post({ 'a.png': crypto.randomBytes(70_000), 'b.png': crypto.randomBytes(30_000) });
+        expect(response.status).toBe(200);
+        expect(reserved.reduce((sum, chunk) => sum + chunk, 0)).toBe(100_000);
+    });
+
+    it('stops the upload with the error reserveBytes throws', async () => {
+        allowance = 50_000;
+        const response = await post({ 'a.png': crypto.randomBytes(40_000), 'b.png': crypto.randomBytes(40_000) });
+        expect(response.status).toBe(413);
+        expect(await response.json()).toEqual({ error: 'TooManyBytesError' });
+    });
+});
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import express from 'express';
+import fs from 'fs';
+import multer from 'multer';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { resolveWithin } from './safePath';
+
+// Extra property set on every file received through the hashing storage
+export interface HashedFile extends Express.Multer.File {
+    // Hex encoded SHA-256 of the received bytes
+    checksum: string;
+}
+
+export interface HashingDiskStorageOptions {
+    destination: string;
+    filename: (req: express.Request, file: Express.Multer.File) => string;
+    // Called with the size of every chunk of a file before it is written, e.g. to hold
+    // quota for it. Throwing stops the upload with that error.
+    reserveBytes?: (req: express.Request, bytes: number) => void;
+}
+
+// Same as multer.diskStorage, but hashes the bytes on their way to disk so
+// deduplication does not need a second pass over the file.
+export const createHashingDiskStorage = ({ destination, filename, reserveBytes }: HashingDiskStorageOptions): multer.StorageEngine => ({
+    _handleFile: (req, file, cb) => {
+        const name = filename(req, file);
+        const filePath = resolveWithin(destination, name);
+        const hash = crypto.createHash('sha256');
+        let size = 0;
+
+        const hasher = new Transform({
+            transform: (chunk: Buffer, encoding, done) => {
+                try {
+                    reserveBytes?.(req, chunk.length);
+                } catch (error) {
+                    done(error as Error);
+                    return;
+                }
+                hash.update(chunk);
+                size += chunk.length;
+                done(null, chunk);
+            },
+        });
+
+        pipeline(file.stream, hasher, fs.createWriteStream(filePath))
+            .then(() => {
+                const info: Partial<HashedFile> = {
+                    destination,
+                    filename: name,
+                    path: filePath,
+                    size,
+                    checksum: hash.digest('hex'),
+                };
+                cb(null, info);
+            })
+            .catch(cb);
+    },
+    _removeFile: (req, file, cb) => {
+        fs.rm(file.path, { force: true }, cb);
+    },
+});
@@ -0,0 +1,66 @@
+import { v4 as uuidv4 } from 'uuid';
+import { StorageAdapter } from './storage';
+
+// A dependency the server needs to serve requests, throws (or rejects) when it cannot
+export type HealthCheck = () => void | Promise<void>;
+
+export interface CheckResult {
+    ok: boolean;
+    durationMs: number;
+    error?: string;
+}
+
+export interface ReadinessReport {
+    ready: boolean;
+    checks: Record<string, CheckResult>;
+}
+
+export class HealthCheckTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Timed out after ${timeoutMs}ms`);
+    }
+}
+
+const withTimeout = (task: Promise<void>, timeoutMs: number) => {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new HealthCheckTimeoutError(timeoutMs)), timeoutMs);
+    });
+    return Promise.race([task, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Runs every check side by side, each one bounded by timeoutMs so a hanging
+// bucket cannot hold up the probe itself
+export const runHealthChecks = async (checks: Record<string, HealthCheck>, timeoutMs: number): Promise<ReadinessReport> => {
+    const results = await Promise.all(Object.entries(checks).map(async ([name, check]): Promise<[string, CheckResult]> => {
+        const startedAt = Date.now();
+        try {
+            await withTimeout(Promise.resolve().then(check), timeoutMs);
+            return [name, { ok: true, durationMs: Date.now() - startedAt }];
+        } catch (error) {
+            return [name, {
+                ok: false,
+                durationMs: Date.now() - startedAt,
+                error: error instanceof Error ? error.message : String(error),
+            }];
+        }
+    }));
+    return {
+        ready: results.every(([, result]) => result.ok),
+        checks: Object.fromEntries(results),
+    };
+};
+
+// Storage is ready when a small object can be written, read back and deleted. Works
+// the same for every adapter, and catches a full disk or revoked bucket credentials.
+export const storageCheck = (storage: StorageAdapter): HealthCheck => async () => {
+    const key = `.probes/readyz-${uuidv4()}`;
+    try {
+        await storage.put(key, Buffer.from('ok'), { contentType: 'text/plain' });
+        if (!await storage.stat(key)) {
+            throw new Error('Probe object was not found after writing it');
+        }
+    } finally {
+        await storage.delete(key);
+    }
+};
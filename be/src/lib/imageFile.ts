@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { imageSize } from 'image-size';
+
+export interface ImageFileInfo {
+    size: number;
+    width?: number;
+    height?: number;
+    checksum: string;
+}
+
+export const hashBuffer = (buffer: Buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+export const hashFile = async (filePath: string): Promise<string> => {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of fs.createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+    return hash.digest('hex');
+};
+
+// Collects the stored-file facts the metadata store records for every image.
+// Pass the checksum when it is already known to skip hashing again.
+export const inspectImageFile = (filePath: string, checksum?: string): ImageFileInfo =>
+    inspectImageBuffer(fs.readFileSync(filePath), checksum);
+
+export const inspectImageBuffer = (buffer: Buffer, checksum = hashBuffer(buffer)): ImageFileInfo => {
+
+    let width: number | undefined;
+    let height: number | undefined;
+    try {
+        const dimensions = imageSize(buffer);
+        width = dimensions.width;
+        height = dimensions.height;
+    } catch {
+        // Dimensions are optional, e.g. an SVG without width/height or viewBox
+    }
+
+    return { size: buffer.length, width, height, checksum };
+};
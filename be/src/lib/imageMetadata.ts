@@ -0,0 +1,75 @@
+import {
+    ImageMetadata,
+    describeIssues,
+    imageMetadataSchema,
+    uploadMetadataSchema,
+} from '@next-page-builder/contracts';
+import { ImageRecord } from './metadataStore';
+
+export class ImageMetadataError extends Error {}
+
+export const parseImageMetadata = (value: unknown): ImageMetadata => {
+    const result = imageMetadataSchema.safeParse(value);
+    if (!result.success) {
+        throw new ImageMetadataError(describeIssues(result.error.issues));
+    }
+    return result.data;
+};
+
+// The JSON `metadata` field of a multipart upload (sent once, or once per file), keyed by original filename
+export const parseUploadMetadataField = (value: unknown): Record<string, ImageMetadata> => {
+    const fields = value === undefined ? [] : Array.isArray(value) ? value : [value];
+    const merged = fields.reduce<Record<string, unknown>>((all, field) => {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(String(field));
+        } catch {
+            throw new ImageMetadataError('metadata must be a JSON object');
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new ImageMetadataError('metadata must be a JSON object');
+        }
+        return { ...all, ...parsed };
+    }, {});
+
+    const result = uploadMetadataSchema.safeParse(merged);
+    if (!result.success) {
+        throw new ImageMetadataError(`metadata ${describeIssues(result.error.issues)}`);
+    }
+    return result.data;
+};
+
+const isEmpty = (value: string | string[] | Record<string, string>) =>
+    typeof value === 'string' || Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+
+// Sets the fields present in `metadata`, empty ones are removed from the record
+export const applyMetadata = (record: ImageRecord, metadata: ImageMetadata): ImageRecord => {
+    const updated = { ...record };
+    (Object.keys(metadata) as (keyof ImageMetadata)[]).forEach(field => {
+        const value = metadata[field];
+        if (value === undefined || isEmpty(value)) {
+            delete updated[field];
+        } else {
+            (updated as Record<string, unknown>)[field] = value;
+        }
+    });
+    return updated;
+};
+
+// For another upload of bytes that are already stored: the record belongs to the
+// first uploader too, so only blanks are filled in and tags and properties are added
+export const mergeMetadata = (record: ImageRecord, metadata: ImageMetadata): ImageRecord => applyMetadata(record, {
+    altText: record.altText || metadata.altText,
+    caption: record.caption || metadata.caption,
+    tags: Array.from(new Set([...(record.tags || []), ...(metadata.tags || [])])),
+    properties: { ...metadata.properties, ...record.properties },
+});
+
+// Everything a free text search over an image looks at, lower-cased
+export const searchableText = (record: ImageRecord): string[] => [
+    record.originalName,
+    record.altText || '',
+    record.caption || '',
+    ...(record.tags || []),
+    ...Object.values(record.properties || {}),
+].map(text => text.toLowerCase());
@@ -0,0 +1,105 @@
+import { DEFAULT_IMAGE_PAGE_SIZE, ImageListQuery, imageListQuerySchema } from '@next-page-builder/contracts';
+import { describe, expect, it } from 'vitest';
+import { testPrincipal } from '../test/http';
+import { ImageQueryError, queryImages } from './imageQuery';
+import { ImageRecord } from './metadataStore';
+
+const image = (id: string, overrides: Partial<ImageRecord> = {}): ImageRecord => ({
+    id,
+    originalName: `${id}.png`,
+    filename: `${id}.png`,
+    mimetype: 'image/png',
+    size: 100,
+    checksum: id,
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    ownerId: 'user:alice',
+    ...overrides,
+});
+
+const records = [
+    image('a', { originalName: 'Beach.png', size: 300, uploadedAt: '2026-01-03T00:00:00.000Z', tags: ['holiday'] }),
+    image('b', { originalName: 'city.jpg', mimetype: 'image/jpeg', size: 100, uploadedAt: '2026-01-01T00:00:00.000Z' }),
+    image('c', { originalName: 'Avatar.svg', mimetype: 'image/svg+xml', size: 200, uploadedAt: '2026-01-02T00:00:00.000Z', ownerId: 'user:bob' }),
+    image('d', { originalName: 'dunes.webp', mimetype: 'image/webp', size: 200, uploadedAt: '2026-01-02T00:00:00.000Z', altText: 'Sand at dusk' }),
+];
+
+const query = (params: ImageListQuery = {}) =>
+    queryImages(records, imageListQuerySchema.parse(params), testPrincipal());
+
+const ids = (params: ImageListQuery = {}) => query(params).images.map(record => record.id);
+
+describe('imageListQuerySchema', () => {
+    it('fills in the defaults', () => {
+        expect(imageListQuerySchema.parse({})).toEqual({ limit: DEFAULT_IMAGE_PAGE_SIZE, sort: 'date' });
+    });
+
+    it('coerces numbers and dates out of the query string', () => {
+        expect(imageListQuerySchema.parse({ limit: '10', minSize: '0', maxSize: '500', from: '2026-01-02' })).toMatchObject({
+            limit: 10,
+            minSize: 0,
+            maxSize: 500,
+            from: new Date('2026-01-02'),
+        });
+    });
+
+    it('rejects out of range and unknown values', () => {
+        for (const params of [{ limit: '0' }, { limit: '201' }, { limit: '1.5' }, { minSize: '-1' }, { sort: 'color' }, { order: 'up' }, { to: 'yesterday' }]) {
+            expect(imageListQuerySchema.safeParse(params).success, JSON.stringify(params)).toBe(false);
+        }
+    });
+});
+
+describe('queryImages', () => {
+    it('sorts newest first by default and by name A to Z, ties broken by id', () => {
+        expect(ids()).toEqual(['a', 'd', 'c', 'b']);
+        expect(ids({ order: 'asc' })).toEqual(['b', 'c', 'd', 'a']);
+        expect(ids({ sort: 'name' })).toEqual(['c', 'a', 'b', 'd']);
+        expect(ids({ sort: 'size' })).toEqual(['a', 'd', 'c', 'b']);
+    });
+
+    it('walks every page once with the cursor', () => {
+        const first = query({ limit: 3 });
+        expect(first.images.map(record => record.id)).toEqual(['a', 'd', 'c']);
+        expect(first.total).toBe(4);
+
+        const second = query({ limit: 3, cursor: first.nextCursor! });
+        expect(second.images.map(record => record.id)).toEqual(['b']);
+        expect(second.nextCursor).toBeNull();
+    });
+
+    it('continues after the cursor when the listing changed in between', () => {
+        const first = query({ limit: 2 });
+        const changed = [...records.filter(record => record.id !== 'a'), image('e', { uploadedAt: '2026-02-01T00:00:00.000Z' })];
+        const next = queryImages(changed, imageListQuerySchema.parse({ limit: 2, cursor: first.nextCursor }), testPrincipal());
+        expect(next.images.map(record => record.id)).toEqual(['c', 'b']);
+    });
+
+    it('rejects a cursor that is garbage or from another sort order', () => {
+        expect(() => query({ cursor: 'not a cursor' })).toThrow(ImageQueryError);
+        const cursor = query({ limit: 1 }).nextCursor!;
+        expect(() => query({ cursor, sort: 'name' })).toThrow('cursor belongs to a different sort order');
+        expect(() => query({ cursor, order: 'asc' })).toThrow('cursor belongs to a different sort order');
+    });
+
+    it('filters by mimetype, with wildcards', () => {
+        expect(ids({ mimetype: 'image/jpeg, IMAGE/WEBP' })).toEqual(['d', 'b']);
+        expect(ids({ mimetype: 'image/*' })).toHaveLength(4);
+        expect(ids({ mimetype: 'video/*' })).toEqual([]);
+    });
+
+    it('filters by size and upload date, both ends inclusive', () => {
+        expect(ids({ minSize: 200, maxSize: 200 })).toEqual(['d', 'c']);
+        expect(ids({ from: '2026-01-02', to: '2026-01-02T00:00:00.000Z' })).toEqual(['d', 'c']);
+    });
+
+    it('filters by owner, with me meaning the caller', () => {
+        expect(ids({ owner: 'me' })).toEqual(['a', 'd', 'b']);
+        expect(ids({ owner: 'user:bob' })).toEqual(['c']);
+    });
+
+    it('filters by tag and by text anywhere in the names and descriptions', () => {
+        expect(ids({ tag: ' Holiday ' })).toEqual(['a']);
+        expect(ids({ q: 'DUSK' })).toEqual(['d']);
+        expect(ids({ q: 'beach', mimetype: 'image/jpeg' })).toEqual([]);
+    });
+});
@@ -0,0 +1,101 @@
+import { ImageSortField, ParsedImageListQuery, SortOrder } from '@next-page-builder/contracts';
+import { Principal } from './auth';
+import { searchableText } from './imageMetadata';
+import { ImageRecord } from './metadataStore';
+
+export class ImageQueryError extends Error {}
+
+// Where the previous page ended, so the next one starts after it even when
+// images were added or removed in between
+interface Cursor {
+    sort: ImageSortField;
+    order: SortOrder;
+    value: string | number;
+    id: string;
+}
+
+export interface ImagePage {
+    images: ImageRecord[];
+    total: number;
+    nextCursor: string | null;
+}
+
+const sortValue = (record: ImageRecord, sort: ImageSortField): string | number => {
+    switch (sort) {
+        case 'name':
+            return record.originalName.toLowerCase();
+        case 'size':
+            return record.size;
+        default:
+            return record.uploadedAt;
+    }
+};
+
+const compareValues = (a: string | number, b: string | number) => (a < b ? -1 : a > b ? 1 : 0);
+
+const encodeCursor = (cursor: Cursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (value: string, sort: ImageSortField, order: SortOrder): Cursor => {
+    let cursor: Cursor;
+    try {
+        cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    } catch {
+        throw new ImageQueryError('cursor is not valid');
+    }
+    if (!cursor || typeof cursor.id !== 'string' || !['string', 'number'].includes(typeof cursor.value)) {
+        throw new ImageQueryError('cursor is not valid');
+    }
+    if (cursor.sort !== sort || cursor.order !== order) {
+        throw new ImageQueryError('cursor belongs to a different sort order');
+    }
+    return cursor;
+};
+
+// `image/*` matches every image type, anything else must match exactly
+const matchesMimetype = (patterns: string[], mimetype: string) =>
+    patterns.some(pattern => pattern.endsWith('/*')
+        ? mimetype.startsWith(pattern.slice(0, -1))
+        : pattern === mimetype);
+
+const matchesFilters = (record: ImageRecord, query: ParsedImageListQuery, principal: Principal) => {
+    const mimetypes = query.mimetype?.split(',').map(type => type.trim().toLowerCase()).filter(Boolean);
+    const uploadedAt = Date.parse(record.uploadedAt);
+    const owner = query.owner === 'me' ? principal.id : query.owner;
+    const tag = query.tag?.trim().toLowerCase();
+
+    return (!mimetypes?.length || matchesMimetype(mimetypes, record.mimetype))
+        && (query.minSize === undefined || record.size >= query.minSize)
+        && (query.maxSize === undefined || record.size <= query.maxSize)
+        && (!query.from || uploadedAt >= query.from.getTime())
+        && (!query.to || uploadedAt <= query.to.getTime())
+        && (!owner || record.ownerId === owner)
+        && (!tag || (record.tags || []).includes(tag))
+        && (!query.q || searchableText(record).some(text => text.includes(query.q!.toLowerCase())));
+};
+
+// One page of the records matching the query, in a stable order: ties on the
+// sort field are broken by id so a cursor always points at a single position
+export const queryImages = (records: ImageRecord[], query: ParsedImageListQuery, principal: Principal): ImagePage => {
+    const { sort, limit } = query;
+    const order = query.order || (sort === 'name' ? 'asc' : 'desc');
+    const direction = order === 'asc' ? 1 : -1;
+    const compare = (a: { value: string | number; id: string }, b: { value: string | number; id: string }) =>
+        direction * (compareValues(a.value, b.value) || compareValues(a.id, b.id));
+
+    const matching = records
+        .filter(record => matchesFilters(record, query, principal))
+        .map(record => ({ record, value: sortValue(record, sort), id: record.id }))
+        .sort(compare);
+
+    const cursor = query.cursor ? decodeCursor(query.cursor, sort, order) : undefined;
+    const start = cursor ? matching.findIndex(entry => compare(entry, cursor) > 0) : 0;
+    const page = start === -1 ? [] : matching.slice(start, start + limit);
+
+    const last = page[page.length - 1];
+    const hasMore = start !== -1 && start + limit < matching.length;
+    return {
+        images: page.map(entry => entry.record),
+        total: matching.length,
+        nextCursor: hasMore && last ? encodeCursor({ sort, order, value: last.value, id: last.id }) : null,
+    };
+};
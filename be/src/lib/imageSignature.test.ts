@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { detectImageType, isBmpByBytes, isSvgByBytes, validateImageSignature } from './imageSignature';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0, 0x10]);
+const GIF = Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1');
+const WEBP = Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1');
+
+const bmp = (dibHeaderSize: number) => {
+    const buffer = Buffer.alloc(18);
+    buffer.write('BM', 0, 'latin1');
+    buffer.writeUInt32LE(dibHeaderSize, 14);
+    return buffer;
+};
+
+// ftyp box with a major brand and compatible brands
+const ftyp = (...brands: string[]) => {
+    const buffer = Buffer.alloc(16 + 4 * (brands.length - 1));
+    buffer.writeUInt32BE(buffer.length, 0);
+    buffer.write('ftyp', 4, 'latin1');
+    buffer.write(brands[0], 8, 'latin1');
+    brands.slice(1).forEach((brand, index) => buffer.write(brand, 16 + 4 * index, 'latin1'));
+    return buffer;
+};
+
+describe('detectImageType', () => {
+    it.each([
+        ['image/png', PNG],
+        ['image/jpeg', JPEG],
+        ['image/gif', GIF],
+        ['image/webp', WEBP],
+        ['image/bmp', bmp(40)],
+        ['image/avif', ftyp('avif', 'mif1')],
+        ['image/heic', ftyp('heic', 'mif1')],
+        ['image/svg+xml', Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>')],
+    ])('recognises %s', (mimetype, buffer) => {
+        expect(detectImageType(buffer)?.mimetype).toBe(mimetype);
+    });
+
+    it('does not take AVIF for HEIC because both list mif1', () => {
+        expect(detectImageType(ftyp('mif1', 'avif'))?.mimetype).toBe('image/avif');
+    });
+
+    it('rejects truncated signatures and unknown bytes', () => {
+        expect(detectImageType(PNG.subarray(0, 7))).toBeUndefined();
+        expect(detectImageType(Buffer.from('RIFF\x24\x00\x00\x00WAVE', 'latin1'))).toBeUndefined();
+        expect(detectImageType(Buffer.alloc(0))).toBeUndefined();
+    });
+});
+
+describe('isBmpByBytes', () => {
+    it('needs a known DIB header size after "BM"', () => {
+        expect(isBmpByBytes(bmp(124))).toBe(true);
+        expect(isBmpByBytes(bmp(7))).toBe(false);
+        expect(isBmpByBytes(Buffer.from('BM'))).toBe(false);
+    });
+});
+
+describe('isSvgByBytes', () => {
+    it('skips the XML prolog, comments and doctype before the root element', () => {
+        const svg = '﻿<?xml version="1.0"?>\n<!-- logo -->\n<!DOCTYPE svg [ <!ENTITY a "b"> ]>\n<svg viewBox="0 0 1 1"></svg>';
+        expect(isSvgByBytes(Buffer.from(svg))).toBe(true);
+    });
+
+    it('wants svg as the root element', () => {
+        expect(isSvgByBytes(Buffer.from('<html><svg></svg></html>'))).toBe(false);
+        expect(isSvgByBytes(Buffer.from('<svgfoo/>'))).toBe(false);
+    });
+});
+
+describe('validateImageSignature', () => {
+    it('accepts bytes, mimetype and extension that agree, aliases included', () => {
+        expect(validateImageSignature(JPEG, 'image/jpg', 'photo.JPEG')).toMatchObject({ valid: true, type: { mimetype: 'image/jpeg' } });
+    });
+
+    it('names unsupported mimetypes', () => {
+        expect(validateImageSignature(PNG, 'application/pdf', 'file.pdf')).toMatchObject({ valid: false, code: 'UNSUPPORTED_TYPE' });
+    });
+
+    it('rejects content that is not an image', () => {
+        expect(validateImageSignature(Buffer.from('hello'), 'image/png', 'a.png')).toMatchObject({ valid: false, code: 'INVALID_SIGNATURE' });
+    });
+
+    it('rejects content of another format than claimed', () => {
+        expect(validateImageSignature(PNG, 'image/jpeg', 'a.jpg')).toMatchObject({
+            valid: false,
+            code: 'INVALID_SIGNATURE',
+            reason: 'Content is image/png but was sent as image/jpeg',
+        });
+    });
+
+    it('rejects an extension that does not match the content', () => {
+        expect(validateImageSignature(PNG, 'image/png', 'a.gif')).toMatchObject({ valid: false, code: 'INVALID_SIGNATURE' });
+        expect(validateImageSignature(PNG, 'image/png', 'noextension')).toMatchObject({
+            valid: false,
+            reason: 'Extension (none) does not match image/png content',
+        });
+    });
+});
@@ -0,0 +1,171 @@
+import fs from 'fs';
+import path from 'path';
+
+// Number of leading bytes read from disk when sniffing a file. Binary formats
+// only need the first few bytes, SVG needs room to skip an XML prolog.
+export const SNIFF_LENGTH = 8192;
+
+export interface ImageType {
+    mimetype: string;
+    extension: string;
+    // Mimetypes browsers and OSes report for the same format
+    aliases: string[];
+    extensions: string[];
+}
+
+export const IMAGE_TYPES: ImageType[] = [
+    { mimetype: 'image/png', extension: '.png', aliases: ['image/x-png', 'image/apng'], extensions: ['.png', '.apng'] },
+    { mimetype: 'image/jpeg', extension: '.jpg', aliases: ['image/jpg', 'image/pjpeg'], extensions: ['.jpg', '.jpeg', '.jpe', '.jfif'] },
+    { mimetype: 'image/gif', extension: '.gif', aliases: [], extensions: ['.gif'] },
+    { mimetype: 'image/webp', extension: '.webp', aliases: [], extensions: ['.webp'] },
+    { mimetype: 'image/bmp', extension: '.bmp', aliases: ['image/x-bmp', 'image/x-ms-bmp'], extensions: ['.bmp', '.dib'] },
+    { mimetype: 'image/avif', extension: '.avif', aliases: [], extensions: ['.avif'] },
+    { mimetype: 'image/heic', extension: '.heic', aliases: ['image/heif', 'image/heic-sequence', 'image/heif-sequence'], extensions: ['.heic', '.heif'] },
+    { mimetype: 'image/svg+xml', extension: '.svg', aliases: [], extensions: ['.svg'] },
+];
+
+export const IMAGE_EXTENSIONS = IMAGE_TYPES.flatMap(type => type.extensions);
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]);
+const JPEG_SIGNATURE = Buffer.from([0xFF, 0xD8, 0xFF]);
+const GIF87A_SIGNATURE = Buffer.from('GIF87a', 'ascii');
+const GIF89A_SIGNATURE = Buffer.from('GIF89a', 'ascii');
+const BMP_SIGNATURE = Buffer.from('BM', 'ascii');
+
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+const startsWith = (buffer: Buffer, signature: Buffer, offset = 0): boolean => {
+    if (buffer.length < offset + signature.length) {
+        return false;
+    }
+    return buffer.subarray(offset, offset + signature.length).equals(signature);
+};
+
+const ascii = (buffer: Buffer, start: number, end: number): string =>
+    buffer.toString('latin1', start, end);
+
+export const isPngByBytes = (buffer: Buffer): boolean => startsWith(buffer, PNG_SIGNATURE);
+
+export const isJpegByBytes = (buffer: Buffer): boolean => startsWith(buffer, JPEG_SIGNATURE);
+
+export const isGifByBytes = (buffer: Buffer): boolean =>
+    startsWith(buffer, GIF87A_SIGNATURE) || startsWith(buffer, GIF89A_SIGNATURE);
+
+export const isWebpByBytes = (buffer: Buffer): boolean =>
+    buffer.length >= 12 && ascii(buffer, 0, 4) === 'RIFF' && ascii(buffer, 8, 12) === 'WEBP';
+
+export const isBmpByBytes = (buffer: Buffer): boolean => {
+    // "BM" alone is too weak, so also require the DIB header size to be one of the known variants
+    if (!startsWith(buffer, BMP_SIGNATURE) || buffer.length < 18) {
+        return false;
+    }
+    return [12, 40, 52, 56, 64, 108, 124].includes(buffer.readUInt32LE(14));
+};
+
+// Returns every brand listed in an ISO-BMFF `ftyp` box (major + compatible)
+const readFtypBrands = (buffer: Buffer): string[] => {
+    if (buffer.length < 16 || ascii(buffer, 4, 8) !== 'ftyp') {
+        return [];
+    }
+    const boxSize = Math.min(buffer.readUInt32BE(0), buffer.length);
+    const brands = [ascii(buffer, 8, 12)];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+        brands.push(ascii(buffer, offset, offset + 4));
+    }
+    return brands;
+};
+
+export const isAvifByBytes = (buffer: Buffer): boolean =>
+    readFtypBrands(buffer).some(brand => AVIF_BRANDS.includes(brand));
+
+export const isHeicByBytes = (buffer: Buffer): boolean => {
+    const brands = readFtypBrands(buffer);
+    return !brands.some(brand => AVIF_BRANDS.includes(brand))
+        && brands.some(brand => HEIC_BRANDS.includes(brand));
+};
+
+export const isSvgByBytes = (buffer: Buffer): boolean => {
+    let text = buffer.toString('utf8').replace(/^\uFEFF/, '');
+
+    // Skip the XML declaration, processing instructions, comments and doctype before the root element
+    const prolog = /^\s*(<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>[]*(\[[\s\S]*?\])?\s*>)/i;
+    let match = prolog.exec(text);
+    while (match) {
+        text = text.slice(match[0].length);
+        match = prolog.exec(text);
+    }
+
+    return /^\s*<svg[\s>]/i.test(text);
+};
+
+const DETECTORS: Array<[string, (buffer: Buffer) => boolean]> = [
+    ['image/png', isPngByBytes],
+    ['image/jpeg', isJpegByBytes],
+    ['image/gif', isGifByBytes],
+    ['image/webp', isWebpByBytes],
+    ['image/bmp', isBmpByBytes],
+    ['image/avif', isAvifByBytes],
+    ['image/heic', isHeicByBytes],
+    ['image/svg+xml', isSvgByBytes],
+];
+
+export const findImageTypeByMimetype = (mimetype: string): ImageType | undefined => {
+    const normalized = mimetype.toLowerCase();
+    return IMAGE_TYPES.find(type => type.mimetype === normalized || type.aliases.includes(normalized));
+};
+
+export const findImageTypeByExtension = (filename: string): ImageType | undefined => {
+    const ext = path.extname(filename).toLowerCase();
+    return IMAGE_TYPES.find(type => type.extensions.includes(ext));
+};
+
+export const detectImageType = (buffer: Buffer): ImageType | undefined => {
+    const detected = DETECTORS.find(([, matches]) => matches(buffer));
+    return detected ? findImageTypeByMimetype(detected[0]) : undefined;
+};
+
+// Reads only the leading bytes of a file, enough for detectImageType
+export const readFileHead = (filePath: string, length = SNIFF_LENGTH): Buffer => {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(length);
+        const bytesRead = fs.readSync(fd, buffer, 0, length, 0);
+        return buffer.subarray(0, bytesRead);
+    } finally {
+        fs.closeSync(fd);
+    }
+};
+
+export type SignatureCheck =
+    | { valid: true; type: ImageType }
+    | { valid: false; code: 'UNSUPPORTED_TYPE' | 'INVALID_SIGNATURE'; reason: string; type?: ImageType };
+
+// A file is accepted only when its bytes, its claimed mimetype and its
+// extension all agree on the same image format.
+export const validateImageSignature = (
+    buffer: Buffer,
+    claimedMimetype: string,
+    originalName: string
+): SignatureCheck => {
+    const claimed = findImageTypeByMimetype(claimedMimetype);
+    if (!claimed) {
+        return { valid: false, code: 'UNSUPPORTED_TYPE', reason: `Unsupported image type ${claimedMimetype}` };
+    }
+
+    const detected = detectImageType(buffer);
+    if (!detected) {
+        return { valid: false, code: 'INVALID_SIGNATURE', reason: `Content is not a recognised image (claimed ${claimed.mimetype})` };
+    }
+
+    if (detected.mimetype !== claimed.mimetype) {
+        return { valid: false, code: 'INVALID_SIGNATURE', reason: `Content is ${detected.mimetype} but was sent as ${claimed.mimetype}`, type: detected };
+    }
+
+    const byExtension = findImageTypeByExtension(originalName);
+    if (!byExtension || byExtension.mimetype !== detected.mimetype) {
+        return { valid: false, code: 'INVALID_SIGNATURE', reason: `Extension ${path.extname(originalName) || '(none)'} does not match ${detected.mimetype} content`, type: detected };
+    }
+
+    return { valid: true, type: detected };
+};
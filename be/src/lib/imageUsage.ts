@@ -0,0 +1,41 @@
+import { ImageUsage } from '@next-page-builder/contracts';
+import { recordWorkspace } from './auth';
+import { ImageRecord } from './metadataStore';
+import { PageStore } from './pageStore';
+import { RevisionStore } from './revisionStore';
+
+export interface ImageUsageSources {
+    pageStore: PageStore;
+    revisionStore: RevisionStore;
+}
+
+// Pages of the image's workspace that point at it, from the reverse indexes of both stores
+export const findImageUsages = (image: ImageRecord, { pageStore, revisionStore }: ImageUsageSources): ImageUsage[] => {
+    const workspace = recordWorkspace(image);
+    const drafts = new Set(pageStore.listByAsset(image.id).map(page => page.id));
+    const versions = new Map<string, number[]>();
+    revisionStore.listByAsset(image.id).forEach(revision => {
+        versions.set(revision.pageId, [...(versions.get(revision.pageId) || []), revision.version]);
+    });
+
+    const usages: ImageUsage[] = [];
+    new Set([...drafts, ...versions.keys()]).forEach(pageId => {
+        const page = pageStore.get(pageId);
+        if (!page || recordWorkspace(page) !== workspace) {
+            return;
+        }
+        const revisions = (versions.get(pageId) || []).sort((a, b) => b - a);
+        usages.push({
+            pageId,
+            title: page.title,
+            slug: page.slug,
+            draft: drafts.has(pageId),
+            published: page.published !== undefined && revisions.includes(page.published.version),
+            revisions,
+        });
+    });
+    return usages.sort((a, b) => a.title.localeCompare(b.title));
+};
+
+// Old revisions alone do not keep an image, only what the editor or visitors would show
+export const isImageInUse = (usages: ImageUsage[]) => usages.some(usage => usage.draft || usage.published);
@@ -0,0 +1,182 @@
+import fs from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { EmbeddedMetadata, ImageMetadata, UploadErrorCode } from '@next-page-builder/contracts';
+import { MetadataStripError, readEmbeddedMetadata, stripEmbeddedMetadata } from './embeddedMetadata';
+import { hashFile, inspectImageFile } from './imageFile';
+import { applyMetadata, mergeMetadata } from './imageMetadata';
+import { Principal, canManage, recordWorkspace } from './auth';
+import { readFileHead, validateImageSignature } from './imageSignature';
+import { KeyedLock } from './keyedLock';
+import { logger } from './logger';
+import { ImageRecord, MetadataStore, addReference } from './metadataStore';
+import { StorageAdapter } from './storage';
+import { sanitizeSvg } from './svgSanitizer';
+import { generateVariants } from './variants';
+
+// A fully received file waiting to be validated, wherever it was written to
+export interface IncomingFile {
+    path: string;
+    originalName: string;
+    mimetype: string;
+    // SHA-256 of the bytes when it was computed while receiving them
+    checksum?: string;
+    owner: Principal;
+    // Alt text, caption etc. the uploader sent along with the file
+    metadata?: ImageMetadata;
+    // Keep EXIF/XMP/IPTC, including location, in the stored bytes
+    preserveMetadata?: boolean;
+}
+
+export type IngestResult =
+    // `duplicate` means the bytes were already stored and `record` is the existing asset
+    | { accepted: true; record: ImageRecord; duplicate: boolean }
+    | { accepted: false; code: UploadErrorCode; reason: string };
+
+export interface IngestOptions {
+    storage: StorageAdapter;
+    metadataStore: MetadataStore;
+    // Held per checksum while a record's references change, shared with deletes
+    checksumLock: KeyedLock;
+}
+
+// Reads what the camera embedded and, unless the uploader asked to keep it, rewrites
+// the received file without it. Formats that cannot be cleaned are only accepted
+// when they carry no personal data.
+const processEmbeddedMetadata = async (file: IncomingFile, mimetype: string) => {
+    const original = fs.readFileSync(file.path);
+    let found: Omit<EmbeddedMetadata, 'stripped'> | undefined;
+    try {
+        found = await readEmbeddedMetadata(original);
+    } catch (error) {
+        logger.warn('Could not read embedded metadata', { originalName: file.originalName, error });
+    }
+    if (file.preserveMetadata) {
+        return { embedded: found && { ...found, stripped: false }, rewritten: false };
+    }
+
+    let stripped: Buffer;
+    try {
+        stripped = await stripEmbeddedMetadata(original, mimetype, found?.orientation);
+    } catch (error) {
+        if (error instanceof MetadataStripError && found && found.personalData.length === 0) {
+            return { embedded: { ...found, stripped: false }, rewritten: false };
+        }
+        throw error;
+    }
+    const rewritten = !stripped.equals(original);
+    if (rewritten) {
+        fs.writeFileSync(file.path, stripped);
+    }
+    return { embedded: found && { ...found, location: undefined, stripped: true }, rewritten };
+};
+
+const removeQuietly = (filePath: string) => {
+    try {
+        fs.unlinkSync(filePath);
+    } catch {
+        logger.warn('Failed to clean up received file', { path: filePath });
+    }
+};
+
+// Validates the bytes of a received file and, when they check out, copies it into
+// storage, renders its variants and records it in the metadata store. Files are
+// stored under their SHA-256, so bytes the workspace already has only add a
+// reference to its existing record. The received file is always deleted afterwards.
+export const createIngester = ({ storage, metadataStore, checksumLock }: IngestOptions) => {
+    const store = async (
+        file: IncomingFile,
+        checksum: string,
+        extension: string,
+        mimetype: string,
+        sanitized: boolean,
+        embedded: EmbeddedMetadata | undefined
+    ): Promise<IngestResult> => {
+        const existing = metadataStore.listByChecksum(checksum)
+            .find(record => recordWorkspace(record) === file.owner.workspace);
+        if (existing) {
+            // Alt text and the like only come along from someone who could have edited them anyway
+            const merged = file.metadata && canManage(file.owner, existing) ? mergeMetadata(existing, file.metadata) : existing;
+            const record = addReference(merged, file.owner.id);
+            metadataStore.put(record);
+            logger.info('Upload is a duplicate', { imageId: existing.id, originalName: file.originalName, references: record.refCount });
+            return { accepted: true, record, duplicate: true };
+        }
+
+        // Content addressed, under the extension of the detected type
+        const record: ImageRecord = applyMetadata({
+            id: uuidv4(),
+            originalName: file.originalName,
+            filename: `${checksum}${extension}`,
+            mimetype,
+            ...inspectImageFile(file.path, checksum),
+            uploadedAt: new Date().toISOString(),
+            refCount: 1,
+            holders: { [file.owner.id]: 1 },
+            workspace: file.owner.workspace,
+            ownerId: file.owner.id,
+            ...(sanitized ? { sanitized } : {}),
+            ...(embedded ? { embedded } : {}),
+        }, file.metadata || {});
+        await storage.put(record.filename, fs.createReadStream(file.path), { contentType: record.mimetype });
+
+        try {
+            record.variants = await generateVariants(file.path, record.mimetype, storage, record.id);
+        } catch (variantError) {
+            // The original is still usable, clients fall back to it when variants are missing
+            logger.error('Failed to generate variants', { imageId: record.id, originalName: file.originalName, error: variantError });
+        }
+        metadataStore.put(record);
+        logger.info('Upload stored', { imageId: record.id, originalName: file.originalName, size: record.size });
+
+        return { accepted: true, record, duplicate: false };
+    };
+
+    return async (file: IncomingFile): Promise<IngestResult> => {
+        let check;
+        try {
+            check = validateImageSignature(readFileHead(file.path), file.mimetype, file.originalName);
+        } catch (error) {
+            logger.error('Validating upload failed', { originalName: file.originalName, error });
+            removeQuietly(file.path);
+            return { accepted: false, code: 'INTERNAL_ERROR', reason: 'Validation error' };
+        }
+
+        if (!check.valid) {
+            logger.info('Upload rejected', { originalName: file.originalName, code: check.code, reason: check.reason });
+            removeQuietly(file.path);
+            return { accepted: false, code: check.code, reason: check.reason };
+        }
+        const { type } = check;
+        logger.debug('Upload signature valid', { originalName: file.originalName, mimetype: type.mimetype });
+
+        try {
+            // Stored (and hashed) as sanitised markup or without personal metadata, the
+            // checksum taken while receiving no longer applies once the bytes change
+            const sanitized = type.mimetype === 'image/svg+xml';
+            let embedded: EmbeddedMetadata | undefined;
+            let rewritten = sanitized;
+            if (sanitized) {
+                fs.writeFileSync(file.path, sanitizeSvg(fs.readFileSync(file.path, 'utf8')));
+            } else {
+                try {
+                    ({ embedded, rewritten } = await processEmbeddedMetadata(file, type.mimetype));
+                } catch (error) {
+                    if (error instanceof MetadataStripError) {
+                        logger.info('Upload rejected', { originalName: file.originalName, code: 'UNSUPPORTED_TYPE', reason: error.message });
+                        return {
+                            accepted: false,
+                            code: 'UNSUPPORTED_TYPE',
+                            reason: `${error.message}, upload it with metadata preserved or convert it first`,
+                        };
+                    }
+                    throw error;
+                }
+            }
+            const checksum = (!rewritten && file.checksum) || await hashFile(file.path);
+            // Concurrent identical uploads end up as one record with two references instead of two records
+            return await checksumLock(checksum, () => store(file, checksum, type.extension, type.mimetype, sanitized, embedded));
+        } finally {
+            removeQuietly(file.path);
+        }
+    };
+};
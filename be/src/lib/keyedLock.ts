@@ -0,0 +1,19 @@
+export type KeyedLock = <T>(key: string, task: () => Promise<T>) => Promise<T>;
+
+// Runs tasks sharing a key one after the other, tasks with different keys run concurrently
+export const createKeyedLock = (): KeyedLock => {
+    const tails = new Map<string, Promise<unknown>>();
+
+    return async (key, task) => {
+        const current = (tails.get(key) || Promise.resolve()).then(task);
+        const settled = current.catch(() => undefined);
+        tails.set(key, settled);
+        try {
+            return await current;
+        } finally {
+            if (tails.get(key) === settled) {
+                tails.delete(key);
+            }
+        }
+    };
+};
@@ -0,0 +1,81 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LOG_LEVELS, LogLevel } from '@next-page-builder/contracts';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+    debug: (message: string, fields?: LogFields) => void;
+    info: (message: string, fields?: LogFields) => void;
+    warn: (message: string, fields?: LogFields) => void;
+    error: (message: string, fields?: LogFields) => void;
+    // Logger that adds `bindings` to every line
+    child: (bindings: LogFields) => Logger;
+}
+
+// Values under these keys never reach the log, wherever they are nested
+const SENSITIVE_KEY = /authorization|cookie|password|secret|token|api-?key|signature|credential/i;
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Request scoped fields (the request id) picked up by every line logged while handling it
+const context = new AsyncLocalStorage<LogFields>();
+
+export const runWithLogContext = <T>(fields: LogFields, task: () => T): T => context.run(fields, task);
+
+export const currentLogContext = (): LogFields => context.getStore() || {};
+
+const serialize = (value: unknown, depth: number): unknown => {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    if (Buffer.isBuffer(value)) {
+        return `<Buffer ${value.length} bytes>`;
+    }
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (depth >= MAX_DEPTH) {
+        return '[Object]';
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => serialize(item, depth + 1));
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? REDACTED : serialize(item, depth + 1),
+    ]));
+};
+
+// Copy of `fields` with credentials and the like replaced, safe to log
+export const redact = (fields: LogFields): LogFields => serialize(fields, 0) as LogFields;
+
+let minimumLevel: LogLevel = 'info';
+
+export const setLogLevel = (level: LogLevel) => {
+    minimumLevel = level;
+};
+
+// One JSON object per line: time, level, msg, the request context, then the fields.
+// Errors go to stderr, everything else to stdout.
+const write = (level: LogLevel, message: string, bindings: LogFields, fields: LogFields = {}) => {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minimumLevel)) {
+        return;
+    }
+    const line = JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        msg: message,
+        ...redact({ ...currentLogContext(), ...bindings, ...fields }),
+    });
+    (level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+};
+
+const createLogger = (bindings: LogFields): Logger => ({
+    debug: (message, fields) => write('debug', message, bindings, fields),
+    info: (message, fields) => write('info', message, bindings, fields),
+    warn: (message, fields) => write('warn', message, bindings, fields),
+    error: (message, fields) => write('error', message, bindings, fields),
+    child: (extra) => createLogger({ ...bindings, ...extra }),
+});
+
+export const logger = createLogger({});
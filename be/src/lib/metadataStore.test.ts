@@ -0,0 +1,118 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    ImageRecord,
+    addReference,
+    createMetadataStore,
+    holdsReference,
+    referenceCount,
+    referenceHolders,
+    releaseReference,
+} from './metadataStore';
+
+const image = (overrides: Partial<ImageRecord> = {}): ImageRecord => ({
+    id: 'image-1',
+    originalName: 'photo.jpg',
+    filename: 'abc.jpg',
+    mimetype: 'image/jpeg',
+    size: 10,
+    checksum: 'abc',
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    workspace: 'default',
+    ownerId: 'user:alice',
+    holders: { 'user:alice': 1 },
+    refCount: 1,
+    ...overrides,
+});
+
+describe('reference holders', () => {
+    it('gives the owner every reference of records from before holders', () => {
+        const legacy = image({ holders: undefined, refCount: 3 });
+        expect(referenceHolders(legacy)).toEqual({ 'user:alice': 3 });
+        expect(holdsReference(legacy, 'user:alice')).toBe(true);
+        expect(holdsReference(legacy, 'user:bob')).toBe(false);
+    });
+
+    it('counts a missing refCount as one', () => {
+        expect(referenceCount(image({ refCount: undefined }))).toBe(1);
+    });
+
+    it('has no holders without an owner', () => {
+        expect(referenceHolders(image({ holders: undefined, ownerId: undefined }))).toEqual({});
+    });
+});
+
+describe('addReference', () => {
+    it('adds a holder and keeps refCount the sum of all holders', () => {
+        const shared = addReference(addReference(image(), 'user:bob'), 'user:bob');
+        expect(shared.holders).toEqual({ 'user:alice': 1, 'user:bob': 2 });
+        expect(shared.refCount).toBe(3);
+        expect(shared.ownerId).toBe('user:alice');
+    });
+});
+
+describe('releaseReference', () => {
+    it('only releases the caller\'s own references', () => {
+        const shared = addReference(image(), 'user:bob');
+        const released = releaseReference(shared, 'user:bob');
+        expect(released?.holders).toEqual({ 'user:alice': 1 });
+        expect(released?.refCount).toBe(1);
+    });
+
+    it('leaves the record alone for someone who holds nothing', () => {
+        const released = releaseReference(image(), 'user:mallory');
+        expect(released?.holders).toEqual({ 'user:alice': 1 });
+        expect(released?.refCount).toBe(1);
+    });
+
+    it('counts down a holder with several references before dropping them', () => {
+        const twice = addReference(image(), 'user:alice');
+        expect(releaseReference(twice, 'user:alice')?.holders).toEqual({ 'user:alice': 1 });
+    });
+
+    it('hands ownership to a remaining holder when the owner lets go', () => {
+        const released = releaseReference(addReference(image(), 'user:bob'), 'user:alice');
+        expect(released?.ownerId).toBe('user:bob');
+        expect(released?.refCount).toBe(1);
+    });
+
+    it('returns undefined once the last reference is gone', () => {
+        expect(releaseReference(image(), 'user:alice')).toBeUndefined();
+        expect(releaseReference(image({ holders: undefined, refCount: 1 }), 'user:alice')).toBeUndefined();
+    });
+});
+
+describe('createMetadataStore', () => {
+    const dirs: string[] = [];
+    const journal = () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metadata-store-'));
+        dirs.push(dir);
+        return path.join(dir, 'images.jsonl');
+    };
+
+    afterEach(() => {
+        dirs.splice(0).forEach(dir => fs.rmSync(dir, { recursive: true, force: true }));
+    });
+
+    it('replays puts and deletes from the journal', () => {
+        const journalPath = journal();
+        const store = createMetadataStore(journalPath);
+        store.put(image());
+        store.put(addReference(image(), 'user:bob'));
+        store.put(image({ id: 'image-2' }));
+        store.remove('image-2');
+
+        const replayed = createMetadataStore(journalPath);
+        expect(replayed.list().map(record => record.id)).toEqual(['image-1']);
+        expect(replayed.get('image-1')?.holders).toEqual({ 'user:alice': 1, 'user:bob': 1 });
+    });
+
+    it('skips a truncated last line', () => {
+        const journalPath = journal();
+        createMetadataStore(journalPath).put(image());
+        fs.appendFileSync(journalPath, '{"op":"put","rec');
+        expect(createMetadataStore(journalPath).list()).toHaveLength(1);
+    });
+});
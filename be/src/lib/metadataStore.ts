@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { EmbeddedMetadata } from '@next-page-builder/contracts';
+import { logger } from './logger';
+import { StoredVariants } from './variants';
+
+export interface ImageRecord {
+    id: string;
+    originalName: string;
+    filename: string;
+    mimetype: string;
+    size: number;
+    width?: number;
+    height?: number;
+    // Hex encoded SHA-256 of the stored bytes
+    checksum: string;
+    uploadedAt: string;
+    variants?: StoredVariants;
+    // Uploads sharing these bytes, the file is only deleted with the last one. Missing means 1.
+    refCount?: number;
+    // Who made those uploads: principal id to the references they hold, adding up to refCount.
+    // Missing on older records, where the owner holds them all.
+    holders?: Record<string, number>;
+    // Missing on records from before ownership, those belong to the default workspace
+    workspace?: string;
+    // Principal id of the first uploader, or of a remaining holder once the first one let go
+    ownerId?: string;
+    // SVG markup went through sanitizeSvg before it was stored. Older SVGs without
+    // it are only ever served as downloads.
+    sanitized?: boolean;
+    // Set by the uploader and through PATCH /api/images/:id, see imageMetadataSchema
+    altText?: string;
+    caption?: string;
+    tags?: string[];
+    properties?: Record<string, string>;
+    // What the EXIF/XMP/IPTC of the upload said, missing on older records and SVGs
+    embedded?: EmbeddedMetadata;
+}
+
+export const referenceCount = (record: ImageRecord) => record.refCount ?? 1;
+
+export const referenceHolders = (record: ImageRecord): Record<string, number> =>
+    record.holders ?? (record.ownerId ? { [record.ownerId]: referenceCount(record) } : {});
+
+export const holdsReference = (record: ImageRecord, principalId: string) =>
+    (referenceHolders(record)[principalId] || 0) > 0;
+
+const withHolders = (record: ImageRecord, holders: Record<string, number>): ImageRecord => ({
+    ...record,
+    holders,
+    refCount: Object.values(holders).reduce((total, count) => total + count, 0),
+    // The record stays manageable by someone who still relies on it
+    ownerId: record.ownerId && holders[record.ownerId] ? record.ownerId : Object.keys(holders)[0],
+});
+
+// One more upload of the same bytes by `principalId`
+export const addReference = (record: ImageRecord, principalId: string) => {
+    const holders = referenceHolders(record);
+    return withHolders(record, { ...holders, [principalId]: (holders[principalId] || 0) + 1 });
+};
+
+// Drops one of the references `principalId` holds. Undefined when no reference is left.
+export const releaseReference = (record: ImageRecord, principalId: string) => {
+    const { [principalId]: held = 0, ...others } = referenceHolders(record);
+    const holders = held > 1 ? { ...others, [principalId]: held - 1 } : others;
+    return Object.keys(holders).length > 0 ? withHolders(record, holders) : undefined;
+};
+
+// One JSON object per line. Later entries win, so replaying the file in order
+// rebuilds the current state.
+type JournalEntry =
+    | { op: 'put'; record: ImageRecord }
+    | { op: 'delete'; id: string };
+
+export interface MetadataStore {
+    list: () => ImageRecord[];
+    get: (id: string) => ImageRecord | undefined;
+    findByFilename: (filename: string) => ImageRecord | undefined;
+    // Every workspace keeps its own record for the same bytes
+    listByChecksum: (checksum: string) => ImageRecord[];
+    put: (record: ImageRecord) => void;
+    remove: (id: string) => boolean;
+    // Rewrites the journal with one `put` per live record
+    compact: () => void;
+    // Throws when the journal could not be appended to
+    check: () => void;
+}
+
+const readJournal = (journalPath: string): Map<string, ImageRecord> => {
+    const records = new Map<string, ImageRecord>();
+    if (!fs.existsSync(journalPath)) {
+        return records;
+    }
+
+    const lines = fs.readFileSync(journalPath, 'utf8').split('\n');
+    lines.forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        try {
+            const entry = JSON.parse(line) as JournalEntry;
+            if (entry.op === 'put') {
+                records.set(entry.record.id, entry.record);
+            } else if (entry.op === 'delete') {
+                records.delete(entry.id);
+            }
+        } catch {
+            // A crash mid-append can leave a truncated last line, skip it rather than refusing to start
+            logger.warn('Skipping unreadable metadata journal line', { line: index + 1, path: journalPath });
+        }
+    });
+    return records;
+};
+
+export const createMetadataStore = (journalPath: string): MetadataStore => {
+    fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+    const records = readJournal(journalPath);
+
+    const append = (entry: JournalEntry) => {
+        fs.appendFileSync(journalPath, `${JSON.stringify(entry)}\n`);
+    };
+
+    return {
+        list: () => Array.from(records.values()),
+        get: (id) => records.get(id),
+        findByFilename: (filename) => Array.from(records.values()).find(record => record.filename === filename),
+        listByChecksum: (checksum) => Array.from(records.values()).filter(record => record.checksum === checksum),
+        put: (record) => {
+            append({ op: 'put', record });
+            records.set(record.id, record);
+        },
+        remove: (id) => {
+            if (!records.has(id)) {
+                return false;
+            }
+            append({ op: 'delete', id });
+            records.delete(id);
+            return true;
+        },
+        compact: () => {
+            const tempPath = `${journalPath}.tmp`;
+            const lines = Array.from(records.values()).map(record => JSON.stringify({ op: 'put', record }));
+            fs.writeFileSync(tempPath, lines.length > 0 ? `${lines.join('\n')}\n` : '');
+            fs.renameSync(tempPath, journalPath);
+        },
+        check: () => {
+            fs.accessSync(path.dirname(journalPath), fs.constants.W_OK);
+            if (fs.existsSync(journalPath)) {
+                fs.accessSync(journalPath, fs.constants.R_OK | fs.constants.W_OK);
+            }
+        },
+    };
+};
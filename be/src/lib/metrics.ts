@@ -0,0 +1,132 @@
+// Counters, gauges and histograms rendered in the Prometheus text exposition format.
+// Series live in memory for the life of the process, like the rate limiter windows.
+
+export type Labels = Record<string, string>;
+
+export interface Counter {
+    inc: (labels?: Labels, value?: number) => void;
+}
+
+export interface Gauge {
+    set: (labels: Labels, value: number) => void;
+    // Drops every series, for gauges rebuilt on each collect
+    reset: () => void;
+}
+
+export interface Histogram {
+    observe: (labels: Labels, value: number) => void;
+}
+
+export interface MetricsRegistry {
+    counter: (name: string, help: string) => Counter;
+    gauge: (name: string, help: string) => Gauge;
+    histogram: (name: string, help: string, buckets: number[]) => Histogram;
+    // Runs before every render, for values that are cheaper to read than to track
+    onCollect: (collect: () => void) => void;
+    render: () => string;
+}
+
+// Request latency in seconds, from a cached transform to a large upload
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const escapeLabelValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels) => {
+    const pairs = Object.keys(labels).sort().map(key => `${key}="${escapeLabelValue(labels[key])}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number) => (Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : '-Inf');
+
+interface Family {
+    name: string;
+    help: string;
+    type: 'counter' | 'gauge' | 'histogram';
+    lines: () => string[];
+}
+
+export const createMetricsRegistry = (): MetricsRegistry => {
+    const families: Family[] = [];
+    const collectors: (() => void)[] = [];
+
+    const register = (family: Family) => {
+        if (families.some(existing => existing.name === family.name)) {
+            throw new Error(`Metric ${family.name} is already registered`);
+        }
+        families.push(family);
+    };
+
+    // Series of one family keyed by their rendered labels
+    const scalarFamily = (name: string, help: string, type: 'counter' | 'gauge') => {
+        const series = new Map<string, number>();
+        register({
+            name,
+            help,
+            type,
+            lines: () => Array.from(series.entries()).map(([labels, value]) => `${name}${labels} ${formatValue(value)}`),
+        });
+        return series;
+    };
+
+    return {
+        counter: (name, help) => {
+            const series = scalarFamily(name, help, 'counter');
+            return {
+                inc: (labels = {}, value = 1) => {
+                    const key = formatLabels(labels);
+                    series.set(key, (series.get(key) || 0) + value);
+                },
+            };
+        },
+        gauge: (name, help) => {
+            const series = scalarFamily(name, help, 'gauge');
+            return {
+                set: (labels, value) => {
+                    series.set(formatLabels(labels), value);
+                },
+                reset: () => series.clear(),
+            };
+        },
+        histogram: (name, help, buckets) => {
+            const bounds = [...buckets].sort((a, b) => a - b);
+            const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+            register({
+                name,
+                help,
+                type: 'histogram',
+                lines: () => Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+                    // Buckets are cumulative, the last one (+Inf) equals the count
+                    ...bounds.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`),
+                    `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+                    `${name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+                    `${name}_count${formatLabels(labels)} ${count}`,
+                ]),
+            });
+            return {
+                observe: (labels, value) => {
+                    const key = formatLabels(labels);
+                    const entry = series.get(key) || { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+                    series.set(key, entry);
+                    bounds.forEach((bound, index) => {
+                        if (value <= bound) {
+                            entry.counts[index]++;
+                        }
+                    });
+                    entry.sum += value;
+                    entry.count++;
+                },
+            };
+        },
+        onCollect: (collect) => {
+            collectors.push(collect);
+        },
+        render: () => {
+            collectors.forEach(collect => collect());
+            return families.map(({ name, help, type, lines }) => [
+                `# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+                `# TYPE ${name} ${type}`,
+                ...lines(),
+            ].join('\n')).join('\n') + '\n';
+        },
+    };
+};
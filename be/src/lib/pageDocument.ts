@@ -0,0 +1,130 @@
+import {
+    Block,
+    PageAction,
+    PageContent,
+    PageDocument,
+    PageRevision,
+    PageSchedule,
+    PageSummary,
+    PageUpdate,
+    describeIssues,
+    mapBlocks,
+    pageActionSchema,
+    pageAssetIds,
+    pageInputSchema,
+    pageScheduleSchema,
+    pageUpdateSchema,
+} from '@next-page-builder/contracts';
+import { Principal, canView, recordWorkspace } from './auth';
+import { MetadataStore } from './metadataStore';
+import { PageRecord, PageStore } from './pageStore';
+import { RevisionStore } from './revisionStore';
+import { sanitizeRichText } from './richTextSanitizer';
+
+export class PageValidationError extends Error {}
+
+export class PageSlugTakenError extends Error {
+    constructor(slug: string) {
+        super(`A page with slug ${slug} already exists`);
+    }
+}
+
+export const parsePageInput = (value: unknown): PageContent => {
+    const result = pageInputSchema.safeParse(value);
+    if (!result.success) {
+        throw new PageValidationError(describeIssues(result.error.issues));
+    }
+    return result.data;
+};
+
+export const parsePageUpdate = (value: unknown): PageUpdate => {
+    const result = pageUpdateSchema.safeParse(value);
+    if (!result.success) {
+        throw new PageValidationError(describeIssues(result.error.issues));
+    }
+    return result.data;
+};
+
+export const parsePageAction = (value: unknown): PageAction => {
+    const result = pageActionSchema.safeParse(value ?? {});
+    if (!result.success) {
+        throw new PageValidationError(describeIssues(result.error.issues));
+    }
+    return result.data;
+};
+
+export const parsePageSchedule = (value: unknown): PageSchedule => {
+    const result = pageScheduleSchema.safeParse(value);
+    if (!result.success) {
+        throw new PageValidationError(describeIssues(result.error.issues));
+    }
+    return result.data;
+};
+
+// Rich text is stored sanitised, so every reader can render it as is
+export const sanitizePageContent = <T extends PageContent>(content: T): T => ({
+    ...content,
+    blocks: mapBlocks(content.blocks, (block): Block => (block.type === 'richText'
+        ? { ...block, props: { ...block.props, html: sanitizeRichText(block.props.html) } }
+        : block)),
+});
+
+// Image and gallery blocks may only point at assets the principal can see
+export const assertAssetsExist = (content: PageContent, principal: Principal, metadataStore: MetadataStore) => {
+    const missing = pageAssetIds(content).filter(id => {
+        const record = metadataStore.get(id);
+        return !record || !canView(principal, record);
+    });
+    if (missing.length > 0) {
+        throw new PageValidationError(`Unknown asset${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+    }
+};
+
+// A slug belongs to one page of the workspace, whether as its draft's or its published address
+export const isSlugTaken = (pageStore: PageStore, workspace: string, slug: string, exceptId?: string) =>
+    pageStore.list().some(page => page.id !== exceptId &&
+        recordWorkspace(page) === workspace &&
+        (page.slug === slug || page.published?.slug === slug));
+
+// The revision a save leaves behind
+export const toRevision = (page: PageRecord, author?: Principal, restoredFrom?: number): PageRevision => ({
+    pageId: page.id,
+    version: page.version,
+    slug: page.slug,
+    title: page.title,
+    seo: page.seo,
+    blocks: page.blocks,
+    authorId: author?.id,
+    authorName: author?.name,
+    createdAt: page.updatedAt,
+    restoredFrom,
+});
+
+// Content of the page at `version`: the draft itself or one of its earlier revisions
+export const pageContentAt = (page: PageRecord, version: number, revisionStore: RevisionStore) => {
+    if (version === page.version) {
+        return { slug: page.slug, title: page.title, seo: page.seo, blocks: page.blocks, savedAt: page.updatedAt };
+    }
+    const revision = revisionStore.get(page.id, version);
+    return revision && {
+        slug: revision.slug,
+        title: revision.title,
+        seo: revision.seo,
+        blocks: revision.blocks,
+        savedAt: revision.createdAt,
+    };
+};
+
+export const toPageDocument = ({ workspace, ...page }: PageRecord): PageDocument => page;
+
+export const toPageSummary = (page: PageRecord): PageSummary => ({
+    id: page.id,
+    slug: page.slug,
+    title: page.title,
+    version: page.version,
+    ownerId: page.ownerId,
+    createdAt: page.createdAt,
+    updatedAt: page.updatedAt,
+    published: page.published,
+    schedule: page.schedule,
+});
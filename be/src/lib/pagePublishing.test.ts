@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createPagePublisher } from './pagePublishing';
+import { PageRecord, PageStore, createPageStore } from './pageStore';
+import { createRevisionStore } from './revisionStore';
+import { SiteRevalidator } from './siteRevalidation';
+
+const NOW = new Date('2026-06-01T12:00:00.000Z');
+const EARLIER = '2026-06-01T11:00:00.000Z';
+const LATER = '2026-06-01T13:00:00.000Z';
+
+const page = (overrides: Partial<PageRecord> = {}): PageRecord => ({
+    id: 'page-1',
+    slug: 'about',
+    title: 'About',
+    seo: {},
+    blocks: [],
+    version: 3,
+    createdAt: '2026-05-01T00:00:00.000Z',
+    updatedAt: '2026-05-02T00:00:00.000Z',
+    workspace: 'default',
+    ...overrides,
+});
+
+describe('runSchedule', () => {
+    let dir: string;
+    let pageStore: PageStore;
+    let changes: [PageRecord | undefined, PageRecord | undefined][];
+    let runSchedule: (now?: Date) => void;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'page-publishing-'));
+        pageStore = createPageStore(path.join(dir, 'pages.jsonl'));
+        changes = [];
+        const revalidator: SiteRevalidator = {
+            pageChanged: (before, after) => changes.push([before, after]),
+            pagesAffected: () => undefined,
+        };
+        ({ runSchedule } = createPagePublisher({
+            pageStore,
+            revisionStore: createRevisionStore(path.join(dir, 'page-revisions.jsonl')),
+            revalidator,
+        }));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('publishes the draft once publishAt has come and forgets the time', () => {
+        pageStore.put(page({ schedule: { publishAt: EARLIER } }));
+        runSchedule(NOW);
+
+        const published = pageStore.get('page-1');
+        expect(published?.published).toMatchObject({ version: 3, slug: 'about' });
+        expect(published?.published?.publishedBy).toBeUndefined();
+        expect(published?.schedule).toBeUndefined();
+        expect(changes).toHaveLength(1);
+    });
+
+    it('leaves pages whose time has not come', () => {
+        pageStore.put(page({ schedule: { publishAt: LATER } }));
+        runSchedule(NOW);
+
+        expect(pageStore.get('page-1')?.published).toBeUndefined();
+        expect(pageStore.get('page-1')?.schedule).toEqual({ publishAt: LATER });
+        expect(changes).toHaveLength(0);
+    });
+
+    it('unpublishes once unpublishAt has come and keeps a later publishAt', () => {
+        pageStore.put(page({
+            published: { version: 2, slug: 'about', publishedAt: EARLIER },
+            schedule: { unpublishAt: EARLIER, publishAt: LATER },
+        }));
+        runSchedule(NOW);
+
+        expect(pageStore.get('page-1')?.published).toBeUndefined();
+        expect(pageStore.get('page-1')?.schedule).toEqual({ publishAt: LATER });
+    });
+
+    it('publishes before unpublishing when both times have passed', () => {
+        pageStore.put(page({ schedule: { publishAt: '2026-06-01T10:00:00.000Z', unpublishAt: EARLIER } }));
+        runSchedule(NOW);
+
+        const after = pageStore.get('page-1');
+        expect(after?.published).toBeUndefined();
+        expect(after?.schedule).toBeUndefined();
+        expect(changes.map(([before, current]) => [Boolean(before?.published), Boolean(current?.published)]))
+            .toEqual([[false, true], [true, false]]);
+    });
+
+    it('drops a scheduled publish that cannot happen and carries on with other pages', () => {
+        pageStore.put(page({ id: 'live', slug: 'taken', published: { version: 3, slug: 'taken', publishedAt: EARLIER } }));
+        pageStore.put(page({ id: 'clash', slug: 'taken', schedule: { publishAt: EARLIER } }));
+        pageStore.put(page({ id: 'fine', slug: 'fine', schedule: { publishAt: EARLIER } }));
+        runSchedule(NOW);
+
+        expect(pageStore.get('clash')?.published).toBeUndefined();
+        expect(pageStore.get('clash')?.schedule).toBeUndefined();
+        expect(pageStore.get('fine')?.published?.slug).toBe('fine');
+    });
+});
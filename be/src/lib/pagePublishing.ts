@@ -0,0 +1,96 @@
+import { PageSchedule } from '@next-page-builder/contracts';
+import { Principal, recordWorkspace } from './auth';
+import { logger } from './logger';
+import { PageSlugTakenError, PageValidationError, isSlugTaken, pageContentAt } from './pageDocument';
+import { PageRecord, PageStore } from './pageStore';
+import { RevisionStore } from './revisionStore';
+import { SiteRevalidator } from './siteRevalidation';
+
+export interface PagePublisherOptions {
+    pageStore: PageStore;
+    revisionStore: RevisionStore;
+    revalidator: SiteRevalidator;
+}
+
+export interface PagePublisher {
+    // Points the published pointer at `version`, the draft's or an earlier one. Throws
+    // PageSlugTakenError when another page has the address that revision had.
+    publish: (page: PageRecord, version: number, by?: Principal) => PageRecord;
+    unpublish: (page: PageRecord) => PageRecord;
+    // Replaces the schedule, see pageScheduleSchema
+    schedule: (page: PageRecord, schedule: PageSchedule) => PageRecord;
+    // Publishes and unpublishes pages whose scheduled time has come
+    runSchedule: (now?: Date) => void;
+}
+
+const withoutScheduled = (page: PageRecord, field: keyof PageSchedule): PageRecord => {
+    const { [field]: done, ...rest } = page.schedule || {};
+    return { ...page, schedule: Object.keys(rest).length > 0 ? rest : undefined };
+};
+
+export const createPagePublisher = ({ pageStore, revisionStore, revalidator }: PagePublisherOptions): PagePublisher => {
+    const store = (before: PageRecord, after: PageRecord) => {
+        pageStore.put(after);
+        revalidator.pageChanged(before, after);
+        return after;
+    };
+
+    const publish = (page: PageRecord, version: number, by?: Principal) => {
+        const content = pageContentAt(page, version, revisionStore);
+        if (!content) {
+            throw new PageValidationError(`Page has no revision ${version}`);
+        }
+        if (isSlugTaken(pageStore, recordWorkspace(page), content.slug, page.id)) {
+            throw new PageSlugTakenError(content.slug);
+        }
+        const published = store(page, {
+            ...withoutScheduled(page, 'publishAt'),
+            published: { version, slug: content.slug, publishedAt: new Date().toISOString(), publishedBy: by?.id },
+        });
+        logger.info('Page published', { pageId: page.id, slug: content.slug, version });
+        return published;
+    };
+
+    const unpublish = (page: PageRecord) => {
+        const { published, ...rest } = withoutScheduled(page, 'unpublishAt');
+        const unpublished = store(page, rest);
+        if (published) {
+            logger.info('Page unpublished', { pageId: page.id, slug: published.slug });
+        }
+        return unpublished;
+    };
+
+    const isDue = (time: string | undefined, now: Date) => time !== undefined && Date.parse(time) <= now.getTime();
+
+    return {
+        publish,
+        unpublish,
+        schedule: (page, { publishAt, unpublishAt }) => {
+            const schedule = publishAt || unpublishAt ? { publishAt, unpublishAt } : undefined;
+            return store(page, { ...page, schedule });
+        },
+        // Runs on a timer, so nothing may escape. unpublishAt is always later than
+        // publishAt, publishing first keeps their order.
+        runSchedule: (now = new Date()) => {
+            pageStore.list().forEach(page => {
+                try {
+                    let current = page;
+                    if (isDue(current.schedule?.publishAt, now)) {
+                        try {
+                            current = publish(current, current.version);
+                        } catch (error) {
+                            // Dropped rather than retried, the next run would fail the same way
+                            logger.warn('Scheduled publish failed', { pageId: page.id, error });
+                            current = store(current, withoutScheduled(current, 'publishAt'));
+                        }
+                    }
+                    if (isDue(current.schedule?.unpublishAt, now)) {
+                        unpublish(current);
+                    }
+                } catch (error) {
+                    logger.error('Applying page schedule failed', { pageId: page.id, error });
+                }
+            });
+        },
+    };
+};
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { PageDocument, pageAssetIds } from '@next-page-builder/contracts';
+import { recordWorkspace } from './auth';
+import { logger } from './logger';
+import { createReferenceIndex } from './referenceIndex';
+
+export interface PageRecord extends PageDocument {
+    workspace: string;
+}
+
+// Same journal format as the metadata store: later entries win when replaying
+type JournalEntry =
+    | { op: 'put'; page: PageRecord }
+    | { op: 'delete'; id: string };
+
+export interface PageStore {
+    list: () => PageRecord[];
+    get: (id: string) => PageRecord | undefined;
+    // Slugs are unique per workspace
+    findBySlug: (workspace: string, slug: string) => PageRecord | undefined;
+    // Pages whose draft points at the asset, published revisions are in the revision store
+    listByAsset: (assetId: string) => PageRecord[];
+    put: (page: PageRecord) => void;
+    remove: (id: string) => boolean;
+    // Throws when the journal could not be appended to
+    check: () => void;
+}
+
+const readJournal = (journalPath: string): Map<string, PageRecord> => {
+    const pages = new Map<string, PageRecord>();
+    if (!fs.existsSync(journalPath)) {
+        return pages;
+    }
+
+    fs.readFileSync(journalPath, 'utf8').split('\n').forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        try {
+            const entry = JSON.parse(line) as JournalEntry;
+            if (entry.op === 'put') {
+                pages.set(entry.page.id, entry.page);
+            } else if (entry.op === 'delete') {
+                pages.delete(entry.id);
+            }
+        } catch {
+            logger.warn('Skipping unreadable page journal line', { line: index + 1, path: journalPath });
+        }
+    });
+    return pages;
+};
+
+export const createPageStore = (journalPath: string): PageStore => {
+    fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+    const pages = readJournal(journalPath);
+    const references = createReferenceIndex<string>();
+    pages.forEach(page => references.set(page.id, pageAssetIds(page)));
+
+    const append = (entry: JournalEntry) => {
+        fs.appendFileSync(journalPath, `${JSON.stringify(entry)}\n`);
+    };
+
+    return {
+        list: () => Array.from(pages.values()),
+        get: (id) => pages.get(id),
+        findBySlug: (workspace, slug) => Array.from(pages.values())
+            .find(page => recordWorkspace(page) === workspace && page.slug === slug),
+        listByAsset: (assetId) => references.get(assetId)
+            .map(id => pages.get(id))
+            .filter((page): page is PageRecord => page !== undefined),
+        put: (page) => {
+            append({ op: 'put', page });
+            pages.set(page.id, page);
+            references.set(page.id, pageAssetIds(page));
+        },
+        remove: (id) => {
+            if (!pages.has(id)) {
+                return false;
+            }
+            append({ op: 'delete', id });
+            pages.delete(id);
+            references.delete(id);
+            return true;
+        },
+        check: () => {
+            fs.accessSync(path.dirname(journalPath), fs.constants.W_OK);
+            if (fs.existsSync(journalPath)) {
+                fs.accessSync(journalPath, fs.constants.R_OK | fs.constants.W_OK);
+            }
+        },
+    };
+};
@@ -0,0 +1,79 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ImageRecord, MetadataStore, createMetadataStore } from './metadataStore';
+import { QuotaExceededError, QuotaTracker, createQuotaTracker } from './quota';
+
+const image = (id: string, size: number, ownerId = 'user:alice'): ImageRecord => ({
+    id,
+    originalName: `${id}.png`,
+    filename: `${id}.png`,
+    mimetype: 'image/png',
+    size,
+    checksum: id,
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    ownerId,
+});
+
+describe('createQuotaTracker', () => {
+    let dir: string;
+    let metadataStore: MetadataStore;
+    let pending: number;
+    let quota: QuotaTracker;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-'));
+        metadataStore = createMetadataStore(path.join(dir, 'metadata.jsonl'));
+        pending = 0;
+        quota = createQuotaTracker({
+            metadataStore,
+            quotaFor: ownerId => (ownerId === 'user:unlimited' ? undefined : 100),
+            pendingBytes: () => pending,
+        });
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('counts the stored originals of the owner only', () => {
+        metadataStore.put(image('a', 30));
+        metadataStore.put(image('b', 20));
+        metadataStore.put(image('c', 70, 'user:bob'));
+        expect(quota.usage('user:alice')).toEqual({ usedBytes: 50, reservedBytes: 0, quotaBytes: 100, remainingBytes: 50, imageCount: 2 });
+    });
+
+    it('holds reserved and pending bytes until they are released', () => {
+        pending = 10;
+        const release = quota.reserve('user:alice', 60);
+        expect(quota.usage('user:alice')).toMatchObject({ reservedBytes: 70, remainingBytes: 30 });
+        expect(() => quota.reserve('user:alice', 31)).toThrow(QuotaExceededError);
+
+        release();
+        release();
+        expect(quota.usage('user:alice')).toMatchObject({ reservedBytes: 10, remainingBytes: 90 });
+    });
+
+    it('refuses what does not fit and says whether waiting helps', () => {
+        metadataStore.put(image('a', 50));
+        quota.reserve('user:alice', 40);
+
+        const waitable = (() => {
+            try {
+                quota.check('user:alice', 20);
+            } catch (error) {
+                return error as QuotaExceededError;
+            }
+        })();
+        expect(waitable?.temporary).toBe(true);
+        expect(waitable?.message).toBe('Storage quota exceeded: the upload needs 20 bytes but only 10 bytes of 100 bytes are left');
+
+        expect(() => quota.check('user:alice', 60)).toThrow(expect.objectContaining({ temporary: false }));
+    });
+
+    it('never limits owners without a quota', () => {
+        expect(() => quota.reserve('user:unlimited', 10 ** 12)).not.toThrow();
+        expect(quota.usage('user:unlimited')).toMatchObject({ quotaBytes: null, remainingBytes: null });
+    });
+});
@@ -0,0 +1,87 @@
+import { StorageUsage } from '@next-page-builder/contracts';
+import { MetadataStore } from './metadataStore';
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) {
+        return `${bytes} bytes`;
+    }
+    return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)}KB` : `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+// Raised when an upload does not fit into its owner's quota
+export class QuotaExceededError extends Error {
+    constructor(readonly usage: StorageUsage, readonly requested: number) {
+        super(`Storage quota exceeded: the upload needs ${formatBytes(requested)} but only ${formatBytes(usage.remainingBytes ?? 0)} of ${formatBytes(usage.quotaBytes ?? 0)} are left`);
+    }
+
+    // The upload would fit once the uploads currently in flight are done
+    get temporary() {
+        return this.usage.quotaBytes !== null && this.requested <= this.usage.quotaBytes - this.usage.usedBytes;
+    }
+}
+
+export interface QuotaOptions {
+    metadataStore: MetadataStore;
+    // Quota of a principal in bytes, undefined for no quota
+    quotaFor: (ownerId: string) => number | undefined;
+    // Bytes announced by the owner's unfinished resumable uploads
+    pendingBytes: (ownerId: string) => number;
+}
+
+export interface QuotaTracker {
+    usage: (ownerId: string) => StorageUsage;
+    // Holds `bytes` of the owner's quota until the returned release is called,
+    // throws QuotaExceededError when they do not fit
+    reserve: (ownerId: string, bytes: number) => () => void;
+    // Same check as reserve without holding anything, for uploads that hold their own bytes
+    check: (ownerId: string, bytes: number) => void;
+}
+
+// Usage is counted from the metadata store on demand, so it always matches what is
+// stored. Uploads in flight hold reservations so concurrent requests cannot overshoot.
+export const createQuotaTracker = ({ metadataStore, quotaFor, pendingBytes }: QuotaOptions): QuotaTracker => {
+    const reservations = new Map<string, number>();
+
+    const usage = (ownerId: string): StorageUsage => {
+        const owned = metadataStore.list().filter(record => record.ownerId === ownerId);
+        const usedBytes = owned.reduce((total, record) => total + record.size, 0);
+        const reservedBytes = (reservations.get(ownerId) || 0) + pendingBytes(ownerId);
+        const quotaBytes = quotaFor(ownerId);
+        return {
+            usedBytes,
+            reservedBytes,
+            quotaBytes: quotaBytes ?? null,
+            remainingBytes: quotaBytes === undefined ? null : Math.max(0, quotaBytes - usedBytes - reservedBytes),
+            imageCount: owned.length,
+        };
+    };
+
+    const check = (ownerId: string, bytes: number) => {
+        const current = usage(ownerId);
+        if (current.remainingBytes !== null && bytes > current.remainingBytes) {
+            throw new QuotaExceededError(current, bytes);
+        }
+    };
+
+    return {
+        usage,
+        check,
+        reserve: (ownerId, bytes) => {
+            check(ownerId, bytes);
+            reservations.set(ownerId, (reservations.get(ownerId) || 0) + bytes);
+            let released = false;
+            return () => {
+                if (released) {
+                    return;
+                }
+                released = true;
+                const remaining = (reservations.get(ownerId) || 0) - bytes;
+                if (remaining > 0) {
+                    reservations.set(ownerId, remaining);
+                } else {
+                    reservations.delete(ownerId);
+                }
+            };
+        },
+    };
+};
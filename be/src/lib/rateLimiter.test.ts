@@ -0,0 +1,86 @@
+import express from 'express';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TestServer, listen } from '../test/http';
+import { createRateLimiter, rateLimit, retryAfterSeconds } from './rateLimiter';
+
+describe('createRateLimiter', () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now: new Date('2026-06-01T12:00:00.000Z') });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('allows `limit` requests per key and window', () => {
+        const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+        expect(limiter.consume('a')).toMatchObject({ allowed: true, remaining: 1 });
+        expect(limiter.consume('a')).toMatchObject({ allowed: true, remaining: 0 });
+        expect(limiter.consume('a')).toMatchObject({ allowed: false, remaining: 0 });
+        expect(limiter.consume('b')).toMatchObject({ allowed: true, remaining: 1 });
+    });
+
+    it('starts a new window once the old one has passed', () => {
+        const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+        limiter.consume('a');
+        vi.advanceTimersByTime(30_000);
+        expect(limiter.consume('a').allowed).toBe(false);
+        expect(retryAfterSeconds(limiter.peek('a'))).toBe(30);
+
+        vi.advanceTimersByTime(30_000);
+        expect(limiter.consume('a').allowed).toBe(true);
+    });
+
+    it('peeks without counting', () => {
+        const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+        expect(limiter.peek('a')).toMatchObject({ remaining: 1 });
+        expect(limiter.consume('a').allowed).toBe(true);
+    });
+
+    it('allows everything with a limit of 0', () => {
+        const limiter = createRateLimiter({ limit: 0, windowMs: 60_000 });
+        for (let i = 0; i < 5; i++) {
+            expect(limiter.consume('a').allowed).toBe(true);
+        }
+    });
+});
+
+describe('rateLimit', () => {
+    let server: TestServer;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(rateLimit([
+            { limiter: createRateLimiter({ limit: 3, windowMs: 60_000 }), key: req => `user:${req.get('x-user')}` },
+            { limiter: createRateLimiter({ limit: 4, windowMs: 60_000 }), key: () => 'address:everyone' },
+        ], (res, message) => res.status(429).json({ success: false, message })));
+        app.get('/', (req, res) => res.json({ success: true }));
+        server = await listen(app);
+    });
+
+    afterAll(() => server.close());
+
+    const get = (user: string) => fetch(server.url, { headers: { 'x-user': user } });
+
+    it('describes the tightest rule and answers 429 with Retry-After once any runs out', async () => {
+        const first = await get('alice');
+        expect(first.status).toBe(200);
+        expect(first.headers.get('ratelimit-limit')).toBe('3');
+        expect(first.headers.get('ratelimit-remaining')).toBe('2');
+        expect(first.headers.get('retry-after')).toBeNull();
+
+        await get('alice');
+        const third = await get('alice');
+        expect(third.headers.get('ratelimit-remaining')).toBe('0');
+
+        const refused = await get('alice');
+        expect(refused.status).toBe(429);
+        expect(Number(refused.headers.get('retry-after'))).toBeGreaterThan(0);
+        expect((await refused.json()).message).toMatch(/^Too many requests, try again in \d+ seconds$/);
+
+        // Bob has requests left, but the shared rule ran out with Alice's
+        const bob = await get('bob');
+        expect(bob.status).toBe(429);
+        expect(bob.headers.get('ratelimit-limit')).toBe('4');
+    });
+});
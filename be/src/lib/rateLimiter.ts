@@ -0,0 +1,114 @@
+import express from 'express';
+import { RateLimitStatus } from '@next-page-builder/contracts';
+
+export interface RateLimitOptions {
+    // Requests allowed per key and window, 0 turns the limit off
+    limit: number;
+    windowMs: number;
+}
+
+export interface RateLimitState {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    // Epoch milliseconds at which the current window ends
+    resetAt: number;
+}
+
+export interface RateLimiter {
+    // Counts a request against `key`
+    consume: (key: string) => RateLimitState;
+    // Current state of `key` without counting a request
+    peek: (key: string) => RateLimitState;
+}
+
+// Fixed window counters kept in memory, so every backend process limits on its own
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions): RateLimiter => {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+    let nextSweep = Date.now() + windowMs;
+
+    const current = (key: string) => {
+        const now = Date.now();
+        if (now >= nextSweep) {
+            // Forget keys whose window has passed, otherwise every address ever seen stays around
+            windows.forEach((window, windowKey) => {
+                if (window.resetAt <= now) {
+                    windows.delete(windowKey);
+                }
+            });
+            nextSweep = now + windowMs;
+        }
+        let window = windows.get(key);
+        if (!window || window.resetAt <= now) {
+            window = { count: 0, resetAt: now + windowMs };
+            windows.set(key, window);
+        }
+        return window;
+    };
+
+    const stateOf = (window: { count: number; resetAt: number }, allowed: boolean): RateLimitState => ({
+        allowed,
+        limit,
+        remaining: Math.max(0, limit - window.count),
+        resetAt: window.resetAt,
+    });
+
+    return {
+        consume: (key) => {
+            if (limit <= 0) {
+                return { allowed: true, limit, remaining: 0, resetAt: Date.now() };
+            }
+            const window = current(key);
+            if (window.count >= limit) {
+                return stateOf(window, false);
+            }
+            window.count++;
+            return stateOf(window, true);
+        },
+        peek: (key) => (limit <= 0
+            ? { allowed: true, limit, remaining: 0, resetAt: Date.now() }
+            : stateOf(current(key), true)),
+    };
+};
+
+export const retryAfterSeconds = (state: RateLimitState) => Math.max(1, Math.ceil((state.resetAt - Date.now()) / 1000));
+
+export const toRateLimitStatus = (state: RateLimitState): RateLimitStatus => ({
+    limit: state.limit,
+    remaining: state.remaining,
+    resetAt: new Date(state.resetAt).toISOString(),
+});
+
+export interface RateLimitRule {
+    limiter: RateLimiter;
+    // Bucket the request counts against, e.g. the principal or the client address
+    key: (req: express.Request) => string;
+}
+
+export type RateLimitDenyHandler = (res: express.Response, message: string) => void;
+
+// Counts the request against every rule and answers 429 with Retry-After once any of
+// them runs out. The RateLimit-* headers describe the tightest rule.
+export const rateLimit = (rules: RateLimitRule[], deny: RateLimitDenyHandler): express.RequestHandler => (req, res, next) => {
+    const states = rules
+        .map(rule => rule.limiter.consume(rule.key(req)))
+        .filter(state => state.limit > 0);
+    if (states.length === 0) {
+        return next();
+    }
+
+    const denied = states.filter(state => !state.allowed);
+    const tightest = denied.length > 0
+        ? denied.reduce((latest, state) => (state.resetAt > latest.resetAt ? state : latest))
+        : states.reduce((lowest, state) => (state.remaining < lowest.remaining ? state : lowest));
+    res.setHeader('RateLimit-Limit', String(tightest.limit));
+    res.setHeader('RateLimit-Remaining', String(tightest.remaining));
+    res.setHeader('RateLimit-Reset', String(retryAfterSeconds(tightest)));
+
+    if (denied.length > 0) {
+        const retryAfter = retryAfterSeconds(tightest);
+        res.setHeader('Retry-After', String(retryAfter));
+        return deny(res, `Too many requests, try again in ${retryAfter} seconds`);
+    }
+    next();
+};
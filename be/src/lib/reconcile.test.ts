@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ImageRecord, MetadataStore, createMetadataStore } from './metadataStore';
+import { reconcileUploads } from './reconcile';
+import { StorageAdapter } from './storage';
+import { createMemoryStorage } from './storage/memoryStorage';
+
+const record = (id: string, filename: string): ImageRecord => ({
+    id,
+    originalName: filename,
+    filename,
+    mimetype: 'image/png',
+    size: 10,
+    checksum: id,
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('reconcileUploads', () => {
+    let png: Buffer;
+    let dir: string;
+    let journalPath: string;
+    let store: MetadataStore;
+    let storage: StorageAdapter;
+
+    beforeAll(async () => {
+        png = await sharp({ create: { width: 3, height: 2, channels: 3, background: '#000' } }).png().toBuffer();
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reconcile-'));
+        journalPath = path.join(dir, 'metadata.jsonl');
+        store = createMetadataStore(journalPath);
+        storage = createMemoryStorage();
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('keeps rows whose original is stored', async () => {
+        await storage.put('kept.png', png);
+        store.put(record('kept', 'kept.png'));
+        expect(await reconcileUploads(store, storage)).toEqual({ adopted: [], removedRows: [], ignored: [] });
+        expect(store.get('kept')).toBeDefined();
+    });
+
+    it('drops rows whose original is gone', async () => {
+        store.put(record('gone', 'gone.png'));
+        expect((await reconcileUploads(store, storage)).removedRows).toEqual(['gone']);
+        expect(store.get('gone')).toBeUndefined();
+    });
+
+    it('adopts stored images without a row, with what the bytes tell', async () => {
+        await storage.put('orphan.png', png);
+        expect((await reconcileUploads(store, storage)).adopted).toEqual(['orphan.png']);
+        expect(store.findByFilename('orphan.png')).toMatchObject({
+            originalName: 'orphan.png',
+            mimetype: 'image/png',
+            size: png.length,
+            width: 3,
+            height: 2,
+            checksum: crypto.createHash('sha256').update(png).digest('hex'),
+        });
+    });
+
+    it('ignores objects that are not images, or not the image their extension claims', async () => {
+        await storage.put('notes.txt', Buffer.from('hello'));
+        await storage.put('fake.png', Buffer.from('not a png at all'));
+        await storage.put('renamed.jpg', png);
+        expect((await reconcileUploads(store, storage)).ignored.sort()).toEqual(['fake.png', 'notes.txt', 'renamed.jpg']);
+        expect(store.list()).toEqual([]);
+    });
+
+    it('leaves variants below a prefix alone', async () => {
+        await storage.put('abc/thumbnail.webp', png);
+        expect(await reconcileUploads(store, storage)).toEqual({ adopted: [], removedRows: [], ignored: [] });
+    });
+
+    it('compacts the journal to one line per live row', async () => {
+        await storage.put('kept.png', png);
+        store.put(record('kept', 'kept.png'));
+        store.put({ ...record('kept', 'kept.png'), altText: 'Edited' });
+        store.put(record('gone', 'gone.png'));
+        await reconcileUploads(store, storage);
+
+        const lines = fs.readFileSync(journalPath, 'utf8').trim().split('\n');
+        expect(lines).toHaveLength(1);
+        expect(createMetadataStore(journalPath).get('kept')).toMatchObject({ altText: 'Edited' });
+    });
+});
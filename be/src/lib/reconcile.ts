@@ -0,0 +1,55 @@
+import { v4 as uuidv4 } from 'uuid';
+import { inspectImageBuffer } from './imageFile';
+import { SNIFF_LENGTH, detectImageType, findImageTypeByExtension } from './imageSignature';
+import { MetadataStore } from './metadataStore';
+import { StorageAdapter, readObject } from './storage';
+
+export interface ReconcileResult {
+    adopted: string[];
+    removedRows: string[];
+    ignored: string[];
+}
+
+// Brings the metadata store and storage back in sync after a crash or manual
+// edits: rows whose original is gone are dropped, and image objects without a
+// row are adopted with the metadata we can recover from the bytes. Only
+// top-level keys are originals, anything below a prefix (variants) is skipped.
+export const reconcileUploads = async (store: MetadataStore, storage: StorageAdapter): Promise<ReconcileResult> => {
+    const result: ReconcileResult = { adopted: [], removedRows: [], ignored: [] };
+    const originals = (await storage.list()).filter(object => !object.key.includes('/'));
+    const stored = new Set(originals.map(object => object.key));
+
+    store.list().forEach(record => {
+        if (!stored.has(record.filename)) {
+            store.remove(record.id);
+            result.removedRows.push(record.id);
+        }
+    });
+
+    const known = new Set(store.list().map(record => record.filename));
+    for (const object of originals) {
+        if (known.has(object.key)) {
+            continue;
+        }
+
+        const buffer = await readObject(storage, object.key);
+        const detected = buffer && detectImageType(buffer.subarray(0, SNIFF_LENGTH));
+        if (!buffer || !detected || findImageTypeByExtension(object.key)?.mimetype !== detected.mimetype) {
+            result.ignored.push(object.key);
+            continue;
+        }
+
+        store.put({
+            id: uuidv4(),
+            originalName: object.key,
+            filename: object.key,
+            mimetype: detected.mimetype,
+            ...inspectImageBuffer(buffer),
+            uploadedAt: object.lastModified.toISOString(),
+        });
+        result.adopted.push(object.key);
+    }
+
+    store.compact();
+    return result;
+};
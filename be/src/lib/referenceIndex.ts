@@ -0,0 +1,41 @@
+// Reverse index from asset ids to the entries pointing at them, kept in memory next to a
+// store's own map and rebuilt from it when the journal is replayed
+export interface ReferenceIndex<T> {
+    // Replaces whatever `entry` pointed at before
+    set: (entry: T, assetIds: string[]) => void;
+    delete: (entry: T) => void;
+    get: (assetId: string) => T[];
+}
+
+export const createReferenceIndex = <T>(): ReferenceIndex<T> => {
+    const byAsset = new Map<string, Set<T>>();
+    const byEntry = new Map<T, string[]>();
+
+    const remove = (entry: T) => {
+        (byEntry.get(entry) || []).forEach(assetId => {
+            const entries = byAsset.get(assetId);
+            entries?.delete(entry);
+            if (entries && entries.size === 0) {
+                byAsset.delete(assetId);
+            }
+        });
+        byEntry.delete(entry);
+    };
+
+    return {
+        set: (entry, assetIds) => {
+            remove(entry);
+            if (assetIds.length === 0) {
+                return;
+            }
+            byEntry.set(entry, assetIds);
+            assetIds.forEach(assetId => {
+                const entries = byAsset.get(assetId) || new Set<T>();
+                entries.add(entry);
+                byAsset.set(assetId, entries);
+            });
+        },
+        delete: remove,
+        get: (assetId) => Array.from(byAsset.get(assetId) || []),
+    };
+};
@@ -0,0 +1,132 @@
+import { Block, PageRevision } from '@next-page-builder/contracts';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ImageRecord, MetadataStore, createMetadataStore } from './metadataStore';
+import { MetricsRegistry, createMetricsRegistry } from './metrics';
+import { PageRecord, PageStore, createPageStore } from './pageStore';
+import { ReferenceSweepReport, createReferenceSweeper } from './referenceSweep';
+import { RevisionStore, createRevisionStore } from './revisionStore';
+
+const NOW = new Date('2026-03-01T00:00:00.000Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const image = (id: string, overrides: Partial<ImageRecord> = {}): ImageRecord => ({
+    id,
+    originalName: `${id}.png`,
+    filename: `${id}.png`,
+    mimetype: 'image/png',
+    size: 10,
+    checksum: id,
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    workspace: 'default',
+    ...overrides,
+});
+
+const imageBlock = (assetId: string): Block => ({ id: `b-${assetId}`, type: 'image', props: { assetId } });
+
+const page = (id: string, blocks: Block[], overrides: Partial<PageRecord> = {}): PageRecord => ({
+    id,
+    slug: id,
+    title: id,
+    seo: {},
+    blocks,
+    version: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    workspace: 'default',
+    ...overrides,
+});
+
+const revision = (pageId: string, version: number, blocks: Block[]): PageRevision => ({
+    pageId,
+    version,
+    slug: pageId,
+    title: pageId,
+    seo: {},
+    blocks,
+    createdAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('createReferenceSweeper', () => {
+    let dir: string;
+    let metadataStore: MetadataStore;
+    let pageStore: PageStore;
+    let revisionStore: RevisionStore;
+    let registry: MetricsRegistry;
+    let sweep: () => ReferenceSweepReport | undefined;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reference-sweep-'));
+        metadataStore = createMetadataStore(path.join(dir, 'metadata.jsonl'));
+        pageStore = createPageStore(path.join(dir, 'pages.jsonl'));
+        revisionStore = createRevisionStore(path.join(dir, 'page-revisions.jsonl'));
+        registry = createMetricsRegistry();
+        const sweeper = createReferenceSweeper({ metadataStore, pageStore, revisionStore, registry, retentionMs: 30 * DAY });
+        sweep = () => sweeper.sweep(NOW);
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reports draft and published references to missing images', () => {
+        metadataStore.put(image('kept'));
+        revisionStore.add(revision('p1', 1, [imageBlock('kept'), imageBlock('old-gone')]));
+        pageStore.put(page('p1', [imageBlock('kept'), imageBlock('draft-gone')], {
+            seo: { ogImageAssetId: 'old-gone' },
+            version: 2,
+            published: { version: 1, slug: 'p1', publishedAt: '2026-01-01T00:00:00.000Z' },
+        }));
+
+        expect(sweep()?.dangling).toEqual([
+            { pageId: 'p1', workspace: 'default', assetId: 'old-gone', draft: true, published: true },
+            { pageId: 'p1', workspace: 'default', assetId: 'draft-gone', draft: true, published: false },
+        ]);
+    });
+
+    it('counts an image of another workspace as missing', () => {
+        metadataStore.put(image('theirs', { workspace: 'other' }));
+        pageStore.put(page('p1', [imageBlock('theirs')]));
+        expect(sweep()?.dangling).toEqual([
+            { pageId: 'p1', workspace: 'default', assetId: 'theirs', draft: true, published: false },
+        ]);
+    });
+
+    it('reports images no draft or revision points at once they are past the retention window', () => {
+        metadataStore.put(image('on-draft'));
+        metadataStore.put(image('in-old-revision'));
+        metadataStore.put(image('unused'));
+        metadataStore.put(image('recent', { uploadedAt: new Date(NOW.getTime() - DAY).toISOString() }));
+        pageStore.put(page('p1', [imageBlock('on-draft')], { version: 2 }));
+        revisionStore.add(revision('p1', 1, [imageBlock('in-old-revision')]));
+
+        expect(sweep()?.unreferenced).toEqual([
+            { id: 'unused', workspace: 'default', filename: 'unused.png', uploadedAt: '2026-01-01T00:00:00.000Z' },
+        ]);
+    });
+
+    it('publishes the counts per workspace and drops workspaces that came clean', () => {
+        metadataStore.put(image('unused'));
+        metadataStore.put(image('elsewhere', { workspace: 'other' }));
+        pageStore.put(page('p1', [imageBlock('gone')]));
+        sweep();
+        expect(registry.render()).toContain('image_references_dangling{workspace="default"} 1');
+        expect(registry.render()).toContain('images_unreferenced{workspace="default"} 1');
+        expect(registry.render()).toContain('images_unreferenced{workspace="other"} 1');
+
+        pageStore.remove('p1');
+        metadataStore.remove('elsewhere');
+        sweep();
+        expect(registry.render()).not.toContain('image_references_dangling{');
+        expect(registry.render()).not.toContain('images_unreferenced{workspace="other"}');
+    });
+
+    it('reports a failure instead of throwing', () => {
+        pageStore.list = () => {
+            throw new Error('boom');
+        };
+        expect(sweep()).toBeUndefined();
+    });
+});
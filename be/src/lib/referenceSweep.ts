@@ -0,0 +1,123 @@
+import { pageAssetIds } from '@next-page-builder/contracts';
+import { recordWorkspace } from './auth';
+import { findImageUsages } from './imageUsage';
+import { logger } from './logger';
+import { MetadataStore } from './metadataStore';
+import { MetricsRegistry } from './metrics';
+import { PageStore } from './pageStore';
+import { RevisionStore } from './revisionStore';
+
+export interface DanglingReference {
+    pageId: string;
+    workspace: string;
+    assetId: string;
+    // Which side of the page points at the missing image
+    draft: boolean;
+    published: boolean;
+}
+
+export interface UnreferencedImage {
+    id: string;
+    workspace: string;
+    filename: string;
+    uploadedAt: string;
+}
+
+export interface ReferenceSweepReport {
+    dangling: DanglingReference[];
+    unreferenced: UnreferencedImage[];
+}
+
+export interface ReferenceSweeperOptions {
+    metadataStore: MetadataStore;
+    pageStore: PageStore;
+    revisionStore: RevisionStore;
+    registry: MetricsRegistry;
+    // Images younger than this are left out, they may be about to go on a page
+    retentionMs: number;
+}
+
+// Log lines list this many ids, the gauges carry the full counts
+const LOGGED_IDS = 20;
+
+// Reports what the reverse indexes cannot prevent: drafts and published pages pointing at
+// images that are gone (deleted with force, lost in a reconcile), and images no page or
+// revision has pointed at for longer than the retention window. Nothing is removed.
+export const createReferenceSweeper = ({
+    metadataStore,
+    pageStore,
+    revisionStore,
+    registry,
+    retentionMs,
+}: ReferenceSweeperOptions) => {
+    const danglingGauge = registry.gauge('image_references_dangling', 'Draft or published page references to missing images per workspace, as of the last sweep');
+    const unreferencedGauge = registry.gauge('images_unreferenced', 'Images past the retention window that no page references per workspace, as of the last sweep');
+
+    const findDangling = () => {
+        const dangling: DanglingReference[] = [];
+        pageStore.list().forEach(page => {
+            const workspace = recordWorkspace(page);
+            const published = page.published && revisionStore.get(page.id, page.published.version);
+            const draftIds = pageAssetIds(page);
+            const publishedIds = published ? pageAssetIds(published) : [];
+            new Set([...draftIds, ...publishedIds]).forEach(assetId => {
+                const image = metadataStore.get(assetId);
+                if (!image || recordWorkspace(image) !== workspace) {
+                    dangling.push({
+                        pageId: page.id,
+                        workspace,
+                        assetId,
+                        draft: draftIds.includes(assetId),
+                        published: publishedIds.includes(assetId),
+                    });
+                }
+            });
+        });
+        return dangling;
+    };
+
+    const findUnreferenced = (now: Date) => {
+        const cutoff = now.getTime() - retentionMs;
+        return metadataStore.list()
+            .filter(image => Date.parse(image.uploadedAt) < cutoff)
+            .filter(image => findImageUsages(image, { pageStore, revisionStore }).length === 0)
+            .map(image => ({ id: image.id, workspace: recordWorkspace(image), filename: image.filename, uploadedAt: image.uploadedAt }));
+    };
+
+    const countByWorkspace = (entries: { workspace: string }[]) => {
+        const counts = new Map<string, number>();
+        entries.forEach(({ workspace }) => counts.set(workspace, (counts.get(workspace) || 0) + 1));
+        return counts;
+    };
+
+    return {
+        // Runs on a timer, so nothing may escape
+        sweep: (now = new Date()): ReferenceSweepReport | undefined => {
+            try {
+                const report = { dangling: findDangling(), unreferenced: findUnreferenced(now) };
+
+                danglingGauge.reset();
+                unreferencedGauge.reset();
+                countByWorkspace(report.dangling).forEach((count, workspace) => danglingGauge.set({ workspace }, count));
+                countByWorkspace(report.unreferenced).forEach((count, workspace) => unreferencedGauge.set({ workspace }, count));
+
+                if (report.dangling.length > 0) {
+                    logger.warn('Pages point at missing images', {
+                        count: report.dangling.length,
+                        references: report.dangling.slice(0, LOGGED_IDS),
+                    });
+                }
+                if (report.unreferenced.length > 0) {
+                    logger.info('Images unreferenced past the retention window', {
+                        count: report.unreferenced.length,
+                        imageIds: report.unreferenced.slice(0, LOGGED_IDS).map(image => image.id),
+                    });
+                }
+                return report;
+            } catch (error) {
+                logger.error('Sweeping image references failed', { error });
+                return undefined;
+            }
+        },
+    };
+};
@@ -0,0 +1,49 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { logger, runWithLogContext } from './logger';
+import { Histogram } from './metrics';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Ids from the Next proxy (or any client) are kept when they look like one, anything
+// else could smuggle arbitrary text into the logs
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export interface RequestContextOptions {
+    // Observes the duration of every request, labelled by method, route and status
+    requestDuration?: Histogram;
+    // Access logged at debug only, e.g. probes polled every few seconds
+    quietPaths?: string[];
+}
+
+// Matched route pattern rather than the path, so ids do not end up in metric labels
+const routeOf = (req: express.Request) => (req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched');
+
+// Tags the request with an id (the caller's X-Request-Id or a fresh one), echoes it in
+// the response and makes it part of every line logged while handling the request.
+// Writes one access log line per request once the response is done.
+export const requestContext = ({ requestDuration, quietPaths = [] }: RequestContextOptions = {}): express.RequestHandler => (req, res, next) => {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : uuidv4();
+    const startedAt = process.hrtime.bigint();
+    // Taken now, routers rewrite req.url while they handle the request. Without the
+    // query string, signed links carry their signature there.
+    const { method, path } = req;
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    runWithLogContext({ requestId }, () => {
+        res.on('finish', () => {
+            const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+            const status = res.statusCode;
+            requestDuration?.observe({ method, route: routeOf(req), status: String(status) }, seconds);
+            const level = status >= 500 ? 'error' : quietPaths.includes(path) ? 'debug' : 'info';
+            logger[level]('request completed', {
+                method,
+                path,
+                status,
+                durationMs: Math.round(seconds * 1000),
+            });
+        });
+        next();
+    });
+};
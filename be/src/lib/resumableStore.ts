@@ -0,0 +1,111 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ImageMetadata } from '@next-page-builder/contracts';
+import { resolveWithin } from './safePath';
+
+export interface ResumableUpload {
+    id: string;
+    originalName: string;
+    mimetype: string;
+    // Total number of bytes the client announced when creating the upload
+    length: number;
+    // Principal that created the upload, the only one allowed to continue it
+    ownerId: string;
+    workspace: string;
+    // Applied to the image once the upload is finalized
+    metadata?: ImageMetadata;
+    // Keep EXIF/XMP/IPTC in the stored bytes, see IncomingFile
+    preserveMetadata?: boolean;
+    createdAt: string;
+    expiresAt: string;
+}
+
+export interface ResumableStore {
+    create: (upload: Pick<ResumableUpload, 'originalName' | 'mimetype' | 'length' | 'ownerId' | 'workspace' | 'metadata' | 'preserveMetadata'>) => ResumableUpload;
+    get: (id: string) => ResumableUpload | undefined;
+    // Every upload that has not expired yet
+    list: () => ResumableUpload[];
+    // Bytes received so far, the size of the partial file is the source of truth
+    offset: (id: string) => number;
+    partPath: (id: string) => string;
+    remove: (id: string) => void;
+    purgeExpired: () => number;
+}
+
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Each in-progress upload is a `<id>.json` descriptor plus a `<id>.part` file
+// that PATCH requests append to.
+export const createResumableStore = (dir: string, ttlMs: number): ResumableStore => {
+    fs.mkdirSync(dir, { recursive: true });
+
+    const infoPath = (id: string) => resolveWithin(dir, `${id}.json`);
+    const partPath = (id: string) => resolveWithin(dir, `${id}.part`);
+
+    const get = (id: string): ResumableUpload | undefined => {
+        // Ids end up in file paths, so anything that is not one of ours is unknown
+        if (!UPLOAD_ID_PATTERN.test(id) || !fs.existsSync(infoPath(id))) {
+            return undefined;
+        }
+        try {
+            const upload = JSON.parse(fs.readFileSync(infoPath(id), 'utf8')) as ResumableUpload;
+            return new Date(upload.expiresAt).getTime() > Date.now() ? upload : undefined;
+        } catch {
+            return undefined;
+        }
+    };
+
+    const ids = () => fs.readdirSync(dir)
+        .filter(name => name.endsWith('.json'))
+        .map(name => path.basename(name, '.json'));
+
+    const remove = (id: string) => {
+        fs.rmSync(infoPath(id), { force: true });
+        fs.rmSync(partPath(id), { force: true });
+    };
+
+    return {
+        create: ({ originalName, mimetype, length, ownerId, workspace, metadata, preserveMetadata }) => {
+            const now = Date.now();
+            const upload: ResumableUpload = {
+                id: uuidv4(),
+                originalName,
+                mimetype,
+                length,
+                ownerId,
+                workspace,
+                metadata,
+                ...(preserveMetadata ? { preserveMetadata } : {}),
+                createdAt: new Date(now).toISOString(),
+                expiresAt: new Date(now + ttlMs).toISOString(),
+            };
+            fs.writeFileSync(partPath(upload.id), '');
+            fs.writeFileSync(infoPath(upload.id), JSON.stringify(upload));
+            return upload;
+        },
+        get,
+        list: () => ids()
+            .map(get)
+            .filter((upload): upload is ResumableUpload => upload !== undefined),
+        offset: (id) => {
+            try {
+                return fs.statSync(partPath(id)).size;
+            } catch {
+                return 0;
+            }
+        },
+        partPath,
+        remove,
+        purgeExpired: () => {
+            let purged = 0;
+            ids().forEach(id => {
+                if (!get(id)) {
+                    remove(id);
+                    purged++;
+                }
+            });
+            return purged;
+        },
+    };
+};
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { PageRevision, pageAssetIds } from '@next-page-builder/contracts';
+import { logger } from './logger';
+import { createReferenceIndex } from './referenceIndex';
+
+// Revisions are only ever added, they go away together with their page
+type JournalEntry =
+    | { op: 'add'; revision: PageRevision }
+    | { op: 'deletePage'; pageId: string };
+
+export interface RevisionStore {
+    // Newest first
+    list: (pageId: string) => PageRevision[];
+    get: (pageId: string, version: number) => PageRevision | undefined;
+    // Revisions of any page that point at the asset
+    listByAsset: (assetId: string) => PageRevision[];
+    add: (revision: PageRevision) => void;
+    removePage: (pageId: string) => void;
+    // Throws when the journal could not be appended to
+    check: () => void;
+}
+
+const readJournal = (journalPath: string): Map<string, PageRevision[]> => {
+    const revisions = new Map<string, PageRevision[]>();
+    if (!fs.existsSync(journalPath)) {
+        return revisions;
+    }
+
+    fs.readFileSync(journalPath, 'utf8').split('\n').forEach((line, index) => {
+        if (!line.trim()) {
+            return;
+        }
+        try {
+            const entry = JSON.parse(line) as JournalEntry;
+            if (entry.op === 'add') {
+                const list = revisions.get(entry.revision.pageId) || [];
+                list.push(entry.revision);
+                revisions.set(entry.revision.pageId, list);
+            } else if (entry.op === 'deletePage') {
+                revisions.delete(entry.pageId);
+            }
+        } catch {
+            logger.warn('Skipping unreadable revision journal line', { line: index + 1, path: journalPath });
+        }
+    });
+    return revisions;
+};
+
+export const createRevisionStore = (journalPath: string): RevisionStore => {
+    fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+    const revisions = readJournal(journalPath);
+    const references = createReferenceIndex<PageRevision>();
+    revisions.forEach(list => list.forEach(revision => references.set(revision, pageAssetIds(revision))));
+
+    const append = (entry: JournalEntry) => {
+        fs.appendFileSync(journalPath, `${JSON.stringify(entry)}\n`);
+    };
+
+    return {
+        list: (pageId) => [...(revisions.get(pageId) || [])].sort((a, b) => b.version - a.version),
+        get: (pageId, version) => (revisions.get(pageId) || []).find(revision => revision.version === version),
+        listByAsset: (assetId) => references.get(assetId),
+        add: (revision) => {
+            append({ op: 'add', revision });
+            revisions.set(revision.pageId, [...(revisions.get(revision.pageId) || []), revision]);
+            references.set(revision, pageAssetIds(revision));
+        },
+        removePage: (pageId) => {
+            if (!revisions.has(pageId)) {
+                return;
+            }
+            append({ op: 'deletePage', pageId });
+            revisions.get(pageId)?.forEach(revision => references.delete(revision));
+            revisions.delete(pageId);
+        },
+        check: () => {
+            fs.accessSync(path.dirname(journalPath), fs.constants.W_OK);
+            if (fs.existsSync(journalPath)) {
+                fs.accessSync(journalPath, fs.constants.R_OK | fs.constants.W_OK);
+            }
+        },
+    };
+};
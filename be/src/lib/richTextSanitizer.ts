@@ -0,0 +1,24 @@
+import { RICH_TEXT_ATTRIBUTES, RICH_TEXT_HREF_PATTERN, RICH_TEXT_TAGS } from '@next-page-builder/contracts';
+import { getPurifier } from './svgSanitizer';
+
+// Cleans the HTML of a rich text block before it is stored. Links keep only http(s),
+// mailto, tel and site-relative targets, links opening a new tab get rel=noopener.
+export const sanitizeRichText = (html: string): string => {
+    const purifier = getPurifier();
+    purifier.addHook('afterSanitizeAttributes', node => {
+        if (node.tagName === 'A' && node.getAttribute('target') === '_blank') {
+            node.setAttribute('rel', 'noopener noreferrer');
+        }
+    });
+    try {
+        return purifier.sanitize(html, {
+            ALLOWED_TAGS: RICH_TEXT_TAGS,
+            ALLOWED_ATTR: RICH_TEXT_ATTRIBUTES,
+            ALLOWED_URI_REGEXP: RICH_TEXT_HREF_PATTERN,
+            // Otherwise their values have to pass the URI check too
+            ADD_URI_SAFE_ATTR: ['target', 'rel'],
+        });
+    } finally {
+        purifier.removeHook('afterSanitizeAttributes');
+    }
+};
@@ -0,0 +1,18 @@
+import path from 'path';
+
+export class PathContainmentError extends Error {
+    constructor(root: string, target: string) {
+        super(`Path ${target} escapes ${root}`);
+    }
+}
+
+// Joins segments onto root and refuses any result outside of it, whatever the
+// segments contain (`..`, absolute paths, separators smuggled into names).
+export const resolveWithin = (root: string, ...segments: string[]): string => {
+    const base = path.resolve(root);
+    const target = path.resolve(base, ...segments);
+    if (target !== base && !target.startsWith(`${base}${path.sep}`)) {
+        throw new PathContainmentError(base, target);
+    }
+    return target;
+};
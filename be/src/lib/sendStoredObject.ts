@@ -0,0 +1,108 @@
+import express from 'express';
+import { logger } from './logger';
+import { ByteRange, StorageAdapter } from './storage';
+
+export interface SendStoredObjectOptions {
+    key: string;
+    // Pinned from the metadata, never derived from the key or the bytes
+    contentType: string;
+    // Strong validator, the bytes behind it must never change
+    etag: string;
+    // `attachment` for anything that must not render in the browser
+    disposition: 'inline' | 'attachment';
+    filename: string;
+}
+
+// Stored objects are user supplied: never sniffed, never allowed to run script or
+// load anything, even when opened directly rather than embedded
+const ASSET_CSP = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+
+// RFC 6266 header with an ASCII fallback and the exact name in filename*
+export const contentDisposition = (disposition: 'inline' | 'attachment', filename: string) => {
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\%]/g, '_');
+    const encoded = encodeURIComponent(filename).replace(/['()*]/g, char =>
+        `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+    return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+// If-Range names the representation a client already has part of, ranges only
+// apply while it is still current (RFC 9110 13.1.5)
+const ifRangeMatches = (req: express.Request, etag: string, lastModified: Date) => {
+    const ifRange = req.get('if-range');
+    if (!ifRange) {
+        return true;
+    }
+    if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+        return ifRange === etag;
+    }
+    return Date.parse(ifRange) === Math.floor(lastModified.getTime() / 1000) * 1000;
+};
+
+// Streams an object out of storage with safe headers, answering conditional
+// requests with 304 and single byte ranges with 206. Several ranges in one
+// request get the whole object, which RFC 9110 allows.
+export const sendStoredObject = async (
+    req: express.Request,
+    res: express.Response,
+    storage: StorageAdapter,
+    options: SendStoredObjectOptions
+) => {
+    const info = await storage.stat(options.key);
+    if (!info) {
+        return res.status(404).end();
+    }
+
+    res.setHeader('Content-Type', options.contentType);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', ASSET_CSP);
+    res.setHeader('Content-Disposition', contentDisposition(options.disposition, options.filename));
+    // Pages on other origins embed assets
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', options.etag);
+    res.setHeader('Last-Modified', info.lastModified.toUTCString());
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+
+    // Checks If-None-Match / If-Modified-Since against the headers set above
+    if (req.fresh) {
+        return res.status(304).end();
+    }
+
+    let range: ByteRange | undefined;
+    if (req.get('range') && ifRangeMatches(req, options.etag, info.lastModified)) {
+        const ranges = req.range(info.size, { combine: true });
+        if (ranges === -1) {
+            res.setHeader('Content-Range', `bytes */${info.size}`);
+            return res.status(416).end();
+        }
+        // -2 (malformed) and non-byte units are ignored, as if there was no Range header
+        if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+            range = ranges[0];
+        }
+    }
+
+    if (range) {
+        res.status(206);
+        res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${info.size}`);
+        res.setHeader('Content-Length', String(range.end - range.start + 1));
+    } else {
+        res.setHeader('Content-Length', String(info.size));
+    }
+    if (req.method === 'HEAD') {
+        return res.end();
+    }
+
+    const stream = await storage.get(options.key, { range });
+    if (!stream) {
+        // Deleted between stat and get
+        res.removeHeader('Content-Range');
+        res.removeHeader('Content-Length');
+        return res.status(404).end();
+    }
+    stream.on('error', error => {
+        logger.error('Streaming stored object failed', { key: options.key, error });
+        res.destroy(error);
+    });
+    stream.pipe(res);
+};
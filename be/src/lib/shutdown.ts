@@ -0,0 +1,80 @@
+import http from 'http';
+import { logger } from './logger';
+
+export interface GracefulShutdownOptions {
+    server: http.Server;
+    // How long in-flight requests get to finish before their connections are cut
+    timeoutMs: number;
+    // Runs once the server is closed, e.g. to remove files of requests that were cut off
+    cleanup: () => void | Promise<void>;
+}
+
+export interface GracefulShutdown {
+    // True from the first signal on, /readyz reports it so load balancers stop routing here
+    isDraining: () => boolean;
+    shutdown: (reason: string) => Promise<void>;
+}
+
+// On SIGTERM/SIGINT: stops accepting connections, closes idle keep-alive connections,
+// lets in-flight requests finish for up to timeoutMs and then cuts the rest. Aborted
+// requests clean up after themselves (see cleanupIncomingFiles), `cleanup` catches
+// whatever is left, then the process exits.
+export const createGracefulShutdown = ({ server, timeoutMs, cleanup }: GracefulShutdownOptions): GracefulShutdown => {
+    let draining: Promise<void> | undefined;
+
+    // Responses sent while draining ask keep-alive clients to reconnect elsewhere. Runs
+    // ahead of the app, which may answer before its listener returns.
+    server.prependListener('request', (req: http.IncomingMessage, res: http.ServerResponse) => {
+        if (draining) {
+            res.setHeader('Connection', 'close');
+        }
+    });
+
+    const drain = async (reason: string) => {
+        logger.info('Shutting down, draining in-flight requests', { reason, timeoutMs });
+        const closed = new Promise<void>(resolve => server.close(() => resolve()));
+        server.closeIdleConnections();
+        // Keep-alive connections that finish a request while draining go idle and are closed too
+        const idleSweep = setInterval(() => server.closeIdleConnections(), 500);
+        const deadline = setTimeout(() => {
+            logger.warn('Shutdown timeout reached, aborting in-flight requests');
+            server.closeAllConnections();
+        }, timeoutMs);
+        try {
+            await closed;
+        } finally {
+            clearInterval(idleSweep);
+            clearTimeout(deadline);
+        }
+        await cleanup();
+        logger.info('Shutdown complete');
+    };
+
+    const shutdown = (reason: string) => {
+        if (!draining) {
+            draining = drain(reason);
+        }
+        return draining;
+    };
+
+    (['SIGTERM', 'SIGINT'] as const).forEach(signal => {
+        process.on(signal, () => {
+            if (draining) {
+                // A second signal means the caller will not wait
+                logger.warn('Received another signal while draining, exiting now', { signal });
+                process.exit(1);
+            }
+            shutdown(signal)
+                .then(() => process.exit(0))
+                .catch(error => {
+                    logger.error('Shutdown failed', { error });
+                    process.exit(1);
+                });
+        });
+    });
+
+    return {
+        isDraining: () => draining !== undefined,
+        shutdown,
+    };
+};
@@ -0,0 +1,100 @@
+import { RevalidateRequest } from '@next-page-builder/contracts';
+import { recordWorkspace } from './auth';
+import { logger } from './logger';
+import { PageRecord } from './pageStore';
+
+export interface SiteRevalidatorOptions {
+    // The Next app's /api/revalidate, nothing is sent without it
+    url?: string;
+    secret?: string;
+    // Only pages of this workspace are on the site
+    workspace: string;
+    attempts?: number;
+    timeoutMs?: number;
+}
+
+export interface SiteRevalidator {
+    // Called with the page as it was and as it is now, either side missing for creates and deletes.
+    // Only changes to what visitors get count, saving a draft does not.
+    pageChanged: (before?: PageRecord, after?: PageRecord) => void;
+    // Published pages that render differently without being published again, e.g. because
+    // an image they show was deleted
+    pagesAffected: (pages: PageRecord[]) => void;
+}
+
+const RETRY_DELAY_MS = 1000;
+// Most paths one call may carry, see revalidateRequestSchema
+const MAX_PATHS = 100;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Tells the Next app which statically generated pages to rebuild. Calls are fire and forget:
+// when all attempts fail the site catches up on its own once the revalidate interval passes.
+export const createSiteRevalidator = ({
+    url,
+    secret,
+    workspace,
+    attempts = 3,
+    timeoutMs = 5000,
+}: SiteRevalidatorOptions): SiteRevalidator => {
+    const sitePath = (page?: PageRecord) => (
+        page && page.published && recordWorkspace(page) === workspace ? `/${page.published.slug}` : undefined
+    );
+
+    const samePublication = (before?: PageRecord, after?: PageRecord) =>
+        before?.published?.version === after?.published?.version && sitePath(before) === sitePath(after);
+
+    const send = async (body: RevalidateRequest) => {
+        for (let attempt = 1; attempt <= attempts; attempt++) {
+            try {
+                const response = await fetch(url!, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        ...(secret ? { Authorization: `Bearer ${secret}` } : {}),
+                    },
+                    body: JSON.stringify(body),
+                    signal: AbortSignal.timeout(timeoutMs),
+                });
+                if (response.ok) {
+                    logger.debug('Site revalidated', { paths: body.paths });
+                    return;
+                }
+                // Refused calls will not succeed on a retry either
+                if (response.status < 500) {
+                    logger.warn('Site revalidation refused', { paths: body.paths, status: response.status });
+                    return;
+                }
+                logger.warn('Site revalidation failed', { paths: body.paths, status: response.status, attempt });
+            } catch (error) {
+                logger.warn('Site revalidation failed', { paths: body.paths, error, attempt });
+            }
+            if (attempt < attempts) {
+                await wait(RETRY_DELAY_MS * attempt);
+            }
+        }
+    };
+
+    return {
+        pageChanged: (before, after) => {
+            if (!url || samePublication(before, after)) {
+                return;
+            }
+            const paths = Array.from(new Set([sitePath(before), sitePath(after)]))
+                .filter((path): path is string => path !== undefined);
+            if (paths.length > 0) {
+                void send({ paths });
+            }
+        },
+        pagesAffected: (pages) => {
+            if (!url) {
+                return;
+            }
+            const paths = Array.from(new Set(pages.map(sitePath)))
+                .filter((path): path is string => path !== undefined);
+            for (let start = 0; start < paths.length; start += MAX_PATHS) {
+                void send({ paths: paths.slice(start, start + MAX_PATHS) });
+            }
+        },
+    };
+};
@@ -0,0 +1,45 @@
+import { AppConfig } from '@next-page-builder/contracts';
+import { createLocalDiskStorage } from './localDiskStorage';
+import { createMemoryStorage } from './memoryStorage';
+import { createS3Storage } from './s3Storage';
+import { StorageAdapter } from './types';
+
+export * from './types';
+
+export type StorageDriver = AppConfig['storage']['driver'];
+
+export interface StorageSetup {
+    driver: StorageDriver;
+    storage: StorageAdapter;
+}
+
+// Picks the adapter from the storage config:
+//   local   files under `dir` (default: defaultLocalDir)
+//   s3      the `s3` settings, the bucket is required
+//   memory  nothing persists, for tests
+export const createStorage = (config: AppConfig['storage'], defaultLocalDir: string): StorageSetup => {
+    const { driver, s3 } = config;
+    switch (driver) {
+        case 's3':
+            if (!s3.bucket) {
+                throw new Error('storage.s3.bucket is required for the s3 driver');
+            }
+            return {
+                driver,
+                storage: createS3Storage({
+                    bucket: s3.bucket,
+                    region: s3.region,
+                    endpoint: s3.endpoint,
+                    // Custom endpoints are almost always MinIO-style path addressing
+                    forcePathStyle: s3.forcePathStyle ?? Boolean(s3.endpoint),
+                    accessKeyId: s3.accessKeyId,
+                    secretAccessKey: s3.secretAccessKey,
+                    prefix: s3.prefix,
+                }),
+            };
+        case 'memory':
+            return { driver, storage: createMemoryStorage() };
+        default:
+            return { driver, storage: createLocalDiskStorage(config.dir || defaultLocalDir) };
+    }
+};
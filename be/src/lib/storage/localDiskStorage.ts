@@ -0,0 +1,84 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { resolveWithin } from '../safePath';
+import { StorageAdapter, StoredObjectInfo, assertValidStorageKey } from './types';
+
+// Suffix of files still being written, never listed and cleaned up at startup
+const TEMP_SUFFIX = '.tmp';
+
+const walk = (dir: string): string[] => {
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            return walk(entryPath);
+        }
+        return entry.isFile() ? [entryPath] : [];
+    });
+};
+
+// Objects are plain files under rootDir, keys map directly onto relative paths
+export const createLocalDiskStorage = (rootDir: string): StorageAdapter => {
+    fs.mkdirSync(rootDir, { recursive: true });
+    walk(rootDir)
+        .filter(filePath => filePath.endsWith(TEMP_SUFFIX))
+        .forEach(filePath => fs.rmSync(filePath, { force: true }));
+
+    const resolveKey = (key: string) => {
+        assertValidStorageKey(key);
+        return resolveWithin(rootDir, ...key.split('/'));
+    };
+
+    const toInfo = (key: string, stats: fs.Stats): StoredObjectInfo => ({
+        key,
+        size: stats.size,
+        lastModified: stats.mtime,
+    });
+
+    const stat = async (key: string) => {
+        try {
+            const stats = await fs.promises.stat(resolveKey(key));
+            return stats.isFile() ? toInfo(key, stats) : undefined;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+    };
+
+    return {
+        put: async (key, body) => {
+            const filePath = resolveKey(key);
+            await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+            // Write next to the target and rename, so readers never see a half written file
+            const tempPath = `${filePath}.${uuidv4()}${TEMP_SUFFIX}`;
+            try {
+                await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, fs.createWriteStream(tempPath));
+                await fs.promises.rename(tempPath, filePath);
+            } catch (error) {
+                await fs.promises.rm(tempPath, { force: true });
+                throw error;
+            }
+            return toInfo(key, await fs.promises.stat(filePath));
+        },
+        get: async (key, options = {}) =>
+            (await stat(key)) ? fs.createReadStream(resolveKey(key), options.range) : undefined,
+        stat,
+        delete: async (key) => {
+            await fs.promises.rm(resolveKey(key), { force: true });
+        },
+        list: async (prefix = '') =>
+            walk(rootDir)
+                .filter(filePath => !filePath.endsWith(TEMP_SUFFIX))
+                .map(filePath => path.relative(rootDir, filePath).split(path.sep).join('/'))
+                .filter(key => key.startsWith(prefix))
+                .map(key => toInfo(key, fs.statSync(resolveKey(key)))),
+        signedUrl: async () => undefined,
+    };
+};
@@ -0,0 +1,45 @@
+import { Readable } from 'stream';
+import { StorageAdapter, StoredObjectInfo, assertValidStorageKey, readAll } from './types';
+
+interface MemoryObject {
+    data: Buffer;
+    info: StoredObjectInfo;
+}
+
+// Keeps every object in process memory. Meant for tests and throwaway
+// instances, everything is gone on restart.
+export const createMemoryStorage = (): StorageAdapter => {
+    const objects = new Map<string, MemoryObject>();
+
+    return {
+        put: async (key, body, options = {}) => {
+            assertValidStorageKey(key);
+            const data = Buffer.isBuffer(body) ? body : await readAll(body);
+            const info: StoredObjectInfo = {
+                key,
+                size: data.length,
+                contentType: options.contentType,
+                lastModified: new Date(),
+            };
+            objects.set(key, { data, info });
+            return info;
+        },
+        get: async (key, options = {}) => {
+            const object = objects.get(key);
+            if (!object) {
+                return undefined;
+            }
+            const { range } = options;
+            return Readable.from([range ? object.data.subarray(range.start, range.end + 1) : object.data]);
+        },
+        stat: async (key) => objects.get(key)?.info,
+        delete: async (key) => {
+            objects.delete(key);
+        },
+        list: async (prefix = '') =>
+            Array.from(objects.values())
+                .map(object => object.info)
+                .filter(info => info.key.startsWith(prefix)),
+        signedUrl: async () => undefined,
+    };
+};
@@ -0,0 +1,124 @@
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    PutObjectCommand,
+    S3Client,
+    S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
+import { StorageAdapter, StoredObjectInfo, assertValidStorageKey, readAll } from './types';
+
+export interface S3StorageOptions {
+    bucket: string;
+    region: string;
+    // Custom endpoint for S3-compatible services such as MinIO, R2 or Spaces
+    endpoint?: string;
+    // Most S3-compatible services want bucket/key paths instead of bucket subdomains
+    forcePathStyle?: boolean;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    // Prepended to every key so one bucket can be shared with other data
+    prefix?: string;
+}
+
+const isNotFound = (error: unknown) =>
+    error instanceof S3ServiceException &&
+    (error.name === 'NotFound' || error.name === 'NoSuchKey' || error.$metadata.httpStatusCode === 404);
+
+export const createS3Storage = (options: S3StorageOptions): StorageAdapter => {
+    const client = new S3Client({
+        region: options.region,
+        endpoint: options.endpoint,
+        forcePathStyle: options.forcePathStyle,
+        // Fall back to the SDK's default credential chain (env, profile, instance role) when not given
+        credentials: options.accessKeyId && options.secretAccessKey
+            ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+            : undefined,
+    });
+    const prefix = options.prefix ? `${options.prefix.replace(/\/+$/, '')}/` : '';
+
+    const toObjectKey = (key: string) => {
+        assertValidStorageKey(key);
+        return `${prefix}${key}`;
+    };
+
+    const stat = async (key: string): Promise<StoredObjectInfo | undefined> => {
+        try {
+            const head = await client.send(new HeadObjectCommand({ Bucket: options.bucket, Key: toObjectKey(key) }));
+            return {
+                key,
+                size: head.ContentLength || 0,
+                contentType: head.ContentType,
+                lastModified: head.LastModified || new Date(0),
+            };
+        } catch (error) {
+            if (isNotFound(error)) {
+                return undefined;
+            }
+            throw error;
+        }
+    };
+
+    return {
+        put: async (key, body, putOptions = {}) => {
+            // PutObject needs the length up front; uploads are bounded by the upload size limits
+            const data = Buffer.isBuffer(body) ? body : await readAll(body);
+            await client.send(new PutObjectCommand({
+                Bucket: options.bucket,
+                Key: toObjectKey(key),
+                Body: data,
+                ContentType: putOptions.contentType,
+            }));
+            return { key, size: data.length, contentType: putOptions.contentType, lastModified: new Date() };
+        },
+        get: async (key, getOptions = {}) => {
+            const { range } = getOptions;
+            try {
+                const object = await client.send(new GetObjectCommand({
+                    Bucket: options.bucket,
+                    Key: toObjectKey(key),
+                    Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+                }));
+                return object.Body as Readable;
+            } catch (error) {
+                if (isNotFound(error)) {
+                    return undefined;
+                }
+                throw error;
+            }
+        },
+        stat,
+        delete: async (key) => {
+            await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: toObjectKey(key) }));
+        },
+        list: async (listPrefix = '') => {
+            const objects: StoredObjectInfo[] = [];
+            let continuationToken: string | undefined;
+            do {
+                const page = await client.send(new ListObjectsV2Command({
+                    Bucket: options.bucket,
+                    Prefix: `${prefix}${listPrefix}`,
+                    ContinuationToken: continuationToken,
+                }));
+                (page.Contents || []).forEach(object => {
+                    if (object.Key) {
+                        objects.push({
+                            key: object.Key.slice(prefix.length),
+                            size: object.Size || 0,
+                            lastModified: object.LastModified || new Date(0),
+                        });
+                    }
+                });
+                continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+            } while (continuationToken);
+            return objects;
+        },
+        signedUrl: (key, expiresInSeconds) =>
+            getSignedUrl(client, new GetObjectCommand({ Bucket: options.bucket, Key: toObjectKey(key) }), {
+                expiresIn: expiresInSeconds,
+            }),
+    };
+};
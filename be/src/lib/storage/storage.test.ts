@@ -0,0 +1,132 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createLocalDiskStorage } from './localDiskStorage';
+import { createMemoryStorage } from './memoryStorage';
+import { createS3Storage } from './s3Storage';
+import { InvalidStorageKeyError, StorageAdapter, readAll, readObject } from './types';
+
+const BODY = Buffer.from('0123456789abcdef');
+
+// What every adapter has to do the same way, see StorageAdapter
+const describeAdapter = (name: string, setup: () => { storage: StorageAdapter; cleanup?: () => void }, options: { skip?: boolean } = {}) => {
+    describe.skipIf(options.skip)(name, () => {
+        let storage: StorageAdapter;
+        let cleanup: (() => void) | undefined;
+        // Keys are unique per run, so a shared bucket is never stepped on
+        const key = (suffix: string) => `storage-test-${process.pid}/${suffix}`;
+
+        beforeAll(() => {
+            ({ storage, cleanup } = setup());
+        });
+
+        afterAll(async () => {
+            await Promise.all((await storage.list(key(''))).map(info => storage.delete(info.key)));
+            cleanup?.();
+        });
+
+        it('stores a buffer and reads it back', async () => {
+            const info = await storage.put(key('a.png'), BODY, { contentType: 'image/png' });
+            expect(info).toMatchObject({ key: key('a.png'), size: BODY.length });
+            expect(await readObject(storage, key('a.png'))).toEqual(BODY);
+            expect(await storage.stat(key('a.png'))).toMatchObject({ key: key('a.png'), size: BODY.length });
+        });
+
+        it('stores a stream', async () => {
+            await storage.put(key('variants/b.webp'), Readable.from([BODY.subarray(0, 4), BODY.subarray(4)]));
+            expect(await readObject(storage, key('variants/b.webp'))).toEqual(BODY);
+        });
+
+        it('replaces what was under the key', async () => {
+            await storage.put(key('c.png'), BODY);
+            await storage.put(key('c.png'), Buffer.from('new'));
+            expect((await readObject(storage, key('c.png')))?.toString()).toBe('new');
+        });
+
+        it('reads inclusive byte ranges', async () => {
+            await storage.put(key('d.png'), BODY);
+            const stream = await storage.get(key('d.png'), { range: { start: 2, end: 5 } });
+            expect((await readAll(stream!)).toString()).toBe('2345');
+            const last = await storage.get(key('d.png'), { range: { start: 15, end: 15 } });
+            expect((await readAll(last!)).toString()).toBe('f');
+        });
+
+        it('lists objects under a prefix', async () => {
+            await storage.put(key('list/one.png'), BODY);
+            await storage.put(key('list/nested/two.png'), BODY);
+            const keys = (await storage.list(key('list/'))).map(info => info.key).sort();
+            expect(keys).toEqual([key('list/nested/two.png'), key('list/one.png')]);
+        });
+
+        it('deletes, and deleting a missing key is not an error', async () => {
+            await storage.put(key('e.png'), BODY);
+            await storage.delete(key('e.png'));
+            await storage.delete(key('e.png'));
+            expect(await storage.get(key('e.png'))).toBeUndefined();
+            expect(await storage.stat(key('e.png'))).toBeUndefined();
+        });
+
+        it('has nothing under unknown keys', async () => {
+            expect(await storage.get(key('missing.png'))).toBeUndefined();
+            expect(await storage.stat(key('missing.png'))).toBeUndefined();
+        });
+
+        it('rejects keys that could leave the storage root', async () => {
+            for (const bad of ['../escape.png', '/absolute.png', 'a//b.png', 'a\\b.png', '']) {
+                await expect(storage.put(bad, BODY)).rejects.toBeInstanceOf(InvalidStorageKeyError);
+            }
+        });
+    });
+};
+
+describeAdapter('memory storage', () => ({ storage: createMemoryStorage() }));
+
+describeAdapter('local disk storage', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-storage-'));
+    return { storage: createLocalDiskStorage(dir), cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+});
+
+// Against MinIO, e.g. the one in docker-compose.yml:
+//   S3_TEST_BUCKET=uploads S3_TEST_ENDPOINT=http://localhost:9000 \
+//   S3_TEST_ACCESS_KEY_ID=minioadmin S3_TEST_SECRET_ACCESS_KEY=minioadmin npm test
+describeAdapter('s3 storage', () => ({
+    storage: createS3Storage({
+        bucket: process.env.S3_TEST_BUCKET || '',
+        region: process.env.S3_TEST_REGION || 'us-east-1',
+        endpoint: process.env.S3_TEST_ENDPOINT,
+        forcePathStyle: Boolean(process.env.S3_TEST_ENDPOINT),
+        accessKeyId: process.env.S3_TEST_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_TEST_SECRET_ACCESS_KEY,
+        prefix: 'storage-tests',
+    }),
+}), { skip: !process.env.S3_TEST_BUCKET });
+
+describe('signedUrl', () => {
+    it('is only offered by adapters that can presign', async () => {
+        expect(await createMemoryStorage().signedUrl('a.png', 60)).toBeUndefined();
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-storage-'));
+        try {
+            expect(await createLocalDiskStorage(dir).signedUrl('a.png', 60)).toBeUndefined();
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('presigns S3 links under the prefix without calling the service', async () => {
+        const storage = createS3Storage({
+            bucket: 'uploads',
+            region: 'us-east-1',
+            endpoint: 'http://localhost:9000',
+            forcePathStyle: true,
+            accessKeyId: 'key',
+            secretAccessKey: 'secret',
+            prefix: 'site/',
+        });
+        const url = new URL((await storage.signedUrl('a.png', 120))!);
+        expect(url.pathname).toBe('/uploads/site/a.png');
+        expect(url.searchParams.get('X-Amz-Expires')).toBe('120');
+        expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+    });
+});
@@ -0,0 +1,71 @@
+import { Readable } from 'stream';
+
+export interface StoredObjectInfo {
+    key: string;
+    size: number;
+    contentType?: string;
+    lastModified: Date;
+}
+
+export interface PutOptions {
+    contentType?: string;
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+export interface GetOptions {
+    range?: ByteRange;
+}
+
+// Where uploaded originals and their variants live. Keys are `/` separated
+// relative paths, e.g. `<id>-<timestamp>.png` or `variants/<id>-medium.webp`.
+export interface StorageAdapter {
+    put: (key: string, body: Buffer | Readable, options?: PutOptions) => Promise<StoredObjectInfo>;
+    // Resolves undefined when there is no object under the key
+    get: (key: string, options?: GetOptions) => Promise<Readable | undefined>;
+    stat: (key: string) => Promise<StoredObjectInfo | undefined>;
+    // Deleting a missing key is not an error
+    delete: (key: string) => Promise<void>;
+    list: (prefix?: string) => Promise<StoredObjectInfo[]>;
+    // URL granting direct read access until it expires. Resolves undefined for
+    // adapters whose objects are only reachable through this API (see /assets).
+    signedUrl: (key: string, expiresInSeconds: number) => Promise<string | undefined>;
+}
+
+export class InvalidStorageKeyError extends Error {
+    constructor(key: string) {
+        super(`Invalid storage key: ${key}`);
+    }
+}
+
+// Rejects anything that could escape the storage root once joined onto a path
+export const isValidStorageKey = (key: string): boolean =>
+    key.length > 0 &&
+    !key.startsWith('/') &&
+    !key.includes('\\') &&
+    !key.includes('\0') &&
+    key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+
+export const assertValidStorageKey = (key: string) => {
+    if (!isValidStorageKey(key)) {
+        throw new InvalidStorageKeyError(key);
+    }
+};
+
+export const readAll = async (stream: Readable): Promise<Buffer> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+};
+
+// Reads a whole object into memory, undefined when it does not exist
+export const readObject = async (storage: StorageAdapter, key: string): Promise<Buffer | undefined> => {
+    const stream = await storage.get(key);
+    return stream ? readAll(stream) : undefined;
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeSvg } from './svgSanitizer';
+
+const svg = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">${body}</svg>`;
+
+describe('sanitizeSvg', () => {
+    it('keeps shapes, styling and filters', () => {
+        const markup = svg('<defs><filter id="f"><feGaussianBlur stdDeviation="1"/></filter></defs>'
+            + '<rect width="10" height="10" fill="red" filter="url(#f)"/>');
+        const clean = sanitizeSvg(markup);
+        expect(clean).toContain('<rect width="10" height="10" fill="red" filter="url(#f)"');
+        expect(clean).toContain('<feGaussianBlur stdDeviation="1"');
+    });
+
+    it('drops scripts and event handlers', () => {
+        const clean = sanitizeSvg(svg('<script>alert(1)</script><rect width="1" height="1" onload="alert(2)" onclick="alert(3)"/>'));
+        expect(clean).not.toMatch(/script|alert|onload|onclick/);
+        expect(clean).toContain('<rect width="1" height="1"');
+    });
+
+    it('drops foreignObject and everything inside it', () => {
+        const clean = sanitizeSvg(svg('<foreignObject><iframe src="https://evil.test"></iframe></foreignObject>'));
+        expect(clean).not.toMatch(/foreignObject|iframe|evil/i);
+    });
+
+    it('drops javascript: links', () => {
+        const clean = sanitizeSvg(svg('<a href="javascript:alert(1)"><text>hi</text></a>'));
+        expect(clean).not.toContain('javascript:');
+        expect(clean).toContain('hi');
+    });
+
+    it('writes non-breaking spaces as XML character references', () => {
+        expect(sanitizeSvg(svg('<text>a b</text>'))).toContain('a&#160;b');
+    });
+});
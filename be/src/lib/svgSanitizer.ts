@@ -0,0 +1,23 @@
+import createDOMPurify, { DOMPurify } from 'dompurify';
+import { JSDOM } from 'jsdom';
+
+let purifier: DOMPurify | undefined;
+
+// jsdom is slow to boot, only pay for it once the first SVG (or rich text) shows up
+export const getPurifier = () => {
+    if (!purifier) {
+        purifier = createDOMPurify(new JSDOM('').window as unknown as Window & typeof globalThis);
+    }
+    return purifier;
+};
+
+// Strips everything that can run code or pull in foreign content from SVG
+// markup: scripts, event handler attributes, foreignObject, javascript: links.
+export const sanitizeSvg = (markup: string): string => {
+    const clean = getPurifier().sanitize(markup, {
+        USE_PROFILES: { svg: true, svgFilters: true },
+        FORBID_TAGS: ['script', 'foreignObject'],
+    });
+    // The serializer speaks HTML, the only entity it emits that XML lacks is &nbsp;
+    return clean.replace(/&nbsp;/g, '&#160;');
+};
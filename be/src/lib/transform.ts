@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+export const TRANSFORM_FITS = ['cover', 'contain', 'fill', 'inside', 'outside'] as const;
+export const TRANSFORM_FORMATS = ['webp', 'avif', 'jpeg', 'png'] as const;
+export const MAX_TRANSFORM_DIMENSION = 4096;
+
+export type TransformFit = typeof TRANSFORM_FITS[number];
+export type TransformFormat = typeof TRANSFORM_FORMATS[number];
+
+export interface TransformParams {
+    width?: number;
+    height?: number;
+    fit: TransformFit;
+    format: TransformFormat;
+    quality: number;
+    // Extra clockwise rotation applied after EXIF orientation
+    rotate: 0 | 90 | 180 | 270;
+    // Region of the (oriented) source to keep, applied before resizing
+    crop?: { left: number; top: number; width: number; height: number };
+}
+
+export const TRANSFORM_MIMETYPES: Record<TransformFormat, string> = {
+    webp: 'image/webp',
+    avif: 'image/avif',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+};
+
+export class TransformParamsError extends Error {}
+
+const parseInteger = (value: unknown, name: string, min: number, max: number): number | undefined => {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+        throw new TransformParamsError(`${name} must be an integer between ${min} and ${max}`);
+    }
+    return parsed;
+};
+
+const parseOption = <T extends string>(value: unknown, name: string, options: readonly T[], fallback: T): T => {
+    if (value === undefined || value === '') {
+        return fallback;
+    }
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+        throw new TransformParamsError(`${name} must be one of ${options.join(', ')}`);
+    }
+    return value as T;
+};
+
+// Turns `?w=400&h=300&fit=cover&format=webp&q=80&rotate=90&crop=x,y,w,h` into validated params
+export const parseTransformParams = (query: Record<string, unknown>): TransformParams => {
+    const rotate = parseInteger(query.rotate, 'rotate', 0, 270) || 0;
+    if (![0, 90, 180, 270].includes(rotate)) {
+        throw new TransformParamsError('rotate must be one of 0, 90, 180, 270');
+    }
+
+    let crop: TransformParams['crop'];
+    if (query.crop !== undefined && query.crop !== '') {
+        const parts = typeof query.crop === 'string' ? query.crop.split(',') : [];
+        if (parts.length !== 4) {
+            throw new TransformParamsError('crop must be left,top,width,height');
+        }
+        const [left, top, width, height] = parts.map((part, index) =>
+            parseInteger(part, 'crop', index < 2 ? 0 : 1, 65535) as number
+        );
+        crop = { left, top, width, height };
+    }
+
+    return {
+        width: parseInteger(query.w, 'w', 1, MAX_TRANSFORM_DIMENSION),
+        height: parseInteger(query.h, 'h', 1, MAX_TRANSFORM_DIMENSION),
+        fit: parseOption(query.fit, 'fit', TRANSFORM_FITS, 'cover'),
+        format: parseOption(query.format, 'format', TRANSFORM_FORMATS, 'webp'),
+        quality: parseInteger(query.q, 'q', 1, 100) || 80,
+        rotate: rotate as TransformParams['rotate'],
+        crop,
+    };
+};
+
+// Stable cache key: the same source bytes with the same params always map to the same output
+export const transformCacheKey = (checksum: string, params: TransformParams): string =>
+    crypto.createHash('sha256')
+        .update(checksum)
+        .update(JSON.stringify([
+            params.width, params.height, params.fit, params.format, params.quality, params.rotate,
+            params.crop && [params.crop.left, params.crop.top, params.crop.width, params.crop.height],
+        ]))
+        .digest('hex');
+
+export const renderTransform = async (source: string | Buffer, params: TransformParams): Promise<Buffer> => {
+    // rotate() with no argument applies the EXIF orientation, then the raw pixels are re-read so
+    // crop coordinates and the explicit rotation refer to the upright image
+    const upright = await sharp(source).rotate().raw().toBuffer({ resolveWithObject: true });
+    let pipeline = sharp(upright.data, {
+        raw: { width: upright.info.width, height: upright.info.height, channels: upright.info.channels },
+    });
+
+    if (params.crop) {
+        const { left, top, width, height } = params.crop;
+        if (left + width > upright.info.width || top + height > upright.info.height) {
+            throw new TransformParamsError(`crop must fit inside the ${upright.info.width}x${upright.info.height} image`);
+        }
+        pipeline = pipeline.extract(params.crop);
+    }
+    if (params.rotate) {
+        pipeline = pipeline.rotate(params.rotate);
+    }
+    if (params.width || params.height) {
+        pipeline = pipeline.resize({ width: params.width, height: params.height, fit: params.fit });
+    }
+
+    switch (params.format) {
+        case 'avif':
+            return pipeline.avif({ quality: params.quality, effort: 4 }).toBuffer();
+        case 'jpeg':
+            return pipeline.jpeg({ quality: params.quality, mozjpeg: true }).toBuffer();
+        case 'png':
+            // PNG is lossless, quality does not apply
+            return pipeline.png().toBuffer();
+        default:
+            return pipeline.webp({ quality: params.quality }).toBuffer();
+    }
+};
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTransformCache } from './transformCache';
+
+const bytes = (length: number, fill = 1) => Buffer.alloc(length, fill);
+
+describe('createTransformCache', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transform-cache-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('evicts the least recently used entries once past the size bound', () => {
+        const cache = createTransformCache(dir, 30);
+        cache.set('a', bytes(10));
+        cache.set('b', bytes(10));
+        cache.set('c', bytes(10));
+        expect(cache.totalBytes()).toBe(30);
+
+        cache.set('d', bytes(10));
+        expect(cache.get('a')).toBeUndefined();
+        expect(fs.existsSync(path.join(dir, 'a'))).toBe(false);
+        expect(cache.totalBytes()).toBe(30);
+    });
+
+    it('counts a read as a use', () => {
+        const cache = createTransformCache(dir, 30);
+        cache.set('a', bytes(10));
+        cache.set('b', bytes(10));
+        cache.set('c', bytes(10));
+        expect(cache.get('a')).toEqual(bytes(10));
+
+        cache.set('d', bytes(10));
+        expect(cache.get('a')).toBeDefined();
+        expect(cache.get('b')).toBeUndefined();
+    });
+
+    it('evicts as many entries as a large one needs', () => {
+        const cache = createTransformCache(dir, 30);
+        cache.set('a', bytes(10));
+        cache.set('b', bytes(10));
+        cache.set('c', bytes(25));
+        expect(cache.get('a')).toBeUndefined();
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.totalBytes()).toBe(25);
+    });
+
+    it('does not keep entries larger than the whole cache', () => {
+        const cache = createTransformCache(dir, 30);
+        cache.set('a', bytes(10));
+        cache.set('huge', bytes(31));
+        expect(cache.get('huge')).toBeUndefined();
+        expect(cache.get('a')).toBeDefined();
+        expect(cache.totalBytes()).toBe(10);
+    });
+
+    it('replaces an entry set again under the same key', () => {
+        const cache = createTransformCache(dir, 30);
+        cache.set('a', bytes(10, 1));
+        cache.set('a', bytes(5, 2));
+        expect(cache.get('a')).toEqual(bytes(5, 2));
+        expect(cache.totalBytes()).toBe(5);
+    });
+
+    it('renders once for concurrent requests of the same key', async () => {
+        const cache = createTransformCache(dir, 30);
+        const render = vi.fn(async () => bytes(10));
+        const results = await Promise.all([cache.getOrCreate('a', render), cache.getOrCreate('a', render)]);
+        expect(render).toHaveBeenCalledTimes(1);
+        expect(results).toEqual([bytes(10), bytes(10)]);
+
+        await cache.getOrCreate('a', render);
+        expect(render).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache a failed render', async () => {
+        const cache = createTransformCache(dir, 30);
+        await expect(cache.getOrCreate('a', async () => {
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+        expect(await cache.getOrCreate('a', async () => bytes(10))).toEqual(bytes(10));
+    });
+
+    it('picks up entries left on disk and removes interrupted writes', () => {
+        fs.writeFileSync(path.join(dir, 'old'), bytes(10));
+        fs.writeFileSync(path.join(dir, 'new'), bytes(10));
+        fs.writeFileSync(path.join(dir, 'partial.tmp'), bytes(10));
+        fs.utimesSync(path.join(dir, 'old'), new Date('2026-01-01'), new Date('2026-01-01'));
+        fs.utimesSync(path.join(dir, 'new'), new Date('2026-02-01'), new Date('2026-02-01'));
+
+        const cache = createTransformCache(dir, 20);
+        expect(cache.totalBytes()).toBe(20);
+        expect(fs.existsSync(path.join(dir, 'partial.tmp'))).toBe(false);
+
+        // The least recently accessed file goes first
+        cache.set('next', bytes(10));
+        expect(cache.get('old')).toBeUndefined();
+        expect(cache.get('new')).toBeDefined();
+    });
+});
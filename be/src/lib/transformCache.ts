@@ -0,0 +1,118 @@
+import fs from 'fs';
+import { resolveWithin } from './safePath';
+
+export interface TransformCache {
+    get: (key: string) => Buffer | undefined;
+    set: (key: string, data: Buffer) => void;
+    // Resolves concurrent requests for the same key with a single render
+    getOrCreate: (key: string, render: () => Promise<Buffer>) => Promise<Buffer>;
+    remove: (key: string) => void;
+    totalBytes: () => number;
+}
+
+// Disk-backed cache for rendered transforms, bounded by total size. Entries
+// are kept in a Map in least-recently-used order (oldest first) so eviction
+// only has to walk from the front.
+export const createTransformCache = (cacheDir: string, maxBytes: number): TransformCache => {
+    fs.mkdirSync(cacheDir, { recursive: true });
+
+    const entries = new Map<string, number>();
+    let total = 0;
+
+    // Rebuild the index from disk, using access time to approximate the previous LRU order
+    fs.readdirSync(cacheDir)
+        .filter(name => {
+            // Leftovers from a write interrupted by a crash
+            if (name.endsWith('.tmp')) {
+                fs.rmSync(resolveWithin(cacheDir, name), { force: true });
+                return false;
+            }
+            return true;
+        })
+        .map(name => ({ name, stats: fs.statSync(resolveWithin(cacheDir, name)) }))
+        .filter(({ stats }) => stats.isFile())
+        .sort((a, b) => a.stats.atimeMs - b.stats.atimeMs)
+        .forEach(({ name, stats }) => {
+            entries.set(name, stats.size);
+            total += stats.size;
+        });
+
+    const entryPath = (key: string) => resolveWithin(cacheDir, key);
+
+    const remove = (key: string) => {
+        const size = entries.get(key);
+        if (size === undefined) {
+            return;
+        }
+        entries.delete(key);
+        total -= size;
+        try {
+            fs.unlinkSync(entryPath(key));
+        } catch {
+            // Already evicted by someone else
+        }
+    };
+
+    const evict = () => {
+        for (const key of entries.keys()) {
+            if (total <= maxBytes) {
+                break;
+            }
+            remove(key);
+        }
+    };
+
+    const get = (key: string) => {
+        const size = entries.get(key);
+        if (size === undefined) {
+            return undefined;
+        }
+        try {
+            const data = fs.readFileSync(entryPath(key));
+            // Move to the back of the LRU order
+            entries.delete(key);
+            entries.set(key, size);
+            return data;
+        } catch {
+            entries.delete(key);
+            total -= size;
+            return undefined;
+        }
+    };
+
+    const set = (key: string, data: Buffer) => {
+        remove(key);
+        if (data.length > maxBytes) {
+            return;
+        }
+        const tempPath = `${entryPath(key)}.tmp`;
+        fs.writeFileSync(tempPath, data);
+        fs.renameSync(tempPath, entryPath(key));
+        entries.set(key, data.length);
+        total += data.length;
+        evict();
+    };
+
+    const pending = new Map<string, Promise<Buffer>>();
+
+    const getOrCreate = async (key: string, render: () => Promise<Buffer>) => {
+        const cached = get(key);
+        if (cached) {
+            return cached;
+        }
+
+        let inFlight = pending.get(key);
+        if (!inFlight) {
+            inFlight = render()
+                .then(data => {
+                    set(key, data);
+                    return data;
+                })
+                .finally(() => pending.delete(key));
+            pending.set(key, inFlight);
+        }
+        return inFlight;
+    };
+
+    return { get, set, getOrCreate, remove, totalBytes: () => total };
+};
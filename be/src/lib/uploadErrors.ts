@@ -0,0 +1,48 @@
+import express from 'express';
+import multer from 'multer';
+import { UploadErrorCode, uploadFailure } from '@next-page-builder/contracts';
+import { QuotaExceededError } from './quota';
+
+type MulterErrorCode = multer.ErrorCode | 'MISSING_FIELD_NAME';
+
+// Every error multer can raise, mapped onto the shared contract codes
+const MULTER_ERROR_CODES: Record<MulterErrorCode, { code: UploadErrorCode; message: string }> = {
+    LIMIT_PART_COUNT: { code: 'TOO_MANY_FIELDS', message: 'Too many parts in the form.' },
+    LIMIT_FILE_SIZE: { code: 'TOO_LARGE', message: 'File too large.' },
+    LIMIT_FILE_COUNT: { code: 'TOO_MANY_FILES', message: 'Too many files.' },
+    LIMIT_FIELD_KEY: { code: 'FIELD_TOO_LARGE', message: 'Field name too long.' },
+    LIMIT_FIELD_VALUE: { code: 'FIELD_TOO_LARGE', message: 'Field value too long.' },
+    LIMIT_FIELD_COUNT: { code: 'TOO_MANY_FIELDS', message: 'Too many fields in the form.' },
+    LIMIT_UNEXPECTED_FILE: { code: 'UNEXPECTED_FIELD', message: 'Files must be sent in the "images" field.' },
+    MISSING_FIELD_NAME: { code: 'MALFORMED_REQUEST', message: 'Form field name missing.' },
+};
+
+export interface UploadLimits {
+    maxFileSize: number;
+    maxFiles: number;
+}
+
+export const mapMulterError = (error: multer.MulterError, { maxFileSize, maxFiles }: UploadLimits) => {
+    const mapped = MULTER_ERROR_CODES[error.code as MulterErrorCode] || { code: 'MALFORMED_REQUEST' as const, message: error.message };
+    // Size and count messages name the configured limits
+    switch (error.code) {
+        case 'LIMIT_FILE_SIZE':
+            return { ...mapped, message: `${mapped.message} Maximum size is ${Math.floor(maxFileSize / (1024 * 1024))}MB.` };
+        case 'LIMIT_FILE_COUNT':
+            return { ...mapped, message: `${mapped.message} Maximum is ${maxFiles}.` };
+        default:
+            return mapped;
+    }
+};
+
+// In-flight reservations usually clear within a request or two
+const QUOTA_RETRY_AFTER_SECONDS = 30;
+
+// 413 in the upload contract's shape. Retry-After is only sent when waiting can help.
+export const sendQuotaExceeded = (res: express.Response, error: QuotaExceededError, originalName?: string) => {
+    if (error.temporary) {
+        res.setHeader('Retry-After', String(QUOTA_RETRY_AFTER_SECONDS));
+    }
+    const rejected = originalName ? [{ originalName, code: 'QUOTA_EXCEEDED' as const, reason: error.message }] : [];
+    res.status(413).json(uploadFailure('QUOTA_EXCEEDED', error.message, rejected));
+};
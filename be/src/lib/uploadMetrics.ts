@@ -0,0 +1,64 @@
+import express from 'express';
+import { UPLOAD_CONTRACT_VERSION, UploadResponse } from '@next-page-builder/contracts';
+import { recordWorkspace } from './auth';
+import { MetadataStore } from './metadataStore';
+import { MetricsRegistry } from './metrics';
+
+export interface UploadMetricsOptions {
+    registry: MetricsRegistry;
+    metadataStore: MetadataStore;
+}
+
+// Registers the upload and storage metrics. Uploads are counted from the responses the
+// upload endpoints send, so every way a file can be accepted or refused shows up the
+// same way clients see it. Storage usage is read from the metadata store on scrape.
+export const createUploadMetrics = ({ registry, metadataStore }: UploadMetricsOptions) => {
+    const files = registry.counter('uploads_files_total', 'Uploaded files by outcome: accepted, duplicate or rejected');
+    const acceptedBytes = registry.counter('uploads_accepted_bytes_total', 'Bytes of accepted uploads, duplicates included');
+    const rejections = registry.counter('uploads_rejections_total', 'Rejected files, or whole upload requests without any, by contract error code');
+    const storedBytes = registry.gauge('storage_used_bytes', 'Bytes of stored originals per workspace');
+    const storedImages = registry.gauge('storage_images', 'Stored images per workspace');
+
+    registry.onCollect(() => {
+        const usage = new Map<string, { bytes: number; images: number }>();
+        metadataStore.list().forEach(record => {
+            const workspace = recordWorkspace(record);
+            const current = usage.get(workspace) || { bytes: 0, images: 0 };
+            usage.set(workspace, { bytes: current.bytes + record.size, images: current.images + 1 });
+        });
+        storedBytes.reset();
+        storedImages.reset();
+        usage.forEach(({ bytes, images }, workspace) => {
+            storedBytes.set({ workspace }, bytes);
+            storedImages.set({ workspace }, images);
+        });
+    });
+
+    const record = (body: UploadResponse) => {
+        (body.files || []).forEach(file => {
+            files.inc({ outcome: file.duplicate ? 'duplicate' : 'accepted' });
+            acceptedBytes.inc({}, file.size);
+        });
+        (body.rejected || []).forEach(rejected => {
+            files.inc({ outcome: 'rejected' });
+            rejections.inc({ code: rejected.code });
+        });
+        if (body.code && (body.rejected || []).length === 0) {
+            rejections.inc({ code: body.code });
+        }
+    };
+
+    // Mounted in front of the upload endpoints, looks at the contract responses they send
+    const countUploadResults: express.RequestHandler = (req, res, next) => {
+        const json = res.json.bind(res);
+        res.json = (body?: unknown) => {
+            if (body && (body as UploadResponse).version === UPLOAD_CONTRACT_VERSION) {
+                record(body as UploadResponse);
+            }
+            return json(body);
+        };
+        next();
+    };
+
+    return { countUploadResults };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { AppConfig, publicBackendUrl, resolveConfig } from '@next-page-builder/contracts';
+import { ImageRecord } from './metadataStore';
+import { toImageSummary } from './uploadResponse';
+
+const record: ImageRecord = {
+    id: 'image 1',
+    originalName: 'photo.jpg',
+    filename: 'abc.jpg',
+    mimetype: 'image/jpeg',
+    size: 10,
+    checksum: 'abc',
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    variants: {
+        thumbnail: { width: 320, height: 200, files: { webp: 'thumbnail.webp', avif: 'thumbnail.avif' } },
+    },
+};
+
+const configWith = (env: Record<string, string>): AppConfig => resolveConfig({ env });
+
+describe('publicBackendUrl', () => {
+    it('is backend.url unless a public address is configured', () => {
+        expect(publicBackendUrl(configWith({ BACKEND_URL: 'http://be:8080' }))).toBe('http://be:8080');
+        expect(publicBackendUrl(configWith({ BACKEND_URL: 'http://be:8080', BACKEND_PUBLIC_URL: 'https://cdn.example.com/api/' })))
+            .toBe('https://cdn.example.com/api');
+    });
+});
+
+describe('toImageSummary', () => {
+    it('builds the original and variant URLs from the base URL', () => {
+        const summary = toImageSummary('https://cdn.example.com', record);
+        expect(summary.url).toBe('https://cdn.example.com/assets/image%201');
+        expect(summary.variants?.thumbnail.urls).toEqual({
+            webp: 'https://cdn.example.com/assets/image%201/thumbnail.webp',
+            avif: 'https://cdn.example.com/assets/image%201/thumbnail.avif',
+        });
+    });
+});
@@ -0,0 +1,68 @@
+import { ImageSummary, UploadedFile } from '@next-page-builder/contracts';
+import { ImageRecord, referenceCount } from './metadataStore';
+import { VariantFormat, VariantName } from './variants';
+
+// Images are only ever addressed by record id, see routes/assets
+export const assetPath = (id: string) => `/assets/${encodeURIComponent(id)}`;
+
+export const variantPath = (id: string, variant: VariantName, format: VariantFormat) =>
+    `${assetPath(id)}/${variant}.${format}`;
+
+// URLs end up in browsers, so they are built from backend.publicUrl (see publicBackendUrl)
+// rather than the Host of the request, which is the Next app's view of the backend
+export const toImageUrl = (baseUrl: string, record: ImageRecord) => `${baseUrl}${assetPath(record.id)}`;
+
+export const toVariantUrls = (baseUrl: string, record: ImageRecord) =>
+    Object.fromEntries(Object.entries(record.variants || {}).map(([name, variant]) => [name, {
+        width: variant.width,
+        height: variant.height,
+        urls: Object.fromEntries(Object.keys(variant.files).map(format =>
+            [format, `${baseUrl}${variantPath(record.id, name as VariantName, format as VariantFormat)}`]
+        )),
+    }]));
+
+export const toUploadedFile = (
+    baseUrl: string,
+    record: ImageRecord,
+    claimedMimetype: string,
+    duplicate = false
+): UploadedFile => ({
+    id: record.id,
+    originalName: record.originalName,
+    filename: record.filename,
+    path: record.filename,
+    size: record.size,
+    mimetype: claimedMimetype,
+    detectedMimetype: record.mimetype,
+    width: record.width,
+    height: record.height,
+    checksum: record.checksum,
+    uploadedAt: record.uploadedAt,
+    url: toImageUrl(baseUrl, record),
+    variants: toVariantUrls(baseUrl, record),
+    duplicate,
+    altText: record.altText,
+    caption: record.caption,
+    tags: record.tags,
+    properties: record.properties
+});
+
+export const toImageSummary = (baseUrl: string, record: ImageRecord): ImageSummary => ({
+    id: record.id,
+    originalName: record.originalName,
+    filename: record.filename,
+    url: toImageUrl(baseUrl, record),
+    size: record.size,
+    mimetype: record.mimetype,
+    width: record.width,
+    height: record.height,
+    checksum: record.checksum,
+    refCount: referenceCount(record),
+    ownerId: record.ownerId,
+    altText: record.altText,
+    caption: record.caption,
+    tags: record.tags || [],
+    properties: record.properties || {},
+    uploadDate: record.uploadedAt,
+    variants: toVariantUrls(baseUrl, record)
+});
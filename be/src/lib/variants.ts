@@ -0,0 +1,77 @@
+import sharp from 'sharp';
+import { StorageAdapter } from './storage';
+
+// Longest edge in pixels for each responsive variant
+export const VARIANT_SIZES = {
+    thumbnail: 320,
+    medium: 768,
+    large: 1600,
+} as const;
+
+export const VARIANT_FORMATS = ['webp', 'avif'] as const;
+
+export type VariantName = keyof typeof VARIANT_SIZES;
+export type VariantFormat = typeof VARIANT_FORMATS[number];
+
+export interface StoredVariant {
+    width: number;
+    height: number;
+    // Stored filename per encoded format, relative to VARIANTS_PREFIX
+    files: Partial<Record<VariantFormat, string>>;
+}
+
+export type StoredVariants = Partial<Record<VariantName, StoredVariant>>;
+
+// Storage key prefix all variants are written under
+export const VARIANTS_PREFIX = 'variants/';
+
+export const variantKey = (filename: string) => `${VARIANTS_PREFIX}${filename}`;
+
+// Vector images scale on their own, so they are served as-is
+const SKIPPED_MIMETYPES = ['image/svg+xml'];
+
+const encode = (pipeline: sharp.Sharp, format: VariantFormat): sharp.Sharp =>
+    format === 'avif'
+        ? pipeline.avif({ quality: 50, effort: 4 })
+        : pipeline.webp({ quality: 80 });
+
+// Renders every size/format combination of an uploaded image into storage.
+// Sizes never upscale, so a small original produces variants at its own size.
+export const generateVariants = async (
+    source: string | Buffer,
+    mimetype: string,
+    storage: StorageAdapter,
+    baseName: string
+): Promise<StoredVariants> => {
+    if (SKIPPED_MIMETYPES.includes(mimetype)) {
+        return {};
+    }
+
+    const variants: StoredVariants = {};
+
+    for (const [name, size] of Object.entries(VARIANT_SIZES) as Array<[VariantName, number]>) {
+        const variant: StoredVariant = { width: 0, height: 0, files: {} };
+
+        for (const format of VARIANT_FORMATS) {
+            const filename = `${baseName}-${name}.${format}`;
+            const pipeline = sharp(source)
+                .rotate() // Apply EXIF orientation before resizing
+                .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true });
+            const { data, info } = await encode(pipeline, format).toBuffer({ resolveWithObject: true });
+            await storage.put(variantKey(filename), data, { contentType: `image/${format}` });
+
+            variant.width = info.width;
+            variant.height = info.height;
+            variant.files[format] = filename;
+        }
+
+        variants[name] = variant;
+    }
+
+    return variants;
+};
+
+export const removeVariants = async (variants: StoredVariants | undefined, storage: StorageAdapter) => {
+    const filenames = Object.values(variants || {}).flatMap(variant => Object.values(variant?.files || {}));
+    await Promise.all(filenames.map(filename => storage.delete(variantKey(filename))));
+};
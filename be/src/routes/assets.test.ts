@@ -0,0 +1,170 @@
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { ImageRecord, createMetadataStore } from '../lib/metadataStore';
+import { contentDisposition } from '../lib/sendStoredObject';
+import { createMemoryStorage } from '../lib/storage/memoryStorage';
+import { variantKey } from '../lib/variants';
+import { TestServer, listen } from '../test/http';
+import { createAssetRouter } from './assets';
+
+const BYTES = Buffer.from('0123456789abcdefghij');
+
+const image = (overrides: Partial<ImageRecord>): ImageRecord => ({
+    id: 'image-1',
+    originalName: 'Photo.png',
+    filename: 'abc.png',
+    mimetype: 'image/png',
+    size: BYTES.length,
+    checksum: 'abc',
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+describe('contentDisposition', () => {
+    it('keeps the exact name in filename* and an ASCII fallback in filename', () => {
+        expect(contentDisposition('inline', 'Café "menu" 100%.png')).toBe(
+            `inline; filename="Caf_ _menu_ 100_.png"; filename*=UTF-8''Caf%C3%A9%20%22menu%22%20100%25.png`
+        );
+        expect(contentDisposition('attachment', "it's (1).svg")).toBe(
+            `attachment; filename="it's (1).svg"; filename*=UTF-8''it%27s%20%281%29.svg`
+        );
+    });
+});
+
+describe('asset routes', () => {
+    let server: TestServer;
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'assets-'));
+        const metadataStore = createMetadataStore(path.join(dir, 'metadata.jsonl'));
+        const storage = createMemoryStorage();
+        await storage.put('abc.png', BYTES);
+        await storage.put('raw.svg', Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'));
+        await storage.put('clean.svg', Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'));
+        await storage.put(variantKey('abc-medium.webp'), Buffer.from('webp bytes'));
+        metadataStore.put(image({
+            variants: { medium: { width: 768, height: 512, files: { webp: 'abc-medium.webp' } } },
+        }));
+        metadataStore.put(image({ id: 'raw-svg', originalName: 'raw.svg', filename: 'raw.svg', mimetype: 'image/svg+xml', checksum: 'raw' }));
+        metadataStore.put(image({ id: 'clean-svg', originalName: 'clean.svg', filename: 'clean.svg', mimetype: 'image/svg+xml', checksum: 'clean', sanitized: true }));
+        metadataStore.put(image({ id: 'gone', filename: 'gone.png', checksum: 'gone' }));
+
+        const app = express();
+        app.use('/assets', createAssetRouter({ metadataStore, storage }));
+        server = await listen(app);
+    });
+
+    afterAll(async () => {
+        await server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const get = (url: string, headers: Record<string, string> = {}, method = 'GET') =>
+        fetch(`${server.url}/assets/${url}`, { method, headers });
+
+    it('serves the original with the pinned type and headers that keep it from running anything', async () => {
+        const response = await get('image-1');
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe(BYTES.toString());
+        expect(Object.fromEntries(['content-type', 'x-content-type-options', 'content-security-policy', 'content-disposition',
+            'cross-origin-resource-policy', 'accept-ranges', 'etag', 'cache-control', 'content-length']
+            .map(name => [name, response.headers.get(name)]))).toEqual({
+            'content-type': 'image/png',
+            'x-content-type-options': 'nosniff',
+            'content-security-policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+            'content-disposition': `inline; filename="Photo.png"; filename*=UTF-8''Photo.png`,
+            'cross-origin-resource-policy': 'cross-origin',
+            'accept-ranges': 'bytes',
+            'etag': '"abc"',
+            'cache-control': 'public, max-age=31536000, immutable',
+            'content-length': String(BYTES.length),
+        });
+        expect(response.headers.get('last-modified')).not.toBeNull();
+    });
+
+    it('answers HEAD with the headers only', async () => {
+        const response = await get('image-1', {}, 'HEAD');
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-length')).toBe(String(BYTES.length));
+        expect(await response.text()).toBe('');
+    });
+
+    it('answers a matching If-None-Match with 304', async () => {
+        // fetch adds Cache-Control: no-cache to conditional requests, and req.fresh never answers those with 304
+        const revalidate = (etag: string) => get('image-1', { 'if-none-match': etag, 'cache-control': 'max-age=0' });
+        expect((await revalidate('"abc"')).status).toBe(304);
+        expect((await revalidate('"other"')).status).toBe(200);
+    });
+
+    it('serves a single byte range with 206', async () => {
+        const response = await get('image-1', { range: 'bytes=5-9' });
+        expect(response.status).toBe(206);
+        expect(response.headers.get('content-range')).toBe(`bytes 5-9/${BYTES.length}`);
+        expect(response.headers.get('content-length')).toBe('5');
+        expect(await response.text()).toBe('56789');
+    });
+
+    it('serves suffix and open ended ranges', async () => {
+        expect(await (await get('image-1', { range: 'bytes=-3' })).text()).toBe('hij');
+        const open = await get('image-1', { range: 'bytes=17-' });
+        expect(open.headers.get('content-range')).toBe(`bytes 17-19/${BYTES.length}`);
+        expect(await open.text()).toBe('hij');
+    });
+
+    it('answers unsatisfiable ranges with 416', async () => {
+        const response = await get('image-1', { range: 'bytes=100-200' });
+        expect(response.status).toBe(416);
+        expect(response.headers.get('content-range')).toBe(`bytes */${BYTES.length}`);
+    });
+
+    it('serves the whole object for several, malformed or non-byte ranges', async () => {
+        for (const range of ['bytes=0-1,5-6', 'bytes', 'items=0-1']) {
+            const response = await get('image-1', { range });
+            expect(response.status).toBe(200);
+            expect(await response.text()).toBe(BYTES.toString());
+        }
+    });
+
+    it('only honours a range while If-Range still names the current object', async () => {
+        const current = await get('image-1', { range: 'bytes=0-1', 'if-range': '"abc"' });
+        expect(current.status).toBe(206);
+        expect(await current.text()).toBe('01');
+
+        const stale = await get('image-1', { range: 'bytes=0-1', 'if-range': '"old"' });
+        expect(stale.status).toBe(200);
+        expect(await stale.text()).toBe(BYTES.toString());
+
+        const staleDate = await get('image-1', { range: 'bytes=0-1', 'if-range': 'Thu, 01 Jan 2015 00:00:00 GMT' });
+        expect(staleDate.status).toBe(200);
+    });
+
+    it('downloads SVG that was not sanitised instead of rendering it', async () => {
+        const raw = await get('raw-svg');
+        expect(raw.headers.get('content-type')).toBe('image/svg+xml');
+        expect(raw.headers.get('content-disposition')).toMatch(/^attachment; /);
+
+        const clean = await get('clean-svg');
+        expect(clean.headers.get('content-disposition')).toMatch(/^inline; /);
+    });
+
+    it('serves variants by name and format', async () => {
+        const response = await get('image-1/medium.webp');
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('image/webp');
+        expect(response.headers.get('etag')).toBe('"abc-medium-webp"');
+        expect(response.headers.get('content-disposition')).toBe(`inline; filename="Photo-medium.webp"; filename*=UTF-8''Photo-medium.webp`);
+        expect(await response.text()).toBe('webp bytes');
+    });
+
+    it('answers 404 for unknown images, variants and missing objects', async () => {
+        expect((await get('nope')).status).toBe(404);
+        expect((await get('image-1/large.webp')).status).toBe(404);
+        expect((await get('image-1/medium.avif')).status).toBe(404);
+        expect((await get('image-1/huge.webp')).status).toBe(404);
+        expect((await get('gone')).status).toBe(404);
+    });
+});
@@ -0,0 +1,90 @@
+import express from 'express';
+import { logger } from '../lib/logger';
+import { ImageRecord, MetadataStore } from '../lib/metadataStore';
+import { sendStoredObject } from '../lib/sendStoredObject';
+import { StorageAdapter } from '../lib/storage';
+import { VARIANT_FORMATS, VARIANT_SIZES, VariantFormat, VariantName, variantKey } from '../lib/variants';
+
+// Stored images, addressed only by record id; storage keys never appear in URLs:
+//   GET /:id                  the original
+//   GET /:id/:variant.:format a responsive variant, e.g. /:id/medium.webp
+// Public so pages can embed them, which is why only adapters that presign their own
+// links hand out expiring ones, see /api/images/:id/url.
+export interface AssetRouterOptions {
+    metadataStore: MetadataStore;
+    storage: StorageAdapter;
+}
+
+const VARIANT_MIMETYPES: Record<VariantFormat, string> = {
+    webp: 'image/webp',
+    avif: 'image/avif',
+};
+
+// SVG is only rendered inline once its markup has been sanitised
+const dispositionOf = (record: ImageRecord) =>
+    record.mimetype === 'image/svg+xml' && !record.sanitized ? 'attachment' : 'inline';
+
+const baseName = (record: ImageRecord) => record.originalName.replace(/\.[^.]*$/, '');
+
+export const createAssetRouter = ({ metadataStore, storage }: AssetRouterOptions) => {
+    const router = express.Router();
+
+    // The record behind :id, undefined (with the 404 sent) when there is none
+    const findAsset = (req: express.Request, res: express.Response) => {
+        const record = metadataStore.get(req.params.id);
+        if (!record) {
+            res.status(404).end();
+        }
+        return record;
+    };
+
+    router.get('/:id', async (req, res) => {
+        const record = findAsset(req, res);
+        if (!record) {
+            return;
+        }
+        try {
+            await sendStoredObject(req, res, storage, {
+                key: record.filename,
+                contentType: record.mimetype,
+                etag: `"${record.checksum}"`,
+                disposition: dispositionOf(record),
+                filename: record.originalName,
+            });
+        } catch (error) {
+            logger.error('Serving asset failed', { imageId: record.id, error });
+            res.status(500).end();
+        }
+    });
+
+    router.get('/:id/:variant.:format', async (req, res) => {
+        const record = findAsset(req, res);
+        if (!record) {
+            return;
+        }
+        const variant = req.params.variant as VariantName;
+        const format = req.params.format as VariantFormat;
+        const filename = Object.keys(VARIANT_SIZES).includes(variant) && VARIANT_FORMATS.includes(format)
+            ? record.variants?.[variant]?.files[format]
+            : undefined;
+        if (!filename) {
+            return res.status(404).end();
+        }
+
+        try {
+            await sendStoredObject(req, res, storage, {
+                key: variantKey(filename),
+                contentType: VARIANT_MIMETYPES[format],
+                // Variants are rendered once from the original and never re-rendered
+                etag: `"${record.checksum}-${variant}-${format}"`,
+                disposition: 'inline',
+                filename: `${baseName(record)}-${variant}.${format}`,
+            });
+        } catch (error) {
+            logger.error('Serving asset variant failed', { imageId: record.id, variant, format, error });
+            res.status(500).end();
+        }
+    });
+
+    return router;
+};
@@ -0,0 +1,85 @@
+import express from 'express';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DUMMY_PASSWORD_HASH, UserRecord, UserStore, hashPassword, verifyJwt, verifyPassword } from '../lib/auth';
+import { TEST_JWT_SECRET, TestServer, listen, testAuthenticator } from '../test/http';
+import { createAuthRouter } from './auth';
+
+vi.mock('../lib/auth', async (importOriginal) => {
+    const actual = await importOriginal<typeof import('../lib/auth')>();
+    return { ...actual, verifyPassword: vi.fn(actual.verifyPassword) };
+});
+
+const alice: UserRecord = {
+    id: 'user:alice',
+    username: 'alice',
+    passwordHash: hashPassword('wonderland'),
+    workspace: 'default',
+    role: 'editor',
+    createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+const users: UserStore = {
+    findByUsername: (username) => (username === alice.username ? alice : undefined),
+    list: () => [alice],
+    put: () => undefined,
+};
+
+describe('auth routes', () => {
+    let server: TestServer;
+
+    beforeAll(async () => {
+        const app = express();
+        app.use(express.json());
+        const authenticator = testAuthenticator();
+        app.use(authenticator.authenticate);
+        app.use('/api/auth', createAuthRouter({
+            users,
+            authenticator,
+            jwtSecret: TEST_JWT_SECRET,
+            tokenTtlSeconds: 60,
+            limitLogins: (req, res, next) => next(),
+        }));
+        server = await listen(app);
+    });
+
+    afterAll(() => server.close());
+
+    beforeEach(() => {
+        vi.mocked(verifyPassword).mockClear();
+    });
+
+    const login = (body: unknown) => fetch(`${server.url}/api/auth/login`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+
+    it('hands out a session token for the right password', async () => {
+        const response = await login({ username: 'alice', password: 'wonderland' });
+        expect(response.status).toBe(200);
+        const body = await response.json();
+        expect(body.user).toEqual({ id: 'user:alice', name: 'alice', workspace: 'default', role: 'editor' });
+        expect(verifyJwt(body.token, TEST_JWT_SECRET)).toMatchObject({ sub: 'user:alice', workspace: 'default', role: 'editor' });
+
+        const me = await fetch(`${server.url}/api/auth/me`, { headers: { authorization: `Bearer ${body.token}` } });
+        expect((await me.json()).user).toMatchObject({ id: 'user:alice', role: 'editor' });
+    });
+
+    it('answers wrong passwords and unknown users the same way', async () => {
+        const wrongPassword = await login({ username: 'alice', password: 'nope' });
+        const unknownUser = await login({ username: 'mallory', password: 'nope' });
+        expect(wrongPassword.status).toBe(401);
+        expect(unknownUser.status).toBe(401);
+        expect(await unknownUser.json()).toEqual(await wrongPassword.json());
+    });
+
+    it('checks a password hash for unknown users too', async () => {
+        await login({ username: 'mallory', password: 'nope' });
+        expect(verifyPassword).toHaveBeenCalledWith('nope', DUMMY_PASSWORD_HASH);
+    });
+
+    it('requires a username and password', async () => {
+        expect((await login({ username: 'alice' })).status).toBe(400);
+        expect(verifyPassword).not.toHaveBeenCalled();
+    });
+});
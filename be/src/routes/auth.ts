@@ -0,0 +1,59 @@
+import express from 'express';
+import { Authenticator, DUMMY_PASSWORD_HASH, UserStore, principalOf, signJwt, verifyPassword } from '../lib/auth';
+
+export interface AuthRouterOptions {
+    users: UserStore;
+    authenticator: Authenticator;
+    jwtSecret: string;
+    tokenTtlSeconds: number;
+    // Throttles POST /login, see limitLogins in index.ts
+    limitLogins: express.RequestHandler;
+}
+
+// Session tokens for people, services authenticate with an API key instead:
+//   POST /login  { username, password } -> { token, expiresAt, user }, 429 when throttled
+//   GET  /me     the principal behind the request's credentials
+export const createAuthRouter = ({ users, authenticator, jwtSecret, tokenTtlSeconds, limitLogins }: AuthRouterOptions) => {
+    const router = express.Router();
+
+    router.post('/login', limitLogins, (req, res) => {
+        const { username, password } = req.body || {};
+        if (typeof username !== 'string' || typeof password !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'Username and password are required'
+            });
+        }
+
+        const user = users.findByUsername(username);
+        // Same answer, in the same time, for unknown users and wrong passwords
+        const passwordMatches = verifyPassword(password, user ? user.passwordHash : DUMMY_PASSWORD_HASH);
+        if (!user || !passwordMatches) {
+            return res.status(401).json({
+                success: false,
+                message: 'Invalid username or password'
+            });
+        }
+
+        const token = signJwt(
+            { sub: user.id, name: user.username, workspace: user.workspace, role: user.role },
+            jwtSecret,
+            tokenTtlSeconds
+        );
+        res.json({
+            success: true,
+            token,
+            expiresAt: new Date(Date.now() + tokenTtlSeconds * 1000).toISOString(),
+            user: { id: user.id, name: user.username, workspace: user.workspace, role: user.role }
+        });
+    });
+
+    router.get('/me', authenticator.requireRole('viewer'), (req, res) => {
+        res.json({
+            success: true,
+            user: principalOf(req)
+        });
+    });
+
+    return router;
+};
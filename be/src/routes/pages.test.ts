@@ -0,0 +1,211 @@
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { Block, MAX_BLOCK_DEPTH, PageDocument, PageInput, pageEtag } from '@next-page-builder/contracts';
+import { createMetadataStore } from '../lib/metadataStore';
+import { createPagePublisher } from '../lib/pagePublishing';
+import { createPageStore } from '../lib/pageStore';
+import { createRevisionStore } from '../lib/revisionStore';
+import { SiteRevalidator } from '../lib/siteRevalidation';
+import { TestServer, bearer, listen, testAuthenticator, testPrincipal } from '../test/http';
+import { createPageRouter } from './pages';
+
+const heading = (id: string): Block => ({ id, type: 'heading', props: { text: 'Hello', level: 2 } });
+
+// `depth` sections around a heading, see deeplyNested for more than JSON.stringify manages
+const nested = (depth: number): Block => {
+    let block = heading('h');
+    for (let level = depth; level > 0; level--) {
+        block = { id: `s${level}`, type: 'section', props: {}, children: [block] };
+    }
+    return block;
+};
+
+// Raw JSON of a page whose blocks are nested `depth` levels deep
+const deeplyNested = (slug: string, depth: number) =>
+    `{"slug":"${slug}","title":"Deep","blocks":[${'{"id":"s","type":"section","props":{},"children":['.repeat(depth)}${']}'.repeat(depth)}]}`;
+
+describe('page routes', () => {
+    let server: TestServer;
+    let dir: string;
+    let slugCount = 0;
+    const alice = bearer(testPrincipal());
+    const bob = bearer(testPrincipal({ id: 'user:bob', name: 'bob' }));
+    const viewer = bearer(testPrincipal({ id: 'user:vic', name: 'vic', role: 'viewer' }));
+    const outsider = bearer(testPrincipal({ id: 'user:olga', name: 'olga', workspace: 'other' }));
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'page-routes-'));
+        const pageStore = createPageStore(path.join(dir, 'pages.jsonl'));
+        const revisionStore = createRevisionStore(path.join(dir, 'page-revisions.jsonl'));
+        const revalidator: SiteRevalidator = { pageChanged: () => undefined, pagesAffected: () => undefined };
+        const authenticator = testAuthenticator();
+        const app = express();
+        app.use(express.json({ limit: '1mb' }));
+        app.use(authenticator.authenticate);
+        app.use('/api/pages', createPageRouter({
+            pageStore,
+            revisionStore,
+            metadataStore: createMetadataStore(path.join(dir, 'metadata.jsonl')),
+            authenticator,
+            publisher: createPagePublisher({ pageStore, revisionStore, revalidator }),
+            revalidator,
+            siteWorkspace: 'default',
+        }));
+        server = await listen(app);
+    });
+
+    afterAll(async () => {
+        await server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const call = async (method: string, url: string, auth: Record<string, string>, body?: unknown, headers: Record<string, string> = {}) => {
+        const response = await fetch(`${server.url}/api/pages${url}`, {
+            method,
+            headers: { ...auth, ...headers, 'content-type': 'application/json' },
+            body: body === undefined || typeof body === 'string' ? body : JSON.stringify(body),
+        });
+        return { status: response.status, etag: response.headers.get('etag'), body: await response.json() };
+    };
+
+    const content = (overrides: Partial<PageInput> = {}): PageInput => ({
+        slug: `page-${++slugCount}`,
+        title: 'About',
+        blocks: [heading('a')],
+        ...overrides,
+    });
+
+    const createPage = async (auth = alice): Promise<PageDocument> => (await call('POST', '/', auth, content())).body.page;
+
+    describe('POST /', () => {
+        it('creates the page at version 1 with its ETag', async () => {
+            const { status, etag, body } = await call('POST', '/', alice, content({ slug: 'Welcome' }));
+            expect(status).toBe(201);
+            expect(body.page).toMatchObject({ slug: 'welcome', version: 1, ownerId: 'user:alice' });
+            expect(etag).toBe(pageEtag(body.page));
+        });
+
+        it('refuses a slug that is taken in the workspace', async () => {
+            const page = await createPage();
+            expect((await call('POST', '/', alice, content({ slug: page.slug }))).status).toBe(409);
+        });
+
+        it('refuses blocks nested too deep with a 400, however deep', async () => {
+            expect((await call('POST', '/', alice, content({ blocks: [nested(MAX_BLOCK_DEPTH - 1)] }))).status).toBe(201);
+
+            const tooDeep = await call('POST', '/', alice, content({ blocks: [nested(MAX_BLOCK_DEPTH)] }));
+            expect(tooDeep.status).toBe(400);
+            expect(tooDeep.body.message).toContain(`nested at most ${MAX_BLOCK_DEPTH} levels deep`);
+
+            expect((await call('POST', '/', alice, deeplyNested('deep', 10000))).status).toBe(400);
+        });
+
+        it('refuses duplicate block ids', async () => {
+            const { status, body } = await call('POST', '/', alice, content({ blocks: [heading('a'), heading('a')] }));
+            expect(status).toBe(400);
+            expect(body.message).toContain('block id a is used more than once');
+        });
+
+        it('is for editors', async () => {
+            expect((await call('POST', '/', viewer, content())).status).toBe(403);
+        });
+    });
+
+    describe('PUT /:id', () => {
+        it('saves on top of the version the caller has', async () => {
+            const page = await createPage();
+            const { status, body } = await call('PUT', `/${page.id}`, bob, { ...content(), title: 'Changed', version: 1 });
+            expect(status).toBe(200);
+            expect(body.page).toMatchObject({ title: 'Changed', version: 2 });
+        });
+
+        it('refuses a save based on an older version', async () => {
+            const page = await createPage();
+            await call('PUT', `/${page.id}`, alice, { ...content(), version: 1 });
+            const { status, body } = await call('PUT', `/${page.id}`, bob, { ...content(), version: 1 });
+            expect(status).toBe(409);
+            expect(body.version).toBe(2);
+        });
+
+        it('takes If-Match in place of the version', async () => {
+            const page = await createPage();
+            const saved = await call('PUT', `/${page.id}`, alice, content(), { 'if-match': pageEtag(page) });
+            expect(saved.status).toBe(200);
+            expect((await call('PUT', `/${page.id}`, alice, content(), { 'if-match': pageEtag(page) })).status).toBe(409);
+        });
+
+        it('refuses a save that says nothing about the version', async () => {
+            const page = await createPage();
+            const { status, body } = await call('PUT', `/${page.id}`, alice, { ...content(), title: 'Blind' });
+            expect(status).toBe(428);
+            expect(body.message).toContain('version');
+            expect((await call('GET', `/${page.id}`, alice)).body.page).toMatchObject({ title: 'About', version: 1 });
+        });
+
+        it('does not find pages of other workspaces', async () => {
+            const page = await createPage();
+            expect((await call('PUT', `/${page.id}`, outsider, { ...content(), version: 1 })).status).toBe(404);
+        });
+    });
+
+    describe('DELETE /:id', () => {
+        it('takes the creator or an admin', async () => {
+            const page = await createPage();
+            expect((await call('DELETE', `/${page.id}`, bob)).status).toBe(403);
+            expect((await call('DELETE', `/${page.id}`, bearer(testPrincipal({ id: 'user:ada', role: 'admin' })))).status).toBe(200);
+            expect((await call('GET', `/${page.id}`, alice)).status).toBe(404);
+        });
+    });
+
+    describe('publishing', () => {
+        it('publishes the draft the caller has and refuses an outdated one', async () => {
+            const page = await createPage();
+            const published = await call('POST', `/${page.id}/publish`, alice, { version: 1 });
+            expect(published.body.page.published).toMatchObject({ version: 1, slug: page.slug });
+
+            await call('PUT', `/${page.id}`, alice, { ...content(), version: 1 });
+            expect((await call('POST', `/${page.id}/publish`, alice, { version: 1 })).status).toBe(409);
+        });
+
+        it('unpublishes only with the current ETag', async () => {
+            const page = await createPage();
+            const { body } = await call('POST', `/${page.id}/publish`, alice, { version: 1 });
+            expect((await call('DELETE', `/${page.id}/publish`, alice)).status).toBe(428);
+            expect((await call('DELETE', `/${page.id}/publish`, alice, undefined, { 'if-match': pageEtag(page) })).status).toBe(409);
+
+            const unpublished = await call('DELETE', `/${page.id}/publish`, alice, undefined, { 'if-match': pageEtag(body.page) });
+            expect(unpublished.status).toBe(200);
+            expect(unpublished.body.page.published).toBeUndefined();
+        });
+    });
+
+    describe('revisions', () => {
+        it('restores an earlier revision as a new one', async () => {
+            const page = await createPage();
+            await call('PUT', `/${page.id}`, alice, { ...content(), title: 'Second', version: 1 });
+            expect((await call('GET', `/${page.id}/revisions`, viewer)).body.revisions.map((revision: { version: number }) => revision.version))
+                .toEqual([2, 1]);
+
+            const restored = await call('POST', `/${page.id}/revisions/1/restore`, alice, { version: 2 });
+            expect(restored.body.page).toMatchObject({ title: 'About', version: 3 });
+            expect((await call('GET', `/${page.id}/revisions/3`, alice)).body.revision).toMatchObject({ restoredFrom: 1 });
+        });
+    });
+
+    describe('GET /:id/preview', () => {
+        it('is for editors of the site workspace', async () => {
+            const page = await createPage();
+            expect((await call('GET', `/${page.id}/preview`, alice)).status).toBe(200);
+            expect((await call('GET', `/${page.id}/preview`, viewer)).status).toBe(403);
+            expect((await call('GET', `/${page.id}/preview`, outsider)).status).toBe(404);
+
+            const elsewhere = await createPage(outsider);
+            const refused = await call('GET', `/${elsewhere.id}/preview`, outsider);
+            expect(refused.status).toBe(403);
+            expect(refused.body.message).toBe('Only pages of the site workspace can be previewed on the site');
+        });
+    });
+});
@@ -0,0 +1,402 @@
+import express from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    PageContent,
+    PageListResponse,
+    PageResponse,
+    PageRevisionListResponse,
+    PageRevisionResponse,
+    pageEtag,
+} from '@next-page-builder/contracts';
+import { Authenticator, Principal, canManage, canView, principalOf, recordWorkspace } from '../lib/auth';
+import { logger } from '../lib/logger';
+import { MetadataStore } from '../lib/metadataStore';
+import {
+    PageSlugTakenError,
+    PageValidationError,
+    assertAssetsExist,
+    isSlugTaken,
+    pageContentAt,
+    parsePageAction,
+    parsePageInput,
+    parsePageSchedule,
+    parsePageUpdate,
+    sanitizePageContent,
+    toPageDocument,
+    toPageSummary,
+    toRevision,
+} from '../lib/pageDocument';
+import { PagePublisher } from '../lib/pagePublishing';
+import { PageRecord, PageStore } from '../lib/pageStore';
+import { RevisionStore } from '../lib/revisionStore';
+import { SiteRevalidator } from '../lib/siteRevalidation';
+
+export interface PageRouterOptions {
+    pageStore: PageStore;
+    revisionStore: RevisionStore;
+    // Image and gallery blocks are checked against it
+    metadataStore: MetadataStore;
+    authenticator: Authenticator;
+    publisher: PagePublisher;
+    // Told about deleted pages so the site drops them
+    revalidator: SiteRevalidator;
+    // Workspace whose pages make up the public site, only those can be previewed there
+    siteWorkspace: string;
+}
+
+// Page documents of the caller's workspace, see pageInputSchema for the shape. The document
+// is the draft, every save adds an immutable revision and visitors see the published one:
+//   GET    /      summaries, most recently updated first
+//   GET    /:id   the whole document
+//   GET    /:id/preview                     the document, for editors turning on preview mode of the site
+//   POST   /      create, 409 when the slug is taken
+//   PUT    /:id   replace, 409 when the slug is taken or `version` is not the current one,
+//                 428 without `version` or If-Match
+//   DELETE /:id   together with its revisions
+//   POST   /:id/publish                     puts the draft on the site
+//   DELETE /:id/publish                     takes the page off the site, it stays editable
+//   PUT    /:id/schedule                    publish and/or unpublish at a later time
+//   GET    /:id/revisions                   summaries, newest first
+//   GET    /:id/revisions/:version          one revision with its content
+//   POST   /:id/revisions/:version/publish  puts an earlier revision on the site, e.g. to roll back
+//   POST   /:id/revisions/:version/restore  makes an earlier revision the draft again, as a new revision
+// Publish and restore take the `version` the caller has, like PUT. Unpublish and schedule
+// change no version and take `If-Match` with the page's ETag instead. Every editor of the
+// workspace can edit and publish its pages, deleting one takes its creator or an admin.
+export const createPageRouter = ({
+    pageStore,
+    revisionStore,
+    metadataStore,
+    authenticator,
+    publisher,
+    revalidator,
+    siteWorkspace,
+}: PageRouterOptions) => {
+    const router = express.Router();
+    const { requireRole } = authenticator;
+
+    const findVisiblePage = (req: express.Request): PageRecord | undefined => {
+        const page = pageStore.get(req.params.id);
+        return page && canView(principalOf(req), page) ? page : undefined;
+    };
+
+    const sendError = (res: express.Response, error: unknown, action: string) => {
+        if (error instanceof PageValidationError) {
+            return res.status(400).json({ success: false, message: error.message });
+        }
+        if (error instanceof PageSlugTakenError) {
+            return res.status(409).json({ success: false, message: error.message });
+        }
+        logger.error(`${action} failed`, { error });
+        res.status(500).json({
+            success: false,
+            message: `Error ${action.toLowerCase()}`,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    };
+
+    const sendPageNotFound = (res: express.Response) =>
+        res.status(404).json({ success: false, message: 'Page not found' });
+
+    // 409 with the current version when the caller works on an outdated one
+    const isStale = (res: express.Response, page: PageRecord, version: number | undefined) => {
+        if (version === undefined || version === page.version) {
+            return false;
+        }
+        res.status(409).json({
+            success: false,
+            message: `Page was saved by someone else in the meantime (version ${page.version}), reload it first`,
+            version: page.version
+        });
+        return true;
+    };
+
+    // 428 without If-Match, 409 with the current version when it is not the page's ETag
+    const failsIfMatch = (
+        req: express.Request,
+        res: express.Response,
+        page: PageRecord,
+        required = 'If-Match with the page\'s ETag is required'
+    ) => {
+        const ifMatch = req.get('if-match');
+        if (!ifMatch) {
+            res.status(428).json({
+                success: false,
+                message: required
+            });
+            return true;
+        }
+        if (ifMatch !== pageEtag(page)) {
+            res.status(409).json({
+                success: false,
+                message: 'Page was changed by someone else in the meantime, reload it first',
+                version: page.version
+            });
+            return true;
+        }
+        return false;
+    };
+
+    const sendPage = (res: express.Response, page: PageRecord) => {
+        const body: PageResponse = { success: true, page: toPageDocument(page) };
+        res.set('ETag', pageEtag(page)).json(body);
+    };
+
+    // Stores `content` as the next draft revision
+    const saveDraft = (current: PageRecord, content: PageContent, author: Principal, restoredFrom?: number) => {
+        const page: PageRecord = {
+            ...current,
+            ...content,
+            version: current.version + 1,
+            updatedAt: new Date().toISOString(),
+        };
+        pageStore.put(page);
+        revisionStore.add(toRevision(page, author, restoredFrom));
+        return page;
+    };
+
+    const revisionVersion = (req: express.Request) => {
+        const version = Number(req.params.version);
+        return Number.isInteger(version) && version > 0 ? version : undefined;
+    };
+
+    router.get('/', requireRole('viewer'), (req, res) => {
+        const principal = principalOf(req);
+        const body: PageListResponse = {
+            success: true,
+            pages: pageStore.list()
+                .filter(page => canView(principal, page))
+                .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+                .map(toPageSummary),
+        };
+        res.json(body);
+    });
+
+    router.get('/:id', requireRole('viewer'), (req, res) => {
+        const page = findVisiblePage(req);
+        if (!page) {
+            return sendPageNotFound(res);
+        }
+        sendPage(res, page);
+    });
+
+    // The Next app asks before it shows a draft on the site, viewers only ever see what is published
+    router.get('/:id/preview', requireRole('editor'), (req, res) => {
+        const page = findVisiblePage(req);
+        if (!page) {
+            return sendPageNotFound(res);
+        }
+        if (recordWorkspace(page) !== siteWorkspace) {
+            return res.status(403).json({
+                success: false,
+                message: 'Only pages of the site workspace can be previewed on the site'
+            });
+        }
+        sendPage(res, page);
+    });
+
+    router.post('/', requireRole('editor'), (req, res) => {
+        try {
+            const principal = principalOf(req);
+            const content = sanitizePageContent(parsePageInput(req.body));
+            assertAssetsExist(content, principal, metadataStore);
+            if (isSlugTaken(pageStore, principal.workspace, content.slug)) {
+                throw new PageSlugTakenError(content.slug);
+            }
+
+            const now = new Date().toISOString();
+            const page: PageRecord = {
+                id: uuidv4(),
+                ...content,
+                version: 1,
+                workspace: principal.workspace,
+                ownerId: principal.id,
+                createdAt: now,
+                updatedAt: now,
+            };
+            pageStore.put(page);
+            revisionStore.add(toRevision(page, principal));
+            logger.info('Page created', { pageId: page.id, slug: page.slug });
+
+            const body: PageResponse = { success: true, page: toPageDocument(page) };
+            res.status(201).location(`${req.baseUrl}/${page.id}`).set('ETag', pageEtag(page)).json(body);
+        } catch (error) {
+            sendError(res, error, 'Creating page');
+        }
+    });
+
+    router.put('/:id', requireRole('editor'), (req, res) => {
+        try {
+            const principal = principalOf(req);
+            const current = findVisiblePage(req);
+            if (!current) {
+                return sendPageNotFound(res);
+            }
+
+            const { version, ...content } = sanitizePageContent(parsePageUpdate(req.body));
+            assertAssetsExist(content, principal, metadataStore);
+            // A save that does not say which version it is based on would silently overwrite other edits
+            const conflicts = version === undefined
+                ? failsIfMatch(req, res, current, 'The page\'s version or If-Match with its ETag is required')
+                : isStale(res, current, version);
+            if (conflicts) {
+                return;
+            }
+            if (isSlugTaken(pageStore, principal.workspace, content.slug, current.id)) {
+                throw new PageSlugTakenError(content.slug);
+            }
+
+            sendPage(res, saveDraft(current, content, principal));
+        } catch (error) {
+            sendError(res, error, 'Saving page');
+        }
+    });
+
+    router.delete('/:id', requireRole('editor'), (req, res) => {
+        try {
+            const page = findVisiblePage(req);
+            if (!page) {
+                return sendPageNotFound(res);
+            }
+            if (!canManage(principalOf(req), page)) {
+                return res.status(403).json({
+                    success: false,
+                    message: 'Only the creator or a workspace admin can delete this page'
+                });
+            }
+
+            pageStore.remove(page.id);
+            revisionStore.removePage(page.id);
+            revalidator.pageChanged(page, undefined);
+            logger.info('Page deleted', { pageId: page.id, slug: page.slug });
+            res.json({ success: true, message: 'Page deleted successfully' });
+        } catch (error) {
+            sendError(res, error, 'Deleting page');
+        }
+    });
+
+    router.post('/:id/publish', requireRole('editor'), (req, res) => {
+        try {
+            const current = findVisiblePage(req);
+            if (!current) {
+                return sendPageNotFound(res);
+            }
+            if (isStale(res, current, parsePageAction(req.body).version)) {
+                return;
+            }
+            sendPage(res, publisher.publish(current, current.version, principalOf(req)));
+        } catch (error) {
+            sendError(res, error, 'Publishing page');
+        }
+    });
+
+    router.delete('/:id/publish', requireRole('editor'), (req, res) => {
+        try {
+            const current = findVisiblePage(req);
+            if (!current) {
+                return sendPageNotFound(res);
+            }
+            if (failsIfMatch(req, res, current)) {
+                return;
+            }
+            sendPage(res, publisher.unpublish(current));
+        } catch (error) {
+            sendError(res, error, 'Unpublishing page');
+        }
+    });
+
+    router.put('/:id/schedule', requireRole('editor'), (req, res) => {
+        try {
+            const current = findVisiblePage(req);
+            if (!current) {
+                return sendPageNotFound(res);
+            }
+            const schedule = parsePageSchedule(req.body);
+            if (failsIfMatch(req, res, current)) {
+                return;
+            }
+            const past = [schedule.publishAt, schedule.unpublishAt].some(time => time && Date.parse(time) <= Date.now());
+            if (past) {
+                throw new PageValidationError('Scheduled times must be in the future');
+            }
+            sendPage(res, publisher.schedule(current, schedule));
+        } catch (error) {
+            sendError(res, error, 'Scheduling page');
+        }
+    });
+
+    router.get('/:id/revisions', requireRole('viewer'), (req, res) => {
+        const page = findVisiblePage(req);
+        if (!page) {
+            return sendPageNotFound(res);
+        }
+        const body: PageRevisionListResponse = {
+            success: true,
+            revisions: revisionStore.list(page.id).map(({ seo, blocks, ...summary }) => summary),
+        };
+        res.json(body);
+    });
+
+    router.get('/:id/revisions/:version', requireRole('viewer'), (req, res) => {
+        const page = findVisiblePage(req);
+        const version = revisionVersion(req);
+        const revision = page && version && revisionStore.get(page.id, version);
+        if (!revision) {
+            return res.status(404).json({ success: false, message: 'Revision not found' });
+        }
+        const body: PageRevisionResponse = { success: true, revision };
+        res.json(body);
+    });
+
+    router.post('/:id/revisions/:version/publish', requireRole('editor'), (req, res) => {
+        try {
+            const current = findVisiblePage(req);
+            if (!current) {
+                return sendPageNotFound(res);
+            }
+            if (isStale(res, current, parsePageAction(req.body).version)) {
+                return;
+            }
+            const version = revisionVersion(req);
+            if (!version || !pageContentAt(current, version, revisionStore)) {
+                return res.status(404).json({ success: false, message: 'Revision not found' });
+            }
+            sendPage(res, publisher.publish(current, version, principalOf(req)));
+        } catch (error) {
+            sendError(res, error, 'Publishing revision');
+        }
+    });
+
+    router.post('/:id/revisions/:version/restore', requireRole('editor'), (req, res) => {
+        try {
+            const principal = principalOf(req);
+            const current = findVisiblePage(req);
+            if (!current) {
+                return sendPageNotFound(res);
+            }
+            if (isStale(res, current, parsePageAction(req.body).version)) {
+                return;
+            }
+            const version = revisionVersion(req);
+            const revision = version && revisionStore.get(current.id, version);
+            if (!revision) {
+                return res.status(404).json({ success: false, message: 'Revision not found' });
+            }
+
+            // Assets or the address may have been taken away since the revision was made
+            const content: PageContent = { slug: revision.slug, title: revision.title, seo: revision.seo, blocks: revision.blocks };
+            assertAssetsExist(content, principal, metadataStore);
+            if (isSlugTaken(pageStore, principal.workspace, content.slug, current.id)) {
+                throw new PageSlugTakenError(content.slug);
+            }
+
+            const page = saveDraft(current, content, principal, revision.version);
+            logger.info('Page revision restored', { pageId: page.id, restoredFrom: revision.version, version: page.version });
+            sendPage(res, page);
+        } catch (error) {
+            sendError(res, error, 'Restoring revision');
+        }
+    });
+
+    return router;
+};
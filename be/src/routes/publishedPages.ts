@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import express from 'express';
+import {
+    Block,
+    PageAsset,
+    PageSeo,
+    PublishedPage,
+    PublishedPageListResponse,
+    PublishedPageResponse,
+    pageAssetIds,
+} from '@next-page-builder/contracts';
+import { recordWorkspace } from '../lib/auth';
+import { MetadataStore } from '../lib/metadataStore';
+import { pageContentAt } from '../lib/pageDocument';
+import { PageRecord, PageStore } from '../lib/pageStore';
+import { RevisionStore } from '../lib/revisionStore';
+import { toImageSummary } from '../lib/uploadResponse';
+
+export interface PublishedPageRouterOptions {
+    pageStore: PageStore;
+    revisionStore: RevisionStore;
+    metadataStore: MetadataStore;
+    // Workspace whose pages make up the public site
+    workspace: string;
+    // Bearer token the Next app sends for drafts, drafts are never served without one
+    previewSecret?: string;
+    // Asset URLs start with it, see publicBackendUrl
+    assetBaseUrl: string;
+}
+
+// What the Next app renders for visitors:
+//   GET /pages         every published page of the site, for static paths and the sitemap
+//   GET /pages/<slug>  the published revision of a page with the images it points at
+//   GET /drafts/<slug>?page=<id> the draft of that page for preview mode, takes
+//                      `Authorization: Bearer <previewSecret>`
+// Pages are found by the address visitors see: a published page by the slug it was
+// published with, a draft by its own. Pages of other workspaces are 404 as if they did not exist.
+export const createPublishedPageRouter = ({
+    pageStore,
+    revisionStore,
+    metadataStore,
+    workspace,
+    previewSecret,
+    assetBaseUrl,
+}: PublishedPageRouterOptions) => {
+    const router = express.Router();
+
+    const sitePages = () => pageStore.list().filter(page => recordWorkspace(page) === workspace);
+
+    // Assets deleted or moved since the page was saved are left out, blocks render without them
+    const assetsOf = (content: { blocks: Block[]; seo: PageSeo }) => {
+        const assets: Record<string, PageAsset> = {};
+        pageAssetIds(content).forEach(id => {
+            const record = metadataStore.get(id);
+            if (record && recordWorkspace(record) === workspace) {
+                const { url, width, height, altText, variants } = toImageSummary(assetBaseUrl, record);
+                assets[id] = { id, url, width, height, altText, variants };
+            }
+        });
+        return assets;
+    };
+
+    const sendPage = (res: express.Response, page: PageRecord, version: number, publishedAt?: string) => {
+        const content = pageContentAt(page, version, revisionStore);
+        if (!content) {
+            return res.status(404).json({ success: false, message: 'Page not found' });
+        }
+        const published: PublishedPage = {
+            id: page.id,
+            slug: content.slug,
+            title: content.title,
+            seo: content.seo,
+            blocks: content.blocks,
+            updatedAt: content.savedAt,
+            publishedAt,
+            assets: assetsOf(content),
+        };
+        const body: PublishedPageResponse = { success: true, page: published };
+        res.set('Cache-Control', 'no-store').json(body);
+    };
+
+    const hasPreviewSecret = (req: express.Request) => {
+        if (!previewSecret) {
+            return false;
+        }
+        const given = Buffer.from(req.get('authorization') || '');
+        const expected = Buffer.from(`Bearer ${previewSecret}`);
+        return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+    };
+
+    router.get('/pages', (req, res) => {
+        const entries: PublishedPageListResponse['pages'] = [];
+        sitePages().forEach(page => {
+            const content = page.published && pageContentAt(page, page.published.version, revisionStore);
+            if (page.published && content) {
+                entries.push({
+                    slug: page.published.slug,
+                    title: content.title,
+                    updatedAt: content.savedAt,
+                    publishedAt: page.published.publishedAt,
+                    noIndex: content.seo.noIndex === true,
+                });
+            }
+        });
+        const body: PublishedPageListResponse = {
+            success: true,
+            pages: entries.sort((a, b) => a.slug.localeCompare(b.slug)),
+        };
+        res.json(body);
+    });
+
+    // Slugs may contain slashes, e.g. docs/getting-started, and never need decoding
+    router.get('/pages/*', (req, res) => {
+        const slug = req.path.slice('/pages/'.length);
+        const page = sitePages().find(candidate => candidate.published?.slug === slug);
+        if (!page || !page.published) {
+            return res.status(404).json({ success: false, message: 'Page not found' });
+        }
+        sendPage(res, page, page.published.version, page.published.publishedAt);
+    });
+
+    // An address only the published revision still has previews that page's draft. Preview
+    // mode is turned on for one page, whatever else is at the slug is 404.
+    router.get('/drafts/*', (req, res) => {
+        if (!hasPreviewSecret(req)) {
+            return res.status(401).json({ success: false, message: 'Invalid preview secret' });
+        }
+        const slug = req.path.slice('/drafts/'.length);
+        const page = pageStore.findBySlug(workspace, slug) ||
+            sitePages().find(candidate => candidate.published?.slug === slug);
+        if (!page || page.id !== req.query.page) {
+            return res.status(404).json({ success: false, message: 'Page not found' });
+        }
+        sendPage(res, page, page.version, page.published?.publishedAt);
+    });
+
+    return router;
+};
@@ -0,0 +1,201 @@
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IncomingFile, IngestResult } from '../lib/ingest';
+import { ImageRecord } from '../lib/metadataStore';
+import { QuotaTracker } from '../lib/quota';
+import { ResumableStore, createResumableStore } from '../lib/resumableStore';
+import { TestServer, bearer, listen, testAuthenticator, testPrincipal } from '../test/http';
+import { createResumableUploadRouter } from './resumableUploads';
+
+const BYTES = Buffer.from('0123456789');
+
+const record: ImageRecord = {
+    id: 'image-1',
+    originalName: 'photo.png',
+    filename: 'abc.png',
+    mimetype: 'image/png',
+    size: BYTES.length,
+    checksum: 'abc',
+    uploadedAt: '2026-01-01T00:00:00.000Z',
+    variants: {},
+};
+
+const unlimited: QuotaTracker = {
+    usage: () => ({ usedBytes: 0, reservedBytes: 0, quotaBytes: null, remainingBytes: null, imageCount: 0 }),
+    reserve: () => () => undefined,
+    check: () => undefined,
+};
+
+describe('resumable uploads', () => {
+    let server: TestServer;
+    let dir: string;
+    let store: ResumableStore;
+    const ingest = vi.fn<(file: IncomingFile) => Promise<IngestResult>>();
+    const alice = bearer(testPrincipal());
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resumable-'));
+        store = createResumableStore(dir, 60_000);
+        const app = express();
+        app.use(express.json());
+        const authenticator = testAuthenticator();
+        app.use(authenticator.authenticate);
+        app.use('/api/uploads', authenticator.requireRole('editor'), createResumableUploadRouter({
+            store,
+            maxSize: 1024,
+            ingest,
+            quota: unlimited,
+            limitCreate: (req, res, next) => next(),
+            assetBaseUrl: 'http://assets.test',
+        }));
+        server = await listen(app);
+    });
+
+    afterAll(async () => {
+        await server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        ingest.mockReset();
+        ingest.mockResolvedValue({ accepted: true, record, duplicate: false });
+    });
+
+    const create = async (body: unknown = { size: BYTES.length, filename: 'photo.png', mimetype: 'image/png' }) => {
+        const response = await fetch(`${server.url}/api/uploads`, {
+            method: 'POST',
+            headers: { ...alice, 'content-type': 'application/json' },
+            body: JSON.stringify(body),
+        });
+        return { status: response.status, body: await response.json() };
+    };
+
+    const patch = (id: string, offset: number, bytes: Buffer, headers: Record<string, string> = alice) =>
+        fetch(`${server.url}/api/uploads/${id}`, {
+            method: 'PATCH',
+            headers: { ...headers, 'content-type': 'application/offset+octet-stream', 'upload-offset': String(offset) },
+            body: new Uint8Array(bytes),
+        });
+
+    const head = (id: string) => fetch(`${server.url}/api/uploads/${id}`, { method: 'HEAD', headers: alice });
+
+    const finalize = (id: string) => fetch(`${server.url}/api/uploads/${id}/finalize`, { method: 'POST', headers: alice });
+
+    it('creates uploads from tus headers', async () => {
+        const response = await fetch(`${server.url}/api/uploads`, {
+            method: 'POST',
+            headers: {
+                ...alice,
+                'upload-length': '10',
+                'upload-metadata': `filename ${Buffer.from('photo.png').toString('base64')},filetype ${Buffer.from('image/png').toString('base64')}`,
+            },
+        });
+        expect(response.status).toBe(201);
+        expect(response.headers.get('location')).toMatch(/^\/api\/uploads\/[0-9a-f-]{36}$/);
+        expect(response.headers.get('upload-offset')).toBe('0');
+    });
+
+    it('checks the JSON body against the contract', async () => {
+        const { status, body } = await create({ size: 'ten', filename: 'photo.png', mimetype: 'image/png' });
+        expect(status).toBe(400);
+        expect(body).toMatchObject({ success: false, code: 'MALFORMED_REQUEST' });
+        expect(body.message).toContain('size');
+
+        const badMetadata = await create({ size: 10, filename: 'photo.png', mimetype: 'image/png', metadata: { altText: 5 } });
+        expect(badMetadata.body.message).toContain('metadata.altText');
+    });
+
+    it('resumes from the offset the server has', async () => {
+        const { body } = await create();
+        expect((await patch(body.uploadId, 0, BYTES.subarray(0, 4))).status).toBe(204);
+
+        const resumed = await head(body.uploadId);
+        expect(resumed.headers.get('upload-offset')).toBe('4');
+        expect(resumed.headers.get('upload-length')).toBe('10');
+
+        const rest = await patch(body.uploadId, 4, BYTES.subarray(4));
+        expect(rest.status).toBe(204);
+        expect(rest.headers.get('upload-offset')).toBe('10');
+        expect(fs.readFileSync(store.partPath(body.uploadId))).toEqual(BYTES);
+    });
+
+    it('refuses bytes at the wrong offset and says where to continue', async () => {
+        const { body } = await create();
+        await patch(body.uploadId, 0, BYTES.subarray(0, 4));
+        const response = await patch(body.uploadId, 2, BYTES.subarray(2));
+        expect(response.status).toBe(409);
+        expect(response.headers.get('upload-offset')).toBe('4');
+        expect(store.offset(body.uploadId)).toBe(4);
+    });
+
+    it('refuses more bytes than were announced', async () => {
+        const { body } = await create();
+        const response = await patch(body.uploadId, 0, Buffer.concat([BYTES, BYTES]));
+        expect(response.status).toBe(413);
+    });
+
+    it('keeps uploads to the principal that created them', async () => {
+        const { body } = await create();
+        const bob = bearer(testPrincipal({ id: 'user:bob', name: 'bob' }));
+        expect((await patch(body.uploadId, 0, BYTES, bob)).status).toBe(404);
+    });
+
+    it('does not finalize an incomplete upload', async () => {
+        const { body } = await create();
+        await patch(body.uploadId, 0, BYTES.subarray(0, 4));
+        const response = await finalize(body.uploadId);
+        expect(response.status).toBe(409);
+        expect(await response.json()).toMatchObject({ code: 'UPLOAD_INCOMPLETE' });
+        expect(ingest).not.toHaveBeenCalled();
+    });
+
+    it('ingests a complete upload once and forgets it', async () => {
+        const { body } = await create({ size: 10, filename: 'photo.png', mimetype: 'image/png', metadata: { altText: ' Sunset ' } });
+        await patch(body.uploadId, 0, BYTES);
+
+        const response = await finalize(body.uploadId);
+        expect(response.status).toBe(200);
+        const result = await response.json();
+        expect(result.files[0]).toMatchObject({ id: 'image-1', url: 'http://assets.test/assets/image-1' });
+        expect(ingest).toHaveBeenCalledWith(expect.objectContaining({
+            originalName: 'photo.png',
+            metadata: { altText: 'Sunset' },
+            owner: testPrincipal(),
+        }));
+        expect(store.get(body.uploadId)).toBeUndefined();
+        expect((await finalize(body.uploadId)).status).toBe(404);
+    });
+
+    it('lets only one of two concurrent finalize requests ingest', async () => {
+        const { body } = await create();
+        await patch(body.uploadId, 0, BYTES);
+        let finishIngest!: (result: IngestResult) => void;
+        ingest.mockReturnValueOnce(new Promise(resolve => {
+            finishIngest = resolve;
+        }));
+
+        const first = finalize(body.uploadId);
+        await vi.waitFor(() => expect(ingest).toHaveBeenCalledTimes(1));
+        const second = await finalize(body.uploadId);
+        expect(second.status).toBe(409);
+        expect(await second.json()).toMatchObject({ message: 'Upload is locked by another request' });
+        // Nor can the file change underneath the running ingest
+        expect((await patch(body.uploadId, 10, BYTES)).status).toBe(423);
+
+        finishIngest({ accepted: true, record, duplicate: false });
+        expect((await first).status).toBe(200);
+        expect(ingest).toHaveBeenCalledTimes(1);
+    });
+
+    it('releases the upload when ingesting fails', async () => {
+        const { body } = await create();
+        await patch(body.uploadId, 0, BYTES);
+        ingest.mockRejectedValueOnce(new Error('disk full'));
+
+        expect((await finalize(body.uploadId)).status).toBe(500);
+        expect((await finalize(body.uploadId)).status).toBe(200);
+    });
+});
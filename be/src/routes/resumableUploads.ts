@@ -0,0 +1,292 @@
+import express from 'express';
+import fs from 'fs';
+import { Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    ImageMetadata,
+    ResumableUploadRequest,
+    UPLOAD_CONTRACT_VERSION,
+    UploadResponse,
+    describeIssues,
+    resumableUploadRequestSchema,
+    uploadFailure,
+} from '@next-page-builder/contracts';
+import { principalOf } from '../lib/auth';
+import { isPreserveMetadataFlag } from '../lib/embeddedMetadata';
+import { ImageMetadataError, parseImageMetadata } from '../lib/imageMetadata';
+import { findImageTypeByMimetype } from '../lib/imageSignature';
+import { QuotaExceededError, QuotaTracker } from '../lib/quota';
+import { IncomingFile, IngestResult } from '../lib/ingest';
+import { logger } from '../lib/logger';
+import { ResumableStore } from '../lib/resumableStore';
+import { sendQuotaExceeded } from '../lib/uploadErrors';
+import { toUploadedFile } from '../lib/uploadResponse';
+
+// Resumable upload protocol, modelled on tus 1.0:
+//   POST   /              create an upload (Upload-Length + Upload-Metadata headers, or a JSON body)
+//   HEAD   /:id           current Upload-Offset
+//   PATCH  /:id           append bytes at Upload-Offset (application/offset+octet-stream)
+//   POST   /:id/finalize  validate and store the completed file
+//   DELETE /:id           abandon the upload
+// Uploads belong to the principal that created them, everyone else gets a 404.
+export interface ResumableUploadRouterOptions {
+    store: ResumableStore;
+    maxSize: number;
+    ingest: (file: IncomingFile) => Promise<IngestResult>;
+    quota: QuotaTracker;
+    // Runs before an upload is created, e.g. a rate limit
+    limitCreate: express.RequestHandler;
+    // Asset URLs in the response start with it, see publicBackendUrl
+    assetBaseUrl: string;
+}
+
+export const TUS_VERSION = '1.0.0';
+
+// Parses tus `Upload-Metadata`: comma separated `key base64value` pairs
+const parseUploadMetadata = (header: string | undefined): Record<string, string> => {
+    const metadata: Record<string, string> = {};
+    (header || '').split(',').forEach(pair => {
+        const [key, value] = pair.trim().split(' ');
+        if (key) {
+            metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+        }
+    });
+    return metadata;
+};
+
+// Alt text, caption etc. come as a JSON `metadata` entry of Upload-Metadata, or as `metadata` in a JSON body
+const readImageMetadata = (uploadMetadata: Record<string, string>, body: ResumableUploadRequest): ImageMetadata | undefined => {
+    if (uploadMetadata.metadata !== undefined) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(uploadMetadata.metadata);
+        } catch {
+            throw new ImageMetadataError('must be a JSON object');
+        }
+        return parseImageMetadata(parsed);
+    }
+    return body.metadata;
+};
+
+class UploadLengthExceededError extends Error {}
+
+// Passes bytes through until more than `limit` have been seen
+class ByteLimit extends Transform {
+    private received = 0;
+
+    constructor(private readonly limit: number) {
+        super();
+    }
+
+    _transform(chunk: Buffer, encoding: BufferEncoding, callback: TransformCallback) {
+        this.received += chunk.length;
+        if (this.received > this.limit) {
+            callback(new UploadLengthExceededError('Upload exceeds its declared length'));
+            return;
+        }
+        callback(null, chunk);
+    }
+}
+
+export const createResumableUploadRouter = ({ store, maxSize, ingest, quota, limitCreate, assetBaseUrl }: ResumableUploadRouterOptions) => {
+    const router = express.Router();
+    // Only one PATCH or finalize may touch a partial file at a time
+    const activeWrites = new Set<string>();
+
+    router.use((req, res, next) => {
+        res.setHeader('Tus-Resumable', TUS_VERSION);
+        next();
+    });
+
+    const findOwnUpload = (req: express.Request) => {
+        const upload = store.get(req.params.id);
+        return upload && upload.ownerId === principalOf(req).id ? upload : undefined;
+    };
+
+    router.post('/', limitCreate, (req, res) => {
+        // tus clients send no JSON body, everything comes in headers then
+        const parsedBody = resumableUploadRequestSchema.safeParse(req.body ?? {});
+        if (!parsedBody.success) {
+            return res.status(400).json(uploadFailure('MALFORMED_REQUEST', describeIssues(parsedBody.error.issues)));
+        }
+        const body = parsedBody.data;
+        const metadata = parseUploadMetadata(req.get('upload-metadata'));
+        const length = Number(req.get('upload-length') ?? body.size);
+        const originalName = metadata.filename || body.filename;
+        const mimetype = metadata.filetype || body.mimetype;
+
+        if (!Number.isInteger(length) || length <= 0 || !originalName || !mimetype) {
+            return res.status(400).json(uploadFailure('MALFORMED_REQUEST', 'Upload length, filename and file type are required'));
+        }
+        let imageMetadata: ImageMetadata | undefined;
+        try {
+            imageMetadata = readImageMetadata(metadata, body);
+        } catch (error) {
+            if (error instanceof ImageMetadataError) {
+                return res.status(400).json(uploadFailure('MALFORMED_REQUEST', `metadata ${error.message}`));
+            }
+            throw error;
+        }
+        if (length > maxSize) {
+            const reason = `File too large. Maximum size is ${Math.floor(maxSize / (1024 * 1024))}MB.`;
+            return res.status(413).json(uploadFailure('TOO_LARGE', reason, [{ originalName, code: 'TOO_LARGE', reason }]));
+        }
+        if (!findImageTypeByMimetype(mimetype)) {
+            const reason = `Unsupported image type ${mimetype}`;
+            return res.status(415).json(uploadFailure('UNSUPPORTED_TYPE', 'Only image files are allowed!', [{ originalName, code: 'UNSUPPORTED_TYPE', reason }]));
+        }
+
+        const principal = principalOf(req);
+        // The announced length counts against the quota until the upload finishes or expires
+        try {
+            quota.check(principal.id, length);
+        } catch (error) {
+            if (error instanceof QuotaExceededError) {
+                return sendQuotaExceeded(res, error, originalName);
+            }
+            throw error;
+        }
+        const upload = store.create({
+            originalName,
+            mimetype,
+            length,
+            ownerId: principal.id,
+            workspace: principal.workspace,
+            metadata: imageMetadata,
+            // Camera metadata is stripped unless asked for, see processEmbeddedMetadata
+            preserveMetadata: isPreserveMetadataFlag(metadata.preserveMetadata ?? body.preserveMetadata),
+        });
+        res.setHeader('Location', `${req.baseUrl}/${upload.id}`);
+        res.setHeader('Upload-Offset', '0');
+        res.status(201).json({
+            success: true,
+            uploadId: upload.id,
+            offset: 0,
+            length: upload.length,
+            expiresAt: upload.expiresAt
+        });
+    });
+
+    router.head('/:id', (req, res) => {
+        const upload = findOwnUpload(req);
+        if (!upload) {
+            return res.status(404).end();
+        }
+        res.setHeader('Cache-Control', 'no-store');
+        res.setHeader('Upload-Offset', String(store.offset(upload.id)));
+        res.setHeader('Upload-Length', String(upload.length));
+        res.setHeader('Upload-Expires', new Date(upload.expiresAt).toUTCString());
+        res.status(200).end();
+    });
+
+    router.patch('/:id', async (req, res) => {
+        const upload = findOwnUpload(req);
+        if (!upload) {
+            return res.status(404).json({ success: false, message: 'Upload not found' });
+        }
+        if (req.get('content-type') !== 'application/offset+octet-stream') {
+            return res.status(415).json({ success: false, message: 'Content-Type must be application/offset+octet-stream' });
+        }
+        if (activeWrites.has(upload.id)) {
+            return res.status(423).json({ success: false, message: 'Upload is locked by another request' });
+        }
+
+        const offset = store.offset(upload.id);
+        if (Number(req.get('upload-offset')) !== offset) {
+            res.setHeader('Upload-Offset', String(offset));
+            return res.status(409).json({ success: false, message: `Upload-Offset must be ${offset}` });
+        }
+
+        activeWrites.add(upload.id);
+        let exceeded = false;
+        try {
+            await pipeline(
+                req,
+                new ByteLimit(upload.length - offset),
+                fs.createWriteStream(store.partPath(upload.id), { flags: 'a' })
+            );
+        } catch (error) {
+            exceeded = error instanceof UploadLengthExceededError;
+            // Whatever reached the disk before the connection dropped is kept, the client resumes from there
+            logger.warn('Resumable upload interrupted', { uploadId: upload.id, offset: store.offset(upload.id), error });
+        } finally {
+            activeWrites.delete(upload.id);
+        }
+
+        // If the client went away these writes go nowhere, which is fine
+        res.setHeader('Upload-Offset', String(store.offset(upload.id)));
+        if (exceeded) {
+            return res.status(413).json({ success: false, message: 'Upload exceeds its declared length' });
+        }
+        res.status(204).end();
+    });
+
+    router.post('/:id/finalize', async (req, res) => {
+        const upload = findOwnUpload(req);
+        if (!upload) {
+            return res.status(404).json(uploadFailure('NOT_FOUND', 'Upload not found'));
+        }
+        // A PATCH still writing, or another finalize already ingesting the file
+        if (activeWrites.has(upload.id)) {
+            return res.status(409).json(uploadFailure('UPLOAD_INCOMPLETE', 'Upload is locked by another request'));
+        }
+        const offset = store.offset(upload.id);
+        if (offset !== upload.length) {
+            res.setHeader('Upload-Offset', String(offset));
+            return res.status(409).json(uploadFailure(
+                'UPLOAD_INCOMPLETE',
+                `Upload is incomplete: received ${offset} of ${upload.length} bytes`
+            ));
+        }
+
+        // Taken before the first await, so a second finalize sees it and gets the 409 above
+        activeWrites.add(upload.id);
+        try {
+            const result = await ingest({
+                path: store.partPath(upload.id),
+                originalName: upload.originalName,
+                mimetype: upload.mimetype,
+                // The same principal that created it, see findOwnUpload
+                owner: principalOf(req),
+                metadata: upload.metadata,
+                preserveMetadata: upload.preserveMetadata,
+            });
+            store.remove(upload.id);
+
+            if (!result.accepted) {
+                return res.status(400).json(uploadFailure(
+                    'NO_VALID_FILES',
+                    'No valid files uploaded. All files failed validation.',
+                    [{ originalName: upload.originalName, code: result.code, reason: result.reason }]
+                ));
+            }
+
+            res.status(200).json({
+                version: UPLOAD_CONTRACT_VERSION,
+                success: true,
+                message: 'Successfully uploaded 1 valid file(s)',
+                files: [toUploadedFile(assetBaseUrl, result.record, upload.mimetype, result.duplicate)],
+                rejected: []
+            } as UploadResponse);
+        } catch (error) {
+            logger.error('Finalizing upload failed', { error });
+            res.status(500).json(uploadFailure(
+                'INTERNAL_ERROR',
+                error instanceof Error ? error.message : 'Internal server error'
+            ));
+        } finally {
+            activeWrites.delete(upload.id);
+        }
+    });
+
+    router.delete('/:id', (req, res) => {
+        const upload = findOwnUpload(req);
+        if (!upload) {
+            return res.status(404).json({ success: false, message: 'Upload not found' });
+        }
+        store.remove(upload.id);
+        res.status(204).end();
+    });
+
+    return router;
+};
@@ -0,0 +1,121 @@
+import express from 'express';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createMetadataStore } from '../lib/metadataStore';
+import { createRateLimiter } from '../lib/rateLimiter';
+import { createMemoryStorage } from '../lib/storage/memoryStorage';
+import { createTransformCache } from '../lib/transformCache';
+import { TestServer, listen } from '../test/http';
+import { createTransformRouter } from './transforms';
+
+describe('transform routes', () => {
+    let server: TestServer;
+    let dir: string;
+    // A fresh limiter per test, the router reaches it through the wrapper below
+    let limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+
+    beforeAll(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transforms-'));
+        const metadataStore = createMetadataStore(path.join(dir, 'metadata.jsonl'));
+        const storage = createMemoryStorage();
+        await storage.put('abc.png', await sharp({ create: { width: 40, height: 30, channels: 3, background: '#f00' } }).png().toBuffer());
+        metadataStore.put({
+            id: 'image-1',
+            originalName: 'photo.png',
+            filename: 'abc.png',
+            mimetype: 'image/png',
+            size: 100,
+            checksum: 'abc',
+            uploadedAt: '2026-01-01T00:00:00.000Z',
+        });
+        metadataStore.put({
+            id: 'missing-original',
+            originalName: 'gone.png',
+            filename: 'gone.png',
+            mimetype: 'image/png',
+            size: 100,
+            checksum: 'gone',
+            uploadedAt: '2026-01-01T00:00:00.000Z',
+        });
+
+        const app = express();
+        app.use('/api/images', createTransformRouter({
+            metadataStore,
+            storage,
+            cache: createTransformCache(path.join(dir, 'cache'), 1024 * 1024),
+            rendersPerAddress: {
+                consume: key => limiter.consume(key),
+                peek: key => limiter.peek(key),
+            },
+        }));
+        server = await listen(app);
+    });
+
+    afterAll(async () => {
+        await server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    });
+
+    const transform = (query: string, headers: Record<string, string> = {}, id = 'image-1') =>
+        fetch(`${server.url}/api/images/${id}/transform?${query}`, { headers });
+
+    it('renders the requested size and format with long lived cache headers', async () => {
+        const response = await transform('w=20&format=png');
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('image/png');
+        expect(response.headers.get('cache-control')).toBe('public, max-age=31536000, immutable');
+        expect(response.headers.get('etag')).toMatch(/^"[0-9a-f]{64}"$/);
+
+        const { width, height, format } = await sharp(Buffer.from(await response.arrayBuffer())).metadata();
+        expect({ width, height, format }).toEqual({ width: 20, height: 15, format: 'png' });
+    });
+
+    it('answers a matching If-None-Match with 304', async () => {
+        const etag = (await transform('w=10')).headers.get('etag') as string;
+        const response = await transform('w=10', { 'if-none-match': `"other", ${etag}` });
+        expect(response.status).toBe(304);
+        expect(response.headers.get('etag')).toBe(etag);
+    });
+
+    it('limits renders per address with 429 and Retry-After', async () => {
+        expect((await transform('w=11')).status).toBe(200);
+        expect((await transform('w=12')).status).toBe(200);
+
+        const refused = await transform('w=13');
+        expect(refused.status).toBe(429);
+        expect(refused.headers.get('cache-control')).toBe('no-store');
+        expect(Number(refused.headers.get('retry-after'))).toBeGreaterThan(0);
+        expect((await refused.json()).message).toMatch(/^Too many transforms, try again in \d+ seconds$/);
+    });
+
+    it('serves cached renders without counting them against the limit', async () => {
+        expect((await transform('w=14')).status).toBe(200);
+        for (let i = 0; i < 3; i++) {
+            expect((await transform('w=14')).status).toBe(200);
+        }
+        // Only the first render of w=14 counted, one more is allowed
+        expect((await transform('w=15')).status).toBe(200);
+        expect((await transform('w=16')).status).toBe(429);
+    });
+
+    it('rejects invalid params with 400', async () => {
+        const response = await transform('w=0');
+        expect(response.status).toBe(400);
+        expect(response.headers.get('cache-control')).toBe('no-store');
+        expect((await response.json()).message).toBe('w must be an integer between 1 and 4096');
+    });
+
+    it('answers 404 for unknown images and 500 when the original is missing', async () => {
+        expect((await transform('w=10', {}, 'nope')).status).toBe(404);
+        const response = await transform('w=10', {}, 'missing-original');
+        expect(response.status).toBe(500);
+        expect(response.headers.get('cache-control')).toBe('no-store');
+    });
+});
@@ -0,0 +1,94 @@
+import express from 'express';
+import { logger } from '../lib/logger';
+import { MetadataStore } from '../lib/metadataStore';
+import { RateLimiter, retryAfterSeconds } from '../lib/rateLimiter';
+import { StorageAdapter, readObject } from '../lib/storage';
+import {
+    TRANSFORM_MIMETYPES,
+    TransformParamsError,
+    parseTransformParams,
+    renderTransform,
+    transformCacheKey,
+} from '../lib/transform';
+import { TransformCache } from '../lib/transformCache';
+
+// Resized / cropped / re-encoded renditions of images, mounted under /api/images:
+//   GET /:id/transform  e.g. ?w=400&h=300&fit=cover&format=webp&q=80
+// Public like /assets, the id is unguessable.
+export interface TransformRouterOptions {
+    metadataStore: MetadataStore;
+    storage: StorageAdapter;
+    cache: TransformCache;
+    // Counts renders of transforms that are not cached yet, keyed by client address
+    rendersPerAddress: RateLimiter;
+}
+
+export const createTransformRouter = ({ metadataStore, storage, cache, rendersPerAddress }: TransformRouterOptions) => {
+    const router = express.Router();
+
+    router.get('/:id/transform', async (req, res) => {
+        // Only a rendered image may be kept, errors and refusals are not
+        res.setHeader('Cache-Control', 'no-store');
+        try {
+            const record = metadataStore.get(req.params.id);
+            if (!record) {
+                return res.status(404).json({
+                    success: false,
+                    message: 'File not found'
+                });
+            }
+
+            const params = parseTransformParams(req.query as Record<string, unknown>);
+            const key = transformCacheKey(record.checksum, params);
+            const etag = `"${key}"`;
+
+            // The key covers the source checksum and every param, so the output for a URL never changes
+            const setCacheHeaders = () => {
+                res.setHeader('ETag', etag);
+                res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+            };
+            const ifNoneMatch = req.get('if-none-match');
+            if (ifNoneMatch && ifNoneMatch.split(',').map(tag => tag.trim()).includes(etag)) {
+                setCacheHeaders();
+                return res.status(304).end();
+            }
+
+            let data = cache.get(key);
+            if (!data) {
+                const state = rendersPerAddress.consume(req.ip || 'unknown');
+                if (!state.allowed) {
+                    const retryAfter = retryAfterSeconds(state);
+                    res.setHeader('Retry-After', String(retryAfter));
+                    return res.status(429).json({
+                        success: false,
+                        message: `Too many transforms, try again in ${retryAfter} seconds`
+                    });
+                }
+                data = await cache.getOrCreate(key, async () => {
+                    const source = await readObject(storage, record.filename);
+                    if (!source) {
+                        throw new Error(`Original ${record.filename} is missing from storage`);
+                    }
+                    return renderTransform(source, params);
+                });
+            }
+            setCacheHeaders();
+            res.type(TRANSFORM_MIMETYPES[params.format]).send(data);
+        } catch (error) {
+            if (error instanceof TransformParamsError) {
+                return res.status(400).json({
+                    success: false,
+                    message: error.message
+                });
+            }
+            logger.error('Transform failed', { imageId: req.params.id, error });
+            res.status(500).json({
+                success: false,
+                message: 'Error transforming image',
+                error: error instanceof Error ? error.message : 'Unknown error'
+            });
+        }
+    });
+
+    return router;
+};
@@ -0,0 +1,42 @@
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Principal, createAuthenticator, signJwt } from '../lib/auth';
+
+// Helpers for route tests, kept out of the build (see tsconfig.json)
+
+export interface TestServer {
+    url: string;
+    close: () => Promise<void>;
+}
+
+// Serves `app` on a free local port, tests call it with fetch
+export const listen = (app: express.Express): Promise<TestServer> => new Promise(resolve => {
+    const server = http.createServer(app);
+    server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        resolve({
+            url: `http://127.0.0.1:${port}`,
+            close: () => new Promise(done => server.close(() => done())),
+        });
+    });
+});
+
+export const TEST_JWT_SECRET = 'test-secret';
+
+export const testAuthenticator = (apiKeys = new Map<string, Principal>()) =>
+    createAuthenticator({ jwtSecret: TEST_JWT_SECRET, apiKeys });
+
+export const testPrincipal = (overrides: Partial<Principal> = {}): Principal => ({
+    id: 'user:alice',
+    kind: 'user',
+    name: 'alice',
+    workspace: 'default',
+    role: 'editor',
+    ...overrides,
+});
+
+// `Authorization` header of a session token for `principal`
+export const bearer = ({ id, name, workspace, role }: Principal) => ({
+    authorization: `Bearer ${signJwt({ sub: id, name, workspace, role }, TEST_JWT_SECRET, 60)}`,
+});
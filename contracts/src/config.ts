@@ -0,0 +1,266 @@
+import { z } from 'zod';
+
+const MB = 1024 * 1024;
+
+const bytes = z.number().int().nonnegative();
+const positiveInteger = z.number().int().positive();
+
+export const STORAGE_DRIVERS = ['local', 's3', 'memory'] as const;
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+// Everything the Express server and the Next app can be configured with. Every
+// field has a default, so an empty config is a working local setup.
+export const appConfigSchema = z.object({
+    server: z.object({
+        port: z.number().int().min(1).max(65535).default(8080),
+        // Origins allowed to call the backend directly, browsers normally go through Next
+        corsOrigins: z.array(z.string().url()).default(['http://localhost:3000']),
+        // Express `trust proxy`: true, a hop count, or addresses/subnets such as `loopback`
+        trustProxy: z.union([z.boolean(), z.number().int().nonnegative(), z.string().min(1)])
+            .transform(value => {
+                if (value === 'true' || value === 'false') return value === 'true';
+                return typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+            })
+            .default('loopback'),
+        // In-flight requests get this long to finish on SIGTERM before they are cut off
+        shutdownTimeoutSeconds: positiveInteger.default(30),
+    }).strict().default({}),
+    backend: z.object({
+        // Where the Next app reaches the Express server
+        url: z.string().url().default('http://localhost:8080'),
+        // Where browsers reach it, asset URLs point there. Defaults to `url`, set it when the
+        // Next app uses an address only it can resolve, e.g. http://be:8080 in docker compose.
+        publicUrl: z.string().url().optional(),
+    }).strict().default({}),
+    uploads: z.object({
+        maxFileSize: positiveInteger.default(5 * MB),
+        maxFiles: z.number().int().min(1).max(100).default(10),
+        resumableMaxSize: positiveInteger.default(100 * MB),
+        rateLimit: z.object({
+            windowSeconds: positiveInteger.default(60),
+            // Requests per window, 0 turns a limit off
+            perPrincipal: z.number().int().nonnegative().default(30),
+            perAddress: z.number().int().nonnegative().default(60),
+        }).strict().default({}),
+        quota: z.object({
+            // Bytes of originals per owner, 0 for no quota
+            defaultBytes: bytes.default(1024 * MB),
+            // Per principal id, overrides defaultBytes
+            overrides: z.record(bytes).default({}),
+        }).strict().default({}),
+    }).strict().default({}),
+    transforms: z.object({
+        cacheMaxBytes: positiveInteger.default(512 * MB),
+        // Renders of uncached transforms per client address and window, 0 turns the limit off.
+        // Cached ones are served without counting.
+        rateLimit: z.object({
+            windowSeconds: positiveInteger.default(60),
+            perAddress: z.number().int().nonnegative().default(30),
+        }).strict().default({}),
+    }).strict().default({}),
+    auth: z.object({
+        // Without one, a random secret is used and sessions end with the process
+        jwtSecret: z.string().min(1).optional(),
+        tokenTtlSeconds: positiveInteger.default(12 * 60 * 60),
+        // Login attempts per window, per client address and per username, 0 turns a limit off
+        loginRateLimit: z.object({
+            windowSeconds: positiveInteger.default(15 * 60),
+            perAddress: z.number().int().nonnegative().default(20),
+            perUsername: z.number().int().nonnegative().default(10),
+        }).strict().default({}),
+        usersFile: z.string().min(1).optional(),
+        apiKeys: z.array(z.object({
+            id: z.string().min(1),
+            key: z.string().min(1),
+            workspace: z.string().min(1),
+            role: z.string().min(1),
+        }).strict()).default([]),
+    }).strict().default({}),
+    storage: z.object({
+        driver: z.enum(STORAGE_DRIVERS).default('local'),
+        // Local driver only, defaults to the server's uploads directory
+        dir: z.string().min(1).optional(),
+        s3: z.object({
+            bucket: z.string().min(1).optional(),
+            region: z.string().min(1).default('us-east-1'),
+            endpoint: z.string().url().optional(),
+            // Defaults to true with a custom endpoint, MinIO-style addressing
+            forcePathStyle: z.boolean().optional(),
+            accessKeyId: z.string().min(1).optional(),
+            secretAccessKey: z.string().min(1).optional(),
+            prefix: z.string().optional(),
+        }).strict().default({}),
+    }).strict().default({}),
+    images: z.object({
+        // Further origins next/image may load from, e.g. a public S3 bucket or CDN
+        remoteOrigins: z.array(z.string().url()).default([]),
+        // The reference sweep reports images no page has pointed at for this long
+        unreferencedRetentionDays: positiveInteger.default(30),
+        sweepIntervalMinutes: positiveInteger.default(60),
+    }).strict().default({}),
+    logging: z.object({
+        level: z.enum(LOG_LEVELS).default('info'),
+    }).strict().default({}),
+    site: z.object({
+        // Workspace whose published pages the Next app serves to visitors
+        workspace: z.string().min(1).default('default'),
+        // Public origin of the site, for sitemap.xml and canonical links
+        url: z.string().url().default('http://localhost:3000'),
+        // The Next app's /api/revalidate, the backend calls it when published pages change
+        revalidateUrl: z.string().url().optional(),
+        // Shared by both sides: /api/revalidate refuses every call without it, and the Next
+        // app presents it to read drafts for preview mode
+        revalidateSecret: z.string().min(1).optional(),
+        // Published pages are regenerated at most this often even when no call arrives
+        revalidateSeconds: positiveInteger.default(300),
+    }).strict().default({}),
+    metrics: z.object({
+        // Bearer token /metrics asks for, open when missing
+        token: z.string().min(1).optional(),
+    }).strict().default({}),
+}).strict().superRefine((config, ctx) => {
+    if (config.storage.driver === 's3' && !config.storage.s3.bucket) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['storage', 's3', 'bucket'], message: 'is required when storage.driver is s3' });
+    }
+});
+
+export type AppConfig = z.output<typeof appConfigSchema>;
+export type AppConfigInput = z.input<typeof appConfigSchema>;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+type EnvKind = 'string' | 'integer' | 'boolean' | 'list' | 'json';
+
+// Environment variables and the config path each one sets. They win over the config file.
+export const CONFIG_ENV_VARS: { name: string; path: string[]; kind: EnvKind }[] = [
+    { name: 'PORT', path: ['server', 'port'], kind: 'integer' },
+    { name: 'CORS_ORIGINS', path: ['server', 'corsOrigins'], kind: 'list' },
+    { name: 'TRUST_PROXY', path: ['server', 'trustProxy'], kind: 'string' },
+    { name: 'SHUTDOWN_TIMEOUT_SECONDS', path: ['server', 'shutdownTimeoutSeconds'], kind: 'integer' },
+    { name: 'BACKEND_URL', path: ['backend', 'url'], kind: 'string' },
+    { name: 'BACKEND_PUBLIC_URL', path: ['backend', 'publicUrl'], kind: 'string' },
+    { name: 'UPLOAD_MAX_FILE_SIZE', path: ['uploads', 'maxFileSize'], kind: 'integer' },
+    { name: 'UPLOAD_MAX_FILES', path: ['uploads', 'maxFiles'], kind: 'integer' },
+    { name: 'RESUMABLE_MAX_SIZE', path: ['uploads', 'resumableMaxSize'], kind: 'integer' },
+    { name: 'UPLOAD_RATE_WINDOW_SECONDS', path: ['uploads', 'rateLimit', 'windowSeconds'], kind: 'integer' },
+    { name: 'UPLOAD_RATE_LIMIT', path: ['uploads', 'rateLimit', 'perPrincipal'], kind: 'integer' },
+    { name: 'UPLOAD_RATE_LIMIT_PER_IP', path: ['uploads', 'rateLimit', 'perAddress'], kind: 'integer' },
+    { name: 'STORAGE_QUOTA_BYTES', path: ['uploads', 'quota', 'defaultBytes'], kind: 'integer' },
+    { name: 'STORAGE_QUOTAS', path: ['uploads', 'quota', 'overrides'], kind: 'json' },
+    { name: 'TRANSFORM_CACHE_MAX_BYTES', path: ['transforms', 'cacheMaxBytes'], kind: 'integer' },
+    { name: 'TRANSFORM_RATE_WINDOW_SECONDS', path: ['transforms', 'rateLimit', 'windowSeconds'], kind: 'integer' },
+    { name: 'TRANSFORM_RATE_LIMIT_PER_IP', path: ['transforms', 'rateLimit', 'perAddress'], kind: 'integer' },
+    { name: 'AUTH_JWT_SECRET', path: ['auth', 'jwtSecret'], kind: 'string' },
+    { name: 'AUTH_TOKEN_TTL_SECONDS', path: ['auth', 'tokenTtlSeconds'], kind: 'integer' },
+    { name: 'AUTH_LOGIN_RATE_WINDOW_SECONDS', path: ['auth', 'loginRateLimit', 'windowSeconds'], kind: 'integer' },
+    { name: 'AUTH_LOGIN_RATE_LIMIT_PER_IP', path: ['auth', 'loginRateLimit', 'perAddress'], kind: 'integer' },
+    { name: 'AUTH_LOGIN_RATE_LIMIT_PER_USER', path: ['auth', 'loginRateLimit', 'perUsername'], kind: 'integer' },
+    { name: 'AUTH_USERS_FILE', path: ['auth', 'usersFile'], kind: 'string' },
+    { name: 'API_KEYS', path: ['auth', 'apiKeys'], kind: 'json' },
+    { name: 'STORAGE_DRIVER', path: ['storage', 'driver'], kind: 'string' },
+    { name: 'STORAGE_DIR', path: ['storage', 'dir'], kind: 'string' },
+    { name: 'S3_BUCKET', path: ['storage', 's3', 'bucket'], kind: 'string' },
+    { name: 'S3_REGION', path: ['storage', 's3', 'region'], kind: 'string' },
+    { name: 'S3_ENDPOINT', path: ['storage', 's3', 'endpoint'], kind: 'string' },
+    { name: 'S3_FORCE_PATH_STYLE', path: ['storage', 's3', 'forcePathStyle'], kind: 'boolean' },
+    { name: 'S3_ACCESS_KEY_ID', path: ['storage', 's3', 'accessKeyId'], kind: 'string' },
+    { name: 'S3_SECRET_ACCESS_KEY', path: ['storage', 's3', 'secretAccessKey'], kind: 'string' },
+    { name: 'S3_PREFIX', path: ['storage', 's3', 'prefix'], kind: 'string' },
+    { name: 'IMAGE_REMOTE_ORIGINS', path: ['images', 'remoteOrigins'], kind: 'list' },
+    { name: 'IMAGE_RETENTION_DAYS', path: ['images', 'unreferencedRetentionDays'], kind: 'integer' },
+    { name: 'IMAGE_SWEEP_INTERVAL_MINUTES', path: ['images', 'sweepIntervalMinutes'], kind: 'integer' },
+    { name: 'LOG_LEVEL', path: ['logging', 'level'], kind: 'string' },
+    { name: 'SITE_WORKSPACE', path: ['site', 'workspace'], kind: 'string' },
+    { name: 'SITE_URL', path: ['site', 'url'], kind: 'string' },
+    { name: 'REVALIDATE_URL', path: ['site', 'revalidateUrl'], kind: 'string' },
+    { name: 'REVALIDATE_SECRET', path: ['site', 'revalidateSecret'], kind: 'string' },
+    { name: 'REVALIDATE_SECONDS', path: ['site', 'revalidateSeconds'], kind: 'integer' },
+    { name: 'METRICS_TOKEN', path: ['metrics', 'token'], kind: 'string' },
+];
+
+export class ConfigError extends Error {}
+
+// Values that do not convert are passed on as strings, so the schema names the problem
+const fromEnv = (value: string, kind: EnvKind, name: string): unknown => {
+    switch (kind) {
+        case 'integer':
+            return /^-?\d+$/.test(value.trim()) ? Number(value) : value;
+        case 'boolean':
+            return ['true', '1'].includes(value) ? true : ['false', '0'].includes(value) ? false : value;
+        case 'list':
+            return value.split(',').map(item => item.trim()).filter(Boolean);
+        case 'json':
+            try {
+                return JSON.parse(value);
+            } catch {
+                throw new ConfigError(`Invalid configuration: ${name} is not valid JSON`);
+            }
+        default:
+            return value;
+    }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const setPath = (target: Record<string, unknown>, [key, ...rest]: string[], value: unknown) => {
+    if (rest.length === 0) {
+        target[key] = value;
+        return;
+    }
+    if (!isPlainObject(target[key])) {
+        target[key] = {};
+    }
+    setPath(target[key] as Record<string, unknown>, rest, value);
+};
+
+// Whether the file sets `path` or something below it
+const hasPath = (value: unknown, path: (string | number)[]): boolean => {
+    if (path.length === 0) {
+        return value !== undefined;
+    }
+    const [key, ...rest] = path;
+    return (isPlainObject(value) || Array.isArray(value)) && hasPath((value as Record<string, unknown>)[key], rest);
+};
+
+export interface ConfigSources {
+    env: Record<string, string | undefined>;
+    // Parsed config file, if there is one
+    file?: unknown;
+    // Named in error messages
+    fileName?: string;
+}
+
+// Merges defaults, the config file and the environment (in that order of precedence,
+// lowest first) and validates the result. Throws ConfigError naming every bad setting
+// and where it came from.
+export const resolveConfig = ({ env, file, fileName = 'config file' }: ConfigSources): AppConfig => {
+    if (file !== undefined && !isPlainObject(file)) {
+        throw new ConfigError(`Invalid configuration: ${fileName} must contain a JSON object`);
+    }
+    const merged: Record<string, unknown> = JSON.parse(JSON.stringify(file || {}));
+    const fromEnvVars = new Map<string, string>();
+    CONFIG_ENV_VARS.forEach(({ name, path, kind }) => {
+        const value = env[name];
+        if (value === undefined || value === '') {
+            return;
+        }
+        setPath(merged, path, fromEnv(value, kind, name));
+        fromEnvVars.set(path.join('.'), name);
+    });
+
+    const result = appConfigSchema.safeParse(merged);
+    if (!result.success) {
+        const problems = result.error.issues.map(issue => {
+            const path = issue.path.join('.') || '(root)';
+            const envVar = Array.from(fromEnvVars.entries())
+                .find(([envPath]) => path === envPath || path.startsWith(`${envPath}.`));
+            const source = envVar ? envVar[1] : hasPath(file, issue.path) ? fileName : 'not set';
+            return `${path} (${source}): ${issue.message}`;
+        });
+        throw new ConfigError(`Invalid configuration: ${problems.join('; ')}`);
+    }
+    return result.data;
+};
+
+// Origin (and base path, if any) of the asset URLs the backend hands out, without a trailing slash
+export const publicBackendUrl = (config: AppConfig) => (config.backend.publicUrl || config.backend.url).replace(/\/+$/, '');
@@ -0,0 +1,21 @@
+import fs from 'fs';
+import path from 'path';
+import { AppConfig, ConfigError, resolveConfig } from './config';
+
+// Node only, so it is kept out of the index the browser bundles import. Reads CONFIG_FILE
+// (or config.json in the working directory, when there is one) and the environment into
+// the config both apps share, see appConfigSchema.
+export const loadConfig = (env: Record<string, string | undefined> = process.env): AppConfig => {
+    const fileName = path.resolve(env.CONFIG_FILE || 'config.json');
+    let file: unknown;
+    if (fs.existsSync(fileName)) {
+        try {
+            file = JSON.parse(fs.readFileSync(fileName, 'utf8'));
+        } catch {
+            throw new ConfigError(`Invalid configuration: ${fileName} is not valid JSON`);
+        }
+    } else if (env.CONFIG_FILE) {
+        throw new ConfigError(`Invalid configuration: CONFIG_FILE ${fileName} does not exist`);
+    }
+    return resolveConfig({ env, file, fileName });
+};
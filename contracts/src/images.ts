@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { imageVariantSchema } from './upload';
+
+export const IMAGE_SORT_FIELDS = ['date', 'name', 'size'] as const;
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+export const DEFAULT_IMAGE_PAGE_SIZE = 50;
+export const MAX_IMAGE_PAGE_SIZE = 200;
+
+const dateParam = z.string()
+    .refine(value => !Number.isNaN(Date.parse(value)), 'must be a date')
+    .transform(value => new Date(value));
+
+// Query string of GET /api/images. Every filter is optional and they combine with AND.
+export const imageListQuerySchema = z.object({
+    // Opaque, from the previous page's `nextCursor`. Only valid with the same sort and order.
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_IMAGE_PAGE_SIZE).default(DEFAULT_IMAGE_PAGE_SIZE),
+    sort: z.enum(IMAGE_SORT_FIELDS).default('date'),
+    // Defaults to newest / largest first, and A to Z for names
+    order: z.enum(SORT_ORDERS).optional(),
+    // Comma separated, `image/*` style wildcards allowed
+    mimetype: z.string().optional(),
+    minSize: z.coerce.number().int().min(0).optional(),
+    maxSize: z.coerce.number().int().min(0).optional(),
+    // Upload date range, both ends inclusive
+    from: dateParam.optional(),
+    to: dateParam.optional(),
+    // `me` or a principal id
+    owner: z.string().optional(),
+    tag: z.string().optional(),
+    // Case-insensitive substring of the filename, alt text, caption, a tag or a property value
+    q: z.string().optional(),
+});
+
+export const imageSummarySchema = z.object({
+    id: z.string(),
+    originalName: z.string(),
+    filename: z.string(),
+    url: z.string(),
+    size: z.number(),
+    mimetype: z.string(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    checksum: z.string(),
+    refCount: z.number(),
+    ownerId: z.string().optional(),
+    altText: z.string().optional(),
+    caption: z.string().optional(),
+    tags: z.array(z.string()),
+    properties: z.record(z.string()),
+    uploadDate: z.string(),
+    variants: z.record(imageVariantSchema),
+});
+
+// Kinds of personal data found embedded in an upload
+export const PERSONAL_DATA_KINDS = ['location', 'serial-numbers', 'people'] as const;
+
+// What GET /api/images/:id/metadata reports from the EXIF, XMP and IPTC of the upload
+export const embeddedMetadataSchema = z.object({
+    // EXIF orientation 1-8, 5-8 mean width and height are swapped on screen
+    orientation: z.number().optional(),
+    capturedAt: z.string().optional(),
+    camera: z.object({
+        make: z.string().optional(),
+        model: z.string().optional(),
+        lens: z.string().optional(),
+    }).optional(),
+    software: z.string().optional(),
+    // Only kept when the uploader chose to preserve metadata
+    location: z.object({
+        latitude: z.number(),
+        longitude: z.number(),
+        altitude: z.number().optional(),
+    }).optional(),
+    personalData: z.array(z.enum(PERSONAL_DATA_KINDS)),
+    // EXIF, XMP and IPTC were removed from the stored bytes (orientation is kept)
+    stripped: z.boolean(),
+});
+
+export const imageListResponseSchema = z.object({
+    success: z.literal(true),
+    images: z.array(imageSummarySchema),
+    // Images matching the filters across all pages
+    total: z.number(),
+    // Null on the last page
+    nextCursor: z.string().nullable(),
+});
+
+// A page that points at an image, see GET /api/images/:id/usages
+export const imageUsageSchema = z.object({
+    pageId: z.string(),
+    title: z.string(),
+    slug: z.string(),
+    // The editor shows the image
+    draft: z.boolean(),
+    // Visitors see the image
+    published: z.boolean(),
+    // Every revision that has it, newest first
+    revisions: z.array(z.number()),
+});
+
+export const imageUsagesResponseSchema = z.object({
+    success: z.literal(true),
+    imageId: z.string(),
+    // A draft or a published page shows the image. Deleting it takes `force=true` then,
+    // old revisions alone do not keep an image.
+    inUse: z.boolean(),
+    usages: z.array(imageUsageSchema),
+});
+
+// 409 from DELETE /api/images/:id without `force=true`
+export const imageInUseResponseSchema = z.object({
+    success: z.literal(false),
+    message: z.string(),
+    usages: z.array(imageUsageSchema),
+});
+
+export type ImageSortField = typeof IMAGE_SORT_FIELDS[number];
+export type SortOrder = typeof SORT_ORDERS[number];
+// What a client sends, before defaults and coercion
+export type ImageListQuery = z.input<typeof imageListQuerySchema>;
+export type ParsedImageListQuery = z.output<typeof imageListQuerySchema>;
+export type ImageSummary = z.infer<typeof imageSummarySchema>;
+export type PersonalDataKind = typeof PERSONAL_DATA_KINDS[number];
+export type EmbeddedMetadata = z.infer<typeof embeddedMetadataSchema>;
+export type ImageListResponse = z.infer<typeof imageListResponseSchema>;
+export type ImageUsage = z.infer<typeof imageUsageSchema>;
+export type ImageUsagesResponse = z.infer<typeof imageUsagesResponseSchema>;
+export type ImageInUseResponse = z.infer<typeof imageInUseResponseSchema>;
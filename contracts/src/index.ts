@@ -0,0 +1,6 @@
+export * from './metadata';
+export * from './upload';
+export * from './images';
+export * from './usage';
+export * from './config';
+export * from './pages';
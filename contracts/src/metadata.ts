@@ -0,0 +1,31 @@
+import { z } from 'zod';
+
+export const MAX_TAGS = 20;
+export const MAX_PROPERTIES = 20;
+
+// Editable description of an image. Every field is optional: on upload and in
+// PATCH /api/images/:id only the fields present are set, an empty string or
+// list clears one.
+export const imageMetadataSchema = z.object({
+    // Read out by screen readers in place of the image
+    altText: z.string().trim().max(500),
+    caption: z.string().trim().max(2000),
+    // Compared case-insensitively, so stored lower-cased and without duplicates
+    tags: z.array(z.string().trim().toLowerCase().min(1).max(40))
+        .max(MAX_TAGS)
+        .transform(tags => Array.from(new Set(tags))),
+    // Free-form key/values, e.g. photographer or licence
+    properties: z.record(z.string().min(1).max(64), z.string().max(1000))
+        .refine(properties => Object.keys(properties).length <= MAX_PROPERTIES, `at most ${MAX_PROPERTIES} properties`),
+}).partial().strict();
+
+// The `metadata` field of a multipart upload: metadata per file, keyed by the file's original name
+export const uploadMetadataSchema = z.record(imageMetadataSchema);
+
+// What a client sends, before trimming and normalising
+export type ImageMetadataInput = z.input<typeof imageMetadataSchema>;
+export type ImageMetadata = z.output<typeof imageMetadataSchema>;
+
+// One line per issue, for error messages
+export const describeIssues = (issues: z.ZodIssue[]): string =>
+    issues.map(issue => `${issue.path.join('.') || '(root)'} ${issue.message}`).join('; ');
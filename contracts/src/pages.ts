@@ -0,0 +1,440 @@
+import { z } from 'zod';
+import { imageSummarySchema } from './images';
+import { describeIssues } from './metadata';
+
+export const BLOCK_TYPES = ['section', 'columns', 'heading', 'richText', 'image', 'button', 'gallery'] as const;
+export type BlockType = typeof BLOCK_TYPES[number];
+
+// Blocks that hold other blocks
+export const CONTAINER_BLOCK_TYPES: BlockType[] = ['section', 'columns'];
+
+export const MAX_PAGE_BLOCKS = 1000;
+export const MAX_BLOCK_DEPTH = 10;
+export const MAX_COLUMNS = 6;
+export const MAX_GALLERY_ITEMS = 50;
+
+// First path segments the Next app serves itself, a page cannot live under them
+export const RESERVED_SLUG_PREFIXES = ['api', '_next', 'editor', 'image-upload', 'login', 'media', '404', '500'];
+
+// Styles are design tokens rather than raw CSS, the renderer maps them onto its own scale
+export const SPACING_SIZES = ['none', 'xs', 'sm', 'md', 'lg', 'xl'] as const;
+export const CONTENT_WIDTHS = ['sm', 'md', 'lg', 'xl', 'full'] as const;
+export const TEXT_ALIGNMENTS = ['left', 'center', 'right'] as const;
+
+const spacing = z.enum(SPACING_SIZES);
+const color = z.string().regex(/^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/, 'must be a hex color');
+
+export const blockStylesSchema = z.object({
+    paddingX: spacing,
+    paddingY: spacing,
+    marginY: spacing,
+    background: color,
+    textColor: color,
+    textAlign: z.enum(TEXT_ALIGNMENTS),
+    maxWidth: z.enum(CONTENT_WIDTHS),
+    borderRadius: spacing,
+}).partial().strict();
+
+export type BlockStyles = z.infer<typeof blockStylesSchema>;
+
+// Ids are chosen by the editor and only need to be unique within a page
+const blockId = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'must be 1-64 letters, digits, - or _');
+
+// Asset ids come from the upload pipeline, pages never embed image URLs
+export const assetIdSchema = z.string().uuid('must be an asset id');
+
+// Site-relative paths, anchors, http(s) and mailto/tel. Everything else (javascript:
+// above all) is refused.
+export const linkHrefSchema = z.string().trim().max(2000).refine(
+    href => /^(?:\/(?!\/)|#|https?:\/\/|mailto:|tel:)/i.test(href),
+    'must be a site path, #anchor, http(s), mailto: or tel: link'
+);
+
+export const sectionPropsSchema = z.object({
+    // Lets buttons link to #anchor
+    anchor: z.string().regex(/^[a-z0-9-]{1,64}$/, 'must be lower case letters, digits and -').optional(),
+}).strict();
+
+export const columnsPropsSchema = z.object({
+    gap: spacing.optional(),
+    // Relative widths, one per child, e.g. [1, 2] for a third and two thirds
+    widths: z.array(z.number().int().min(1).max(12)).max(MAX_COLUMNS).optional(),
+    // Columns stack on narrow screens unless this is false
+    stackOnMobile: z.boolean().optional(),
+}).strict();
+
+export const headingPropsSchema = z.object({
+    text: z.string().trim().min(1).max(300),
+    level: z.number().int().min(1).max(6),
+}).strict();
+
+// Formatting a rich text block keeps, everything else is dropped with its attributes
+export const RICH_TEXT_TAGS = ['p', 'br', 'strong', 'b', 'em', 'i', 'u', 's', 'a', 'ul', 'ol', 'li', 'blockquote', 'code', 'pre', 'h2', 'h3', 'h4'];
+export const RICH_TEXT_ATTRIBUTES = ['href', 'target', 'rel'];
+// Link targets rich text keeps: http(s), mailto, tel and site-relative
+export const RICH_TEXT_HREF_PATTERN = /^(?:https?:|mailto:|tel:|\/(?!\/)|#)/i;
+
+export const richTextPropsSchema = z.object({
+    // Sanitised by the backend on save, only basic formatting and links survive
+    html: z.string().max(50000),
+}).strict();
+
+export const IMAGE_BLOCK_SIZES = ['small', 'medium', 'large', 'original'] as const;
+
+export const imagePropsSchema = z.object({
+    assetId: assetIdSchema,
+    // Falls back to the asset's alt text
+    alt: z.string().trim().max(500).optional(),
+    caption: z.string().trim().max(2000).optional(),
+    link: linkHrefSchema.optional(),
+    size: z.enum(IMAGE_BLOCK_SIZES).optional(),
+}).strict();
+
+export const BUTTON_VARIANTS = ['primary', 'secondary', 'link'] as const;
+
+export const buttonPropsSchema = z.object({
+    label: z.string().trim().min(1).max(100),
+    href: linkHrefSchema,
+    variant: z.enum(BUTTON_VARIANTS).optional(),
+    openInNewTab: z.boolean().optional(),
+}).strict();
+
+export const galleryItemSchema = z.object({
+    assetId: assetIdSchema,
+    alt: z.string().trim().max(500).optional(),
+    caption: z.string().trim().max(2000).optional(),
+}).strict();
+
+export const galleryPropsSchema = z.object({
+    items: z.array(galleryItemSchema).min(1).max(MAX_GALLERY_ITEMS),
+    columns: z.number().int().min(1).max(MAX_COLUMNS).optional(),
+}).strict();
+
+export type SectionProps = z.infer<typeof sectionPropsSchema>;
+export type ColumnsProps = z.infer<typeof columnsPropsSchema>;
+export type HeadingProps = z.infer<typeof headingPropsSchema>;
+export type RichTextProps = z.infer<typeof richTextPropsSchema>;
+export type ImageProps = z.infer<typeof imagePropsSchema>;
+export type ButtonProps = z.infer<typeof buttonPropsSchema>;
+export type GalleryItem = z.infer<typeof galleryItemSchema>;
+export type GalleryProps = z.infer<typeof galleryPropsSchema>;
+
+interface BlockOf<T extends BlockType, P> {
+    id: string;
+    type: T;
+    props: P;
+    styles?: BlockStyles;
+}
+
+export type SectionBlock = BlockOf<'section', SectionProps> & { children: Block[] };
+// Every child is one column
+export type ColumnsBlock = BlockOf<'columns', ColumnsProps> & { children: Block[] };
+export type HeadingBlock = BlockOf<'heading', HeadingProps>;
+export type RichTextBlock = BlockOf<'richText', RichTextProps>;
+export type ImageBlock = BlockOf<'image', ImageProps>;
+export type ButtonBlock = BlockOf<'button', ButtonProps>;
+export type GalleryBlock = BlockOf<'gallery', GalleryProps>;
+
+export type Block = SectionBlock | ColumnsBlock | HeadingBlock | RichTextBlock | ImageBlock | ButtonBlock | GalleryBlock;
+export type ContainerBlock = SectionBlock | ColumnsBlock;
+
+// Children below MAX_BLOCK_DEPTH are refused without looking inside, so a deeply nested
+// body fails validation instead of running the parser out of stack
+const tooDeepBlockSchema = z.custom<Block>(() => false, `blocks can be nested at most ${MAX_BLOCK_DEPTH} levels deep`);
+
+// Schema of a block at `depth`, top level blocks are at depth 1
+const blockSchemaAt = (depth: number): z.ZodType<Block> => {
+    const child = depth < MAX_BLOCK_DEPTH ? blockSchemaAt(depth + 1) : tooDeepBlockSchema;
+    return z.discriminatedUnion('type', [
+        z.object({
+            id: blockId,
+            type: z.literal('section'),
+            props: sectionPropsSchema,
+            styles: blockStylesSchema.optional(),
+            children: z.array(child),
+        }).strict(),
+        z.object({
+            id: blockId,
+            type: z.literal('columns'),
+            props: columnsPropsSchema,
+            styles: blockStylesSchema.optional(),
+            children: z.array(child).min(1).max(MAX_COLUMNS),
+        }).strict(),
+        z.object({ id: blockId, type: z.literal('heading'), props: headingPropsSchema, styles: blockStylesSchema.optional() }).strict(),
+        z.object({ id: blockId, type: z.literal('richText'), props: richTextPropsSchema, styles: blockStylesSchema.optional() }).strict(),
+        z.object({ id: blockId, type: z.literal('image'), props: imagePropsSchema, styles: blockStylesSchema.optional() }).strict(),
+        z.object({ id: blockId, type: z.literal('button'), props: buttonPropsSchema, styles: blockStylesSchema.optional() }).strict(),
+        z.object({ id: blockId, type: z.literal('gallery'), props: galleryPropsSchema, styles: blockStylesSchema.optional() }).strict(),
+    ]);
+};
+
+export const blockSchema = blockSchemaAt(1);
+
+export const isContainerBlock = (block: Block): block is ContainerBlock =>
+    block.type === 'section' || block.type === 'columns';
+
+// Visits every block depth first, parents before their children
+export const walkBlocks = (blocks: Block[], visit: (block: Block, depth: number) => void, depth = 1) => {
+    blocks.forEach(block => {
+        visit(block, depth);
+        if (isContainerBlock(block)) {
+            walkBlocks(block.children, visit, depth + 1);
+        }
+    });
+};
+
+// Copy of the tree with `transform` applied to every block, children first
+export const mapBlocks = (blocks: Block[], transform: (block: Block) => Block): Block[] =>
+    blocks.map(block => transform(isContainerBlock(block)
+        ? { ...block, children: mapBlocks(block.children, transform) } as Block
+        : block));
+
+// Lower case path segments of letters, digits and dashes, e.g. `about` or `blog/launch-day`
+export const pageSlugSchema = z.string().trim().toLowerCase().max(200)
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*(?:\/[a-z0-9]+(?:-[a-z0-9]+)*)*$/, 'must be lower case words separated by - and /')
+    .refine(slug => !RESERVED_SLUG_PREFIXES.includes(slug.split('/')[0]), 'starts with a path reserved by the app');
+
+export const pageSeoSchema = z.object({
+    // Defaults to the page title
+    title: z.string().trim().max(120),
+    description: z.string().trim().max(320),
+    ogImageAssetId: assetIdSchema,
+    canonicalUrl: z.string().url(),
+    noIndex: z.boolean(),
+}).partial().strict();
+
+export type PageSeo = z.infer<typeof pageSeoSchema>;
+
+const pageFields = {
+    slug: pageSlugSchema,
+    title: z.string().trim().min(1).max(200),
+    seo: pageSeoSchema.default({}),
+    blocks: z.array(blockSchema),
+};
+
+// Rules that span the whole tree: unique ids, bounded size, one width per column. The depth
+// is bounded by blockSchema already.
+const refinePageTree = (page: { blocks: Block[] }, ctx: z.RefinementCtx) => {
+    const seen = new Set<string>();
+    let count = 0;
+    walkBlocks(page.blocks, block => {
+        count++;
+        if (seen.has(block.id)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['blocks'], message: `block id ${block.id} is used more than once` });
+        }
+        seen.add(block.id);
+        if (block.type === 'columns' && block.props.widths && block.props.widths.length !== block.children.length) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['blocks'], message: `block ${block.id} needs one width per column` });
+        }
+    });
+    if (count > MAX_PAGE_BLOCKS) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['blocks'], message: `a page can have at most ${MAX_PAGE_BLOCKS} blocks` });
+    }
+};
+
+// Body of POST /api/pages
+export const pageInputSchema = z.object(pageFields).strict().superRefine(refinePageTree);
+
+// Body of PUT /api/pages/:id, the whole document is replaced. The save only goes through
+// when nobody else saved in the meantime: `version` is the one the caller has, without it
+// the request needs `If-Match` with the page's ETag.
+export const pageUpdateSchema = z.object({
+    ...pageFields,
+    version: z.number().int().positive().optional(),
+}).strict().superRefine(refinePageTree);
+
+// Body of the actions on a page (publish, restore). Like a save they take the `version`
+// the caller has and are refused when the page moved on in the meantime.
+export const pageActionSchema = z.object({
+    version: z.number().int().positive().optional(),
+}).strict();
+
+const scheduleTimeSchema = z.string().datetime({ offset: true });
+
+// Body of PUT /api/pages/:id/schedule, replaces the schedule. The draft as it is at
+// `publishAt` goes live then, `unpublishAt` takes the page off the site.
+export const pageScheduleSchema = z.object({
+    publishAt: scheduleTimeSchema.optional(),
+    unpublishAt: scheduleTimeSchema.optional(),
+}).strict().refine(
+    ({ publishAt, unpublishAt }) => !publishAt || !unpublishAt || Date.parse(unpublishAt) > Date.parse(publishAt),
+    { message: 'must be later than publishAt', path: ['unpublishAt'] }
+);
+
+export type PageInput = z.input<typeof pageInputSchema>;
+export type PageContent = z.output<typeof pageInputSchema>;
+export type PageUpdate = z.output<typeof pageUpdateSchema>;
+export type PageAction = z.infer<typeof pageActionSchema>;
+export type PageSchedule = z.infer<typeof pageScheduleSchema>;
+
+// The published pointer: which revision visitors get and at which address
+export const pagePublicationSchema = z.object({
+    version: z.number(),
+    slug: z.string(),
+    publishedAt: z.string(),
+    publishedBy: z.string().optional(),
+});
+
+export const pageDocumentSchema = z.object({
+    id: z.string(),
+    slug: z.string(),
+    title: z.string(),
+    seo: pageSeoSchema,
+    blocks: z.array(blockSchema),
+    // Goes up by one with every save, the content above is the draft at that revision
+    version: z.number(),
+    ownerId: z.string().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    // Missing while the page is not on the site, saving the draft leaves it alone
+    published: pagePublicationSchema.optional(),
+    schedule: z.object({
+        publishAt: z.string().optional(),
+        unpublishAt: z.string().optional(),
+    }).optional(),
+});
+
+export const pageSummarySchema = pageDocumentSchema.pick({
+    id: true,
+    slug: true,
+    title: true,
+    version: true,
+    ownerId: true,
+    createdAt: true,
+    updatedAt: true,
+    published: true,
+    schedule: true,
+});
+
+export const pageResponseSchema = z.object({
+    success: z.literal(true),
+    page: pageDocumentSchema,
+});
+
+export const pageListResponseSchema = z.object({
+    success: z.literal(true),
+    pages: z.array(pageSummarySchema),
+});
+
+// Every save leaves one behind, they are never changed afterwards
+export const pageRevisionSchema = z.object({
+    pageId: z.string(),
+    version: z.number(),
+    slug: z.string(),
+    title: z.string(),
+    seo: pageSeoSchema,
+    blocks: z.array(blockSchema),
+    authorId: z.string().optional(),
+    authorName: z.string().optional(),
+    createdAt: z.string(),
+    // Set on revisions made by restoring an earlier one
+    restoredFrom: z.number().optional(),
+});
+
+export const pageRevisionSummarySchema = pageRevisionSchema.omit({ seo: true, blocks: true });
+
+export const pageRevisionResponseSchema = z.object({
+    success: z.literal(true),
+    revision: pageRevisionSchema,
+});
+
+export const pageRevisionListResponseSchema = z.object({
+    success: z.literal(true),
+    revisions: z.array(pageRevisionSummarySchema),
+});
+
+// What rendering needs to know about an image a block points at
+export const pageAssetSchema = imageSummarySchema.pick({
+    id: true,
+    url: true,
+    width: true,
+    height: true,
+    altText: true,
+    variants: true,
+});
+
+// A published page as visitors get it from GET /api/published/pages/<slug>, with the
+// images it points at. Images that are gone are left out of `assets`. Drafts shown in
+// preview mode come from GET /api/published/drafts/<slug> and have no `publishedAt`.
+export const publishedPageSchema = pageDocumentSchema.pick({
+    id: true,
+    slug: true,
+    title: true,
+    seo: true,
+    blocks: true,
+    updatedAt: true,
+}).extend({
+    publishedAt: z.string().optional(),
+    assets: z.record(pageAssetSchema),
+});
+
+export const publishedPageResponseSchema = z.object({
+    success: z.literal(true),
+    page: publishedPageSchema,
+});
+
+// Every published page of the site, for static paths and the sitemap
+export const publishedPageListResponseSchema = z.object({
+    success: z.literal(true),
+    pages: z.array(publishedPageSchema.pick({ slug: true, title: true, updatedAt: true }).extend({
+        publishedAt: z.string(),
+        noIndex: z.boolean(),
+    })),
+});
+
+// Body the backend posts to the Next app's /api/revalidate when published pages change
+export const revalidateRequestSchema = z.object({
+    paths: z.array(z.string().regex(/^\/(?!\/)/, 'must be a site path')).min(1).max(100),
+});
+
+export type PageDocument = z.infer<typeof pageDocumentSchema>;
+export type PageSummary = z.infer<typeof pageSummarySchema>;
+export type PageResponse = z.infer<typeof pageResponseSchema>;
+export type PageListResponse = z.infer<typeof pageListResponseSchema>;
+export type PagePublication = z.infer<typeof pagePublicationSchema>;
+export type PageRevision = z.infer<typeof pageRevisionSchema>;
+export type PageRevisionSummary = z.infer<typeof pageRevisionSummarySchema>;
+export type PageRevisionResponse = z.infer<typeof pageRevisionResponseSchema>;
+export type PageRevisionListResponse = z.infer<typeof pageRevisionListResponseSchema>;
+export type PageAsset = z.infer<typeof pageAssetSchema>;
+export type PublishedPage = z.infer<typeof publishedPageSchema>;
+export type PublishedPageResponse = z.infer<typeof publishedPageResponseSchema>;
+export type PublishedPageListResponse = z.infer<typeof publishedPageListResponseSchema>;
+export type RevalidateRequest = z.infer<typeof revalidateRequestSchema>;
+
+// Entity tag of a page's state: the draft version, the published pointer and the schedule.
+// Unpublishing and scheduling do not bump the version, so they are guarded with
+// `If-Match: <pageEtag>` instead, which clients can compute from the page they hold.
+export const pageEtag = ({ version, published, schedule }: Pick<PageDocument, 'version' | 'published' | 'schedule'>) =>
+    `"${[version, published?.version ?? '', published?.publishedAt ?? '', schedule?.publishAt ?? '', schedule?.unpublishAt ?? ''].join('/')}"`;
+
+// Every asset a page points at, in its blocks and its SEO fields, without duplicates
+export const pageAssetIds = (page: { blocks: Block[]; seo?: PageSeo }): string[] => {
+    const ids = new Set<string>();
+    if (page.seo?.ogImageAssetId) {
+        ids.add(page.seo.ogImageAssetId);
+    }
+    walkBlocks(page.blocks, block => {
+        if (block.type === 'image') {
+            ids.add(block.props.assetId);
+        } else if (block.type === 'gallery') {
+            block.props.items.forEach(item => ids.add(item.assetId));
+        }
+    });
+    return Array.from(ids);
+};
+
+export class PageContractError extends Error {
+    constructor(readonly issues: z.ZodIssue[]) {
+        super(`Page does not match the page schema: ${describeIssues(issues)}`);
+    }
+}
+
+// Validates a page document received over the wire
+export const parsePageDocument = (data: unknown): PageDocument => {
+    const result = pageDocumentSchema.safeParse(data);
+    if (!result.success) {
+        throw new PageContractError(result.error.issues);
+    }
+    return result.data;
+};
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { describeIssues, imageMetadataSchema } from './metadata';
+
+// Bumped whenever a response shape changes in a way older clients would notice
+export const UPLOAD_CONTRACT_VERSION = 1;
+
+// Machine-readable reasons for refusing a file or a whole upload request
+export const UPLOAD_ERROR_CODES = [
+    // The bytes do not match the claimed type or extension
+    'INVALID_SIGNATURE',
+    'TOO_LARGE',
+    'UNSUPPORTED_TYPE',
+    'TOO_MANY_FILES',
+    // The owner's storage quota has no room for the upload
+    'QUOTA_EXCEEDED',
+    // Too many upload requests, see the Retry-After header
+    'RATE_LIMITED',
+    'TOO_MANY_FIELDS',
+    'FIELD_TOO_LARGE',
+    // A file was sent under a field name the endpoint does not accept
+    'UNEXPECTED_FIELD',
+    'NO_FILES',
+    // Every file in the request was rejected, see `rejected` for why
+    'NO_VALID_FILES',
+    'MALFORMED_REQUEST',
+    'UPLOAD_INCOMPLETE',
+    'NOT_FOUND',
+    'UNAUTHORIZED',
+    'FORBIDDEN',
+    'INTERNAL_ERROR',
+] as const;
+
+export const uploadErrorCodeSchema = z.enum(UPLOAD_ERROR_CODES);
+export type UploadErrorCode = z.infer<typeof uploadErrorCodeSchema>;
+
+export const imageVariantSchema = z.object({
+    width: z.number(),
+    height: z.number(),
+    urls: z.object({
+        webp: z.string().optional(),
+        avif: z.string().optional(),
+    }),
+});
+
+export const uploadedFileSchema = z.object({
+    id: z.string(),
+    originalName: z.string(),
+    filename: z.string(),
+    // Storage key of the original
+    path: z.string(),
+    size: z.number(),
+    // What the client claimed
+    mimetype: z.string(),
+    // What the bytes turned out to be
+    detectedMimetype: z.string(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    checksum: z.string(),
+    uploadedAt: z.string(),
+    url: z.string(),
+    variants: z.record(imageVariantSchema),
+    // The same bytes were already stored, this is the existing asset
+    duplicate: z.boolean().optional(),
+    altText: z.string().optional(),
+    caption: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    properties: z.record(z.string()).optional(),
+});
+
+export const rejectedFileSchema = z.object({
+    originalName: z.string(),
+    code: uploadErrorCodeSchema,
+    reason: z.string(),
+});
+
+export const uploadResponseSchema = z.object({
+    version: z.literal(UPLOAD_CONTRACT_VERSION),
+    success: z.boolean(),
+    message: z.string(),
+    files: z.array(uploadedFileSchema).optional(),
+    rejected: z.array(rejectedFileSchema).optional(),
+    // Set when the request as a whole failed
+    code: uploadErrorCodeSchema.optional(),
+    // Human readable summary, kept for older clients
+    error: z.string().optional(),
+});
+
+export type ImageVariant = z.infer<typeof imageVariantSchema>;
+export type UploadedFile = z.infer<typeof uploadedFileSchema>;
+export type RejectedFile = z.infer<typeof rejectedFileSchema>;
+export type UploadResponse = z.infer<typeof uploadResponseSchema>;
+
+// JSON body of POST /api/uploads, for clients that do not send the tus Upload-Length and
+// Upload-Metadata headers. Every field is optional here, the headers may supply them instead.
+export const resumableUploadRequestSchema = z.object({
+    size: z.number().int().positive(),
+    filename: z.string().min(1),
+    mimetype: z.string().min(1),
+    metadata: imageMetadataSchema,
+    // true, "true" or "1", see isPreserveMetadataFlag on the backend
+    preserveMetadata: z.union([z.boolean(), z.string()]),
+}).partial();
+
+export type ResumableUploadRequest = z.output<typeof resumableUploadRequestSchema>;
+
+export const UPLOAD_ERROR_STATUS: Record<UploadErrorCode, number> = {
+    INVALID_SIGNATURE: 400,
+    TOO_LARGE: 413,
+    UNSUPPORTED_TYPE: 415,
+    TOO_MANY_FILES: 413,
+    QUOTA_EXCEEDED: 413,
+    RATE_LIMITED: 429,
+    TOO_MANY_FIELDS: 413,
+    FIELD_TOO_LARGE: 413,
+    UNEXPECTED_FIELD: 400,
+    NO_FILES: 400,
+    NO_VALID_FILES: 400,
+    MALFORMED_REQUEST: 400,
+    UPLOAD_INCOMPLETE: 409,
+    NOT_FOUND: 404,
+    UNAUTHORIZED: 401,
+    FORBIDDEN: 403,
+    INTERNAL_ERROR: 500,
+};
+
+export const describeRejections = (rejected: RejectedFile[]): string =>
+    rejected.map(file => `${file.originalName} - ${file.reason}`).join(', ');
+
+// Builds a contract-conformant failure for a request that was refused as a whole
+export const uploadFailure = (
+    code: UploadErrorCode,
+    message: string,
+    rejected: RejectedFile[] = []
+): UploadResponse => ({
+    version: UPLOAD_CONTRACT_VERSION,
+    success: false,
+    message,
+    code,
+    rejected,
+    error: rejected.length > 0 ? describeRejections(rejected) : message,
+});
+
+export class UploadContractError extends Error {
+    constructor(readonly issues: z.ZodIssue[]) {
+        super(`Upload response does not match contract v${UPLOAD_CONTRACT_VERSION}: ${describeIssues(issues)}`);
+    }
+}
+
+// Validates an upload response received over the wire
+export const parseUploadResponse = (data: unknown): UploadResponse => {
+    const result = uploadResponseSchema.safeParse(data);
+    if (!result.success) {
+        throw new UploadContractError(result.error.issues);
+    }
+    return result.data;
+};
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+export const storageUsageSchema = z.object({
+    // Bytes of the originals the principal uploaded first, duplicates count once
+    usedBytes: z.number(),
+    // Held by uploads that are still in flight
+    reservedBytes: z.number(),
+    // null when the principal has no quota
+    quotaBytes: z.number().nullable(),
+    remainingBytes: z.number().nullable(),
+    imageCount: z.number(),
+});
+
+export const rateLimitStatusSchema = z.object({
+    limit: z.number(),
+    remaining: z.number(),
+    resetAt: z.string(),
+});
+
+// GET /api/usage
+export const usageResponseSchema = z.object({
+    success: z.literal(true),
+    usage: storageUsageSchema,
+    // Upload requests left in the current window
+    rateLimit: rateLimitStatusSchema,
+});
+
+export type StorageUsage = z.infer<typeof storageUsageSchema>;
+export type RateLimitStatus = z.infer<typeof rateLimitStatusSchema>;
+export type UsageResponse = z.infer<typeof usageResponseSchema>;
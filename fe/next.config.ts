@@ -1,19 +1,34 @@
 import type { NextConfig } from "next";
+import { publicBackendUrl } from "@next-page-builder/contracts";
+import { getConfig } from "./src/lib/config";
+
+// Validated here so a bad config stops `next dev`/`next start` right away
+const appConfig = getConfig();
+
+// Originals and variants are served from the backend's /assets at the address browsers
+// use (backend.publicUrl), anything else configured in images.remoteOrigins is allowed as a whole
+const toRemotePattern = (origin: string, pathname: string) => {
+  const url = new URL(origin);
+  return {
+    protocol: url.protocol.replace(':', '') as 'http' | 'https',
+    hostname: url.hostname,
+    port: url.port,
+    pathname: `${url.pathname.replace(/\/+$/, '')}${pathname}`,
+  };
+};
 
 const nextConfig: NextConfig = {
-  /* config options here */
   reactStrictMode: true,
   images: {
-    domains: ['localhost'], // Add your backend domain here
     remotePatterns: [
-      {
-        protocol: 'http',
-        hostname: 'localhost',
-        port: '8080',
-        pathname: '/uploads/**',
-      },
+      toRemotePattern(publicBackendUrl(appConfig), '/assets/**'),
+      ...appConfig.images.remoteOrigins.map(origin => toRemotePattern(origin, '/**')),
     ],
   },
+  env: {
+    // The upload page switches to resumable uploads above the backend's single-request limit
+    UPLOAD_MAX_FILE_SIZE: String(appConfig.uploads.maxFileSize),
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,147 @@
+import Image from 'next/image';
+import { Block, BlockStyles } from '@next-page-builder/contracts';
+import { createVariantLoader } from '@/lib/images/variantLoader';
+import { PageAssets } from '@/lib/pages/pageAssets';
+import styles from './BlockRenderer.module.css';
+
+interface BlockRendererProps {
+  blocks: Block[];
+  assets: PageAssets;
+  // Rich text is sanitised by the backend on save, the editor previews unsaved text through this
+  sanitizeHtml?: (html: string) => string;
+  // Published pages leave out images that are gone, the editor shows a placeholder for them
+  hideMissingImages?: boolean;
+}
+
+const SPACING: Record<string, string> = { none: '0', xs: '0.25rem', sm: '0.5rem', md: '1rem', lg: '2rem', xl: '4rem' };
+const WIDTHS: Record<string, string> = { sm: '640px', md: '768px', lg: '1024px', xl: '1280px', full: 'none' };
+const IMAGE_WIDTHS: Record<string, number> = { small: 320, medium: 640, large: 960 };
+
+// Design tokens onto CSS, see blockStylesSchema
+const toStyle = (blockStyles: BlockStyles = {}): React.CSSProperties => ({
+  paddingLeft: blockStyles.paddingX && SPACING[blockStyles.paddingX],
+  paddingRight: blockStyles.paddingX && SPACING[blockStyles.paddingX],
+  paddingTop: blockStyles.paddingY && SPACING[blockStyles.paddingY],
+  paddingBottom: blockStyles.paddingY && SPACING[blockStyles.paddingY],
+  marginTop: blockStyles.marginY && SPACING[blockStyles.marginY],
+  marginBottom: blockStyles.marginY && SPACING[blockStyles.marginY],
+  background: blockStyles.background,
+  color: blockStyles.textColor,
+  textAlign: blockStyles.textAlign,
+  maxWidth: blockStyles.maxWidth && WIDTHS[blockStyles.maxWidth],
+  marginLeft: blockStyles.maxWidth && 'auto',
+  marginRight: blockStyles.maxWidth && 'auto',
+  borderRadius: blockStyles.borderRadius && SPACING[blockStyles.borderRadius],
+});
+
+interface AssetImageProps {
+  asset: PageAssets[string];
+  alt?: string;
+  size?: string;
+}
+
+function AssetImage({ asset, alt, size = 'large' }: AssetImageProps) {
+  if (!asset) {
+    return <div className={styles.missingImage}>{asset === null ? 'Image not available' : 'Loading image…'}</div>;
+  }
+  const width = asset.width || 1200;
+  const height = asset.height || 800;
+  const maxWidth = IMAGE_WIDTHS[size];
+  return (
+    <Image
+      src={asset.url}
+      loader={createVariantLoader(asset.variants)}
+      alt={alt ?? asset.altText ?? ''}
+      width={width}
+      height={height}
+      sizes={maxWidth ? `(max-width: ${maxWidth}px) 100vw, ${maxWidth}px` : '100vw'}
+      className={styles.image}
+      style={{ maxWidth: maxWidth ? `${maxWidth}px` : undefined }}
+    />
+  );
+}
+
+function RenderedBlock({ block, ...options }: { block: Block } & Omit<BlockRendererProps, 'blocks'>) {
+  const { assets, sanitizeHtml, hideMissingImages } = options;
+  const style = toStyle(block.styles);
+  const children = (items: Block[]) => items.map(child => <RenderedBlock key={child.id} block={child} {...options} />);
+
+  switch (block.type) {
+    case 'section':
+      return <section id={block.props.anchor} className={styles.section} style={style}>{children(block.children)}</section>;
+    case 'columns': {
+      const widths = block.props.widths || block.children.map(() => 1);
+      return (
+        <div
+          className={`${styles.columns} ${block.props.stackOnMobile === false ? '' : styles.stackOnMobile}`}
+          style={{
+            ...style,
+            gap: SPACING[block.props.gap || 'md'],
+            gridTemplateColumns: widths.map(width => `${width}fr`).join(' '),
+          }}
+        >
+          {block.children.map(child => (
+            <div key={child.id} className={styles.column}>{children([child])}</div>
+          ))}
+        </div>
+      );
+    }
+    case 'heading': {
+      const Heading = `h${block.props.level}` as 'h1';
+      return <Heading className={styles.heading} style={style}>{block.props.text}</Heading>;
+    }
+    case 'richText': {
+      const html = sanitizeHtml ? sanitizeHtml(block.props.html) : block.props.html;
+      return <div className={styles.richText} style={style} dangerouslySetInnerHTML={{ __html: html }} />;
+    }
+    case 'image': {
+      const asset = block.props.assetId ? assets[block.props.assetId] : null;
+      if (!asset && hideMissingImages) {
+        return null;
+      }
+      const image = <AssetImage asset={asset} alt={block.props.alt} size={block.props.size} />;
+      return (
+        <figure className={styles.figure} style={style}>
+          {block.props.link ? <a href={block.props.link}>{image}</a> : image}
+          {block.props.caption && <figcaption className={styles.caption}>{block.props.caption}</figcaption>}
+        </figure>
+      );
+    }
+    case 'button':
+      return (
+        <div style={style}>
+          <a
+            href={block.props.href}
+            className={`${styles.button} ${styles[block.props.variant || 'primary']}`}
+            target={block.props.openInNewTab ? '_blank' : undefined}
+            rel={block.props.openInNewTab ? 'noopener noreferrer' : undefined}
+          >
+            {block.props.label}
+          </a>
+        </div>
+      );
+    case 'gallery':
+      return (
+        <div
+          className={styles.gallery}
+          style={{ ...style, gridTemplateColumns: `repeat(${block.props.columns || 3}, minmax(0, 1fr))` }}
+        >
+          {block.props.items.filter(item => assets[item.assetId] || !hideMissingImages).map((item, index) => (
+            <figure key={`${item.assetId}-${index}`} className={styles.figure}>
+              <AssetImage asset={assets[item.assetId]} alt={item.alt} size="medium" />
+              {item.caption && <figcaption className={styles.caption}>{item.caption}</figcaption>}
+            </figure>
+          ))}
+        </div>
+      );
+  }
+}
+
+// Renders a page's blocks, used by the editor preview and the published pages
+export function BlockRenderer({ blocks, ...options }: BlockRendererProps) {
+  return (
+    <div className={styles.page}>
+      {blocks.map(block => <RenderedBlock key={block.id} block={block} {...options} />)}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import { parseUploadResponse } from '@next-page-builder/contracts';
+import { useFileDrop } from '@/lib/dnd/useFileDrop';
+import { useImageList } from '@/lib/images/useImageList';
+import { createVariantLoader } from '@/lib/images/variantLoader';
+import { PageAsset } from '@/lib/pages/pageAssets';
+import { postFormWithProgress } from '@/lib/uploads/xhrUpload';
+import styles from './AssetPicker.module.css';
+
+const PAGE_SIZE = 36;
+
+interface AssetPickerProps {
+  // Gallery blocks take several images, everything else one
+  multiple?: boolean;
+  // Viewers can pick but not upload
+  canUpload?: boolean;
+  onSelect: (assets: PageAsset[]) => void;
+  onClose: () => void;
+}
+
+// Chooses images from the uploaded library. New files dropped or selected here are
+// uploaded through /api/upload-multipart and come back already picked.
+export function AssetPicker({ multiple = false, canUpload = true, onSelect, onClose }: AssetPickerProps) {
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<PageAsset[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const library = useImageList({ limit: PAGE_SIZE, sort: 'date', order: 'desc', q: query, mimetype: 'image/*' });
+  const { hasMore, loadMore, reload } = library;
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  useEffect(() => {
+    const closeOnEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', closeOnEscape);
+    return () => window.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  const toggle = (asset: PageAsset) => {
+    if (!multiple) {
+      setSelected([asset]);
+      return;
+    }
+    setSelected(prev => (prev.some(item => item.id === asset.id)
+      ? prev.filter(item => item.id !== asset.id)
+      : [...prev, asset]));
+  };
+
+  const upload = async (files: FileList) => {
+    const formData = new FormData();
+    Array.from(multiple ? files : [files[0]]).forEach(file => formData.append('images', file));
+    setMessage(null);
+    setProgress(0);
+    try {
+      const { body } = await postFormWithProgress<unknown>('/api/upload-multipart', formData, {
+        onProgress: (sent, total) => setProgress(total > 0 ? sent / total : 0),
+      });
+      const result = parseUploadResponse(body);
+      const uploaded = result.files || [];
+      if (uploaded.length > 0) {
+        setSelected(prev => (multiple ? [...prev.filter(item => !uploaded.some(file => file.id === item.id)), ...uploaded] : [uploaded[0]]));
+        reload();
+      }
+      if (result.rejected && result.rejected.length > 0) {
+        setMessage(result.rejected.map(item => `${item.originalName}: ${item.reason}`).join('; '));
+      } else if (!result.success) {
+        setMessage(result.message);
+      }
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Upload failed');
+    } finally {
+      setProgress(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const fileDrop = useFileDrop(upload, { disabled: !canUpload || progress !== null });
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div
+        className={`${styles.dialog} ${fileDrop.isOver ? styles.dragOver : ''}`}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="asset-picker-title"
+        onClick={(event) => event.stopPropagation()}
+        {...fileDrop.dropProps}
+      >
+        <div className={styles.header}>
+          <h2 id="asset-picker-title">{multiple ? 'Choose images' : 'Choose an image'}</h2>
+          <input
+            type="search"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search by filename"
+            className={styles.search}
+            autoFocus
+          />
+          {canUpload && (
+            <>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={progress !== null}
+                className={styles.button}
+              >
+                {progress !== null ? `Uploading ${Math.round(progress * 100)}%` : 'Upload'}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="image/*"
+                multiple={multiple}
+                onChange={(event) => event.target.files && event.target.files.length > 0 && upload(event.target.files)}
+                className={styles.hiddenInput}
+              />
+            </>
+          )}
+        </div>
+        {canUpload && <p className={styles.hint}>Drop image files anywhere in this window to upload them.</p>}
+        {message && <p className={styles.error}>{message}</p>}
+
+        <div className={styles.grid}>
+          {library.images.map(image => {
+            const isSelected = selected.some(item => item.id === image.id);
+            return (
+              <button
+                key={image.id}
+                className={`${styles.card} ${isSelected ? styles.selected : ''}`}
+                onClick={() => toggle(image)}
+                onDoubleClick={() => !multiple && onSelect([image])}
+                aria-pressed={isSelected}
+                title={image.originalName}
+              >
+                <span className={styles.thumb}>
+                  <Image
+                    src={image.url}
+                    loader={createVariantLoader(image.variants)}
+                    alt={image.altText || ''}
+                    fill
+                    sizes="160px"
+                    style={{ objectFit: 'cover' }}
+                  />
+                </span>
+                <span className={styles.name}>{image.originalName}</span>
+              </button>
+            );
+          })}
+          <div ref={sentinelRef} />
+        </div>
+        {library.error && <p className={styles.error}>{library.error}</p>}
+        {library.loading && <p className={styles.status}>Loading…</p>}
+        {!library.loading && !library.error && library.images.length === 0 && (
+          <p className={styles.status}>{query ? 'No images match your search' : 'No images yet, upload one'}</p>
+        )}
+
+        <div className={styles.actions}>
+          <span className={styles.status}>{selected.length > 0 && `${selected.length} selected`}</span>
+          <button onClick={onClose} className={styles.button}>Cancel</button>
+          <button
+            onClick={() => onSelect(selected)}
+            disabled={selected.length === 0}
+            className={`${styles.button} ${styles.primary}`}
+          >
+            {multiple ? 'Add images' : 'Use image'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
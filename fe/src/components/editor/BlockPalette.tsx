@@ -0,0 +1,31 @@
+import { BLOCK_TYPES, BlockType } from '@next-page-builder/contracts';
+import { dragSourceProps } from '@/lib/dnd/dragPayload';
+import { BLOCK_CATALOG } from '@/lib/pages/blockCatalog';
+import { BlockDrag } from './EditorCanvas';
+import styles from './BlockPalette.module.css';
+
+interface BlockPaletteProps {
+  // Clicking instead of dragging adds the block after the selection
+  onAdd: (type: BlockType) => void;
+  disabled?: boolean;
+}
+
+export function BlockPalette({ onAdd, disabled }: BlockPaletteProps) {
+  return (
+    <ul className={styles.palette}>
+      {BLOCK_TYPES.map(type => (
+        <li key={type}>
+          <button
+            className={styles.item}
+            onClick={() => onAdd(type)}
+            disabled={disabled}
+            {...dragSourceProps<BlockDrag>({ kind: 'new', blockType: type }, { disabled })}
+          >
+            <span className={styles.label}>{BLOCK_CATALOG[type].label}</span>
+            <span className={styles.description}>{BLOCK_CATALOG[type].description}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,404 @@
+import { useState } from 'react';
+import Image from 'next/image';
+import {
+  BUTTON_VARIANTS,
+  Block,
+  BlockStyles,
+  CONTENT_WIDTHS,
+  IMAGE_BLOCK_SIZES,
+  MAX_COLUMNS,
+  MAX_GALLERY_ITEMS,
+  PageContent,
+  SPACING_SIZES,
+  TEXT_ALIGNMENTS,
+} from '@next-page-builder/contracts';
+import { createVariantLoader } from '@/lib/images/variantLoader';
+import { BLOCK_CATALOG } from '@/lib/pages/blockCatalog';
+import { PageAsset, PageAssets } from '@/lib/pages/pageAssets';
+import { AssetPicker } from './AssetPicker';
+import styles from './BlockSettings.module.css';
+
+// Changes are functions of the current value so quick edits never overwrite each
+// other. `group` merges consecutive edits of one field into a single undo step.
+export type BlockChange = (transform: (block: Block) => Block, group: string) => void;
+export type PageChange = (transform: (page: PageContent) => PageContent, group: string) => void;
+
+// Optional fields are left out rather than stored empty
+const optional = (value: string) => (value.trim() === '' ? undefined : value);
+
+function TextField({ label, value, onChange, multiline, placeholder, disabled }: {
+  label: string;
+  value: string | undefined;
+  onChange: (value: string) => void;
+  multiline?: boolean;
+  placeholder?: string;
+  disabled?: boolean;
+}) {
+  return (
+    <label className={styles.field}>
+      {label}
+      {multiline ? (
+        <textarea value={value || ''} onChange={(event) => onChange(event.target.value)} rows={6} placeholder={placeholder} disabled={disabled} />
+      ) : (
+        <input value={value || ''} onChange={(event) => onChange(event.target.value)} placeholder={placeholder} disabled={disabled} />
+      )}
+    </label>
+  );
+}
+
+function SelectField<T extends string | number>({ label, value, options, onChange, emptyLabel, disabled }: {
+  label: string;
+  value: T | undefined;
+  options: readonly T[];
+  onChange: (value: T | undefined) => void;
+  // Offers "no value" under this label
+  emptyLabel?: string;
+  disabled?: boolean;
+}) {
+  return (
+    <label className={styles.field}>
+      {label}
+      <select
+        value={value === undefined ? '' : String(value)}
+        onChange={(event) => onChange(options.find(option => String(option) === event.target.value))}
+        disabled={disabled}
+      >
+        {emptyLabel !== undefined && <option value="">{emptyLabel}</option>}
+        {options.map(option => <option key={option} value={option}>{option}</option>)}
+      </select>
+    </label>
+  );
+}
+
+function CheckboxField({ label, checked, onChange, disabled }: {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <label className={styles.checkbox}>
+      <input type="checkbox" checked={checked} onChange={(event) => onChange(event.target.checked)} disabled={disabled} />
+      {label}
+    </label>
+  );
+}
+
+function ColorField({ label, value, onChange, disabled }: {
+  label: string;
+  value: string | undefined;
+  onChange: (value: string | undefined) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <label className={styles.field}>
+      {label}
+      <span className={styles.colorRow}>
+        <input
+          type="color"
+          value={value && /^#[0-9a-fA-F]{6}$/.test(value) ? value : '#ffffff'}
+          onChange={(event) => onChange(event.target.value)}
+          disabled={disabled}
+        />
+        <input value={value || ''} onChange={(event) => onChange(optional(event.target.value))} placeholder="Default" disabled={disabled} />
+      </span>
+    </label>
+  );
+}
+
+function AssetThumb({ asset }: { asset: PageAsset | null | undefined }) {
+  if (!asset) {
+    return <span className={styles.thumbMissing}>{asset === null ? 'Not available' : 'None'}</span>;
+  }
+  return (
+    <span className={styles.thumb}>
+      <Image src={asset.url} loader={createVariantLoader(asset.variants)} alt="" fill sizes="96px" style={{ objectFit: 'cover' }} />
+    </span>
+  );
+}
+
+interface PickerRequest {
+  multiple: boolean;
+  onPicked: (assets: PageAsset[]) => void;
+}
+
+interface SettingsContext {
+  assets: PageAssets;
+  readOnly?: boolean;
+  pickAssets: (request: PickerRequest) => void;
+}
+
+function StyleFields({ block, onChange, readOnly }: { block: Block; onChange: BlockChange; readOnly?: boolean }) {
+  const current = block.styles || {};
+  const set = <K extends keyof BlockStyles>(key: K) => (value: BlockStyles[K] | undefined) =>
+    onChange(target => {
+      const next = { ...target.styles, [key]: value };
+      if (value === undefined) delete next[key];
+      return { ...target, styles: Object.keys(next).length > 0 ? next : undefined } as Block;
+    }, `${block.id}.styles.${key}`);
+
+  return (
+    <fieldset className={styles.group}>
+      <legend>Style</legend>
+      <SelectField label="Padding (sides)" value={current.paddingX} options={SPACING_SIZES} onChange={set('paddingX')} emptyLabel="Default" disabled={readOnly} />
+      <SelectField label="Padding (top and bottom)" value={current.paddingY} options={SPACING_SIZES} onChange={set('paddingY')} emptyLabel="Default" disabled={readOnly} />
+      <SelectField label="Margin (top and bottom)" value={current.marginY} options={SPACING_SIZES} onChange={set('marginY')} emptyLabel="Default" disabled={readOnly} />
+      <SelectField label="Max width" value={current.maxWidth} options={CONTENT_WIDTHS} onChange={set('maxWidth')} emptyLabel="Default" disabled={readOnly} />
+      <SelectField label="Text align" value={current.textAlign} options={TEXT_ALIGNMENTS} onChange={set('textAlign')} emptyLabel="Default" disabled={readOnly} />
+      <SelectField label="Corner radius" value={current.borderRadius} options={SPACING_SIZES} onChange={set('borderRadius')} emptyLabel="Default" disabled={readOnly} />
+      <ColorField label="Background" value={current.background} onChange={set('background')} disabled={readOnly} />
+      <ColorField label="Text color" value={current.textColor} onChange={set('textColor')} disabled={readOnly} />
+    </fieldset>
+  );
+}
+
+function PropFields({ block, onChange, assets, readOnly, pickAssets }: { block: Block; onChange: BlockChange } & SettingsContext) {
+  // Merges `patch` into the props of whatever the block is by then
+  const setProps = (patch: Record<string, unknown>) => onChange(
+    target => ({ ...target, props: { ...target.props, ...patch } } as Block),
+    `${block.id}.props.${Object.keys(patch).join(',')}`
+  );
+
+  switch (block.type) {
+    case 'section':
+      return (
+        <TextField
+          label="Anchor"
+          value={block.props.anchor}
+          onChange={(value) => setProps({ anchor: optional(value) })}
+          placeholder="e.g. pricing, for links to #pricing"
+          disabled={readOnly}
+        />
+      );
+    case 'columns': {
+      const widths = block.props.widths || block.children.map(() => 1);
+      return (
+        <>
+          <SelectField label="Gap" value={block.props.gap} options={SPACING_SIZES} onChange={(gap) => setProps({ gap })} emptyLabel="Default" disabled={readOnly} />
+          <div className={styles.field}>
+            Relative widths
+            <span className={styles.widths}>
+              {widths.map((width, index) => (
+                <input
+                  key={index}
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={width}
+                  onChange={(event) => setProps({ widths: widths.map((item, i) => (i === index ? Number(event.target.value) || 1 : item)) })}
+                  aria-label={`Width of column ${index + 1}`}
+                  disabled={readOnly}
+                />
+              ))}
+            </span>
+          </div>
+          {block.props.widths && (
+            <button onClick={() => setProps({ widths: undefined })} className={styles.button} disabled={readOnly}>Equal widths</button>
+          )}
+          <CheckboxField
+            label="Stack on narrow screens"
+            checked={block.props.stackOnMobile !== false}
+            onChange={(checked) => setProps({ stackOnMobile: checked ? undefined : false })}
+            disabled={readOnly}
+          />
+          <p className={styles.hint}>Up to {MAX_COLUMNS} columns, drop blocks between the columns to add more.</p>
+        </>
+      );
+    }
+    case 'heading':
+      return (
+        <>
+          <TextField label="Text" value={block.props.text} onChange={(text) => setProps({ text })} disabled={readOnly} />
+          <SelectField label="Level" value={block.props.level} options={[1, 2, 3, 4, 5, 6]} onChange={(level) => setProps({ level: level || 2 })} disabled={readOnly} />
+        </>
+      );
+    case 'richText':
+      return (
+        <>
+          <TextField label="HTML" value={block.props.html} onChange={(html) => setProps({ html })} multiline disabled={readOnly} />
+          <p className={styles.hint}>Paragraphs, lists, quotes, bold, italic and links. Anything else is removed when saving.</p>
+        </>
+      );
+    case 'image':
+      return (
+        <>
+          <div className={styles.assetRow}>
+            <AssetThumb asset={block.props.assetId ? assets[block.props.assetId] : undefined} />
+            <button
+              onClick={() => pickAssets({ multiple: false, onPicked: ([asset]) => setProps({ assetId: asset.id }) })}
+              className={styles.button}
+              disabled={readOnly}
+            >
+              {block.props.assetId ? 'Replace image' : 'Choose image'}
+            </button>
+          </div>
+          <TextField
+            label="Alt text"
+            value={block.props.alt}
+            onChange={(value) => setProps({ alt: optional(value) })}
+            placeholder={(block.props.assetId && assets[block.props.assetId]?.altText) || 'From the media library'}
+            disabled={readOnly}
+          />
+          <TextField label="Caption" value={block.props.caption} onChange={(value) => setProps({ caption: optional(value) })} disabled={readOnly} />
+          <TextField label="Link" value={block.props.link} onChange={(value) => setProps({ link: optional(value) })} placeholder="/about or https://…" disabled={readOnly} />
+          <SelectField label="Size" value={block.props.size} options={IMAGE_BLOCK_SIZES} onChange={(size) => setProps({ size })} emptyLabel="Default" disabled={readOnly} />
+        </>
+      );
+    case 'button':
+      return (
+        <>
+          <TextField label="Label" value={block.props.label} onChange={(label) => setProps({ label })} disabled={readOnly} />
+          <TextField label="Link" value={block.props.href} onChange={(href) => setProps({ href })} placeholder="/contact, #anchor or https://…" disabled={readOnly} />
+          <SelectField label="Variant" value={block.props.variant} options={BUTTON_VARIANTS} onChange={(variant) => setProps({ variant })} emptyLabel="Default" disabled={readOnly} />
+          <CheckboxField
+            label="Open in a new tab"
+            checked={Boolean(block.props.openInNewTab)}
+            onChange={(checked) => setProps({ openInNewTab: checked || undefined })}
+            disabled={readOnly}
+          />
+        </>
+      );
+    case 'gallery': {
+      const { items } = block.props;
+      const setItem = (index: number, patch: Record<string, string | undefined>) => onChange(target => (target.type === 'gallery'
+        ? { ...target, props: { ...target.props, items: target.props.items.map((item, i) => (i === index ? { ...item, ...patch } : item)) } }
+        : target), `${block.id}.items.${index}.${Object.keys(patch).join(',')}`);
+      const moveItem = (index: number, offset: number) => {
+        const next = [...items];
+        const [item] = next.splice(index, 1);
+        next.splice(index + offset, 0, item);
+        setProps({ items: next });
+      };
+      return (
+        <>
+          <ul className={styles.galleryItems}>
+            {items.map((item, index) => (
+              <li key={`${item.assetId}-${index}`} className={styles.galleryItem}>
+                <AssetThumb asset={assets[item.assetId]} />
+                <div className={styles.galleryFields}>
+                  <TextField label="Alt text" value={item.alt} onChange={(value) => setItem(index, { alt: optional(value) })} disabled={readOnly} />
+                  <TextField label="Caption" value={item.caption} onChange={(value) => setItem(index, { caption: optional(value) })} disabled={readOnly} />
+                  <span className={styles.galleryActions}>
+                    <button onClick={() => moveItem(index, -1)} disabled={readOnly || index === 0} className={styles.button}>↑</button>
+                    <button onClick={() => moveItem(index, 1)} disabled={readOnly || index === items.length - 1} className={styles.button}>↓</button>
+                    <button onClick={() => setProps({ items: items.filter((_, i) => i !== index) })} disabled={readOnly} className={styles.button}>Remove</button>
+                  </span>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => pickAssets({
+              multiple: true,
+              onPicked: (picked) => setProps({ items: [...items, ...picked.map(asset => ({ assetId: asset.id }))].slice(0, MAX_GALLERY_ITEMS) }),
+            })}
+            disabled={readOnly || items.length >= MAX_GALLERY_ITEMS}
+            className={styles.button}
+          >
+            Add images
+          </button>
+          <SelectField label="Columns" value={block.props.columns} options={[1, 2, 3, 4, 5, 6]} onChange={(columns) => setProps({ columns })} emptyLabel="Default (3)" disabled={readOnly} />
+        </>
+      );
+    }
+  }
+}
+
+interface BlockSettingsProps {
+  block: Block;
+  onChange: BlockChange;
+  assets: PageAssets;
+  onAssetsPicked: (assets: PageAsset[]) => void;
+  readOnly?: boolean;
+  canUpload?: boolean;
+}
+
+// Side panel for the selected block: its props, then its style tokens
+export function BlockSettings({ block, onChange, assets, onAssetsPicked, readOnly, canUpload }: BlockSettingsProps) {
+  const [picker, setPicker] = useState<PickerRequest | null>(null);
+
+  return (
+    <div className={styles.panel}>
+      <h2 className={styles.title}>{BLOCK_CATALOG[block.type].label}</h2>
+      <fieldset className={styles.group}>
+        <legend>Content</legend>
+        <PropFields block={block} onChange={onChange} assets={assets} readOnly={readOnly} pickAssets={setPicker} />
+      </fieldset>
+      <StyleFields block={block} onChange={onChange} readOnly={readOnly} />
+      {picker && (
+        <AssetPicker
+          multiple={picker.multiple}
+          canUpload={canUpload}
+          onClose={() => setPicker(null)}
+          onSelect={(picked) => {
+            setPicker(null);
+            onAssetsPicked(picked);
+            picker.onPicked(picked);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+interface PageSettingsProps {
+  page: PageContent;
+  onChange: PageChange;
+  assets: PageAssets;
+  onAssetsPicked: (assets: PageAsset[]) => void;
+  readOnly?: boolean;
+  canUpload?: boolean;
+}
+
+// Shown while no block is selected: title, address and what search engines and link previews see
+export function PageSettings({ page, onChange, assets, onAssetsPicked, readOnly, canUpload }: PageSettingsProps) {
+  const [picking, setPicking] = useState(false);
+  const setSeo = (patch: Partial<PageContent['seo']>) => onChange(
+    target => ({ ...target, seo: { ...target.seo, ...patch } }),
+    `seo.${Object.keys(patch).join(',')}`
+  );
+
+  return (
+    <div className={styles.panel}>
+      <h2 className={styles.title}>Page</h2>
+      <fieldset className={styles.group}>
+        <legend>General</legend>
+        <TextField label="Title" value={page.title} onChange={(title) => onChange(target => ({ ...target, title }), 'title')} disabled={readOnly} />
+        <TextField label="Address" value={page.slug} onChange={(slug) => onChange(target => ({ ...target, slug }), 'slug')} placeholder="e.g. about or blog/launch-day" disabled={readOnly} />
+      </fieldset>
+      <fieldset className={styles.group}>
+        <legend>Search and sharing</legend>
+        <TextField label="SEO title" value={page.seo.title} onChange={(value) => setSeo({ title: optional(value) })} placeholder={page.title} disabled={readOnly} />
+        <TextField label="Description" value={page.seo.description} onChange={(value) => setSeo({ description: optional(value) })} multiline disabled={readOnly} />
+        <TextField label="Canonical URL" value={page.seo.canonicalUrl} onChange={(value) => setSeo({ canonicalUrl: optional(value) })} placeholder="https://…" disabled={readOnly} />
+        <div className={styles.field}>
+          Social image
+          <span className={styles.assetRow}>
+            <AssetThumb asset={page.seo.ogImageAssetId ? assets[page.seo.ogImageAssetId] : undefined} />
+            <button onClick={() => setPicking(true)} className={styles.button} disabled={readOnly}>Choose</button>
+            {page.seo.ogImageAssetId && (
+              <button onClick={() => setSeo({ ogImageAssetId: undefined })} className={styles.button} disabled={readOnly}>Remove</button>
+            )}
+          </span>
+        </div>
+        <CheckboxField
+          label="Hide from search engines"
+          checked={Boolean(page.seo.noIndex)}
+          onChange={(checked) => setSeo({ noIndex: checked || undefined })}
+          disabled={readOnly}
+        />
+      </fieldset>
+      {picking && (
+        <AssetPicker
+          canUpload={canUpload}
+          onClose={() => setPicking(false)}
+          onSelect={(picked) => {
+            setPicking(false);
+            onAssetsPicked(picked);
+            setSeo({ ogImageAssetId: picked[0].id });
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useCallback } from 'react';
+import { Block, BlockType, isContainerBlock } from '@next-page-builder/contracts';
+import { dragSourceProps, readDragPayload } from '@/lib/dnd/dragPayload';
+import { useDropTarget } from '@/lib/dnd/useDropTarget';
+import { BLOCK_CATALOG, describeBlock } from '@/lib/pages/blockCatalog';
+import { BlockLocation } from '@/lib/pages/blockTree';
+import styles from './EditorCanvas.module.css';
+
+// What is being dragged: a new block from the palette or one already on the page
+export type BlockDrag =
+  | { kind: 'new'; blockType: BlockType }
+  | { kind: 'move'; id: string };
+
+export interface EditorCanvasProps {
+  blocks: Block[];
+  selectedId: string | null;
+  // Blocks with a problem that stops the page from saving
+  invalidIds: Set<string>;
+  readOnly?: boolean;
+  onSelect: (id: string | null) => void;
+  // E.g. no block inside itself and no seventh column
+  canDrop: (drag: BlockDrag, location: BlockLocation) => boolean;
+  onDrop: (drag: BlockDrag, location: BlockLocation) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onDuplicate: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+type SharedProps = Omit<EditorCanvasProps, 'blocks'>;
+
+interface DropSlotProps extends Pick<SharedProps, 'canDrop' | 'onDrop' | 'readOnly'> {
+  location: BlockLocation;
+  // Shown when the list it belongs to is empty
+  label?: string;
+}
+
+function DropSlot({ location, label, canDrop, onDrop, readOnly }: DropSlotProps) {
+  const { parentId, index } = location;
+  const accept = useCallback((event: React.DragEvent) => {
+    const drag = readDragPayload<BlockDrag>(event);
+    return drag && canDrop(drag, { parentId, index }) ? drag : null;
+  }, [canDrop, parentId, index]);
+  const handleDrop = useCallback((drag: BlockDrag) => onDrop(drag, { parentId, index }), [onDrop, parentId, index]);
+  const { isOver, dropProps } = useDropTarget({ accept, onDrop: handleDrop, disabled: readOnly });
+
+  return (
+    <div className={`${styles.slot} ${label ? styles.emptySlot : ''} ${isOver ? styles.slotOver : ''}`} {...dropProps}>
+      {label}
+    </div>
+  );
+}
+
+interface BlockListProps extends SharedProps {
+  blocks: Block[];
+  parentId: string | null;
+  horizontal?: boolean;
+}
+
+function BlockList({ blocks, parentId, horizontal, ...shared }: BlockListProps) {
+  const slot = (index: number, label?: string) => (
+    <DropSlot
+      location={{ parentId, index }}
+      label={label}
+      canDrop={shared.canDrop}
+      onDrop={shared.onDrop}
+      readOnly={shared.readOnly}
+    />
+  );
+
+  if (blocks.length === 0) {
+    return <div className={styles.list}>{slot(0, parentId ? 'Drop blocks here' : 'Drag blocks from the palette to start')}</div>;
+  }
+  return (
+    <div className={`${styles.list} ${horizontal ? styles.horizontal : ''}`}>
+      {blocks.map((block, index) => (
+        <div key={block.id} className={styles.item}>
+          {slot(index)}
+          <CanvasBlock block={block} position={index} siblings={blocks.length} {...shared} />
+        </div>
+      ))}
+      {slot(blocks.length)}
+    </div>
+  );
+}
+
+interface CanvasBlockProps extends SharedProps {
+  block: Block;
+  position: number;
+  siblings: number;
+}
+
+function CanvasBlock({ block, position, siblings, ...shared }: CanvasBlockProps) {
+  const { selectedId, invalidIds, readOnly, onSelect, onMove, onDuplicate, onRemove } = shared;
+  const selected = block.id === selectedId;
+  const classes = [
+    styles.block,
+    isContainerBlock(block) ? styles.container : '',
+    selected ? styles.selected : '',
+    invalidIds.has(block.id) ? styles.invalid : '',
+  ].join(' ');
+  // Buttons inside the block act on it without selecting it
+  const action = (run: () => void) => (event: React.MouseEvent) => {
+    event.stopPropagation();
+    run();
+  };
+
+  return (
+    <div
+      className={classes}
+      onClick={(event) => {
+        event.stopPropagation();
+        onSelect(block.id);
+      }}
+      {...dragSourceProps<BlockDrag>({ kind: 'move', id: block.id }, { disabled: readOnly })}
+    >
+      <div className={styles.blockHeader}>
+        <span className={styles.blockType}>{BLOCK_CATALOG[block.type].label}</span>
+        <span className={styles.blockSummary}>{describeBlock(block)}</span>
+        {!readOnly && (
+          <span className={styles.blockActions}>
+            <button onClick={action(() => onMove(block.id, -1))} disabled={position === 0} aria-label="Move up">↑</button>
+            <button onClick={action(() => onMove(block.id, 1))} disabled={position === siblings - 1} aria-label="Move down">↓</button>
+            <button onClick={action(() => onDuplicate(block.id))} aria-label="Duplicate">⧉</button>
+            <button onClick={action(() => onRemove(block.id))} aria-label="Remove">✕</button>
+          </span>
+        )}
+      </div>
+      {isContainerBlock(block) && (
+        <BlockList
+          blocks={block.children}
+          parentId={block.id}
+          horizontal={block.type === 'columns'}
+          {...shared}
+        />
+      )}
+    </div>
+  );
+}
+
+// The page as a tree of blocks. Blocks are dragged between the slots around them,
+// containers take blocks in their own slots, and clicking one selects it for the
+// settings panel.
+export function EditorCanvas({ blocks, ...shared }: EditorCanvasProps) {
+  return (
+    <div className={styles.canvas} onClick={() => shared.onSelect(null)}>
+      <BlockList blocks={blocks} parentId={null} {...shared} />
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { ImageSummary } from '@next-page-builder/contracts';
+import { MetadataDraft, fromDraft, toDraft } from '@/lib/images/metadataDraft';
+import { updateImageMetadata } from '@/lib/images/updateImageMetadata';
+import styles from './ImageMetadataEditor.module.css';
+
+interface ImageMetadataFieldsProps {
+  value: MetadataDraft;
+  onChange: (value: MetadataDraft) => void;
+  disabled?: boolean;
+}
+
+// The metadata inputs on their own, used at upload time and in the editor below
+export function ImageMetadataFields({ value, onChange, disabled }: ImageMetadataFieldsProps) {
+  const set = (field: keyof MetadataDraft) =>
+    (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => onChange({ ...value, [field]: event.target.value });
+
+  return (
+    <div className={styles.fields}>
+      <label className={styles.field}>
+        Alt text
+        <input value={value.altText} onChange={set('altText')} disabled={disabled} placeholder="Describe the image for screen readers" />
+      </label>
+      <label className={styles.field}>
+        Caption
+        <textarea value={value.caption} onChange={set('caption')} disabled={disabled} rows={2} />
+      </label>
+      <label className={styles.field}>
+        Tags
+        <input value={value.tags} onChange={set('tags')} disabled={disabled} placeholder="Comma separated" />
+      </label>
+      <label className={styles.field}>
+        Properties
+        <textarea
+          value={value.properties}
+          onChange={set('properties')}
+          disabled={disabled}
+          rows={2}
+          placeholder="One key: value per line"
+        />
+      </label>
+    </div>
+  );
+}
+
+interface ImageMetadataEditorProps {
+  image: ImageSummary;
+  onSaved: (image: ImageSummary) => void;
+  onCancel: () => void;
+}
+
+// Edits the metadata of a stored image and saves it through PATCH /api/images/:id
+export function ImageMetadataEditor({ image, onSaved, onCancel }: ImageMetadataEditorProps) {
+  const [draft, setDraft] = useState(() => toDraft(image));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      onSaved(await updateImageMetadata(image.id, fromDraft(draft)));
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Saving failed');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={save} className={styles.editor}>
+      <ImageMetadataFields value={draft} onChange={setDraft} disabled={saving} />
+      {error && <p className={styles.error}>{error}</p>}
+      <div className={styles.actions}>
+        <button type="button" onClick={onCancel} disabled={saving} className={styles.button}>Cancel</button>
+        <button type="submit" disabled={saving} className={`${styles.button} ${styles.primary}`}>
+          {saving ? 'Saving…' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
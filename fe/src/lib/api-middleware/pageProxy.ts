@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { backendAuthHeaders } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
+import { requestIdHeaders } from './requestId';
+
+// Backend path of the page in the route's `id` (and `version`) query, e.g. /api/pages/:id/revisions/:version
+export const pageBackendPath = (req: NextApiRequest, suffix = '') => {
+    const version = req.query.version === undefined ? '' : `/revisions/${encodeURIComponent(String(req.query.version))}`;
+    return `/api/pages/${encodeURIComponent(String(req.query.id))}${version}${suffix}`;
+};
+
+// Relays the request to the backend as the signed in user, with its JSON body for POST
+// and PUT and its If-Match, and answers with the backend's status and JSON
+export const proxyPageRequest = async (
+    req: NextApiRequest,
+    res: NextApiResponse,
+    path: string,
+    methods: string[]
+) => {
+    if (!methods.includes(req.method || '')) {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const hasBody = req.method === 'POST' || req.method === 'PUT';
+        const ifMatch = req.headers['if-match'];
+        const response = await fetch(`${getConfig().backend.url}${path}`, {
+            method: req.method,
+            headers: {
+                ...backendAuthHeaders(req),
+                ...requestIdHeaders(req, res),
+                ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+                ...(ifMatch ? { 'If-Match': ifMatch } : {}),
+            },
+            body: hasBody ? JSON.stringify(req.body ?? {}) : undefined,
+        });
+        res.status(response.status).json(await response.json());
+    } catch (error) {
+        console.error('Page API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+};
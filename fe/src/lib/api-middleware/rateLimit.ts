@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { Response } from 'node-fetch';
+
+// Upload requests are limited by the backend alone, it sees every request whichever
+// Next process relays it. These helpers let it limit the browser and tell the browser.
+
+// Headers the backend sets on rate limited and quota responses, relayed to the browser
+export const RATE_LIMIT_HEADERS = ['retry-after', 'ratelimit-limit', 'ratelimit-remaining', 'ratelimit-reset'];
+
+export const clientAddress = (req: NextApiRequest) => req.socket.remoteAddress || 'unknown';
+
+// Lets the backend limit by the browser's address rather than this server's. Next
+// fills in X-Forwarded-For with the peer when it is missing, so only add it once.
+export const forwardedForHeaders = (req: NextApiRequest): Record<string, string> => {
+    const previous = req.headers['x-forwarded-for'];
+    const chain = typeof previous === 'string' ? previous.split(',').map(hop => hop.trim()) : [];
+    if (chain[chain.length - 1] !== clientAddress(req)) {
+        chain.push(clientAddress(req));
+    }
+    return { 'x-forwarded-for': chain.join(', ') };
+};
+
+export const relayRateLimitHeaders = (response: Response, res: NextApiResponse) => {
+    RATE_LIMIT_HEADERS.forEach(name => {
+        const value = response.headers.get(name);
+        if (value !== null) {
+            res.setHeader(name, value);
+        }
+    });
+};
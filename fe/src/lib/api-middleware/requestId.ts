@@ -0,0 +1,20 @@
+import crypto from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Same rule as the backend, an id from a load balancer in front of Next is kept
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// Correlation id of this request: the one already on the response, a valid incoming
+// one, or a fresh one. Set on the response so the browser can quote it, and returned
+// as headers for the backend call so both sides log the same id.
+export const requestIdHeaders = (req: NextApiRequest, res: NextApiResponse): Record<string, string> => {
+    const existing = res.getHeader(REQUEST_ID_HEADER);
+    const incoming = req.headers[REQUEST_ID_HEADER];
+    const requestId = typeof existing === 'string'
+        ? existing
+        : typeof incoming === 'string' && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    return { [REQUEST_ID_HEADER]: requestId };
+};
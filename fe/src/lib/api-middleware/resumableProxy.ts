@@ -0,0 +1,45 @@
+import type { NextApiResponse } from 'next';
+import type { Response } from 'node-fetch';
+import { getConfig } from '@/lib/config';
+import { relayRateLimitHeaders } from './rateLimit';
+
+// Protocol headers that have to survive the hop between the browser and the backend
+export const RESUMABLE_HEADERS = ['upload-offset', 'upload-length', 'upload-expires', 'upload-metadata', 'tus-resumable'];
+
+export const resumableBackendUrl = (uploadId?: string) => {
+    const backendUrl = getConfig().backend.url;
+    return uploadId
+        ? `${backendUrl}/api/uploads/${encodeURIComponent(uploadId)}`
+        : `${backendUrl}/api/uploads`;
+};
+
+export const pickResumableHeaders = (headers: Record<string, string | string[] | undefined>) => {
+    const picked: Record<string, string> = {};
+    RESUMABLE_HEADERS.forEach(name => {
+        const value = headers[name];
+        if (typeof value === 'string') {
+            picked[name] = value;
+        }
+    });
+    return picked;
+};
+
+// Copies the backend's status, protocol and rate limit headers and body (if any) onto the Next response
+export const relayResumableResponse = async (response: Response, res: NextApiResponse) => {
+    relayRateLimitHeaders(response, res);
+    RESUMABLE_HEADERS.forEach(name => {
+        const value = response.headers.get(name);
+        if (value !== null) {
+            res.setHeader(name, value);
+        }
+    });
+
+    const body = await response.text();
+    res.status(response.status);
+    if (body) {
+        res.setHeader('Content-Type', response.headers.get('content-type') || 'application/json');
+        res.send(body);
+    } else {
+        res.end();
+    }
+};
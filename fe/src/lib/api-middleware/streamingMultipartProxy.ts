@@ -0,0 +1,173 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import busboy from 'busboy';
+import { PassThrough } from 'stream';
+import fetch from 'node-fetch';
+import {
+    UPLOAD_ERROR_STATUS,
+    UploadContractError,
+    UploadErrorCode,
+    parseUploadResponse,
+    uploadFailure,
+} from '@next-page-builder/contracts';
+import { relayRateLimitHeaders } from './rateLimit';
+
+export interface InspectedFile {
+    fieldName: string;
+    filename: string;
+    mimetype: string;
+    size: number;
+}
+
+export interface StreamingProxyOptions {
+    // Backend URL the multipart body is forwarded to
+    target: string;
+    maxFileSize?: number;
+    maxFiles?: number;
+    allowedMimeType?: (mimetype: string) => boolean;
+    // Called for every non-file field as soon as it has been parsed
+    onField?: (name: string, value: string) => void;
+    headers?: Record<string, string>;
+}
+
+export interface StreamingProxyResult {
+    fields: Record<string, string[]>;
+    files: InspectedFile[];
+}
+
+class InspectionError extends Error {
+    constructor(readonly code: UploadErrorCode, message: string, readonly originalName?: string) {
+        super(message);
+    }
+}
+
+// Pipes the incoming multipart body straight to the backend without touching
+// the disk. The same bytes are teed into a multipart parser, so fields can be
+// inspected and file size/type checked while the upload is still in flight;
+// a failed check (or the client going away) aborts the backend request.
+// The backend's response is checked against the upload contract before it is relayed.
+export const streamMultipartToBackend = async (
+    req: NextApiRequest,
+    res: NextApiResponse,
+    options: StreamingProxyOptions
+): Promise<StreamingProxyResult | undefined> => {
+    const contentType = req.headers['content-type'] || '';
+    if (!contentType.startsWith('multipart/form-data')) {
+        res.status(400).json(uploadFailure('MALFORMED_REQUEST', 'Expected multipart/form-data'));
+        return undefined;
+    }
+
+    const result: StreamingProxyResult = { fields: {}, files: [] };
+    const controller = new AbortController();
+    const upstream = new PassThrough();
+
+    let inspectionFailure: InspectionError | undefined;
+    const fail = (error: InspectionError) => {
+        if (!inspectionFailure) {
+            inspectionFailure = error;
+            controller.abort();
+            req.unpipe(upstream);
+            upstream.destroy();
+        }
+    };
+
+    // Stop forwarding if the browser disconnects mid-upload
+    let clientGone = false;
+    req.on('close', () => {
+        if (!req.complete) {
+            clientGone = true;
+            controller.abort();
+        }
+    });
+
+    const inspector = busboy({
+        headers: req.headers,
+        limits: {
+            files: options.maxFiles,
+            fileSize: options.maxFileSize,
+        },
+    });
+
+    const inspected = new Promise<void>(resolve => {
+        inspector.on('field', (name, value) => {
+            (result.fields[name] = result.fields[name] || []).push(value);
+            options.onField?.(name, value);
+        });
+
+        inspector.on('file', (fieldName, stream, info) => {
+            const file: InspectedFile = { fieldName, filename: info.filename, mimetype: info.mimeType, size: 0 };
+            result.files.push(file);
+
+            if (options.allowedMimeType && !options.allowedMimeType(info.mimeType)) {
+                fail(new InspectionError('UNSUPPORTED_TYPE', `Unsupported file type ${info.mimeType}`, info.filename));
+            }
+            stream.on('data', (chunk: Buffer) => {
+                file.size += chunk.length;
+            });
+            stream.on('limit', () => {
+                fail(new InspectionError('TOO_LARGE', 'File too large', info.filename));
+            });
+        });
+
+        inspector.on('filesLimit', () => {
+            fail(new InspectionError('TOO_MANY_FILES', `Too many files. Maximum is ${options.maxFiles}.`));
+        });
+        inspector.on('error', error => {
+            fail(new InspectionError('MALFORMED_REQUEST', error instanceof Error ? error.message : 'Malformed multipart body'));
+            resolve();
+        });
+        inspector.on('close', resolve);
+    });
+
+    // pipe() to both destinations: the request is paused whenever either one applies backpressure
+    req.pipe(upstream);
+    req.pipe(inspector);
+
+    const headers: Record<string, string> = { ...options.headers, 'content-type': contentType };
+    if (req.headers['content-length']) {
+        headers['content-length'] = req.headers['content-length'];
+    }
+
+    try {
+        const [response] = await Promise.all([
+            fetch(options.target, {
+                method: 'POST',
+                body: upstream,
+                headers,
+                signal: controller.signal,
+            }),
+            inspected,
+        ]);
+
+        if (inspectionFailure) {
+            throw inspectionFailure;
+        }
+
+        // Throws UploadContractError when the backend speaks a different version of the contract
+        const body = parseUploadResponse(await response.json());
+        relayRateLimitHeaders(response, res);
+        res.status(response.status).json(body);
+        return result;
+    } catch (error) {
+        const failure = inspectionFailure || error;
+        if (res.headersSent || clientGone) {
+            // There is nobody left to answer
+            return undefined;
+        }
+        if (failure instanceof InspectionError) {
+            const rejected = failure.originalName
+                ? [{ originalName: failure.originalName, code: failure.code, reason: failure.message }]
+                : [];
+            res.status(UPLOAD_ERROR_STATUS[failure.code]).json(uploadFailure(failure.code, failure.message, rejected));
+        } else if (failure instanceof UploadContractError) {
+            console.error('Backend upload response broke the contract:', failure.message);
+            res.status(502).json(uploadFailure('INTERNAL_ERROR', 'Backend returned an unexpected upload response'));
+        } else {
+            console.error('Streaming proxy error:', failure);
+            res.status(502).json(uploadFailure(
+                'INTERNAL_ERROR',
+                `Failed to forward upload: ${failure instanceof Error ? failure.message : 'Unknown error'}`
+            ));
+        }
+        return undefined;
+    }
+};
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+// The backend's JWT is kept in an httpOnly cookie, so page scripts never see it
+// and every API route can forward it as the caller's identity.
+export const SESSION_COOKIE = 'session';
+
+export const readSessionToken = (req: NextApiRequest): string | undefined => req.cookies[SESSION_COOKIE];
+
+// Headers that make a backend request act on behalf of the signed in user
+export const backendAuthHeaders = (req: NextApiRequest): Record<string, string> => {
+    const token = readSessionToken(req);
+    return token ? { authorization: `Bearer ${token}` } : {};
+};
+
+const cookieAttributes = () =>
+    ['Path=/', 'HttpOnly', 'SameSite=Lax', ...(process.env.NODE_ENV === 'production' ? ['Secure'] : [])].join('; ');
+
+export const setSessionCookie = (res: NextApiResponse, token: string, expiresAt: Date) => {
+    const maxAge = Math.max(0, Math.floor((expiresAt.getTime() - Date.now()) / 1000));
+    res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${encodeURIComponent(token)}; Max-Age=${maxAge}; ${cookieAttributes()}`);
+};
+
+export const clearSessionCookie = (res: NextApiResponse) => {
+    res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; Max-Age=0; ${cookieAttributes()}`);
+};
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  workspace: string;
+  role: 'viewer' | 'editor' | 'admin';
+}
+
+// Loads the signed in user from /api/auth/me. Pages that need a session pass
+// `required` to be sent to /login (and back again afterwards) when there is none.
+export const useSession = ({ required = false } = {}) => {
+  const router = useRouter();
+  const [user, setUser] = useState<SessionUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    fetch('/api/auth/me')
+      .then(response => (response.ok ? response.json() : null))
+      .then(result => {
+        if (!active) return;
+        setUser(result?.user || null);
+        setLoading(false);
+        if (!result?.user && required) {
+          router.replace(`/login?next=${encodeURIComponent(router.asPath)}`);
+        }
+      })
+      .catch(() => active && setLoading(false));
+    return () => {
+      active = false;
+    };
+  }, [required, router]);
+
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setUser(null);
+    router.replace('/login');
+  }, [router]);
+
+  return { user, loading, signOut };
+};
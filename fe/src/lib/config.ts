@@ -0,0 +1,12 @@
+import { AppConfig } from '@next-page-builder/contracts';
+import { loadConfig } from '@next-page-builder/contracts/dist/configFile';
+
+// Server side only: the config shared with the Express backend, from CONFIG_FILE (or
+// config.json in the working directory, when there is one) and the environment.
+// next.config.ts loads it at startup, so a bad config never gets as far as a request.
+let loaded: AppConfig | undefined;
+
+export const getConfig = (): AppConfig => {
+    loaded = loaded || loadConfig();
+    return loaded;
+};
@@ -0,0 +1,37 @@
+// Drags started inside the app carry a typed payload. Browsers only reveal
+// `dataTransfer.types` while dragging, so the payload itself is kept here until the
+// drag ends and the MIME type tells targets that it is ours.
+export const DRAG_PAYLOAD_TYPE = 'application/x-page-builder';
+
+let activePayload: unknown = null;
+
+export interface DragSourceOptions {
+    // Shown under the pointer instead of the whole element
+    image?: () => Element | null;
+    disabled?: boolean;
+}
+
+// Props for an element that can be dragged onto drop targets reading `readDragPayload`
+export const dragSourceProps = <T>(payload: T, { image, disabled = false }: DragSourceOptions = {}) => ({
+    draggable: !disabled,
+    onDragStart: (event: React.DragEvent) => {
+        if (disabled) return;
+        // Nested sources sit inside each other, only the innermost one starts the drag
+        event.stopPropagation();
+        activePayload = payload;
+        event.dataTransfer.effectAllowed = 'copyMove';
+        // Firefox will not start a drag without some data
+        event.dataTransfer.setData(DRAG_PAYLOAD_TYPE, '');
+        const dragImage = image?.();
+        if (dragImage) {
+            event.dataTransfer.setDragImage(dragImage, 16, 16);
+        }
+    },
+    onDragEnd: () => {
+        activePayload = null;
+    },
+});
+
+// The payload of an in-app drag, null for files and text dragged in from elsewhere
+export const readDragPayload = <T>(event: React.DragEvent): T | null =>
+    (Array.from(event.dataTransfer.types).includes(DRAG_PAYLOAD_TYPE) ? activePayload as T | null : null);
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface DropTargetOptions<T> {
+    // What the dragged thing is to this target, null when it does not take it. Only
+    // `dataTransfer.types` can be read before the drop, see readDragPayload.
+    accept: (event: React.DragEvent) => T | null;
+    onDrop: (payload: T, event: React.DragEvent) => void;
+    disabled?: boolean;
+}
+
+// Highlighting and drop handling for one drop target. Targets nest (a slot inside a
+// section inside the canvas), the innermost one that accepts handles the drop.
+export const useDropTarget = <T>({ accept, onDrop, disabled = false }: DropTargetOptions<T>) => {
+    const [isOver, setIsOver] = useState(false);
+    // dragenter/dragleave also fire when moving between the target's own children
+    const depth = useRef(0);
+
+    // A drop on another target or a cancelled drag never reaches our dragleave
+    useEffect(() => {
+        if (!isOver) return;
+        const reset = () => {
+            depth.current = 0;
+            setIsOver(false);
+        };
+        document.addEventListener('dragend', reset);
+        document.addEventListener('drop', reset);
+        return () => {
+            document.removeEventListener('dragend', reset);
+            document.removeEventListener('drop', reset);
+        };
+    }, [isOver]);
+
+    const onDragEnter = useCallback((event: React.DragEvent) => {
+        if (disabled || accept(event) === null) return;
+        event.preventDefault();
+        event.stopPropagation();
+        depth.current++;
+        setIsOver(true);
+    }, [accept, disabled]);
+
+    const onDragOver = useCallback((event: React.DragEvent) => {
+        if (disabled || accept(event) === null) return;
+        // Without this the browser refuses the drop
+        event.preventDefault();
+        event.stopPropagation();
+    }, [accept, disabled]);
+
+    const onDragLeave = useCallback((event: React.DragEvent) => {
+        if (depth.current === 0) return;
+        event.stopPropagation();
+        depth.current--;
+        if (depth.current === 0) setIsOver(false);
+    }, []);
+
+    const onDropEvent = useCallback((event: React.DragEvent) => {
+        depth.current = 0;
+        setIsOver(false);
+        const payload = disabled ? null : accept(event);
+        if (payload === null) return;
+        event.preventDefault();
+        event.stopPropagation();
+        onDrop(payload, event);
+    }, [accept, disabled, onDrop]);
+
+    return {
+        isOver: isOver && !disabled,
+        dropProps: { onDragEnter, onDragOver, onDragLeave, onDrop: onDropEvent },
+    };
+};
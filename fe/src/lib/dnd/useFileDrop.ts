@@ -0,0 +1,15 @@
+import { useCallback } from 'react';
+import { useDropTarget } from './useDropTarget';
+
+const hasFiles = (event: React.DragEvent) => Array.from(event.dataTransfer.types).includes('Files');
+
+// Drop zone for files dragged in from the desktop. The files themselves are only
+// readable on drop, until then we go by the drag's types.
+export const useFileDrop = (onFiles: (files: FileList) => void, { disabled = false } = {}) => {
+    const accept = useCallback((event: React.DragEvent) => (hasFiles(event) ? event.dataTransfer.files : null), []);
+    const onDrop = useCallback((files: FileList) => {
+        if (files.length > 0) onFiles(files);
+    }, [onFiles]);
+
+    return useDropTarget({ accept, onDrop, disabled });
+};
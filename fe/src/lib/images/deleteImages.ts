@@ -0,0 +1,37 @@
+import { ImageUsage, imageInUseResponseSchema } from '@next-page-builder/contracts';
+
+export interface DeleteOutcome {
+    // Gone for good
+    deleted: string[];
+    // Still referenced by other uploads of the same bytes, only one reference was dropped
+    released: string[];
+    // Refused because pages still show them, deleting again with `force` removes them anyway
+    inUse: { id: string; usages: ImageUsage[] }[];
+    failed: { id: string; message: string }[];
+}
+
+// Deletes each image through /api/images/:id, one failure does not stop the others
+export const deleteImages = async (ids: string[], { force = false } = {}): Promise<DeleteOutcome> => {
+    const outcome: DeleteOutcome = { deleted: [], released: [], inUse: [], failed: [] };
+
+    await Promise.all(ids.map(async id => {
+        try {
+            const response = await fetch(`/api/images/${encodeURIComponent(id)}${force ? '?force=true' : ''}`, { method: 'DELETE' });
+            const result = await response.json().catch(() => ({}));
+            const inUse = response.status === 409 ? imageInUseResponseSchema.safeParse(result) : undefined;
+            if (inUse?.success) {
+                outcome.inUse.push({ id, usages: inUse.data.usages });
+            } else if (!response.ok) {
+                outcome.failed.push({ id, message: result.message || `Delete failed with status ${response.status}` });
+            } else if (result.remainingReferences > 0) {
+                outcome.released.push(id);
+            } else {
+                outcome.deleted.push(id);
+            }
+        } catch (error) {
+            outcome.failed.push({ id, message: error instanceof Error ? error.message : 'Delete failed' });
+        }
+    }));
+
+    return outcome;
+};
@@ -0,0 +1,11 @@
+import { ImageUsagesResponse, imageUsagesResponseSchema } from '@next-page-builder/contracts';
+
+// The pages that point at an image, through /api/images/:id/usages
+export const loadImageUsages = async (id: string): Promise<ImageUsagesResponse> => {
+    const response = await fetch(`/api/images/${encodeURIComponent(id)}/usages`);
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.message || `Loading usages failed with status ${response.status}`);
+    }
+    return imageUsagesResponseSchema.parse(result);
+};
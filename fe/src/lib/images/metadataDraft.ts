@@ -0,0 +1,33 @@
+import { ImageMetadataInput, ImageSummary } from '@next-page-builder/contracts';
+
+// Image metadata as plain form strings: tags comma separated, properties one `key: value` per line
+export interface MetadataDraft {
+    altText: string;
+    caption: string;
+    tags: string;
+    properties: string;
+}
+
+export const EMPTY_DRAFT: MetadataDraft = { altText: '', caption: '', tags: '', properties: '' };
+
+export const toDraft = (image: Pick<ImageSummary, 'altText' | 'caption' | 'tags' | 'properties'>): MetadataDraft => ({
+    altText: image.altText || '',
+    caption: image.caption || '',
+    tags: image.tags.join(', '),
+    properties: Object.entries(image.properties).map(([key, value]) => `${key}: ${value}`).join('\n'),
+});
+
+export const fromDraft = (draft: MetadataDraft): ImageMetadataInput => ({
+    altText: draft.altText,
+    caption: draft.caption,
+    tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    properties: Object.fromEntries(draft.properties
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => {
+            const separator = line.indexOf(':');
+            return separator === -1
+                ? [line.trim(), '']
+                : [line.slice(0, separator).trim(), line.slice(separator + 1).trim()];
+        })),
+});
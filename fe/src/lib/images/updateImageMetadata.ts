@@ -0,0 +1,15 @@
+import { ImageMetadataInput, ImageSummary, imageSummarySchema } from '@next-page-builder/contracts';
+
+// Saves metadata through /api/images/:id and returns the updated image
+export const updateImageMetadata = async (id: string, metadata: ImageMetadataInput): Promise<ImageSummary> => {
+    const response = await fetch(`/api/images/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(metadata),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.message || `Saving failed with status ${response.status}`);
+    }
+    return imageSummarySchema.parse(result.image);
+};
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ImageSummary, imageSummarySchema } from '@next-page-builder/contracts';
+import { PageAsset, PageAssets } from '@/lib/pages/pageAssets';
+
+const fetchImage = async (id: string): Promise<ImageSummary | null> => {
+    const response = await fetch(`/api/images/${encodeURIComponent(id)}`);
+    if (response.status === 404) return null;
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new Error(result.message || `Loading image failed with status ${response.status}`);
+    }
+    return imageSummarySchema.parse(result.image);
+};
+
+// Images by id, each fetched once from /api/images/:id. Ids that do not resolve
+// (deleted, or never uploaded to this workspace) map to null.
+export const useAssets = (ids: string[]) => {
+    const [assets, setAssets] = useState<PageAssets>({});
+    const requested = useRef(new Set<string>());
+    const idsKey = ids.join(',');
+
+    useEffect(() => {
+        const missing = idsKey.split(',').filter(id => id && !requested.current.has(id));
+        missing.forEach(id => {
+            requested.current.add(id);
+            fetchImage(id)
+                .then(image => setAssets(prev => ({ ...prev, [id]: image })))
+                .catch(error => {
+                    // Asked for again the next time the ids change
+                    requested.current.delete(id);
+                    console.warn('Loading image failed:', error);
+                });
+        });
+    }, [idsKey]);
+
+    // Adds images the caller already has, e.g. ones just picked from the library or uploaded
+    const remember = useCallback((image: PageAsset) => {
+        requested.current.add(image.id);
+        setAssets(prev => ({ ...prev, [image.id]: image }));
+    }, []);
+
+    return { assets, remember };
+};
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ImageListQuery, ImageSummary, imageListResponseSchema } from '@next-page-builder/contracts';
+
+export type ImageListFilters = Omit<ImageListQuery, 'cursor'>;
+
+// The orderings offered in the UI, keyed by the value of the sort picker
+export const SORT_OPTIONS: Record<string, { label: string; sort: ImageListFilters['sort']; order: ImageListFilters['order'] }> = {
+    newest: { label: 'Newest first', sort: 'date', order: 'desc' },
+    oldest: { label: 'Oldest first', sort: 'date', order: 'asc' },
+    name: { label: 'Name', sort: 'name', order: 'asc' },
+    largest: { label: 'Largest first', sort: 'size', order: 'desc' },
+};
+
+const toSearchParams = (query: ImageListQuery) => {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+            params.set(key, String(value));
+        }
+    });
+    return params;
+};
+
+const fetchPage = async (query: ImageListQuery) => {
+    const response = await fetch(`/api/images?${toSearchParams(query)}`);
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new Error(body?.message || `Loading images failed with status ${response.status}`);
+    }
+    return imageListResponseSchema.parse(body);
+};
+
+// Pages through /api/images with the backend's cursor. Changing the filters
+// starts over from the first page; `reload` refreshes it in place, e.g. after
+// an upload, without emptying the list first.
+export const useImageList = (filters: ImageListFilters, { enabled = true } = {}) => {
+    const [images, setImages] = useState<ImageSummary[]>([]);
+    const [total, setTotal] = useState(0);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Bumped by every first-page load, answers to older requests are dropped
+    const generation = useRef(0);
+    const filtersKey = JSON.stringify(filters);
+
+    const load = useCallback(async (cursor: string | null) => {
+        if (!cursor) {
+            generation.current++;
+        }
+        const current = generation.current;
+        setLoading(true);
+        setError(null);
+        try {
+            const page = await fetchPage({ ...JSON.parse(filtersKey), cursor: cursor || undefined });
+            if (current !== generation.current) return;
+            setImages(prev => {
+                if (!cursor) return page.images;
+                // An image can move between pages while scrolling, never show it twice
+                const seen = new Set(prev.map(image => image.id));
+                return [...prev, ...page.images.filter(image => !seen.has(image.id))];
+            });
+            setTotal(page.total);
+            setNextCursor(page.nextCursor);
+        } catch (loadError) {
+            if (current !== generation.current) return;
+            setError(loadError instanceof Error ? loadError.message : 'Loading images failed');
+        } finally {
+            if (current === generation.current) setLoading(false);
+        }
+    }, [filtersKey]);
+
+    useEffect(() => {
+        if (!enabled) return;
+        setImages([]);
+        setNextCursor(null);
+        load(null);
+    }, [enabled, load]);
+
+    const loadMore = useCallback(() => {
+        if (nextCursor && !loading) {
+            load(nextCursor);
+        }
+    }, [load, loading, nextCursor]);
+
+    const reload = useCallback(() => load(null), [load]);
+
+    // Drops deleted images without refetching the pages loaded so far
+    const removeImages = useCallback((ids: string[]) => {
+        const removed = new Set(ids);
+        setImages(prev => prev.filter(image => !removed.has(image.id)));
+        setTotal(prev => Math.max(0, prev - removed.size));
+    }, []);
+
+    // Swaps in a saved copy of an image that is already listed
+    const replaceImage = useCallback((updated: ImageSummary) => {
+        setImages(prev => prev.map(image => (image.id === updated.id ? updated : image)));
+    }, []);
+
+    return { images, total, loading, error, hasMore: nextCursor !== null, loadMore, reload, removeImages, replaceImage };
+};
@@ -0,0 +1,30 @@
+import type { ImageLoader } from 'next/image';
+
+export interface ImageVariant {
+    width: number;
+    height: number;
+    urls: {
+        webp?: string;
+        avif?: string;
+    };
+}
+
+export type ImageVariants = Record<string, ImageVariant>;
+
+// Builds a next/image loader that serves the smallest pre-generated variant at
+// least as wide as the requested width, so the srcSet next/image emits points
+// at the backend's resized WebP files instead of the full-size original.
+export const createVariantLoader = (variants: ImageVariants | undefined): ImageLoader | undefined => {
+    const candidates = Object.values(variants || {})
+        .filter(variant => variant.urls.webp)
+        .sort((a, b) => a.width - b.width);
+
+    if (candidates.length === 0) {
+        return undefined;
+    }
+
+    return ({ width }) => {
+        const match = candidates.find(variant => variant.width >= width) || candidates[candidates.length - 1];
+        return match.urls.webp!;
+    };
+};
@@ -0,0 +1,67 @@
+import { Block, BlockType, MAX_COLUMNS } from '@next-page-builder/contracts';
+import { newBlockId } from './blockTree';
+
+export interface BlockTypeInfo {
+    label: string;
+    description: string;
+}
+
+// What the palette offers, in the order it shows them
+export const BLOCK_CATALOG: Record<BlockType, BlockTypeInfo> = {
+    section: { label: 'Section', description: 'Groups blocks, with its own background and spacing' },
+    columns: { label: 'Columns', description: `Up to ${MAX_COLUMNS} blocks side by side` },
+    heading: { label: 'Heading', description: 'Title of a page or section' },
+    richText: { label: 'Text', description: 'Paragraphs, lists and links' },
+    image: { label: 'Image', description: 'One image from the media library' },
+    button: { label: 'Button', description: 'A link styled as a button' },
+    gallery: { label: 'Gallery', description: 'A grid of images' },
+};
+
+// A fresh block as dropped from the palette. Image and gallery blocks only become
+// valid once an asset is picked, the page is not saved until then.
+export const createBlock = (type: BlockType): Block => {
+    const id = newBlockId();
+    switch (type) {
+        case 'section':
+            return { id, type, props: {}, children: [] };
+        case 'columns':
+            return {
+                id,
+                type,
+                props: {},
+                children: [createBlock('section'), createBlock('section')],
+            };
+        case 'heading':
+            return { id, type, props: { text: 'Heading', level: 2 } };
+        case 'richText':
+            return { id, type, props: { html: '<p>Start writing here.</p>' } };
+        case 'image':
+            return { id, type, props: { assetId: '' } };
+        case 'button':
+            return { id, type, props: { label: 'Learn more', href: '/' } };
+        case 'gallery':
+            return { id, type, props: { items: [] } };
+    }
+};
+
+// One line shown on the block in the canvas
+export const describeBlock = (block: Block): string => {
+    switch (block.type) {
+        case 'section':
+            return block.props.anchor ? `#${block.props.anchor}` : `${block.children.length} block${block.children.length === 1 ? '' : 's'}`;
+        case 'columns':
+            return `${block.children.length} column${block.children.length === 1 ? '' : 's'}`;
+        case 'heading':
+            return `H${block.props.level} ${block.props.text}`;
+        case 'richText':
+            return block.props.html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80) || 'Empty';
+        case 'image':
+            return block.props.assetId ? block.props.alt || block.props.caption || 'Image' : 'No image chosen';
+        case 'button':
+            return `${block.props.label} → ${block.props.href}`;
+        case 'gallery':
+            return block.props.items.length > 0
+                ? `${block.props.items.length} image${block.props.items.length === 1 ? '' : 's'}`
+                : 'No images chosen';
+    }
+};
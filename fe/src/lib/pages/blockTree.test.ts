@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { Block, ColumnsBlock } from '@next-page-builder/contracts';
+import { duplicateBlock, findLocation, moveBlock } from './blockTree';
+
+const heading = (id: string): Block => ({ id, type: 'heading', props: { text: id, level: 2 } });
+const section = (id: string, children: Block[]): Block => ({ id, type: 'section', props: {}, children });
+const columns = (id: string, children: Block[], widths: number[]): ColumnsBlock =>
+    ({ id, type: 'columns', props: { widths }, children });
+
+// Ids in tree order, containers followed by their children in brackets
+const shape = (blocks: Block[]): string[] => blocks.map(block =>
+    ('children' in block ? `${block.id}[${shape(block.children).join(',')}]` : block.id));
+
+const page = (): Block[] => [
+    heading('a'),
+    heading('b'),
+    section('s', [heading('s1'), heading('s2')]),
+    columns('c', [heading('c1'), heading('c2')], [1, 2]),
+    heading('d'),
+];
+
+describe('moveBlock', () => {
+    it('moves a block down among its siblings, the target counting the block itself', () => {
+        expect(shape(moveBlock(page(), 'a', { parentId: null, index: 3 }))).toEqual(['b', 's[s1,s2]', 'a', 'c[c1,c2]', 'd']);
+    });
+
+    it('moves a block up among its siblings', () => {
+        expect(shape(moveBlock(page(), 'd', { parentId: null, index: 0 }))).toEqual(['d', 'a', 'b', 's[s1,s2]', 'c[c1,c2]']);
+    });
+
+    it('leaves the tree alone when the block would land where it is', () => {
+        const blocks = page();
+        expect(moveBlock(blocks, 'b', { parentId: null, index: 1 })).toBe(blocks);
+        expect(moveBlock(blocks, 'b', { parentId: null, index: 2 })).toBe(blocks);
+    });
+
+    it('moves a block into a container and back out', () => {
+        const inside = moveBlock(page(), 'a', { parentId: 's', index: 1 });
+        expect(shape(inside)).toEqual(['b', 's[s1,a,s2]', 'c[c1,c2]', 'd']);
+        expect(shape(moveBlock(inside, 'a', { parentId: null, index: 4 }))).toEqual(['b', 's[s1,s2]', 'c[c1,c2]', 'd', 'a']);
+    });
+
+    it('moves a column together with its width', () => {
+        const moved = moveBlock(page(), 'c2', { parentId: 'c', index: 0 });
+        const columnsBlock = moved[3] as ColumnsBlock;
+        expect(shape(moved)).toContain('c[c2,c1]');
+        expect(columnsBlock.props.widths).toEqual([2, 1]);
+    });
+
+    it('gives a block moved into columns a width of 1 and takes the width away when it leaves', () => {
+        const into = moveBlock(page(), 'd', { parentId: 'c', index: 2 });
+        expect((into[3] as ColumnsBlock).props.widths).toEqual([1, 2, 1]);
+
+        const out = moveBlock(page(), 'c1', { parentId: 's', index: 0 });
+        expect(shape(out)).toEqual(['a', 'b', 's[c1,s1,s2]', 'c[c2]', 'd']);
+        expect((out[3] as ColumnsBlock).props.widths).toEqual([2]);
+    });
+
+    it('does not move a container into itself or one of its descendants', () => {
+        const blocks = [section('outer', [section('inner', [heading('x')])])];
+        expect(moveBlock(blocks, 'outer', { parentId: 'outer', index: 0 })).toBe(blocks);
+        expect(moveBlock(blocks, 'outer', { parentId: 'inner', index: 0 })).toBe(blocks);
+    });
+
+    it('ignores unknown ids', () => {
+        const blocks = page();
+        expect(moveBlock(blocks, 'missing', { parentId: null, index: 0 })).toBe(blocks);
+    });
+
+    it('keeps untouched branches as they are', () => {
+        const blocks = page();
+        const moved = moveBlock(blocks, 'a', { parentId: null, index: 2 });
+        expect(moved.find(block => block.id === 's')).toBe(blocks[2]);
+        expect(moved.find(block => block.id === 'c')).toBe(blocks[3]);
+    });
+});
+
+describe('duplicateBlock', () => {
+    it('inserts a copy with fresh ids right after the original', () => {
+        const { blocks, copyId } = duplicateBlock(page(), 's');
+        const copy = blocks[3];
+        expect(copy.id).toBe(copyId);
+        expect(copy.id).not.toBe('s');
+        expect('children' in copy && copy.children.map(child => child.id)).not.toContain('s1');
+        expect(findLocation(blocks, copyId!)).toEqual({ parentId: null, index: 3 });
+    });
+
+    it('copies the width of a duplicated column', () => {
+        const { blocks } = duplicateBlock(page(), 'c2');
+        expect((blocks[3] as ColumnsBlock).props.widths).toEqual([1, 2, 2]);
+    });
+});
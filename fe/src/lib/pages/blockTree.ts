@@ -0,0 +1,128 @@
+import { Block, ContainerBlock, isContainerBlock, mapBlocks } from '@next-page-builder/contracts';
+
+// Where a block sits: the container holding it (null for the top level) and its position there
+export interface BlockLocation {
+    parentId: string | null;
+    index: number;
+}
+
+// Unique within a page is enough, see blockSchema
+export const newBlockId = () => `b${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const findBlock = (blocks: Block[], id: string): Block | undefined => {
+    for (const block of blocks) {
+        if (block.id === id) return block;
+        if (isContainerBlock(block)) {
+            const found = findBlock(block.children, id);
+            if (found) return found;
+        }
+    }
+    return undefined;
+};
+
+export const findLocation = (blocks: Block[], id: string, parentId: string | null = null): BlockLocation | undefined => {
+    for (const [index, block] of blocks.entries()) {
+        if (block.id === id) return { parentId, index };
+        if (isContainerBlock(block)) {
+            const found = findLocation(block.children, id, block.id);
+            if (found) return found;
+        }
+    }
+    return undefined;
+};
+
+// True when `id` is the block itself or one of its descendants
+export const containsBlock = (block: Block, id: string): boolean =>
+    block.id === id || (isContainerBlock(block) && block.children.some(child => containsBlock(child, id)));
+
+// Copy of the tree with `transform` applied to one block. Untouched branches are
+// kept as they are so React can skip them.
+export const updateBlock = (blocks: Block[], id: string, transform: (block: Block) => Block): Block[] => {
+    let changed = false;
+    const next = blocks.map(block => {
+        if (block.id === id) {
+            changed = true;
+            return transform(block);
+        }
+        if (isContainerBlock(block)) {
+            const children = updateBlock(block.children, id, transform);
+            if (children !== block.children) {
+                changed = true;
+                return { ...block, children } as Block;
+            }
+        }
+        return block;
+    });
+    return changed ? next : blocks;
+};
+
+const splice = <T>(items: T[], index: number, deleteCount: number, ...inserted: T[]) => {
+    const next = [...items];
+    next.splice(index, deleteCount, ...inserted);
+    return next;
+};
+
+// Columns keep one width per child, so widths move along with their columns
+const spliceChildren = (parent: ContainerBlock, index: number, deleteCount: number, inserted?: { block: Block; width: number }): Block => {
+    const children = inserted
+        ? splice(parent.children, index, deleteCount, inserted.block)
+        : splice(parent.children, index, deleteCount);
+    if (parent.type === 'columns' && parent.props.widths) {
+        const widths = inserted
+            ? splice(parent.props.widths, index, deleteCount, inserted.width)
+            : splice(parent.props.widths, index, deleteCount);
+        return { ...parent, children, props: { ...parent.props, widths } };
+    }
+    return { ...parent, children } as Block;
+};
+
+const childWidth = (blocks: Block[], { parentId, index }: BlockLocation) => {
+    const parent = parentId === null ? undefined : findBlock(blocks, parentId);
+    return parent?.type === 'columns' ? parent.props.widths?.[index] ?? 1 : 1;
+};
+
+export const insertBlock = (blocks: Block[], { parentId, index }: BlockLocation, block: Block, width = 1): Block[] => {
+    if (parentId === null) {
+        return splice(blocks, index, 0, block);
+    }
+    return updateBlock(blocks, parentId, parent =>
+        (isContainerBlock(parent) ? spliceChildren(parent, index, 0, { block, width }) : parent));
+};
+
+export const removeBlock = (blocks: Block[], id: string): Block[] => {
+    const location = findLocation(blocks, id);
+    if (!location) return blocks;
+    if (location.parentId === null) {
+        return splice(blocks, location.index, 1);
+    }
+    return updateBlock(blocks, location.parentId, parent =>
+        (isContainerBlock(parent) ? spliceChildren(parent, location.index, 1) : parent));
+};
+
+// `target` is a position in the tree as it is now, before the block leaves its old place
+export const moveBlock = (blocks: Block[], id: string, target: BlockLocation): Block[] => {
+    const block = findBlock(blocks, id);
+    const source = findLocation(blocks, id);
+    if (!block || !source) return blocks;
+    // A block cannot go inside itself
+    if (target.parentId !== null && containsBlock(block, target.parentId)) return blocks;
+
+    let index = target.index;
+    if (source.parentId === target.parentId && source.index < target.index) {
+        index--;
+    }
+    if (source.parentId === target.parentId && source.index === index) return blocks;
+    return insertBlock(removeBlock(blocks, id), { parentId: target.parentId, index }, block, childWidth(blocks, source));
+};
+
+// Inserts a copy with fresh ids right after the original
+export const duplicateBlock = (blocks: Block[], id: string): { blocks: Block[]; copyId?: string } => {
+    const block = findBlock(blocks, id);
+    const location = findLocation(blocks, id);
+    if (!block || !location) return { blocks };
+    const [copy] = mapBlocks([block], child => ({ ...child, id: newBlockId() }));
+    return {
+        blocks: insertBlock(blocks, { ...location, index: location.index + 1 }, copy, childWidth(blocks, location)),
+        copyId: copy.id,
+    };
+};
@@ -0,0 +1,8 @@
+import { PageAsset } from '@next-page-builder/contracts';
+
+// What rendering a page needs to know about an image one of its blocks points at.
+// Listed images, fresh uploads and published pages all have it.
+export type { PageAsset };
+
+// Missing ids are still loading, null ones do not resolve
+export type PageAssets = Record<string, PageAsset | null | undefined>;
@@ -0,0 +1,106 @@
+import {
+    PageContent,
+    PageDocument,
+    PageInput,
+    PageRevision,
+    PageRevisionSummary,
+    PageSchedule,
+    PageSummary,
+    pageEtag,
+    pageListResponseSchema,
+    pageResponseSchema,
+    pageRevisionListResponseSchema,
+    pageRevisionResponseSchema,
+} from '@next-page-builder/contracts';
+
+// Someone else saved (or published, unpublished or scheduled) the page since we loaded it
+export class PageConflictError extends Error {
+    constructor(message: string, readonly currentVersion?: number) {
+        super(message);
+    }
+}
+
+const request = async (url: string, init: RequestInit & { headers?: Record<string, string> } = {}) => {
+    const response = await fetch(url, {
+        ...init,
+        headers: { ...(init.body ? { 'Content-Type': 'application/json' } : {}), ...init.headers },
+    });
+    const result = await response.json().catch(() => ({}));
+    if (response.status === 409 && typeof result.version === 'number') {
+        throw new PageConflictError(result.message, result.version);
+    }
+    if (!response.ok) {
+        throw new Error(result.message || `Request failed with status ${response.status}`);
+    }
+    return result;
+};
+
+const pageUrl = (id: string) => `/api/pages/${encodeURIComponent(id)}`;
+
+export const listPages = async (): Promise<PageSummary[]> =>
+    pageListResponseSchema.parse(await request('/api/pages')).pages;
+
+export const loadPage = async (id: string): Promise<PageDocument> =>
+    pageResponseSchema.parse(await request(pageUrl(id))).page;
+
+export const createPage = async (input: PageInput): Promise<PageDocument> =>
+    pageResponseSchema.parse(await request('/api/pages', { method: 'POST', body: JSON.stringify(input) })).page;
+
+// Replaces the page, refused with PageConflictError unless `version` is still the current one
+export const savePage = async (id: string, content: PageContent, version: number): Promise<PageDocument> =>
+    pageResponseSchema.parse(await request(pageUrl(id), {
+        method: 'PUT',
+        body: JSON.stringify({ ...content, version }),
+    })).page;
+
+export const deletePage = async (id: string): Promise<void> => {
+    await request(pageUrl(id), { method: 'DELETE' });
+};
+
+// Puts the draft at `version` on the site, refused with PageConflictError once it moved on
+export const publishPage = async (id: string, version: number): Promise<PageDocument> =>
+    pageResponseSchema.parse(await request(`${pageUrl(id)}/publish`, {
+        method: 'POST',
+        body: JSON.stringify({ version }),
+    })).page;
+
+// The state of the page the caller acts on, see pageEtag
+type PageState = Pick<PageDocument, 'id' | 'version' | 'published' | 'schedule'>;
+
+// Refused with PageConflictError when the page is no longer in the state `page` has
+export const unpublishPage = async (page: PageState): Promise<PageDocument> =>
+    pageResponseSchema.parse(await request(`${pageUrl(page.id)}/publish`, {
+        method: 'DELETE',
+        headers: { 'If-Match': pageEtag(page) },
+    })).page;
+
+export const schedulePage = async (page: PageState, schedule: PageSchedule): Promise<PageDocument> =>
+    pageResponseSchema.parse(await request(`${pageUrl(page.id)}/schedule`, {
+        method: 'PUT',
+        headers: { 'If-Match': pageEtag(page) },
+        body: JSON.stringify(schedule),
+    })).page;
+
+const revisionUrl = (id: string, version: number) => `${pageUrl(id)}/revisions/${version}`;
+
+// Newest first
+export const listRevisions = async (id: string): Promise<PageRevisionSummary[]> =>
+    pageRevisionListResponseSchema.parse(await request(`${pageUrl(id)}/revisions`)).revisions;
+
+export const loadRevision = async (id: string, version: number): Promise<PageRevision> =>
+    pageRevisionResponseSchema.parse(await request(revisionUrl(id, version))).revision;
+
+// Rolls the site back (or forward) to an earlier revision, the draft stays as it is.
+// `currentVersion` is the draft version the caller has, as with every page action.
+export const publishRevision = async (id: string, version: number, currentVersion: number): Promise<PageDocument> =>
+    pageResponseSchema.parse(await request(`${revisionUrl(id, version)}/publish`, {
+        method: 'POST',
+        body: JSON.stringify({ version: currentVersion }),
+    })).page;
+
+// Makes an earlier revision the draft again, as a new revision
+export const restoreRevision = async (id: string, version: number, currentVersion: number): Promise<PageDocument> =>
+    pageResponseSchema.parse(await request(`${revisionUrl(id, version)}/restore`, {
+        method: 'POST',
+        body: JSON.stringify({ version: currentVersion }),
+    })).page;
@@ -0,0 +1,39 @@
+import { RICH_TEXT_ATTRIBUTES, RICH_TEXT_HREF_PATTERN, RICH_TEXT_TAGS } from '@next-page-builder/contracts';
+
+// Removes a node but keeps its text and allowed children, like the backend does
+const unwrap = (element: Element) => {
+    element.replaceWith(...Array.from(element.childNodes));
+};
+
+const clean = (parent: ParentNode) => {
+    Array.from(parent.children).forEach(element => {
+        const tag = element.tagName.toLowerCase();
+        if (['script', 'style', 'template', 'iframe', 'object', 'embed'].includes(tag)) {
+            element.remove();
+            return;
+        }
+        clean(element);
+        if (!RICH_TEXT_TAGS.includes(tag)) {
+            unwrap(element);
+            return;
+        }
+        Array.from(element.attributes).forEach(attribute => {
+            const allowed = RICH_TEXT_ATTRIBUTES.includes(attribute.name)
+                && (attribute.name !== 'href' || RICH_TEXT_HREF_PATTERN.test(attribute.value.trim()));
+            if (!allowed) element.removeAttribute(attribute.name);
+        });
+        if (tag === 'a' && element.getAttribute('target') === '_blank') {
+            element.setAttribute('rel', 'noopener noreferrer');
+        }
+    });
+};
+
+// The editor previews rich text before the backend has sanitised it. Same allow-list,
+// applied in the browser, so a pasted <img onerror> or javascript: link never runs.
+export const previewRichText = (html: string): string => {
+    if (typeof document === 'undefined') return '';
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    clean(template.content);
+    return template.innerHTML;
+};
@@ -0,0 +1,62 @@
+import fetch from 'node-fetch';
+import {
+    PublishedPage,
+    PublishedPageListResponse,
+    publishedPageListResponseSchema,
+    publishedPageResponseSchema,
+} from '@next-page-builder/contracts';
+import { getConfig } from '@/lib/config';
+
+// Server side only: what the public site renders, straight from the backend without a session
+
+export type PublishedPageEntry = PublishedPageListResponse['pages'][number];
+
+const publishedUrl = (path: string) => `${getConfig().backend.url}/api/published${path}`;
+
+const slugPath = (slug: string) => `/${slug.split('/').map(encodeURIComponent).join('/')}`;
+
+export const listPublishedPages = async (): Promise<PublishedPageEntry[]> => {
+    const response = await fetch(publishedUrl('/pages'));
+    if (!response.ok) {
+        throw new Error(`Listing published pages failed with status ${response.status}`);
+    }
+    return publishedPageListResponseSchema.parse(await response.json()).pages;
+};
+
+const fetchPage = async (path: string, headers?: Record<string, string>): Promise<PublishedPage | null> => {
+    const response = await fetch(publishedUrl(path), { headers });
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new Error(`Loading ${path} failed with status ${response.status}`);
+    }
+    return publishedPageResponseSchema.parse(await response.json()).page;
+};
+
+// Null when no page is published at the slug. Anything else that goes wrong throws,
+// so a page that was rendered before stays up instead of turning into a 404.
+export const fetchPublishedPage = (slug: string) => fetchPage(`/pages${slugPath(slug)}`);
+
+// Preview mode lasts this long, see /api/preview
+export const PREVIEW_MAX_AGE_SECONDS = 60 * 60;
+
+// What the preview cookie carries: the one page whose draft it shows
+export interface PreviewPageData {
+    pageId: string;
+}
+
+export const previewCookiePath = slugPath;
+
+export const isPreviewPageData = (value: unknown): value is PreviewPageData =>
+    typeof value === 'object' && value !== null && typeof (value as PreviewPageData).pageId === 'string';
+
+// The draft of `pageId` at the slug, for preview mode. Null when the slug belongs to another
+// page. The backend only hands out drafts for the shared secret.
+export const fetchDraftPage = (slug: string, pageId: string) => {
+    const { revalidateSecret } = getConfig().site;
+    return fetchPage(
+        `/drafts${slugPath(slug)}?page=${encodeURIComponent(pageId)}`,
+        revalidateSecret ? { Authorization: `Bearer ${revalidateSecret}` } : undefined
+    );
+};
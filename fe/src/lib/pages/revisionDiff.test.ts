@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Block, PageContent } from '@next-page-builder/contracts';
+import { diffPages } from './revisionDiff';
+
+const heading = (id: string, text = id): Block => ({ id, type: 'heading', props: { text, level: 2 } });
+const section = (id: string, children: Block[]): Block => ({ id, type: 'section', props: {}, children });
+
+const content = (blocks: Block[], overrides: Partial<PageContent> = {}): PageContent => ({
+    slug: 'about',
+    title: 'About',
+    seo: {},
+    blocks,
+    ...overrides,
+});
+
+// id:status, with a * for changed blocks that also moved
+const summary = (before: Block[], after: Block[]) => diffPages(content(before), content(after)).entries
+    .map(entry => `${'  '.repeat(entry.depth)}${entry.block.id}:${entry.status}${entry.moved && entry.status === 'changed' ? '*' : ''}`);
+
+describe('diffPages', () => {
+    it('lists changed title, slug and SEO fields', () => {
+        const before = content([], { seo: { description: 'Old', noIndex: true } });
+        const after = content([], { title: 'About us', seo: { description: 'New', title: 'About' } });
+        expect(diffPages(before, after).fields).toEqual(['title', 'seo.description', 'seo.noIndex', 'seo.title']);
+    });
+
+    it('reports nothing for identical revisions', () => {
+        const blocks = [heading('a'), section('s', [heading('b')])];
+        expect(diffPages(content(blocks), content(blocks))).toEqual({
+            fields: [],
+            entries: [
+                expect.objectContaining({ status: 'unchanged', depth: 0 }),
+                expect.objectContaining({ status: 'unchanged', depth: 0 }),
+                expect.objectContaining({ status: 'unchanged', depth: 1 }),
+            ],
+        });
+    });
+
+    it('names the props and styles that changed', () => {
+        const after: Block = { ...heading('a', 'New text'), styles: { textAlign: 'center' } };
+        const [entry] = diffPages(content([heading('a')]), content([after])).entries;
+        expect(entry).toMatchObject({ status: 'changed', moved: false, fields: ['text', 'styles'] });
+    });
+
+    it('shows added blocks where they are and removed ones under the container they were in', () => {
+        const before = [heading('a'), section('s', [heading('gone'), heading('kept')]), heading('old')];
+        const after = [heading('a'), section('s', [heading('kept'), heading('new')])];
+        expect(summary(before, after)).toEqual([
+            'a:unchanged',
+            's:unchanged',
+            '  kept:unchanged',
+            '  new:added',
+            '  gone:removed',
+            'old:removed',
+        ]);
+    });
+
+    it('lists the children of a removed container as removed too', () => {
+        expect(summary([section('s', [heading('b')])], [])).toEqual(['s:removed', '  b:removed']);
+    });
+
+    it('only counts the blocks that left the longest kept order as moved', () => {
+        const before = ['a', 'b', 'c', 'd'].map(id => heading(id));
+        const after = ['b', 'c', 'd', 'a'].map(id => heading(id));
+        expect(summary(before, after)).toEqual(['b:unchanged', 'c:unchanged', 'd:unchanged', 'a:moved']);
+    });
+
+    it('counts a block in another container as moved, and an edited one as changed', () => {
+        const before = [heading('a'), section('s', [heading('b')])];
+        const after = [section('s', [heading('b'), heading('a', 'Edited')])];
+        expect(summary(before, after)).toEqual(['s:unchanged', '  b:unchanged', '  a:changed*']);
+    });
+});
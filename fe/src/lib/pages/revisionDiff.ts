@@ -0,0 +1,129 @@
+import { Block, PageContent, isContainerBlock } from '@next-page-builder/contracts';
+
+export type BlockDiffStatus = 'added' | 'removed' | 'changed' | 'moved' | 'unchanged';
+
+export interface BlockDiffEntry {
+    // As it is in the newer revision, as it was for removed blocks
+    block: Block;
+    depth: number;
+    // A block that was both edited and moved counts as changed, see `moved`
+    status: BlockDiffStatus;
+    moved: boolean;
+    // Props (and `styles`) that differ, for changed blocks
+    fields: string[];
+}
+
+export interface PageDiff {
+    // Title, slug and SEO fields that differ, e.g. seo.description
+    fields: string[];
+    // The newer block tree in order, with removed blocks under the container they were in
+    entries: BlockDiffEntry[];
+}
+
+interface Placement {
+    block: Block;
+    parentId: string | null;
+    index: number;
+}
+
+const place = (blocks: Block[], parentId: string | null = null, into = new Map<string, Placement>()) => {
+    blocks.forEach((block, index) => {
+        into.set(block.id, { block, parentId, index });
+        if (isContainerBlock(block)) {
+            place(block.children, block.id, into);
+        }
+    });
+    return into;
+};
+
+const differs = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+
+const changedFields = (before: Block, after: Block) => {
+    const beforeProps = before.props as Record<string, unknown>;
+    const afterProps = after.props as Record<string, unknown>;
+    const fields = Array.from(new Set([...Object.keys(beforeProps), ...Object.keys(afterProps)]))
+        .filter(key => differs(beforeProps[key], afterProps[key]));
+    if (before.type !== after.type) {
+        fields.unshift('type');
+    }
+    if (differs(before.styles || {}, after.styles || {})) {
+        fields.push('styles');
+    }
+    return fields;
+};
+
+// Ids of the siblings that kept their order: the longest run that is increasing in the old
+// order stays put, everything else among the siblings counts as moved
+const keptInOrder = (ids: string[], oldIndex: (id: string) => number) => {
+    const lengths = ids.map(() => 1);
+    const previous = ids.map(() => -1);
+    ids.forEach((id, i) => {
+        for (let j = 0; j < i; j++) {
+            if (oldIndex(ids[j]) < oldIndex(id) && lengths[j] + 1 > lengths[i]) {
+                lengths[i] = lengths[j] + 1;
+                previous[i] = j;
+            }
+        }
+    });
+    const kept = new Set<string>();
+    let at = lengths.indexOf(Math.max(0, ...lengths));
+    while (at >= 0) {
+        kept.add(ids[at]);
+        at = previous[at];
+    }
+    return kept;
+};
+
+// Which blocks were added, removed, edited or moved between two revisions of a page.
+// Blocks are matched by id, which stays the same across saves.
+export const diffPages = (before: PageContent, after: PageContent): PageDiff => {
+    const fields = (['title', 'slug'] as const).filter(field => before[field] !== after[field]) as string[];
+    const seoKeys = new Set([...Object.keys(before.seo || {}), ...Object.keys(after.seo || {})]);
+    seoKeys.forEach(key => {
+        if (differs(before.seo?.[key as keyof PageContent['seo']], after.seo?.[key as keyof PageContent['seo']])) {
+            fields.push(`seo.${key}`);
+        }
+    });
+
+    const old = place(before.blocks);
+    const current = place(after.blocks);
+    const entries: BlockDiffEntry[] = [];
+
+    const addRemoved = (parentId: string | null, depth: number) => {
+        Array.from(old.values())
+            .filter(placement => placement.parentId === parentId && !current.has(placement.block.id))
+            .sort((a, b) => a.index - b.index)
+            .forEach(({ block }) => {
+                entries.push({ block, depth, status: 'removed', moved: false, fields: [] });
+                addRemoved(block.id, depth + 1);
+            });
+    };
+
+    const walk = (blocks: Block[], parentId: string | null, depth: number) => {
+        // Siblings that were already here, in the same container
+        const stayed = blocks.map(block => block.id).filter(id => old.get(id)?.parentId === parentId);
+        const kept = keptInOrder(stayed, id => old.get(id)!.index);
+
+        blocks.forEach(block => {
+            const was = old.get(block.id);
+            if (!was) {
+                entries.push({ block, depth, status: 'added', moved: false, fields: [] });
+            } else {
+                const moved = was.parentId !== parentId || !kept.has(block.id);
+                const changed = changedFields(was.block, block);
+                const status = changed.length > 0 ? 'changed' : moved ? 'moved' : 'unchanged';
+                entries.push({ block, depth, status, moved, fields: changed });
+            }
+            if (isContainerBlock(block)) {
+                walk(block.children, block.id, depth + 1);
+            }
+            if (was && isContainerBlock(was.block)) {
+                addRemoved(block.id, depth + 1);
+            }
+        });
+    };
+
+    walk(after.blocks, null, 0);
+    addRemoved(null, 0);
+    return { fields, entries };
+};
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Block, PageContent, isContainerBlock, pageUpdateSchema } from '@next-page-builder/contracts';
+import { BLOCK_CATALOG } from './blockCatalog';
+import { PageConflictError, savePage } from './pageRequests';
+
+// Quiet time after the last change before it is saved
+const AUTOSAVE_DELAY_MS = 1500;
+
+export type AutosaveStatus =
+    | 'saved'
+    // Changed, waiting for the user to pause
+    | 'pending'
+    | 'saving'
+    // Would be refused by the backend, nothing is sent until it is fixed
+    | 'invalid'
+    | 'error'
+    // Someone else saved the page since it was loaded
+    | 'conflict';
+
+export interface PageIssue {
+    // The block the issue is about, none for page fields
+    blockId?: string;
+    message: string;
+}
+
+// Turns `blocks.0.children.1.props.assetId` into the block it points at
+const toPageIssue = (content: PageContent, issue: { path: (string | number)[]; message: string }): PageIssue => {
+    const [root, ...path] = issue.path;
+    if (root !== 'blocks') {
+        return { message: `${issue.path.join('.') || 'Page'} ${issue.message}` };
+    }
+    let blocks = content.blocks;
+    let block: Block | undefined;
+    let at = 0;
+    while (typeof path[at] === 'number' && blocks[path[at] as number]) {
+        block = blocks[path[at] as number];
+        at++;
+        if (path[at] !== 'children' || !isContainerBlock(block)) break;
+        blocks = block.children;
+        at++;
+    }
+    if (!block) {
+        return { message: issue.message };
+    }
+    const field = path.slice(at).filter(segment => segment !== 'props').join('.');
+    return { blockId: block.id, message: `${BLOCK_CATALOG[block.type].label}: ${field ? `${field} ` : ''}${issue.message}` };
+};
+
+export interface AutosaveOptions {
+    pageId: string;
+    // Null until the page is loaded, see `reset`
+    content: PageContent | null;
+    enabled?: boolean;
+}
+
+// Saves the page through PUT /api/pages/:id once edits pause. Every save sends the
+// version it builds on, so a concurrent save elsewhere ends in `conflict` rather
+// than being overwritten.
+export const useAutosave = ({ pageId, content, enabled = true }: AutosaveOptions) => {
+    const [status, setStatus] = useState<AutosaveStatus>('saved');
+    const [issues, setIssues] = useState<PageIssue[]>([]);
+    const [error, setError] = useState<string | null>(null);
+    const [savedAt, setSavedAt] = useState<Date | null>(null);
+    const [serverVersion, setServerVersion] = useState<number | null>(null);
+    // The version saved last, what publishing puts on the site
+    const [savedVersion, setSavedVersion] = useState(0);
+    // The version the next save builds on
+    const versionRef = useRef(0);
+    const savedKey = useRef('');
+    const latest = useRef(content);
+    const saving = useRef(false);
+    // Content the last save failed for, retried by `save` rather than on a timer
+    const failedKey = useRef<string | null>(null);
+    latest.current = content;
+
+    const save = useCallback(async () => {
+        const current = latest.current;
+        // Invalid content waits for a fix, see `issues`
+        if (!current || saving.current || !pageUpdateSchema.safeParse(current).success) return;
+        const key = JSON.stringify(current);
+        if (key === savedKey.current) {
+            setStatus('saved');
+            return;
+        }
+
+        saving.current = true;
+        failedKey.current = null;
+        setStatus('saving');
+        setError(null);
+        try {
+            const page = await savePage(pageId, current, versionRef.current);
+            versionRef.current = page.version;
+            setSavedVersion(page.version);
+            savedKey.current = key;
+            setSavedAt(new Date(page.updatedAt));
+            // Edits made while the request was out get their own save
+            setStatus(JSON.stringify(latest.current) === key ? 'saved' : 'pending');
+        } catch (saveError) {
+            failedKey.current = key;
+            if (saveError instanceof PageConflictError) {
+                setServerVersion(saveError.currentVersion ?? null);
+                setStatus('conflict');
+            } else {
+                setStatus('error');
+            }
+            setError(saveError instanceof Error ? saveError.message : 'Saving failed');
+        } finally {
+            saving.current = false;
+        }
+    }, [pageId]);
+
+    // Called with what the server has, after loading or reloading the page
+    const reset = useCallback((saved: PageContent, savedVersion: number) => {
+        savedKey.current = JSON.stringify(saved);
+        failedKey.current = null;
+        versionRef.current = savedVersion;
+        setSavedVersion(savedVersion);
+        setServerVersion(null);
+        setError(null);
+        setStatus('saved');
+    }, []);
+
+    // Resolves a conflict by saving over the other save
+    const overwrite = useCallback(() => {
+        if (serverVersion === null) return;
+        versionRef.current = serverVersion;
+        setServerVersion(null);
+        save();
+    }, [save, serverVersion]);
+
+    useEffect(() => {
+        if (!content || !enabled || status === 'conflict' || status === 'saving') return;
+        const key = JSON.stringify(content);
+        if (key === savedKey.current) {
+            setIssues([]);
+            setStatus('saved');
+            return;
+        }
+        if (key === failedKey.current) return;
+        const result = pageUpdateSchema.safeParse(content);
+        if (!result.success) {
+            setIssues(result.error.issues.map(issue => toPageIssue(content, issue)));
+            setStatus('invalid');
+            return;
+        }
+        setIssues([]);
+        setStatus('pending');
+        const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [content, enabled, save, status]);
+
+    // Closing the tab with unsaved edits asks first
+    useEffect(() => {
+        if (status === 'saved') return;
+        const warn = (event: BeforeUnloadEvent) => {
+            event.preventDefault();
+            event.returnValue = '';
+        };
+        window.addEventListener('beforeunload', warn);
+        return () => window.removeEventListener('beforeunload', warn);
+    }, [status]);
+
+    return { status, issues, error, savedAt, savedVersion, save, reset, overwrite };
+};
@@ -0,0 +1,89 @@
+import { useCallback, useReducer } from 'react';
+
+// Steps kept for undo, the oldest are dropped beyond this
+const MAX_HISTORY = 100;
+
+// Changes of the same group this close together are one undo step, e.g. typing a heading
+const GROUP_WINDOW_MS = 1000;
+
+interface HistoryState<T> {
+    past: T[];
+    present: T;
+    future: T[];
+    group?: string;
+    groupedAt: number;
+}
+
+type HistoryAction<T> =
+    | { type: 'update'; update: (value: T) => T; group?: string; at: number }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'reset'; value: T };
+
+const initialState = <T>(value: T): HistoryState<T> => ({ past: [], present: value, future: [], groupedAt: 0 });
+
+const historyReducer = <T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+    switch (action.type) {
+        case 'update': {
+            const value = action.update(state.present);
+            if (value === state.present) return state;
+            if (action.group && action.group === state.group && action.at - state.groupedAt < GROUP_WINDOW_MS) {
+                return { ...state, present: value, future: [], groupedAt: action.at };
+            }
+            return {
+                past: [...state.past, state.present].slice(-MAX_HISTORY),
+                present: value,
+                future: [],
+                group: action.group,
+                groupedAt: action.at,
+            };
+        }
+        case 'undo': {
+            if (state.past.length === 0) return state;
+            return {
+                past: state.past.slice(0, -1),
+                present: state.past[state.past.length - 1],
+                future: [state.present, ...state.future],
+                groupedAt: 0,
+            };
+        }
+        case 'redo': {
+            if (state.future.length === 0) return state;
+            return {
+                past: [...state.past, state.present],
+                present: state.future[0],
+                future: state.future.slice(1),
+                groupedAt: 0,
+            };
+        }
+        case 'reset':
+            return initialState(action.value);
+    }
+};
+
+// A value with undo and redo. `reset` starts a new history, e.g. after loading
+// what the server has.
+export const useHistory = <T>(initial: T) => {
+    const [state, dispatch] = useReducer(
+        historyReducer as (state: HistoryState<T>, action: HistoryAction<T>) => HistoryState<T>,
+        initial,
+        initialState
+    );
+
+    const update = useCallback((change: (value: T) => T, { group }: { group?: string } = {}) => {
+        dispatch({ type: 'update', update: change, group, at: Date.now() });
+    }, []);
+    const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+    const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+    const reset = useCallback((value: T) => dispatch({ type: 'reset', value }), []);
+
+    return {
+        value: state.present,
+        update,
+        undo,
+        redo,
+        reset,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+    };
+};
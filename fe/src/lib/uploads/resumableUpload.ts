@@ -0,0 +1,149 @@
+// Browser side of the resumable upload protocol served by /api/upload-resumable.
+// The upload URL is remembered per file in localStorage, so a failed or
+// interrupted upload (even across a page reload) continues from the last
+// offset the server acknowledged instead of starting over.
+
+import type { ImageMetadataInput } from '@next-page-builder/contracts';
+
+export interface ResumableUploadOptions {
+    chunkSize?: number;
+    // Alt text, caption etc. stored with the image once it is finalized
+    metadata?: ImageMetadataInput;
+    // Keep EXIF/XMP/IPTC such as GPS location in the stored file, stripped otherwise
+    preserveMetadata?: boolean;
+    // Consecutive failed attempts tolerated before giving up
+    maxRetries?: number;
+    onProgress?: (bytesSent: number, bytesTotal: number) => void;
+    onRetry?: (attempt: number, error: unknown) => void;
+    signal?: AbortSignal;
+}
+
+export const DEFAULT_CHUNK_SIZE = 4 * 1024 * 1024;
+const STORAGE_PREFIX = 'resumable-upload:';
+
+const fingerprint = (file: File) => `${STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const toBase64 = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+    Object.entries(metadata)
+        .map(([key, value]) => `${key} ${toBase64(value)}`)
+        .join(',');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Upload aborted', 'AbortError'));
+    }, { once: true });
+});
+
+class RetryableError extends Error {}
+
+const createUpload = async (
+    file: File,
+    { metadata, preserveMetadata, signal }: Pick<ResumableUploadOptions, 'metadata' | 'preserveMetadata' | 'signal'>
+): Promise<string> => {
+    const response = await fetch('/api/upload-resumable', {
+        method: 'POST',
+        headers: {
+            'Upload-Length': String(file.size),
+            'Upload-Metadata': encodeMetadata({
+                filename: file.name,
+                filetype: file.type,
+                ...(metadata ? { metadata: JSON.stringify(metadata) } : {}),
+                ...(preserveMetadata ? { preserveMetadata: 'true' } : {}),
+            }),
+        },
+        signal,
+    });
+    const location = response.headers.get('location');
+    if (response.status >= 500) {
+        throw new RetryableError(`Creating upload failed with status ${response.status}`);
+    }
+    if (!response.ok || !location) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || `Creating upload failed with status ${response.status}`);
+    }
+    return location;
+};
+
+// Returns the server's offset, or null when the upload no longer exists (expired or finalized)
+const fetchOffset = async (uploadUrl: string, signal?: AbortSignal): Promise<number | null> => {
+    const response = await fetch(uploadUrl, { method: 'HEAD', signal });
+    if (response.status === 404) {
+        return null;
+    }
+    if (!response.ok) {
+        throw new RetryableError(`Querying upload failed with status ${response.status}`);
+    }
+    return Number(response.headers.get('upload-offset'));
+};
+
+const sendChunk = async (uploadUrl: string, chunk: Blob, offset: number, signal?: AbortSignal): Promise<number> => {
+    const response = await fetch(uploadUrl, {
+        method: 'PATCH',
+        headers: {
+            'Content-Type': 'application/offset+octet-stream',
+            'Upload-Offset': String(offset),
+        },
+        body: chunk,
+        signal,
+    });
+    // 409 means our offset is stale, the caller re-syncs with HEAD and carries on
+    if (response.status === 409 || response.status === 423 || response.status >= 500) {
+        throw new RetryableError(`Sending chunk failed with status ${response.status}`);
+    }
+    if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.message || `Sending chunk failed with status ${response.status}`);
+    }
+    return Number(response.headers.get('upload-offset'));
+};
+
+export const uploadResumable = async <T>(file: File, options: ResumableUploadOptions = {}): Promise<T> => {
+    const { chunkSize = DEFAULT_CHUNK_SIZE, maxRetries = 8, metadata, preserveMetadata, onProgress, onRetry, signal } = options;
+    const storageKey = fingerprint(file);
+
+    let uploadUrl = localStorage.getItem(storageKey);
+    let offset: number | null = null;
+    let failures = 0;
+
+    while (true) {
+        try {
+            if (uploadUrl && offset === null) {
+                offset = await fetchOffset(uploadUrl, signal);
+            }
+            if (!uploadUrl || offset === null) {
+                uploadUrl = await createUpload(file, { metadata, preserveMetadata, signal });
+                localStorage.setItem(storageKey, uploadUrl);
+                offset = 0;
+            }
+
+            onProgress?.(offset, file.size);
+            while (offset < file.size) {
+                offset = await sendChunk(uploadUrl, file.slice(offset, offset + chunkSize), offset, signal);
+                failures = 0;
+                onProgress?.(offset, file.size);
+            }
+
+            const response = await fetch(`${uploadUrl}/finalize`, { method: 'POST', signal });
+            if (response.status === 409 || response.status >= 500) {
+                throw new RetryableError(`Finalizing upload failed with status ${response.status}`);
+            }
+            localStorage.removeItem(storageKey);
+            return await response.json() as T;
+        } catch (error) {
+            const retryable = error instanceof RetryableError || error instanceof TypeError; // TypeError: network failure
+            if (!retryable || signal?.aborted || failures >= maxRetries) {
+                throw error;
+            }
+
+            failures++;
+            onRetry?.(failures, error);
+            // Re-sync with the server before the next attempt
+            offset = null;
+            await wait(Math.min(1000 * 2 ** (failures - 1), 30000), signal);
+        }
+    }
+};
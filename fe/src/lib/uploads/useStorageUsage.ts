@@ -0,0 +1,26 @@
+import { useCallback, useEffect, useState } from 'react';
+import { StorageUsage, usageResponseSchema } from '@next-page-builder/contracts';
+
+// The caller's storage usage from /api/usage, `reload` after uploads and deletes
+export const useStorageUsage = ({ enabled = true } = {}) => {
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+    const reload = useCallback(async () => {
+        try {
+            const response = await fetch('/api/usage');
+            if (!response.ok) return;
+            setUsage(usageResponseSchema.parse(await response.json()).usage);
+        } catch (error) {
+            // Only informational, the upload itself reports quota errors
+            console.warn('Loading storage usage failed:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (enabled) {
+            reload();
+        }
+    }, [enabled, reload]);
+
+    return { usage, reload };
+};
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type UploadJobStatus =
+    | 'queued'
+    | 'uploading'
+    // Every byte is sent, waiting for the server to check and store the file
+    | 'validating'
+    | 'done'
+    // The server looked at the file and refused it, retrying will not help
+    | 'rejected'
+    // Network or server error, worth retrying
+    | 'failed'
+    | 'cancelled';
+
+export interface UploadJob<T> {
+    id: string;
+    file: File;
+    status: UploadJobStatus;
+    bytesSent: number;
+    error?: string;
+    result?: T;
+}
+
+export type UploadOutcome<T> =
+    | { status: 'done'; result: T }
+    | { status: 'rejected'; reason: string };
+
+export interface UploadContext {
+    onProgress: (bytesSent: number, bytesTotal: number) => void;
+    signal: AbortSignal;
+}
+
+export interface UploadQueueOptions<T> {
+    concurrency: number;
+    upload: (file: File, context: UploadContext) => Promise<UploadOutcome<T>>;
+    onDone?: (job: UploadJob<T>, result: T) => void;
+}
+
+const ACTIVE_STATUSES: UploadJobStatus[] = ['uploading', 'validating'];
+const RETRYABLE_STATUSES: UploadJobStatus[] = ['failed', 'cancelled'];
+
+let nextJobId = 0;
+
+// Tracks one upload job per file and runs at most `concurrency` of them at a time
+export const useUploadQueue = <T>(options: UploadQueueOptions<T>) => {
+    const [jobs, setJobs] = useState<UploadJob<T>[]>([]);
+    const controllers = useRef(new Map<string, AbortController>());
+    // Latest options without restarting the scheduler when callbacks change identity
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+
+    const updateJob = useCallback((id: string, changes: Partial<UploadJob<T>>) => {
+        setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+    }, []);
+
+    const runJob = useCallback(async (job: UploadJob<T>) => {
+        const controller = new AbortController();
+        controllers.current.set(job.id, controller);
+
+        try {
+            const outcome = await optionsRef.current.upload(job.file, {
+                signal: controller.signal,
+                onProgress: (bytesSent, bytesTotal) => {
+                    updateJob(job.id, {
+                        bytesSent,
+                        status: bytesSent >= bytesTotal ? 'validating' : 'uploading',
+                    });
+                },
+            });
+
+            if (outcome.status === 'done') {
+                updateJob(job.id, { status: 'done', bytesSent: job.file.size, result: outcome.result });
+                optionsRef.current.onDone?.(job, outcome.result);
+            } else {
+                updateJob(job.id, { status: 'rejected', error: outcome.reason });
+            }
+        } catch (error) {
+            if (controller.signal.aborted) {
+                updateJob(job.id, { status: 'cancelled', error: undefined });
+            } else {
+                updateJob(job.id, {
+                    status: 'failed',
+                    error: error instanceof Error ? error.message : 'Upload failed',
+                });
+            }
+        } finally {
+            controllers.current.delete(job.id);
+        }
+    }, [updateJob]);
+
+    // Start queued jobs whenever a slot frees up
+    useEffect(() => {
+        const active = jobs.filter(job => ACTIVE_STATUSES.includes(job.status)).length;
+        const startable = jobs
+            .filter(job => job.status === 'queued' && !controllers.current.has(job.id))
+            .slice(0, Math.max(0, options.concurrency - active));
+
+        if (startable.length === 0) {
+            return;
+        }
+        const startIds = new Set(startable.map(job => job.id));
+        setJobs(prev => prev.map(job => (startIds.has(job.id) ? { ...job, status: 'uploading', bytesSent: 0 } : job)));
+        startable.forEach(job => {
+            // Reserve the slot synchronously so a re-run of this effect cannot start it twice
+            controllers.current.set(job.id, new AbortController());
+            runJob(job);
+        });
+    }, [jobs, options.concurrency, runJob]);
+
+    const addFiles = useCallback((files: File[]) => {
+        setJobs(prev => [
+            ...prev,
+            ...files.map(file => ({ id: `job-${nextJobId++}`, file, status: 'queued' as const, bytesSent: 0 })),
+        ]);
+    }, []);
+
+    const cancel = useCallback((id: string) => {
+        const controller = controllers.current.get(id);
+        if (controller) {
+            controller.abort();
+        } else {
+            updateJob(id, { status: 'cancelled' });
+        }
+    }, [updateJob]);
+
+    const retry = useCallback((id: string) => {
+        setJobs(prev => prev.map(job => (
+            job.id === id && RETRYABLE_STATUSES.includes(job.status)
+                ? { ...job, status: 'queued', bytesSent: 0, error: undefined }
+                : job
+        )));
+    }, []);
+
+    const remove = useCallback((id: string) => {
+        controllers.current.get(id)?.abort();
+        setJobs(prev => prev.filter(job => job.id !== id));
+    }, []);
+
+    const clearFinished = useCallback(() => {
+        setJobs(prev => prev.filter(job => job.status !== 'done'));
+    }, []);
+
+    return { jobs, addFiles, cancel, retry, remove, clearFinished };
+};
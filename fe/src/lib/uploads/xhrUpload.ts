@@ -0,0 +1,36 @@
+export interface XhrUploadOptions {
+    onProgress?: (bytesSent: number, bytesTotal: number) => void;
+    signal?: AbortSignal;
+}
+
+export interface XhrUploadResult<T> {
+    status: number;
+    body: T;
+}
+
+// fetch() cannot report upload progress, XMLHttpRequest can
+export const postFormWithProgress = <T>(
+    url: string,
+    formData: FormData,
+    { onProgress, signal }: XhrUploadOptions = {}
+): Promise<XhrUploadResult<T>> => new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', url);
+    xhr.responseType = 'json';
+
+    xhr.upload.onprogress = event => {
+        if (event.lengthComputable) {
+            onProgress?.(event.loaded, event.total);
+        }
+    };
+    xhr.onload = () => resolve({ status: xhr.status, body: xhr.response as T });
+    xhr.onerror = () => reject(new TypeError('Network request failed'));
+    xhr.onabort = () => reject(new DOMException('Upload aborted', 'AbortError'));
+
+    if (signal?.aborted) {
+        reject(new DOMException('Upload aborted', 'AbortError'));
+        return;
+    }
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(formData);
+});
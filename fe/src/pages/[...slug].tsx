@@ -0,0 +1,93 @@
+import type { GetStaticPaths, GetStaticProps } from 'next';
+import Head from 'next/head';
+import { PublishedPage, pageSlugSchema } from '@next-page-builder/contracts';
+import { BlockRenderer } from '@/components/blocks/BlockRenderer';
+import { getConfig } from '@/lib/config';
+import { fetchDraftPage, fetchPublishedPage, isPreviewPageData, listPublishedPages } from '@/lib/pages/publishedPages';
+import styles from './[...slug].module.css';
+
+interface PublishedPageProps {
+  page: PublishedPage;
+  canonicalUrl: string;
+  // Preview mode, see /api/preview: the draft is shown instead of the published revision
+  preview: boolean;
+}
+
+type SlugParams = { slug: string[] };
+
+// Published pages of the site workspace, generated on first request and kept up to date by the
+// backend calling /api/revalidate, with site.revalidateSeconds as a fallback for missed calls
+export default function PublishedPageView({ page, canonicalUrl, preview }: PublishedPageProps) {
+  const title = page.seo.title || page.title;
+  const ogImage = page.seo.ogImageAssetId ? page.assets[page.seo.ogImageAssetId] : undefined;
+
+  return (
+    <div className={styles.site}>
+      <Head>
+        <title>{title}</title>
+        {page.seo.description && <meta name="description" content={page.seo.description} />}
+        {(page.seo.noIndex || preview) && <meta name="robots" content="noindex" />}
+        <link rel="canonical" href={canonicalUrl} />
+        <meta property="og:type" content="website" />
+        <meta property="og:title" content={title} />
+        <meta property="og:url" content={canonicalUrl} />
+        {page.seo.description && <meta property="og:description" content={page.seo.description} />}
+        {ogImage && <meta property="og:image" content={ogImage.url} />}
+      </Head>
+
+      {preview && (
+        <div className={styles.previewBanner} role="status">
+          Preview of the draft, visitors {page.publishedAt ? 'still see the published version' : 'cannot see this page yet'}
+          <a href={`/api/preview/exit?path=${encodeURIComponent(`/${page.slug}`)}`} className={styles.previewExit}>Exit preview</a>
+        </div>
+      )}
+
+      <main className={styles.content}>
+        <BlockRenderer blocks={page.blocks} assets={page.assets} hideMissingImages />
+      </main>
+    </div>
+  );
+}
+
+// Pages published by build time are generated up front, the rest on their first request.
+// A backend that is not reachable while building (e.g. in the Docker build) only means the latter.
+export const getStaticPaths: GetStaticPaths<SlugParams> = async () => {
+  try {
+    const pages = await listPublishedPages();
+    return {
+      paths: pages.map(page => ({ params: { slug: page.slug.split('/') } })),
+      fallback: 'blocking',
+    };
+  } catch (error) {
+    console.warn('Published pages are not pre-rendered:', error instanceof Error ? error.message : error);
+    return { paths: [], fallback: 'blocking' };
+  }
+};
+
+export const getStaticProps: GetStaticProps<PublishedPageProps, SlugParams> = async ({ params, preview: previewMode, previewData }) => {
+  const { site } = getConfig();
+  const slug = (params?.slug || []).join('/');
+  // Anything that could never be a slug is turned away without asking the backend
+  if (pageSlugSchema.safeParse(slug).data !== slug) {
+    return { notFound: true, revalidate: site.revalidateSeconds };
+  }
+
+  // Errors other than an unknown slug throw, which keeps the last generated version up.
+  // Preview mode renders on every request, so nothing here is cached for it. It shows the
+  // draft of the one page it was turned on for, any other slug gets what visitors get.
+  const previewPageId = previewMode && isPreviewPageData(previewData) ? previewData.pageId : undefined;
+  const draft = previewPageId ? await fetchDraftPage(slug, previewPageId) : null;
+  const preview = draft !== null;
+  const page = draft || await fetchPublishedPage(slug);
+  if (!page) {
+    return { notFound: true, revalidate: site.revalidateSeconds };
+  }
+  return {
+    props: {
+      page,
+      canonicalUrl: page.seo.canonicalUrl || `${site.url.replace(/\/+$/, '')}/${page.slug}`,
+      preview,
+    },
+    revalidate: site.revalidateSeconds,
+  };
+};
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { setSessionCookie } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
+
+// Exchanges credentials for a backend token and keeps it in the session cookie
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const backendUrl = getConfig().backend.url;
+        const response = await fetch(`${backendUrl}/api/auth/login`, {
+            method: 'POST',
+            body: JSON.stringify({ username: req.body?.username, password: req.body?.password }),
+            headers: { ...requestIdHeaders(req, res), 'Content-Type': 'application/json' },
+        });
+        const result = await response.json();
+
+        if (!response.ok || !result.token) {
+            return res.status(response.status).json({
+                success: false,
+                message: result.message || 'Sign in failed'
+            });
+        }
+
+        setSessionCookie(res, result.token, new Date(result.expiresAt));
+        res.status(200).json({
+            success: true,
+            user: result.user
+        });
+    } catch (error) {
+        console.error('Login API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
@@ -0,0 +1,33 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { backendAuthHeaders } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
+
+// Who the session cookie belongs to, 401 when signed out or expired
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const backendUrl = getConfig().backend.url;
+        const response = await fetch(`${backendUrl}/api/auth/me`, {
+            headers: { ...backendAuthHeaders(req), ...requestIdHeaders(req, res) },
+        });
+        res.status(response.status).json(await response.json());
+    } catch (error) {
+        console.error('Session API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
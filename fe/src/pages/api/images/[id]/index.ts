@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { backendAuthHeaders } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
+
+// GET loads one image, DELETE removes it (or releases one reference to it, `force=true`
+// also removes one pages still show), PATCH updates its alt text, caption, tags and properties
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (!['GET', 'DELETE', 'PATCH'].includes(req.method || '')) {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const backendUrl = getConfig().backend.url;
+        const force = req.method === 'DELETE' && req.query.force === 'true' ? '?force=true' : '';
+        const response = await fetch(`${backendUrl}/api/images/${encodeURIComponent(String(req.query.id))}${force}`, {
+            method: req.method,
+            headers: req.method === 'PATCH'
+                ? { ...backendAuthHeaders(req), ...requestIdHeaders(req, res), 'Content-Type': 'application/json' }
+                : { ...backendAuthHeaders(req), ...requestIdHeaders(req, res) },
+            body: req.method === 'PATCH' ? JSON.stringify(req.body) : undefined,
+        });
+        res.status(response.status).json(await response.json());
+    } catch (error) {
+        console.error('Image API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
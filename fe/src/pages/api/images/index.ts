@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { backendAuthHeaders } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
+
+// One page of the image library, the query string (filters, sort, cursor) is passed through as-is
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const backendUrl = getConfig().backend.url;
+        const search = req.url?.includes('?') ? req.url.slice(req.url.indexOf('?')) : '';
+        const response = await fetch(`${backendUrl}/api/images${search}`, {
+            headers: { ...backendAuthHeaders(req), ...requestIdHeaders(req, res) },
+        });
+        res.status(response.status).json(await response.json());
+    } catch (error) {
+        console.error('Image list API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
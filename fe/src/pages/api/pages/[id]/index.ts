@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { backendAuthHeaders } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
+
+// GET loads a page document, PUT replaces it (send `version` to refuse overwriting
+// someone else's save), DELETE removes it
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (!['GET', 'PUT', 'DELETE'].includes(req.method || '')) {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const backendUrl = getConfig().backend.url;
+        const response = await fetch(`${backendUrl}/api/pages/${encodeURIComponent(String(req.query.id))}`, {
+            method: req.method,
+            headers: req.method === 'PUT'
+                ? { ...backendAuthHeaders(req), ...requestIdHeaders(req, res), 'Content-Type': 'application/json' }
+                : { ...backendAuthHeaders(req), ...requestIdHeaders(req, res) },
+            body: req.method === 'PUT' ? JSON.stringify(req.body) : undefined,
+        });
+        res.status(response.status).json(await response.json());
+    } catch (error) {
+        console.error('Page API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
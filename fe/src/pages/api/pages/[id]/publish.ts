@@ -0,0 +1,11 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { pageBackendPath, proxyPageRequest } from '@/lib/api-middleware/pageProxy';
+
+// POST puts the draft on the site (send `version` to refuse publishing a draft that
+// moved on), DELETE takes the page off it again
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    await proxyPageRequest(req, res, pageBackendPath(req, '/publish'), ['POST', 'DELETE']);
+}
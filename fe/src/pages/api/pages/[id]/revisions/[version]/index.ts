@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { pageBackendPath, proxyPageRequest } from '@/lib/api-middleware/pageProxy';
+
+// GET loads one revision with its content
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    await proxyPageRequest(req, res, pageBackendPath(req), ['GET']);
+}
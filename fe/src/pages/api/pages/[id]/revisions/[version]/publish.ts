@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { pageBackendPath, proxyPageRequest } from '@/lib/api-middleware/pageProxy';
+
+// POST puts this revision on the site, the draft stays as it is
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    await proxyPageRequest(req, res, pageBackendPath(req, '/publish'), ['POST']);
+}
@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { pageBackendPath, proxyPageRequest } from '@/lib/api-middleware/pageProxy';
+
+// POST makes this revision the draft again, as a new revision
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    await proxyPageRequest(req, res, pageBackendPath(req, '/restore'), ['POST']);
+}
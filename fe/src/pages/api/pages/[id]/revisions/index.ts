@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { pageBackendPath, proxyPageRequest } from '@/lib/api-middleware/pageProxy';
+
+// GET lists the page's revisions, newest first
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    await proxyPageRequest(req, res, pageBackendPath(req, '/revisions'), ['GET']);
+}
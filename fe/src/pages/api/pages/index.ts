@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { backendAuthHeaders } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
+
+// GET lists the pages of the signed in user's workspace, POST creates one
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const backendUrl = getConfig().backend.url;
+        const response = await fetch(`${backendUrl}/api/pages`, {
+            method: req.method,
+            headers: req.method === 'POST'
+                ? { ...backendAuthHeaders(req), ...requestIdHeaders(req, res), 'Content-Type': 'application/json' }
+                : { ...backendAuthHeaders(req), ...requestIdHeaders(req, res) },
+            body: req.method === 'POST' ? JSON.stringify(req.body) : undefined,
+        });
+        const location = response.headers.get('location');
+        if (location) {
+            res.setHeader('Location', `/api/pages/${location.split('/').pop()}`);
+        }
+        res.status(response.status).json(await response.json());
+    } catch (error) {
+        console.error('Pages API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
@@ -0,0 +1,19 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+// GET ?path=/<slug> turns preview mode off again and goes back to the published page
+export default function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    const path = typeof req.query.path === 'string' && /^\/(?![/\\])/.test(req.query.path) ? req.query.path : '/';
+    // The cookies were set for the page's address only, see /api/preview
+    res.clearPreviewData({ path });
+    res.redirect(307, path);
+}
@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { pageResponseSchema } from '@next-page-builder/contracts';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { backendAuthHeaders } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
+import { PREVIEW_MAX_AGE_SECONDS, PreviewPageData, previewCookiePath } from '@/lib/pages/publishedPages';
+
+// GET ?id=<page id> turns on preview mode for that page and opens it, it then shows the
+// draft instead of what is published. The backend only lets editors of the site workspace
+// through, and the preview cookie is limited to the page's address and names the page, so
+// it shows no other drafts. See PREVIEW_MAX_AGE_SECONDS for how long it lasts.
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (req.method !== 'GET') {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const backendUrl = getConfig().backend.url;
+        const response = await fetch(`${backendUrl}/api/pages/${encodeURIComponent(String(req.query.id))}/preview`, {
+            headers: { ...backendAuthHeaders(req), ...requestIdHeaders(req, res) },
+        });
+        const result = await response.json();
+        if (!response.ok) {
+            return res.status(response.status).json(result);
+        }
+
+        const { page } = pageResponseSchema.parse(result);
+        const previewData: PreviewPageData = { pageId: page.id };
+        res.setPreviewData(previewData, { maxAge: PREVIEW_MAX_AGE_SECONDS, path: previewCookiePath(page.slug) });
+        res.redirect(307, previewCookiePath(page.slug));
+    } catch (error) {
+        console.error('Preview API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
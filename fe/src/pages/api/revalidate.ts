@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import crypto from 'crypto';
+import { describeIssues, revalidateRequestSchema } from '@next-page-builder/contracts';
+import { getConfig } from '@/lib/config';
+
+// Called by the backend when published pages change, behind
+// `Authorization: Bearer <site.revalidateSecret>`. Rebuilds the statically generated pages
+// at the given paths, pages that are gone turn into 404s on the way.
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    const { revalidateSecret } = getConfig().site;
+    const given = Buffer.from(req.headers.authorization || '');
+    const expected = Buffer.from(`Bearer ${revalidateSecret}`);
+    if (!revalidateSecret || given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+        return res.status(401).json({ success: false, message: 'Invalid revalidate secret' });
+    }
+
+    const parsed = revalidateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ success: false, message: describeIssues(parsed.error.issues) });
+    }
+
+    const results = await Promise.allSettled(parsed.data.paths.map(path => res.revalidate(path)));
+    const failed = parsed.data.paths.filter((_, index) => results[index].status === 'rejected');
+    if (failed.length > 0) {
+        console.error('Revalidate API error:', results.filter(result => result.status === 'rejected'));
+        return res.status(500).json({ success: false, message: `Revalidating ${failed.join(', ')} failed` });
+    }
+    res.json({ success: true, revalidated: parsed.data.paths });
+}
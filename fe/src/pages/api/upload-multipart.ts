@@ -1,34 +1,14 @@
-import { createFormDataMiddleware } from '@/lib/api-middleware/withMultiplePathForm';
-import FormData from 'form-data';
-import formidable from 'formidable';
 import type { NextApiRequest, NextApiResponse } from 'next';
-import fetch from 'node-fetch';
-interface UploadResponse {
-    success: boolean;
-    message: string;
-    files?: Array<{
-        id: string;
-        originalName: string;
-        filename: string;
-        path: string;
-        size: number;
-        mimetype: string;
-        url: string;
-    }>;
-    error?: string;
-}
-
-
-interface ProcessedRequest extends NextApiRequest {
-    formData?: FormData;
-    parsedFiles?: formidable.File[];
-    parsedFields?: formidable.Fields;
-}
-
+import { UploadResponse, uploadFailure } from '@next-page-builder/contracts';
+import { forwardedForHeaders } from '@/lib/api-middleware/rateLimit';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { streamMultipartToBackend } from '@/lib/api-middleware/streamingMultipartProxy';
+import { backendAuthHeaders } from '@/lib/auth/session';
+import { getConfig } from '@/lib/config';
 
 export const config = {
     api: {
-        bodyParser: false, // Disable body parsing, we'll handle it with formidable
+        bodyParser: false, // The multipart body is streamed through to the backend untouched
     },
 };
 
@@ -37,39 +17,21 @@ export default async function handler(
     res: NextApiResponse<UploadResponse>
 ) {
     if (req.method !== 'POST') {
-        return res.status(405).json({
-            success: false,
-            message: 'Method not allowed'
-        });
+        return res.status(405).json(uploadFailure('MALFORMED_REQUEST', 'Method not allowed'));
     }
-    const processedReq = req as ProcessedRequest;
 
-    createFormDataMiddleware(processedReq, res, async () => {
-        try {
-            // Send to Express backend
-            const backendUrl = process.env.BACKEND_URL || 'http://127.0.0.1:8080';
-            const response = await fetch(`${backendUrl}/api/upload`, {
-                method: 'POST',
-                body: req.body,
-                headers: {
-                    ...processedReq.body.getHeaders(), // Forward FormData headers
-                }
-            });
-
-            if (!response.ok) {
-                throw new Error(`Backend responded with status: ${response.status}`);
-            }
-            const result: UploadResponse = await response.json();
-            res.status(200).json(result);
-
-
-        } catch (error) {
-            console.error('Upload API error:', error);
-            res.status(500).json({
-                success: false,
-                message: 'Internal server error',
-                error: error instanceof Error ? error.message : 'Unknown error'
-            });
-        }
-    })
-}
\ No newline at end of file
+    // Send to Express backend while checking each file as it streams past
+    const { backend, uploads } = getConfig();
+    await streamMultipartToBackend(req, res, {
+        target: `${backend.url}/api/upload`,
+        // Same limits as the backend
+        maxFileSize: uploads.maxFileSize,
+        maxFiles: uploads.maxFiles,
+        allowedMimeType: mimetype => mimetype.startsWith('image/'),
+        headers: {
+            ...backendAuthHeaders(req),
+            ...forwardedForHeaders(req),
+            ...requestIdHeaders(req, res),
+        },
+    });
+}
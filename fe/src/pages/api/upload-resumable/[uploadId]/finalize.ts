@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { UploadContractError, UploadResponse, parseUploadResponse, uploadFailure } from '@next-page-builder/contracts';
+import { resumableBackendUrl } from '@/lib/api-middleware/resumableProxy';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { backendAuthHeaders } from '@/lib/auth/session';
+
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse<UploadResponse>
+) {
+    if (req.method !== 'POST') {
+        return res.status(405).json(uploadFailure('MALFORMED_REQUEST', 'Method not allowed'));
+    }
+
+    try {
+        const response = await fetch(`${resumableBackendUrl(String(req.query.uploadId))}/finalize`, {
+            method: 'POST',
+            headers: { ...backendAuthHeaders(req), ...requestIdHeaders(req, res) },
+        });
+        // Finalizing answers with a regular upload response, hold it to the same contract
+        const result = parseUploadResponse(await response.json());
+        res.status(response.status).json(result);
+    } catch (error) {
+        console.error('Resumable upload API error:', error);
+        if (error instanceof UploadContractError) {
+            return res.status(502).json(uploadFailure('INTERNAL_ERROR', 'Backend returned an unexpected upload response'));
+        }
+        res.status(500).json(uploadFailure(
+            'INTERNAL_ERROR',
+            error instanceof Error ? error.message : 'Internal server error'
+        ));
+    }
+}
@@ -0,0 +1,55 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import {
+    pickResumableHeaders,
+    relayResumableResponse,
+    resumableBackendUrl,
+} from '@/lib/api-middleware/resumableProxy';
+import { backendAuthHeaders } from '@/lib/auth/session';
+
+export const config = {
+    api: {
+        bodyParser: false, // PATCH bodies are streamed straight through to the backend
+    },
+};
+
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (!['HEAD', 'PATCH', 'DELETE'].includes(req.method || '')) {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const headers: Record<string, string> = {
+            ...pickResumableHeaders(req.headers),
+            ...backendAuthHeaders(req),
+            ...requestIdHeaders(req, res),
+        };
+        if (req.method === 'PATCH') {
+            headers['content-type'] = req.headers['content-type'] || '';
+            if (req.headers['content-length']) {
+                headers['content-length'] = req.headers['content-length'];
+            }
+        }
+
+        const response = await fetch(resumableBackendUrl(String(req.query.uploadId)), {
+            method: req.method,
+            body: req.method === 'PATCH' ? req : undefined,
+            headers,
+        });
+        await relayResumableResponse(response, res);
+    } catch (error) {
+        console.error('Resumable upload API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import fetch from 'node-fetch';
+import {
+    pickResumableHeaders,
+    relayResumableResponse,
+    resumableBackendUrl,
+} from '@/lib/api-middleware/resumableProxy';
+import { requestIdHeaders } from '@/lib/api-middleware/requestId';
+import { forwardedForHeaders } from '@/lib/api-middleware/rateLimit';
+import { backendAuthHeaders } from '@/lib/auth/session';
+
+// Creates a resumable upload on the backend and points its Location at our own proxy routes
+export default async function handler(
+    req: NextApiRequest,
+    res: NextApiResponse
+) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({
+            success: false,
+            message: 'Method not allowed'
+        });
+    }
+
+    try {
+        const response = await fetch(resumableBackendUrl(), {
+            method: 'POST',
+            body: JSON.stringify(req.body || {}),
+            headers: {
+                ...pickResumableHeaders(req.headers),
+                ...backendAuthHeaders(req),
+                ...forwardedForHeaders(req),
+                ...requestIdHeaders(req, res),
+                'Content-Type': 'application/json',
+            },
+        });
+
+        const location = response.headers.get('location');
+        if (location) {
+            res.setHeader('Location', `/api/upload-resumable/${location.split('/').pop()}`);
+        }
+        await relayResumableResponse(response, res);
+    } catch (error) {
+        console.error('Resumable upload API error:', error);
+        res.status(500).json({
+            success: false,
+            message: 'Internal server error',
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+}
@@ -0,0 +1,286 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { PageDocument, PageRevision, PageRevisionSummary } from '@next-page-builder/contracts';
+import { useSession } from '@/lib/auth/useSession';
+import { BLOCK_CATALOG, describeBlock } from '@/lib/pages/blockCatalog';
+import {
+  PageConflictError,
+  listRevisions,
+  loadPage,
+  loadRevision,
+  publishRevision,
+  restoreRevision,
+  schedulePage,
+} from '@/lib/pages/pageRequests';
+import { BlockDiffStatus, diffPages } from '@/lib/pages/revisionDiff';
+import styles from './index.module.css';
+
+const STATUS_LABELS: Record<BlockDiffStatus, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  moved: 'Moved',
+  unchanged: 'Unchanged',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (value?: string) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : undefined);
+
+// Revisions of a page: who saved what when, which one is live, comparing two of them,
+// rolling the site back and scheduling when the page goes on and off the site
+export default function PageHistory() {
+  const router = useRouter();
+  const pageId = typeof router.query.id === 'string' ? router.query.id : null;
+  const { user } = useSession({ required: true });
+  const [page, setPage] = useState<PageDocument | null>(null);
+  const [revisions, setRevisions] = useState<PageRevisionSummary[]>([]);
+  const [loaded, setLoaded] = useState<Record<number, PageRevision>>({});
+  const requested = useRef(new Set<number>());
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [publishAt, setPublishAt] = useState('');
+  const [unpublishAt, setUnpublishAt] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const isEditor = user?.role === 'editor' || user?.role === 'admin';
+
+  const showPage = useCallback((document: PageDocument) => {
+    setPage(document);
+    setPublishAt(toLocalInput(document.schedule?.publishAt));
+    setUnpublishAt(toLocalInput(document.schedule?.unpublishAt));
+  }, []);
+
+  const reload = useCallback(async () => {
+    if (!pageId) return;
+    try {
+      const [document, list] = await Promise.all([loadPage(pageId), listRevisions(pageId)]);
+      showPage(document);
+      setRevisions(list);
+      setTo(list[0]?.version ?? null);
+      setFrom(list[1]?.version ?? null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Loading the history failed');
+    }
+  }, [pageId, showPage]);
+
+  useEffect(() => {
+    if (user) reload();
+  }, [user, reload]);
+
+  // Revisions never change, each one is loaded once
+  useEffect(() => {
+    if (!pageId) return;
+    [from, to].forEach(version => {
+      if (version === null || requested.current.has(version)) return;
+      requested.current.add(version);
+      loadRevision(pageId, version)
+        .then(revision => setLoaded(prev => ({ ...prev, [version]: revision })))
+        .catch(error => {
+          requested.current.delete(version);
+          setMessage(error instanceof Error ? error.message : 'Loading the revision failed');
+        });
+    });
+  }, [pageId, from, to]);
+
+  const diff = useMemo(() => {
+    const before = from !== null ? loaded[from] : undefined;
+    const after = to !== null ? loaded[to] : undefined;
+    return before && after ? diffPages(before, after) : null;
+  }, [from, to, loaded]);
+
+  // Runs a page action, a conflict means someone saved meanwhile and the list is outdated
+  const run = async (action: () => Promise<PageDocument>, done: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      showPage(await action());
+      setMessage(done);
+      setRevisions(await listRevisions(pageId!));
+    } catch (error) {
+      if (error instanceof PageConflictError) {
+        await reload();
+      }
+      setMessage(error instanceof Error ? error.message : 'The action failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = (version: number) => {
+    if (!page || !window.confirm(`Make revision ${version} the draft again? The current draft stays in the history.`)) return;
+    run(async () => {
+      const document = await restoreRevision(page.id, version, page.version);
+      setTo(document.version);
+      setFrom(version);
+      return document;
+    }, `Revision ${version} is the draft again`);
+  };
+
+  const publish = (version: number) => {
+    if (!page || !window.confirm(`Put revision ${version} on the site?`)) return;
+    run(() => publishRevision(page.id, version, page.version), `Revision ${version} is live`);
+  };
+
+  const saveSchedule = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!page) return;
+    run(
+      () => schedulePage(page, { publishAt: fromLocalInput(publishAt), unpublishAt: fromLocalInput(unpublishAt) }),
+      publishAt || unpublishAt ? 'Schedule saved' : 'Schedule cleared'
+    );
+  };
+
+  if (!page) {
+    return (
+      <div className={styles.centered}>
+        {message || 'Loading…'}
+        <Link href="/editor" className={styles.button}>Back to pages</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.container}>
+      <Head>
+        <title>{`${page.title} - History`}</title>
+      </Head>
+
+      <main className={styles.main}>
+        <header className={styles.header}>
+          <h1 className={styles.title}>History of {page.title}</h1>
+          <div className={styles.headerLinks}>
+            <Link href={`/editor/${page.id}`} className={styles.button}>Back to the editor</Link>
+            <a href={`/api/preview?id=${encodeURIComponent(page.id)}`} target="_blank" rel="noopener noreferrer" className={styles.button}>
+              Preview draft
+            </a>
+          </div>
+        </header>
+
+        {message && (
+          <div className={styles.message}>
+            {message}
+            <button onClick={() => setMessage(null)} className={styles.button}>Dismiss</button>
+          </div>
+        )}
+
+        <section className={styles.panel}>
+          <h2 className={styles.panelTitle}>Publishing</h2>
+          <p className={styles.summary}>
+            {page.published
+              ? <>Revision {page.published.version} is live at <a href={`/${page.published.slug}`}>/{page.published.slug}</a> since {formatDate(page.published.publishedAt)}.</>
+              : 'The page is not on the site.'}
+            {page.published && page.published.version !== page.version && ' The draft has changes that are not published yet.'}
+          </p>
+          {isEditor && (
+            <form className={styles.schedule} onSubmit={saveSchedule}>
+              <label className={styles.field}>
+                Publish the draft at
+                <input type="datetime-local" value={publishAt} onChange={(event) => setPublishAt(event.target.value)} />
+              </label>
+              <label className={styles.field}>
+                Take the page off the site at
+                <input type="datetime-local" value={unpublishAt} onChange={(event) => setUnpublishAt(event.target.value)} />
+              </label>
+              <button type="submit" disabled={busy} className={`${styles.button} ${styles.primary}`}>Save schedule</button>
+            </form>
+          )}
+        </section>
+
+        <section className={styles.panel}>
+          <h2 className={styles.panelTitle}>Revisions</h2>
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th title="Compare from">From</th>
+                <th title="Compare to">To</th>
+                <th>Revision</th>
+                <th>Saved</th>
+                <th>By</th>
+                <th>Address</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {revisions.map(revision => (
+                <tr key={revision.version}>
+                  <td>
+                    <input type="radio" name="from" checked={from === revision.version} onChange={() => setFrom(revision.version)} />
+                  </td>
+                  <td>
+                    <input type="radio" name="to" checked={to === revision.version} onChange={() => setTo(revision.version)} />
+                  </td>
+                  <td>
+                    {revision.version}
+                    {revision.version === page.version && <span className={styles.badge}>Draft</span>}
+                    {revision.version === page.published?.version && <span className={`${styles.badge} ${styles.live}`}>Published</span>}
+                    {revision.restoredFrom && <span className={styles.note}>restored from {revision.restoredFrom}</span>}
+                  </td>
+                  <td>{formatDate(revision.createdAt)}</td>
+                  <td>{revision.authorName || revision.authorId || '—'}</td>
+                  <td className={styles.mono}>/{revision.slug}</td>
+                  <td className={styles.actions}>
+                    {isEditor && revision.version !== page.published?.version && (
+                      <button onClick={() => publish(revision.version)} disabled={busy} className={styles.button}>Publish</button>
+                    )}
+                    {isEditor && revision.version !== page.version && (
+                      <button onClick={() => restore(revision.version)} disabled={busy} className={styles.button}>Restore</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        <section className={styles.panel}>
+          <h2 className={styles.panelTitle}>
+            Changes {from !== null && to !== null && `from revision ${from} to ${to}`}
+          </h2>
+          {!diff && <p className={styles.summary}>{from === null || to === null ? 'Pick two revisions to compare' : 'Loading…'}</p>}
+          {diff && (
+            <>
+              {diff.fields.length > 0 && (
+                <p className={styles.summary}>Page settings changed: {diff.fields.join(', ')}</p>
+              )}
+              <label className={styles.checkbox}>
+                <input type="checkbox" checked={showUnchanged} onChange={(event) => setShowUnchanged(event.target.checked)} />
+                Show unchanged blocks
+              </label>
+              <ul className={styles.diff}>
+                {diff.entries
+                  .filter(entry => showUnchanged || entry.status !== 'unchanged')
+                  .map(entry => (
+                    <li
+                      key={`${entry.status}-${entry.block.id}`}
+                      className={`${styles.diffEntry} ${styles[entry.status]}`}
+                      style={{ marginLeft: `${entry.depth * 1.5}rem` }}
+                    >
+                      <span className={styles.status}>{STATUS_LABELS[entry.status]}</span>
+                      <strong>{BLOCK_CATALOG[entry.block.type].label}</strong>
+                      <span className={styles.description}>{describeBlock(entry.block)}</span>
+                      {entry.fields.length > 0 && <span className={styles.fields}>{entry.fields.join(', ')}</span>}
+                      {entry.moved && entry.status === 'changed' && <span className={styles.fields}>moved</span>}
+                    </li>
+                  ))}
+              </ul>
+              {diff.fields.length === 0 && diff.entries.every(entry => entry.status === 'unchanged') && (
+                <p className={styles.summary}>No differences</p>
+              )}
+            </>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
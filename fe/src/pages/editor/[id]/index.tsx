@@ -0,0 +1,379 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import {
+  Block,
+  BlockType,
+  MAX_COLUMNS,
+  PageContent,
+  PageDocument,
+  PagePublication,
+  isContainerBlock,
+  pageAssetIds,
+} from '@next-page-builder/contracts';
+import { BlockRenderer } from '@/components/blocks/BlockRenderer';
+import { BlockPalette } from '@/components/editor/BlockPalette';
+import { BlockChange, BlockSettings, PageChange, PageSettings } from '@/components/editor/BlockSettings';
+import { BlockDrag, EditorCanvas } from '@/components/editor/EditorCanvas';
+import { useSession } from '@/lib/auth/useSession';
+import { useAssets } from '@/lib/images/useAssets';
+import { createBlock } from '@/lib/pages/blockCatalog';
+import {
+  BlockLocation,
+  containsBlock,
+  duplicateBlock,
+  findBlock,
+  findLocation,
+  insertBlock,
+  moveBlock,
+  removeBlock,
+  updateBlock,
+} from '@/lib/pages/blockTree';
+import { PageAsset } from '@/lib/pages/pageAssets';
+import { loadPage, publishPage, unpublishPage } from '@/lib/pages/pageRequests';
+import { previewRichText } from '@/lib/pages/previewRichText';
+import { AutosaveStatus, useAutosave } from '@/lib/pages/useAutosave';
+import { useHistory } from '@/lib/pages/useHistory';
+import styles from './index.module.css';
+
+type ViewMode = 'edit' | 'split' | 'preview';
+
+const VIEW_LABELS: Record<ViewMode, string> = { edit: 'Edit', split: 'Split', preview: 'Preview' };
+
+const STATUS_LABELS: Record<AutosaveStatus, string> = {
+  saved: 'All changes saved',
+  pending: 'Unsaved changes',
+  saving: 'Saving…',
+  invalid: 'Not saved, fix the problems below',
+  error: 'Saving failed',
+  conflict: 'Someone else saved this page',
+};
+
+const ATTENTION_STATUSES: AutosaveStatus[] = ['invalid', 'error', 'conflict'];
+
+// The editable part of a loaded document
+const toContent = ({ slug, title, seo, blocks }: PageDocument): PageContent => ({ slug, title, seo, blocks });
+
+// Keyboard shortcuts other than save leave text fields to their own undo
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable);
+
+export default function PageEditor() {
+  const router = useRouter();
+  const pageId = typeof router.query.id === 'string' ? router.query.id : null;
+  const { user, signOut } = useSession({ required: true });
+  const history = useHistory<PageContent | null>(null);
+  const { value: page, update, undo, redo, reset } = history;
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [view, setView] = useState<ViewMode>('edit');
+  // Which revision visitors see, saving the draft leaves it alone
+  const [published, setPublished] = useState<PagePublication | undefined>();
+  const [schedule, setSchedule] = useState<PageDocument['schedule']>();
+  const [publishing, setPublishing] = useState(false);
+  const [publishError, setPublishError] = useState<string | null>(null);
+  const readOnly = user?.role === 'viewer';
+
+  const autosave = useAutosave({ pageId: pageId || '', content: page, enabled: Boolean(user) && !readOnly });
+  const { save, reset: markSaved } = autosave;
+  const { assets, remember } = useAssets(page ? pageAssetIds(page) : []);
+  const rememberAll = useCallback((picked: PageAsset[]) => picked.forEach(remember), [remember]);
+
+  const load = useCallback(async () => {
+    if (!pageId) return;
+    setLoadError(null);
+    try {
+      const document = await loadPage(pageId);
+      const content = toContent(document);
+      reset(content);
+      markSaved(content, document.version);
+      setPublished(document.published);
+      setSchedule(document.schedule);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Loading the page failed');
+    }
+  }, [pageId, reset, markSaved]);
+
+  useEffect(() => {
+    if (user) load();
+  }, [user, load]);
+
+  const updateBlocks = useCallback((change: (blocks: Block[]) => Block[], group?: string) => {
+    update(current => {
+      if (!current) return current;
+      const blocks = change(current.blocks);
+      return blocks === current.blocks ? current : { ...current, blocks };
+    }, { group });
+  }, [update]);
+
+  const changeBlock: BlockChange = useCallback((transform, group) => {
+    if (selectedId) updateBlocks(blocks => updateBlock(blocks, selectedId, transform), group);
+  }, [selectedId, updateBlocks]);
+
+  const { savedVersion } = autosave;
+  const changePublication = useCallback(async (publish: boolean) => {
+    if (!pageId) return;
+    setPublishing(true);
+    setPublishError(null);
+    try {
+      const document = await (publish
+        ? publishPage(pageId, savedVersion)
+        : unpublishPage({ id: pageId, version: savedVersion, published, schedule }));
+      setPublished(document.published);
+      setSchedule(document.schedule);
+    } catch (error) {
+      setPublishError(error instanceof Error ? error.message : 'Publishing failed');
+    } finally {
+      setPublishing(false);
+    }
+  }, [pageId, savedVersion, published, schedule]);
+
+  const changePage: PageChange = useCallback((transform, group) => {
+    update(current => (current ? transform(current) : current), { group });
+  }, [update]);
+
+  const canDrop = useCallback((drag: BlockDrag, { parentId }: BlockLocation) => {
+    if (!page) return false;
+    const parent = parentId === null ? null : findBlock(page.blocks, parentId);
+    if (parent && !isContainerBlock(parent)) return false;
+    if (drag.kind === 'move') {
+      const block = findBlock(page.blocks, drag.id);
+      // A block cannot go inside itself
+      if (!block || (parentId !== null && containsBlock(block, parentId))) return false;
+      if (findLocation(page.blocks, drag.id)?.parentId === parentId) return true;
+    }
+    return !(parent?.type === 'columns' && parent.children.length >= MAX_COLUMNS);
+  }, [page]);
+
+  const dropBlock = useCallback((drag: BlockDrag, location: BlockLocation) => {
+    if (drag.kind === 'new') {
+      const block = createBlock(drag.blockType);
+      updateBlocks(blocks => insertBlock(blocks, location, block));
+      setSelectedId(block.id);
+    } else {
+      updateBlocks(blocks => moveBlock(blocks, drag.id, location));
+    }
+  }, [updateBlocks]);
+
+  // Without dragging: into the selected container, after the selected block, or at the end
+  const addBlock = (type: BlockType) => {
+    if (!page) return;
+    const selected = selectedId ? findBlock(page.blocks, selectedId) : undefined;
+    let location: BlockLocation = { parentId: null, index: page.blocks.length };
+    if (selected && isContainerBlock(selected)) {
+      location = { parentId: selected.id, index: selected.children.length };
+    } else if (selected) {
+      const current = findLocation(page.blocks, selected.id);
+      if (current) location = { ...current, index: current.index + 1 };
+    }
+    if (canDrop({ kind: 'new', blockType: type }, location)) {
+      dropBlock({ kind: 'new', blockType: type }, location);
+    }
+  };
+
+  const moveByOffset = useCallback((id: string, offset: -1 | 1) => {
+    updateBlocks(blocks => {
+      const location = findLocation(blocks, id);
+      if (!location) return blocks;
+      // Targets count positions before the block leaves its place
+      const index = offset < 0 ? location.index - 1 : location.index + 2;
+      return index < 0 ? blocks : moveBlock(blocks, id, { ...location, index });
+    });
+  }, [updateBlocks]);
+
+  const duplicate = useCallback((id: string) => {
+    if (!page) return;
+    const { blocks, copyId } = duplicateBlock(page.blocks, id);
+    updateBlocks(() => blocks);
+    if (copyId) setSelectedId(copyId);
+  }, [page, updateBlocks]);
+
+  const remove = useCallback((id: string) => {
+    updateBlocks(blocks => removeBlock(blocks, id));
+    setSelectedId(current => {
+      const removed = page && findBlock(page.blocks, id);
+      return current && removed && containsBlock(removed, current) ? null : current;
+    });
+  }, [page, updateBlocks]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const modifier = event.metaKey || event.ctrlKey;
+      if (modifier && event.key.toLowerCase() === 's') {
+        event.preventDefault();
+        save();
+        return;
+      }
+      if (isTextInput(event.target) || readOnly) return;
+      if (modifier && event.key.toLowerCase() === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) redo(); else undo();
+      } else if (modifier && event.key.toLowerCase() === 'y') {
+        event.preventDefault();
+        redo();
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+        event.preventDefault();
+        remove(selectedId);
+      } else if (event.key === 'Escape') {
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [readOnly, redo, remove, save, selectedId, undo]);
+
+  const selectedBlock = page && selectedId ? findBlock(page.blocks, selectedId) : undefined;
+  const invalidIds = useMemo(
+    () => new Set(autosave.issues.flatMap(issue => (issue.blockId ? [issue.blockId] : []))),
+    [autosave.issues]
+  );
+
+  if (loadError) {
+    return (
+      <div className={styles.centered}>
+        <p>{loadError}</p>
+        <Link href="/editor" className={styles.button}>Back to pages</Link>
+      </div>
+    );
+  }
+  if (!page) {
+    return <div className={styles.centered}>Loading…</div>;
+  }
+
+  return (
+    <div className={styles.editor}>
+      <Head>
+        <title>{`${page.title} - Editor`}</title>
+      </Head>
+
+      <header className={styles.toolbar}>
+        <Link href="/editor" className={styles.button}>← Pages</Link>
+        <h1 className={styles.pageTitle}>{page.title}</h1>
+        <span className={`${styles.status} ${ATTENTION_STATUSES.includes(autosave.status) ? styles.needsAttention : ''}`} role="status">
+          {readOnly ? 'Read only' : STATUS_LABELS[autosave.status]}
+          {autosave.status === 'saved' && autosave.savedAt && ` at ${autosave.savedAt.toLocaleTimeString()}`}
+          {autosave.status === 'error' && autosave.error && `: ${autosave.error}`}
+        </span>
+        {autosave.status === 'error' && <button onClick={save} className={styles.button}>Retry</button>}
+        <span className={`${styles.publishState} ${published ? styles.published : ''}`}>
+          {!published ? 'Draft' : published.version === savedVersion ? 'Published' : 'Unpublished changes'}
+        </span>
+        {published && (
+          <a href={`/${published.slug}`} target="_blank" rel="noopener noreferrer" className={styles.button}>View page</a>
+        )}
+        <a href={`/api/preview?id=${encodeURIComponent(pageId || '')}`} target="_blank" rel="noopener noreferrer" className={styles.button}>
+          Preview
+        </a>
+        <Link href={`/editor/${pageId}/history`} className={styles.button}>History</Link>
+        {!readOnly && (
+          <button
+            onClick={() => changePublication(true)}
+            disabled={publishing || autosave.status !== 'saved' || published?.version === savedVersion}
+            className={styles.button}
+            title={autosave.status === 'saved' ? undefined : 'Save your changes first'}
+          >
+            {published ? 'Publish changes' : 'Publish'}
+          </button>
+        )}
+        {!readOnly && published && (
+          <button onClick={() => changePublication(false)} disabled={publishing} className={styles.button}>Unpublish</button>
+        )}
+        <button onClick={undo} disabled={readOnly || !history.canUndo} className={styles.button} title="Undo (Ctrl+Z)">Undo</button>
+        <button onClick={redo} disabled={readOnly || !history.canRedo} className={styles.button} title="Redo (Ctrl+Shift+Z)">Redo</button>
+        <div className={styles.viewToggle} role="group" aria-label="View">
+          {(Object.keys(VIEW_LABELS) as ViewMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setView(mode)}
+              className={`${styles.button} ${view === mode ? styles.active : ''}`}
+              aria-pressed={view === mode}
+            >
+              {VIEW_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+        {user && <button onClick={signOut} className={styles.button}>Sign out</button>}
+      </header>
+
+      {autosave.status === 'conflict' && (
+        <div className={styles.conflictBanner}>
+          {autosave.error}
+          <button onClick={load} className={styles.button}>Load their version</button>
+          <button onClick={autosave.overwrite} className={`${styles.button} ${styles.danger}`}>Keep mine</button>
+        </div>
+      )}
+      {publishError && (
+        <div className={styles.conflictBanner}>
+          {publishError}
+          <button onClick={() => setPublishError(null)} className={styles.button}>Dismiss</button>
+        </div>
+      )}
+      {autosave.issues.length > 0 && (
+        <ul className={styles.issues}>
+          {autosave.issues.map((issue, index) => (
+            <li key={index}>
+              {issue.blockId ? (
+                <button onClick={() => setSelectedId(issue.blockId!)} className={styles.issueLink}>{issue.message}</button>
+              ) : issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className={styles.workspace}>
+        {view !== 'preview' && (
+          <aside className={styles.palette} aria-label="Blocks">
+            <h2 className={styles.sideTitle}>Blocks</h2>
+            <BlockPalette onAdd={addBlock} disabled={readOnly} />
+          </aside>
+        )}
+        {view !== 'preview' && (
+          <section className={styles.canvas} aria-label="Canvas">
+            <EditorCanvas
+              blocks={page.blocks}
+              selectedId={selectedId}
+              invalidIds={invalidIds}
+              readOnly={readOnly}
+              onSelect={setSelectedId}
+              canDrop={canDrop}
+              onDrop={dropBlock}
+              onMove={moveByOffset}
+              onDuplicate={duplicate}
+              onRemove={remove}
+            />
+          </section>
+        )}
+        {view !== 'edit' && (
+          <section className={styles.preview} aria-label="Preview">
+            <BlockRenderer blocks={page.blocks} assets={assets} sanitizeHtml={previewRichText} />
+          </section>
+        )}
+        {view !== 'preview' && (
+          <aside className={styles.settings} aria-label="Settings">
+            {selectedBlock ? (
+              <BlockSettings
+                key={selectedBlock.id}
+                block={selectedBlock}
+                onChange={changeBlock}
+                assets={assets}
+                onAssetsPicked={rememberAll}
+                readOnly={readOnly}
+                canUpload={!readOnly}
+              />
+            ) : (
+              <PageSettings
+                page={page}
+                onChange={changePage}
+                assets={assets}
+                onAssetsPicked={rememberAll}
+                readOnly={readOnly}
+                canUpload={!readOnly}
+              />
+            )}
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { PageSummary } from '@next-page-builder/contracts';
+import { useSession } from '@/lib/auth/useSession';
+import { createPage, deletePage, listPages } from '@/lib/pages/pageRequests';
+import styles from './index.module.css';
+
+// Suggests an address from the title, e.g. "Launch day!" -> launch-day
+const toSlug = (title: string) => title
+  .toLowerCase()
+  .normalize('NFKD')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+export default function PageList() {
+  const router = useRouter();
+  const { user, signOut } = useSession({ required: true });
+  const [pages, setPages] = useState<PageSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [title, setTitle] = useState('');
+  const [slug, setSlug] = useState('');
+  // Until the slug is typed in by hand it follows the title
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const isEditor = user?.role === 'editor' || user?.role === 'admin';
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setPages(await listPages());
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Loading pages failed');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) reload();
+  }, [user, reload]);
+
+  const create = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setCreating(true);
+    setMessage(null);
+    try {
+      const page = await createPage({ title, slug, blocks: [] });
+      router.push(`/editor/${page.id}`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Creating the page failed');
+      setCreating(false);
+    }
+  };
+
+  const remove = async (page: PageSummary) => {
+    if (!window.confirm(`Delete "${page.title}"? This cannot be undone.`)) return;
+    try {
+      await deletePage(page.id);
+      setPages(prev => prev.filter(item => item.id !== page.id));
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Deleting the page failed');
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <Head>
+        <title>Pages</title>
+      </Head>
+
+      <main className={styles.main}>
+        <header className={styles.header}>
+          <h1 className={styles.title}>Pages</h1>
+          {user && (
+            <div className={styles.session}>
+              Signed in as {user.name} ({user.role}, {user.workspace})
+              <Link href="/media" className={styles.button}>Media library</Link>
+              <button onClick={signOut} className={styles.button}>Sign out</button>
+            </div>
+          )}
+        </header>
+
+        <section className={styles.panel}>
+          {isEditor && (
+            <form className={styles.createForm} onSubmit={create}>
+              <input
+                value={title}
+                onChange={(event) => {
+                  setTitle(event.target.value);
+                  if (!slugEdited) setSlug(toSlug(event.target.value));
+                }}
+                placeholder="Title of the new page"
+                className={styles.input}
+                required
+              />
+              <input
+                value={slug}
+                onChange={(event) => {
+                  setSlug(event.target.value);
+                  setSlugEdited(true);
+                }}
+                placeholder="address, e.g. about"
+                className={styles.input}
+                required
+              />
+              <button type="submit" disabled={creating} className={`${styles.button} ${styles.primary}`}>
+                {creating ? 'Creating…' : 'New page'}
+              </button>
+            </form>
+          )}
+
+          {message && (
+            <div className={styles.error}>
+              {message}
+              <button onClick={() => setMessage(null)} className={styles.button}>Dismiss</button>
+            </div>
+          )}
+
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Title</th>
+                <th>Address</th>
+                <th>Status</th>
+                <th>Version</th>
+                <th>Updated</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {pages.map(page => (
+                <tr key={page.id}>
+                  <td><Link href={`/editor/${page.id}`}>{page.title}</Link></td>
+                  <td className={styles.mono}>/{page.slug}</td>
+                  <td>
+                    {page.published
+                      ? <a href={`/${page.published.slug}`} target="_blank" rel="noopener noreferrer">
+                          {page.published.version === page.version ? 'Published' : 'Unpublished changes'}
+                        </a>
+                      : 'Draft'}
+                    {page.schedule?.publishAt && ` · publishes ${formatDate(page.schedule.publishAt)}`}
+                    {page.schedule?.unpublishAt && ` · unpublishes ${formatDate(page.schedule.unpublishAt)}`}
+                  </td>
+                  <td>{page.version}</td>
+                  <td>{formatDate(page.updatedAt)}</td>
+                  <td className={styles.actions}>
+                    <Link href={`/editor/${page.id}`} className={styles.button}>{isEditor ? 'Edit' : 'View'}</Link>
+                    {isEditor && (
+                      <button onClick={() => remove(page)} className={`${styles.button} ${styles.danger}`}>Delete</button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {loading && <p className={styles.status}>Loading…</p>}
+          {!loading && pages.length === 0 && <p className={styles.status}>No pages yet</p>}
+        </section>
+      </main>
+    </div>
+  );
+}
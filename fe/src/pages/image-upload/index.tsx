@@ -1,115 +1,179 @@
 // pages/index.tsx
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import Head from 'next/head';
 import Image from 'next/image';
+import Link from 'next/link';
+import { ImageMetadataInput, UploadResponse, UploadedFile, parseUploadResponse } from '@next-page-builder/contracts';
+import { ImageMetadataEditor, ImageMetadataFields } from '@/components/images/ImageMetadataEditor';
+import { useSession } from '@/lib/auth/useSession';
+import { useFileDrop } from '@/lib/dnd/useFileDrop';
+import { formatFileSize } from '@/lib/images/formatFileSize';
+import { EMPTY_DRAFT, MetadataDraft, fromDraft } from '@/lib/images/metadataDraft';
+import { SORT_OPTIONS, useImageList } from '@/lib/images/useImageList';
+import { createVariantLoader } from '@/lib/images/variantLoader';
+import { uploadResumable } from '@/lib/uploads/resumableUpload';
+import { useStorageUsage } from '@/lib/uploads/useStorageUsage';
+import { UploadContext, UploadJob, UploadOutcome, useUploadQueue } from '@/lib/uploads/useUploadQueue';
+import { postFormWithProgress } from '@/lib/uploads/xhrUpload';
 import styles from './index.module.css';
 
-interface UploadedFile {
-  id: string;
-  originalName: string;
-  filename: string;
-  url: string;
-  size: number;
-  mimetype: string;
-}
+// Files above the backend's single-request limit go through the resumable protocol
+const RESUMABLE_THRESHOLD = Number(process.env.UPLOAD_MAX_FILE_SIZE) || 5 * 1024 * 1024;
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+
+const PAGE_SIZE = 24;
 
-interface UploadResponse {
-  success: boolean;
-  message: string;
-  files?: UploadedFile[];
-  error?: string;
+const STATUS_LABELS: Record<UploadJob<UploadedFile[]>['status'], string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  validating: 'Validating',
+  done: 'Done',
+  rejected: 'Rejected',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// Each rejected file is listed with its own reason, pick out the one for this file
+const rejectionReason = (result: UploadResponse, fileName: string): string => {
+  const entry = result.rejected?.find(item => item.originalName === fileName);
+  return entry ? entry.reason : result.message || 'Upload failed';
+};
+
+// What is sent along with a queued file
+interface FileUploadOptions {
+  metadata?: ImageMetadataInput;
+  // Keep camera metadata (location, serial numbers) instead of letting the backend strip it
+  preserveMetadata?: boolean;
 }
 
+// Sends a single file with its metadata and maps the backend's answer onto that file
+const uploadSingleFile = async (
+  file: File,
+  { onProgress, signal }: UploadContext,
+  { metadata, preserveMetadata }: FileUploadOptions = {}
+): Promise<UploadOutcome<UploadedFile[]>> => {
+  let status: number;
+  let body: unknown;
+
+  if (file.size > RESUMABLE_THRESHOLD) {
+    // Large files are sent in chunks and resume automatically after a failure
+    body = await uploadResumable<unknown>(file, { metadata, preserveMetadata, onProgress, signal });
+    // Server errors are retried and eventually thrown inside uploadResumable
+    status = 200;
+  } else {
+    const formData = new FormData();
+    if (metadata) {
+      formData.append('metadata', JSON.stringify({ [file.name]: metadata }));
+    }
+    if (preserveMetadata) {
+      formData.append('preserveMetadata', 'true');
+    }
+    formData.append('images', file);
+    ({ status, body } = await postFormWithProgress<unknown>('/api/upload-multipart', formData, { onProgress, signal }));
+  }
+
+  if (!body) {
+    throw new Error(`Upload failed with status ${status}`);
+  }
+  // Throws when the server speaks a different contract version, which fails the job
+  const result = parseUploadResponse(body);
+
+  if (result.success && result.files && result.files.length > 0) {
+    return { status: 'done', result: result.files };
+  }
+  if (status >= 500 || result.code === 'INTERNAL_ERROR') {
+    throw new Error(result.error || result.message);
+  }
+  return { status: 'rejected', reason: rejectionReason(result, file.name) };
+};
+
 export default function UploadImage() {
+  const { user, signOut } = useSession({ required: true });
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
+  // Metadata typed in for each selected file, in the same order
+  const [drafts, setDrafts] = useState<MetadataDraft[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(3);
+  const [preserveMetadata, setPreserveMetadata] = useState(false);
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [sortOption, setSortOption] = useState('newest');
   const [message, setMessage] = useState('');
-  const [dragOver, setDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Metadata to send with each queued file, kept for retries
+  const optionsByFile = useRef(new WeakMap<File, FileUploadOptions>());
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files;
+  const { sort, order } = SORT_OPTIONS[sortOption];
+  const gallery = useImageList({ limit: PAGE_SIZE, sort, order, q: query }, { enabled: Boolean(user) });
+  const { hasMore, loadMore, reload, replaceImage } = gallery;
+  const storage = useStorageUsage({ enabled: Boolean(user) });
+
+  const { jobs, addFiles, cancel, retry, remove, clearFinished } = useUploadQueue<UploadedFile[]>({
+    concurrency,
+    upload: (file, context) => uploadSingleFile(file, context, optionsByFile.current.get(file)),
+    // Where a new image lands depends on the sort and filters, let the server place it
+    onDone: () => {
+      reload();
+      storage.reload();
+    },
+  });
+
+  // Search as the user types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Fetch the next page once the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  const selectFiles = (files: FileList | null) => {
     setSelectedFiles(files);
+    setDrafts(Array.from(files || [], () => EMPTY_DRAFT));
   };
 
-  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
-    event.preventDefault();
-    setDragOver(false);
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    selectFiles(event.target.files);
+  };
 
-    const files = event.dataTransfer.files;
-    setSelectedFiles(files);
+  const fileDrop = useFileDrop((files) => {
+    selectFiles(files);
 
     // Update the file input
     if (fileInputRef.current) {
       fileInputRef.current.files = files;
     }
-  };
-
-  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
-    event.preventDefault();
-    setDragOver(true);
-  };
-
-  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
-    event.preventDefault();
-    setDragOver(false);
-  };
+  });
 
-  const uploadFiles = async () => {
+  const uploadFiles = () => {
     if (!selectedFiles || selectedFiles.length === 0) {
       setMessage('Please select files to upload');
       return;
     }
 
-    setUploading(true);
     setMessage('');
+    Array.from(selectedFiles).forEach((file, index) => {
+      optionsByFile.current.set(file, { metadata: fromDraft(drafts[index] || EMPTY_DRAFT), preserveMetadata });
+    });
+    addFiles(Array.from(selectedFiles));
+    selectFiles(null);
 
-    try {
-      const formData = new FormData();
-
-      formData.append('title', 'upload image');
-
-      // Add all selected files to FormData
-      for (let i = 0; i < selectedFiles.length; i++) {
-        formData.append('images', selectedFiles[i]);
-      }
-
-      const response = await fetch('/api/upload-multipart', {
-        method: 'POST',
-        body: formData,
-      });
-
-      const result: UploadResponse = await response.json();
-
-      if (result.success && result.files) {
-        setUploadedFiles(prev => [...prev, ...result.files!]);
-        setMessage(`Successfully uploaded ${result.files.length} file(s)`);
-        setSelectedFiles(null);
-
-        // Reset file input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = '';
-        }
-      } else {
-        setMessage(result.error || result.message || 'Upload failed');
-      }
-    } catch (error) {
-      console.error('Upload error:', error);
-      setMessage('Upload failed. Please try again.');
-    } finally {
-      setUploading(false);
+    // Reset file input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   return (
     <div className={styles.container}>
       <Head>
@@ -120,13 +184,24 @@ export default function UploadImage() {
 
       <main className={styles.main}>
         <h1 className={styles.title}>Image Upload Platform</h1>
+        {user && (
+          <p className={styles.session}>
+            Signed in as {user.name} ({user.role}, {user.workspace})
+            <Link href="/media" className={styles.smallButton}>Media library</Link>
+            <Link href="/editor" className={styles.smallButton}>Pages</Link>
+            <button onClick={signOut} className={styles.smallButton}>Sign out</button>
+          </p>
+        )}
+        {storage.usage && storage.usage.quotaBytes !== null && (
+          <p className={styles.usage}>
+            {formatFileSize(storage.usage.usedBytes)} of {formatFileSize(storage.usage.quotaBytes)} storage used
+          </p>
+        )}
 
         <div className={styles.uploadSection}>
           <div
-            className={`${styles.dropZone} ${dragOver ? styles.dragOver : ''}`}
-            onDrop={handleDrop}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
+            className={`${styles.dropZone} ${fileDrop.isOver ? styles.dragOver : ''}`}
+            {...fileDrop.dropProps}
             onClick={() => fileInputRef.current?.click()}
           >
             <div className={styles.dropZoneContent}>
@@ -147,51 +222,176 @@ export default function UploadImage() {
               <h3>Selected Files:</h3>
               <ul>
                 {Array.from(selectedFiles).map((file, index) => (
-                  <li key={index}>
-                    {file.name} ({formatFileSize(file.size)})
+                  <li key={index} className={styles.selectedFile}>
+                    <span>{file.name} ({formatFileSize(file.size)})</span>
+                    <ImageMetadataFields
+                      value={drafts[index] || EMPTY_DRAFT}
+                      onChange={(draft) => setDrafts(prev => prev.map((item, i) => (i === index ? draft : item)))}
+                    />
                   </li>
                 ))}
               </ul>
             </div>
           )}
 
+          <div className={styles.concurrency}>
+            <label className={styles.preserveMetadata}>
+              <input
+                type="checkbox"
+                checked={preserveMetadata}
+                onChange={(event) => setPreserveMetadata(event.target.checked)}
+              />
+              Keep camera metadata (location, serial numbers)
+            </label>
+            <label htmlFor="concurrency">Parallel uploads</label>
+            <select
+              id="concurrency"
+              value={concurrency}
+              onChange={(event) => setConcurrency(Number(event.target.value))}
+            >
+              {CONCURRENCY_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+
           <button
             onClick={uploadFiles}
-            disabled={uploading || !selectedFiles || selectedFiles.length === 0}
+            disabled={!selectedFiles || selectedFiles.length === 0}
             className={styles.uploadButton}
           >
-            {uploading ? 'Uploading...' : 'Upload Images'}
+            Upload Images
           </button>
 
           {message && (
-            <div className={`${styles.message} ${message.includes('Success') ? styles.success : styles.error}`}>
+            <div className={`${styles.message} ${styles.error}`}>
               {message}
             </div>
           )}
+
+          {jobs.length > 0 && (
+            <div className={styles.jobList}>
+              <div className={styles.jobListHeader}>
+                <h3>Uploads</h3>
+                <button onClick={clearFinished} className={styles.smallButton}>
+                  Clear finished
+                </button>
+              </div>
+              <ul>
+                {jobs.map(job => (
+                  <li key={job.id} className={`${styles.jobRow} ${styles[job.status] || ''}`}>
+                    <div className={styles.jobHeader}>
+                      <span className={styles.jobName}>{job.file.name}</span>
+                      <span className={styles.jobStatus}>
+                        {STATUS_LABELS[job.status]}
+                        {job.status === 'uploading' && ` ${Math.round((job.bytesSent / job.file.size) * 100)}%`}
+                        {job.status === 'done' && job.result?.some(file => file.duplicate) && ' (already uploaded)'}
+                      </span>
+                    </div>
+                    <div className={styles.progressTrack}>
+                      <div
+                        className={styles.progressBar}
+                        style={{ width: `${job.file.size > 0 ? (job.bytesSent / job.file.size) * 100 : 0}%` }}
+                      />
+                    </div>
+                    {job.error && <p className={styles.jobError}>{job.error}</p>}
+                    <div className={styles.jobActions}>
+                      {['queued', 'uploading', 'validating'].includes(job.status) && (
+                        <button onClick={() => cancel(job.id)} className={styles.smallButton}>Cancel</button>
+                      )}
+                      {['failed', 'cancelled'].includes(job.status) && (
+                        <button onClick={() => retry(job.id)} className={styles.smallButton}>Retry</button>
+                      )}
+                      {['done', 'rejected', 'failed', 'cancelled'].includes(job.status) && (
+                        <button onClick={() => remove(job.id)} className={styles.smallButton}>Remove</button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
-        {uploadedFiles.length > 0 && (
+        {user && (
           <div className={styles.gallery}>
-            <h2>Uploaded Images</h2>
+            <h2>Image Library</h2>
+            <div className={styles.galleryToolbar}>
+              <input
+                type="search"
+                value={search}
+                onChange={(event) => setSearch(event.target.value)}
+                placeholder="Search by filename"
+                className={styles.searchInput}
+              />
+              <select value={sortOption} onChange={(event) => setSortOption(event.target.value)}>
+                {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+                  <option key={value} value={value}>{option.label}</option>
+                ))}
+              </select>
+              <span className={styles.galleryCount}>
+                {gallery.images.length} of {gallery.total}
+              </span>
+            </div>
             <div className={styles.imageGrid}>
-              {uploadedFiles.map((file) => (
-                <div key={file.id} className={styles.imageCard}>
+              {gallery.images.map((image) => (
+                <div key={image.id} className={styles.imageCard}>
                   <div className={styles.imageWrapper}>
                     <Image
-                      src={file.url}
-                      alt={file.originalName}
+                      src={image.url}
+                      loader={createVariantLoader(image.variants)}
+                      alt={image.altText || ''}
                       width={300}
                       height={200}
+                      sizes="(max-width: 768px) 100vw, 300px"
                       style={{ objectFit: 'cover' }}
                     />
                   </div>
                   <div className={styles.imageInfo}>
-                    <p className={styles.fileName}>{file.originalName}</p>
-                    <p className={styles.fileSize}>{formatFileSize(file.size)}</p>
+                    <p className={styles.fileName}>{image.originalName}</p>
+                    <p className={styles.fileSize}>{formatFileSize(image.size)}</p>
+                    {editingId === image.id ? (
+                      <ImageMetadataEditor
+                        image={image}
+                        onSaved={(updated) => {
+                          replaceImage(updated);
+                          setEditingId(null);
+                        }}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    ) : (
+                      <>
+                        {image.caption && <p className={styles.caption}>{image.caption}</p>}
+                        {!image.altText && <p className={styles.missingAlt}>No alt text</p>}
+                        {image.tags.length > 0 && (
+                          <ul className={styles.tags}>
+                            {image.tags.map(tag => <li key={tag}>{tag}</li>)}
+                          </ul>
+                        )}
+                        {user?.role !== 'viewer' && (
+                          <button onClick={() => setEditingId(image.id)} className={styles.smallButton}>
+                            Edit details
+                          </button>
+                        )}
+                      </>
+                    )}
                   </div>
                 </div>
               ))}
             </div>
+            {gallery.error && (
+              <div className={`${styles.message} ${styles.error}`}>
+                {gallery.error}
+                <button onClick={gallery.hasMore ? gallery.loadMore : gallery.reload} className={styles.smallButton}>
+                  Try again
+                </button>
+              </div>
+            )}
+            {gallery.loading && <p className={styles.galleryStatus}>Loading…</p>}
+            {!gallery.loading && !gallery.error && gallery.images.length === 0 && (
+              <p className={styles.galleryStatus}>{query ? 'No images match your search' : 'No images yet'}</p>
+            )}
+            <div ref={sentinelRef} />
           </div>
         )}
       </main>
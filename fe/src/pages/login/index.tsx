@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import styles from './index.module.css';
+
+// Only same-site paths, so ?next= cannot bounce people to another site
+const safeNext = (next: unknown) =>
+  typeof next === 'string' && next.startsWith('/') && !next.startsWith('//') ? next : '/image-upload';
+
+export default function Login() {
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const signIn = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        setError(result.message || 'Sign in failed');
+        return;
+      }
+      router.replace(safeNext(router.query.next));
+    } catch {
+      setError('Could not reach the server');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <Head>
+        <title>Sign in</title>
+      </Head>
+
+      <main className={styles.main}>
+        <form className={styles.card} onSubmit={signIn}>
+          <h1 className={styles.title}>Sign in</h1>
+          <label className={styles.field}>
+            Username
+            <input
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+              autoComplete="username"
+              required
+            />
+          </label>
+          <label className={styles.field}>
+            Password
+            <input
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              autoComplete="current-password"
+              required
+            />
+          </label>
+          {error && <p className={styles.error}>{error}</p>}
+          <button type="submit" disabled={submitting} className={styles.button}>
+            {submitting ? 'Signing in...' : 'Sign in'}
+          </button>
+        </form>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,467 @@
+import { Fragment, useEffect, useRef, useState } from 'react';
+import Head from 'next/head';
+import Image from 'next/image';
+import Link from 'next/link';
+import { ImageSummary, ImageUsage } from '@next-page-builder/contracts';
+import { ImageMetadataEditor } from '@/components/images/ImageMetadataEditor';
+import { useSession } from '@/lib/auth/useSession';
+import { DeleteOutcome, deleteImages } from '@/lib/images/deleteImages';
+import { formatFileSize } from '@/lib/images/formatFileSize';
+import { loadImageUsages } from '@/lib/images/imageUsages';
+import { SORT_OPTIONS, useImageList } from '@/lib/images/useImageList';
+import { createVariantLoader } from '@/lib/images/variantLoader';
+import styles from './index.module.css';
+
+const PAGE_SIZE = 48;
+
+type ViewMode = 'grid' | 'list';
+
+const formatDimensions = (image: ImageSummary) =>
+  image.width && image.height ? `${image.width} × ${image.height}` : '—';
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const describeUsage = (usage: ImageUsage) => {
+  const shown = [usage.draft && 'draft', usage.published && 'published'].filter(Boolean);
+  return shown.length > 0 ? shown.join(' and ') : `only revision${usage.revisions.length === 1 ? '' : 's'} ${usage.revisions.join(', ')}`;
+};
+
+export default function MediaLibrary() {
+  const { user, signOut } = useSession({ required: true });
+  const [view, setView] = useState<ViewMode>('grid');
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState('');
+  const [sortOption, setSortOption] = useState('newest');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [detailId, setDetailId] = useState<string | null>(null);
+  // Ids waiting for the user to confirm the delete
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  // Of those, the ones refused because pages still show them
+  const [inUse, setInUse] = useState<DeleteOutcome['inUse']>([]);
+  const [usages, setUsages] = useState<ImageUsage[] | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const { sort, order } = SORT_OPTIONS[sortOption];
+  const library = useImageList({ limit: PAGE_SIZE, sort, order, q: query }, { enabled: Boolean(user) });
+  const { images, hasMore, loadMore, reload, removeImages, replaceImage } = library;
+  const isEditor = user?.role === 'editor' || user?.role === 'admin';
+  const detail = images.find(image => image.id === detailId);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // A new search or ordering starts from a clean selection
+  useEffect(() => {
+    setSelected(new Set());
+  }, [query, sortOption]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+  useEffect(() => {
+    setCopied(false);
+    setEditing(false);
+    setUsages(null);
+    if (!detailId) return;
+    let cancelled = false;
+    loadImageUsages(detailId)
+      .then(result => {
+        if (!cancelled) setUsages(result.usages);
+      })
+      .catch(() => {
+        if (!cancelled) setUsages([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [detailId]);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = images.length > 0 && images.every(image => selected.has(image.id));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(images.map(image => image.id)));
+
+  const copyUrl = async (image: ImageSummary) => {
+    try {
+      await navigator.clipboard.writeText(image.url);
+      setCopied(true);
+    } catch {
+      setMessage({ text: 'Could not copy to the clipboard', error: true });
+    }
+  };
+
+  const closeDialog = () => {
+    setPendingDelete(null);
+    setInUse([]);
+  };
+
+  // Images pages still show come back for a second confirmation, then go with `force`
+  const confirmDelete = async (force: boolean) => {
+    if (!pendingDelete) return;
+    setDeleting(true);
+    const outcome = await deleteImages(pendingDelete, { force });
+    setDeleting(false);
+    setInUse(outcome.inUse);
+    setPendingDelete(outcome.inUse.length > 0 ? outcome.inUse.map(entry => entry.id) : null);
+    const kept = (id: string) => outcome.failed.some(failure => failure.id === id) || outcome.inUse.some(entry => entry.id === id);
+
+    removeImages(outcome.deleted);
+    if (outcome.released.length > 0) {
+      // Still stored for other uploads, refetch to pick up their new reference counts
+      reload();
+    }
+    setSelected(prev => new Set([...prev].filter(kept)));
+    if (detailId && !kept(detailId)) {
+      setDetailId(null);
+    }
+
+    const done = outcome.deleted.length + outcome.released.length;
+    if (outcome.failed.length > 0) {
+      const names = outcome.failed
+        .map(failure => `${images.find(image => image.id === failure.id)?.originalName || failure.id} - ${failure.message}`)
+        .join(', ');
+      setMessage({ text: `Deleted ${done}, failed ${outcome.failed.length}: ${names}`, error: true });
+    } else if (done > 0 || outcome.inUse.length === 0) {
+      setMessage({ text: `Deleted ${done} image${done === 1 ? '' : 's'}`, error: false });
+    }
+  };
+
+  const nameOf = (id: string) => images.find(image => image.id === id)?.originalName || id;
+  const pendingNames = (pendingDelete || []).map(nameOf);
+
+  return (
+    <div className={styles.container}>
+      <Head>
+        <title>Media Library</title>
+        <meta name="description" content="Browse and manage uploaded images" />
+      </Head>
+
+      <main className={styles.main}>
+        <header className={styles.header}>
+          <h1 className={styles.title}>Media Library</h1>
+          {user && (
+            <div className={styles.session}>
+              Signed in as {user.name} ({user.role}, {user.workspace})
+              <Link href="/image-upload" className={styles.button}>Upload images</Link>
+              <Link href="/editor" className={styles.button}>Pages</Link>
+              <button onClick={signOut} className={styles.button}>Sign out</button>
+            </div>
+          )}
+        </header>
+
+        <section className={styles.panel}>
+          <div className={styles.toolbar}>
+            <input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Search by filename"
+              className={styles.searchInput}
+            />
+            <select value={sortOption} onChange={(event) => setSortOption(event.target.value)}>
+              {Object.entries(SORT_OPTIONS).map(([value, option]) => (
+                <option key={value} value={value}>{option.label}</option>
+              ))}
+            </select>
+            <div className={styles.viewToggle} role="group" aria-label="View">
+              <button
+                onClick={() => setView('grid')}
+                className={`${styles.button} ${view === 'grid' ? styles.active : ''}`}
+                aria-pressed={view === 'grid'}
+              >
+                Grid
+              </button>
+              <button
+                onClick={() => setView('list')}
+                className={`${styles.button} ${view === 'list' ? styles.active : ''}`}
+                aria-pressed={view === 'list'}
+              >
+                List
+              </button>
+            </div>
+          </div>
+
+          <div className={styles.selectionBar}>
+            <label>
+              <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={images.length === 0} />
+              {' '}{selected.size > 0 ? `${selected.size} selected` : 'Select all'}
+            </label>
+            <span className={styles.count}>{images.length} of {library.total}</span>
+            {isEditor && (
+              <button
+                onClick={() => setPendingDelete([...selected])}
+                disabled={selected.size === 0}
+                className={`${styles.button} ${styles.danger}`}
+              >
+                Delete selected
+              </button>
+            )}
+          </div>
+
+          {message && (
+            <div className={`${styles.message} ${message.error ? styles.error : styles.success}`}>
+              {message.text}
+              <button onClick={() => setMessage(null)} className={styles.button}>Dismiss</button>
+            </div>
+          )}
+
+          {view === 'grid' ? (
+            <div className={styles.grid}>
+              {images.map(image => (
+                <div
+                  key={image.id}
+                  className={`${styles.card} ${selected.has(image.id) ? styles.selected : ''}`}
+                  onClick={() => setDetailId(image.id)}
+                >
+                  <input
+                    type="checkbox"
+                    className={styles.cardCheckbox}
+                    checked={selected.has(image.id)}
+                    onChange={() => toggleSelected(image.id)}
+                    onClick={(event) => event.stopPropagation()}
+                    aria-label={`Select ${image.originalName}`}
+                  />
+                  <div className={styles.thumb}>
+                    <Image
+                      src={image.url}
+                      loader={createVariantLoader(image.variants)}
+                      alt={image.altText || ''}
+                      fill
+                      sizes="200px"
+                      style={{ objectFit: 'cover' }}
+                    />
+                  </div>
+                  <p className={styles.cardName}>{image.originalName}</p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th />
+                  <th />
+                  <th>Name</th>
+                  <th>Type</th>
+                  <th>Dimensions</th>
+                  <th>Size</th>
+                  <th>Uploaded</th>
+                </tr>
+              </thead>
+              <tbody>
+                {images.map(image => (
+                  <tr
+                    key={image.id}
+                    className={selected.has(image.id) ? styles.selected : ''}
+                    onClick={() => setDetailId(image.id)}
+                  >
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={selected.has(image.id)}
+                        onChange={() => toggleSelected(image.id)}
+                        onClick={(event) => event.stopPropagation()}
+                        aria-label={`Select ${image.originalName}`}
+                      />
+                    </td>
+                    <td className={styles.rowThumb}>
+                      <Image
+                        src={image.url}
+                        loader={createVariantLoader(image.variants)}
+                        alt=""
+                        width={48}
+                        height={48}
+                        style={{ objectFit: 'cover' }}
+                      />
+                    </td>
+                    <td>{image.originalName}</td>
+                    <td>{image.mimetype}</td>
+                    <td>{formatDimensions(image)}</td>
+                    <td>{formatFileSize(image.size)}</td>
+                    <td>{formatDate(image.uploadDate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {library.error && (
+            <div className={`${styles.message} ${styles.error}`}>
+              {library.error}
+              <button onClick={hasMore ? loadMore : reload} className={styles.button}>Try again</button>
+            </div>
+          )}
+          {library.loading && <p className={styles.status}>Loading…</p>}
+          {!library.loading && !library.error && images.length === 0 && (
+            <p className={styles.status}>{query ? 'No images match your search' : 'No images yet'}</p>
+          )}
+          <div ref={sentinelRef} />
+        </section>
+      </main>
+
+      {detail && (
+        <aside className={styles.drawer} aria-label="Image details">
+          <div className={styles.drawerHeader}>
+            <h2>{detail.originalName}</h2>
+            <button onClick={() => setDetailId(null)} className={styles.button} aria-label="Close details">Close</button>
+          </div>
+          <div className={styles.preview}>
+            <Image
+              src={detail.url}
+              loader={createVariantLoader(detail.variants)}
+              alt={detail.altText || ''}
+              fill
+              sizes="400px"
+              style={{ objectFit: 'contain' }}
+            />
+          </div>
+          {editing ? (
+            <div className={styles.editor}>
+              <ImageMetadataEditor
+                image={detail}
+                onSaved={(updated) => {
+                  replaceImage(updated);
+                  setEditing(false);
+                }}
+                onCancel={() => setEditing(false)}
+              />
+            </div>
+          ) : (
+            <dl className={styles.metadata}>
+              <dt>Alt text</dt>
+              <dd>{detail.altText || <span className={styles.missing}>Missing</span>}</dd>
+              <dt>Caption</dt>
+              <dd>{detail.caption || '—'}</dd>
+              <dt>Tags</dt>
+              <dd>{detail.tags.length > 0 ? detail.tags.join(', ') : '—'}</dd>
+              {Object.entries(detail.properties).map(([key, value]) => (
+                <Fragment key={key}>
+                  <dt>{key}</dt>
+                  <dd>{value}</dd>
+                </Fragment>
+              ))}
+            </dl>
+          )}
+          <dl className={styles.metadata}>
+            <dt>Type</dt>
+            <dd>{detail.mimetype}</dd>
+            <dt>Dimensions</dt>
+            <dd>{formatDimensions(detail)}</dd>
+            <dt>Size</dt>
+            <dd>{formatFileSize(detail.size)}</dd>
+            <dt>Uploaded</dt>
+            <dd>{formatDate(detail.uploadDate)}</dd>
+            <dt>References</dt>
+            <dd>{detail.refCount}</dd>
+            <dt>Used on</dt>
+            <dd>
+              {usages === null && 'Loading…'}
+              {usages?.length === 0 && 'No pages'}
+              {usages && usages.length > 0 && (
+                <ul className={styles.usageList}>
+                  {usages.map(usage => (
+                    <li key={usage.pageId}>
+                      <Link href={`/editor/${usage.pageId}`}>{usage.title}</Link> ({describeUsage(usage)})
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </dd>
+            <dt>Checksum</dt>
+            <dd className={styles.mono}>{detail.checksum}</dd>
+            <dt>URL</dt>
+            <dd className={styles.mono}>{detail.url}</dd>
+          </dl>
+          <div className={styles.drawerActions}>
+            <button onClick={() => copyUrl(detail)} className={styles.button}>
+              {copied ? 'Copied' : 'Copy URL'}
+            </button>
+            {isEditor && !editing && (
+              <button onClick={() => setEditing(true)} className={styles.button}>Edit details</button>
+            )}
+            {isEditor && (
+              <button onClick={() => setPendingDelete([detail.id])} className={`${styles.button} ${styles.danger}`}>
+                Delete
+              </button>
+            )}
+          </div>
+        </aside>
+      )}
+
+      {pendingDelete && (
+        <div className={styles.overlay}>
+          {inUse.length > 0 ? (
+            <div className={styles.dialog} role="alertdialog" aria-modal="true" aria-labelledby="confirm-delete-title">
+              <h2 id="confirm-delete-title">
+                {inUse.length === 1 ? '1 image is' : `${inUse.length} images are`} still used on pages
+              </h2>
+              <ul className={styles.dialogList}>
+                {inUse.slice(0, 5).map(entry => (
+                  <li key={entry.id}>
+                    {nameOf(entry.id)}:{' '}
+                    {entry.usages
+                      .filter(usage => usage.draft || usage.published)
+                      .map(usage => `${usage.title} (${describeUsage(usage)})`)
+                      .join(', ')}
+                  </li>
+                ))}
+                {inUse.length > 5 && <li>and {inUse.length - 5} more</li>}
+              </ul>
+              <p>Deleting them anyway leaves broken images on those pages. This cannot be undone.</p>
+              <div className={styles.dialogActions}>
+                <button onClick={closeDialog} disabled={deleting} className={styles.button}>
+                  Keep them
+                </button>
+                <button onClick={() => confirmDelete(true)} disabled={deleting} className={`${styles.button} ${styles.danger}`}>
+                  {deleting ? 'Deleting…' : 'Delete anyway'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className={styles.dialog} role="alertdialog" aria-modal="true" aria-labelledby="confirm-delete-title">
+              <h2 id="confirm-delete-title">
+                Delete {pendingDelete.length} image{pendingDelete.length === 1 ? '' : 's'}?
+              </h2>
+              <ul className={styles.dialogList}>
+                {pendingNames.slice(0, 5).map((name, index) => <li key={index}>{name}</li>)}
+                {pendingNames.length > 5 && <li>and {pendingNames.length - 5} more</li>}
+              </ul>
+              <p>Images that pages still show are kept until you confirm again. This cannot be undone.</p>
+              <div className={styles.dialogActions}>
+                <button onClick={closeDialog} disabled={deleting} className={styles.button}>
+                  Cancel
+                </button>
+                <button onClick={() => confirmDelete(false)} disabled={deleting} className={`${styles.button} ${styles.danger}`}>
+                  {deleting ? 'Deleting…' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
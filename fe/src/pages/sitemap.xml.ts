@@ -0,0 +1,36 @@
+import type { GetServerSideProps } from 'next';
+import { getConfig } from '@/lib/config';
+import { listPublishedPages } from '@/lib/pages/publishedPages';
+
+const escapeXml = (value: string) => value.replace(/[<>&'"]/g, char => `&#${char.charCodeAt(0)};`);
+
+// Published pages of the site, minus the ones marked noIndex. Shared caches keep it for as
+// long as the pages themselves, so it is not rebuilt for every crawler.
+export const getServerSideProps: GetServerSideProps = async ({ res }) => {
+  const { site } = getConfig();
+  const origin = site.url.replace(/\/+$/, '');
+  const entries = (await listPublishedPages())
+    .filter(page => !page.noIndex)
+    .map(page => [
+      '  <url>',
+      `    <loc>${escapeXml(`${origin}/${page.slug}`)}</loc>`,
+      `    <lastmod>${page.updatedAt}</lastmod>`,
+      '  </url>',
+    ].join('\n'));
+
+  res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+  res.setHeader('Cache-Control', `public, s-maxage=${site.revalidateSeconds}, stale-while-revalidate`);
+  res.end([
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</urlset>',
+    '',
+  ].join('\n'));
+  return { props: {} };
+};
+
+// The response is written in getServerSideProps, there is nothing to render
+export default function Sitemap() {
+  return null;
+}